@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."CreatedToken" ADD COLUMN     "tokenProgram" TEXT NOT NULL DEFAULT 'spl-token';
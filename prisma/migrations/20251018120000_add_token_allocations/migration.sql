@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."CreatedToken" ADD COLUMN     "allocations" JSONB;
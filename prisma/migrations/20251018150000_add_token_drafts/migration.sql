@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."TokenDraft" (
+    "id" TEXT NOT NULL,
+    "wallet" VARCHAR(64) NOT NULL,
+    "flow" TEXT NOT NULL DEFAULT 'free',
+    "step" TEXT NOT NULL DEFAULT 'details',
+    "data" JSONB NOT NULL,
+    "paymentTxSig" TEXT,
+    "paymentAmount" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenDraft_wallet_idx" ON "public"."TokenDraft"("wallet");
+
+-- CreateIndex
+CREATE INDEX "TokenDraft_updatedAt_idx" ON "public"."TokenDraft"("updatedAt");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."LogoAsset" (
+    "cid" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "pngCid" TEXT NOT NULL,
+    "webpCid" TEXT NOT NULL,
+    "phash" VARCHAR(16) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LogoAsset_pkey" PRIMARY KEY ("cid")
+);
+
+-- CreateIndex
+CREATE INDEX "LogoAsset_phash_idx" ON "public"."LogoAsset"("phash");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."CreatedToken" ADD COLUMN     "metadataUri" TEXT,
+ADD COLUMN     "storageProvider" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."LogoAsset" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'pinata';
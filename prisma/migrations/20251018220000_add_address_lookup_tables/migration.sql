@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."AddressLookupTable" (
+    "address" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "cluster" TEXT NOT NULL,
+    "authority" TEXT NOT NULL,
+    "size" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AddressLookupTable_pkey" PRIMARY KEY ("address")
+);
+
+-- CreateIndex
+CREATE INDEX "AddressLookupTable_cluster_active_idx" ON "public"."AddressLookupTable"("cluster", "active");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."AuthorityChange" (
+    "id" TEXT NOT NULL,
+    "mint" TEXT NOT NULL,
+    "authority" TEXT NOT NULL,
+    "previous" TEXT,
+    "current" TEXT,
+    "slot" BIGINT,
+    "source" TEXT NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthorityChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuthorityChange_mint_detectedAt_idx" ON "public"."AuthorityChange"("mint", "detectedAt");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."CacheEntry" (
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "tags" TEXT[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "CacheEntry_expiresAt_idx" ON "public"."CacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CacheEntry_tags_idx" ON "public"."CacheEntry" USING GIN ("tags");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."PositionsClmm" ADD COLUMN     "dex" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PositionsClmm_dex_idx" ON "public"."PositionsClmm"("dex");
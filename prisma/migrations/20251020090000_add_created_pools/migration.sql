@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."CreatedPool" (
+    "poolId" TEXT NOT NULL,
+    "dex" TEXT NOT NULL,
+    "cluster" TEXT NOT NULL,
+    "tokenMint" TEXT NOT NULL,
+    "quoteMint" TEXT NOT NULL,
+    "tickSpacing" INTEGER NOT NULL,
+    "initialPrice" TEXT NOT NULL,
+    "creatorWallet" TEXT NOT NULL,
+    "txSig" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreatedPool_pkey" PRIMARY KEY ("poolId")
+);
+
+-- CreateIndex
+CREATE INDEX "CreatedPool_tokenMint_quoteMint_dex_idx" ON "public"."CreatedPool"("tokenMint", "quoteMint", "dex");
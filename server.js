@@ -0,0 +1,36 @@
+/**
+ * Custom Next.js server (npm run dev runs it with --dev, npm start without)
+ *
+ * Same request handling as `next dev` / `next start`, plus one startup call to
+ * /api/honest-status/watcher so the honest status watcher runs from boot
+ * rather than from the first SSE stream. Next 12 has no instrumentation hook
+ * and API routes are compiled by Next, so the watcher is started through a route.
+ */
+const dev = process.argv.includes("--dev");
+// Same default the next CLI applies
+process.env.NODE_ENV = process.env.NODE_ENV || (dev ? "development" : "production");
+
+const { createServer } = require("http");
+const next = require("next");
+
+const port = Number(process.env.PORT || 3000);
+
+const app = next({ dev, hostname: "localhost", port });
+const handle = app.getRequestHandler();
+
+async function startHonestWatcher() {
+  try {
+    const r = await fetch(`http://127.0.0.1:${port}/api/honest-status/watcher`, { method: "POST" });
+    const body = await r.json();
+    console.log(`[server] Honest watcher ${body.running ? "running" : "disabled"}`);
+  } catch (error) {
+    console.warn("[server] Could not start the honest watcher:", error?.message || error);
+  }
+}
+
+app.prepare().then(() => {
+  createServer((req, res) => handle(req, res)).listen(port, () => {
+    console.log(`> Ready on http://localhost:${port}`);
+    void startHonestWatcher();
+  });
+});
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { PublicKey, Transaction } from "@solana/web3.js";
 import {
@@ -8,6 +8,9 @@ import {
   createBurnInstruction,
 } from "@solana/spl-token";
 import { AiOutlineCopy } from "react-icons/ai";
+import { parseUiAmount } from "../lib/amounts";
+import { previewOrThrow } from "../lib/txPreview";
+import MetadataUpdatePanel from "./MetadataUpdatePanel";
 
 export type AdvancedProps = {
   mint: string; // token mint (SPL)
@@ -21,6 +24,7 @@ export type AdvancedProps = {
   onRecheck: () => void; // bust cache + refresh honest badge
   onEnforce?: () => void; // enforce flow
   onRegenerateKit?: (() => void) | null;
+  onMetadataUpdated?: () => void; // reload token data after a metadata update
 };
 
 export default function AdvancedTools(p: AdvancedProps) {
@@ -28,6 +32,20 @@ export default function AdvancedTools(p: AdvancedProps) {
   const [copyMintSuccess, setCopyMintSuccess] = useState(false);
   const [copyUrlSuccess, setCopyUrlSuccess] = useState(false);
   const isCreator = publicKey?.toBase58() === p.creatorWallet;
+  const [origin, setOrigin] = useState("");
+  const [badgeLp, setBadgeLp] = useState(false);
+
+  // Embed snippets need absolute URLs; window is only there after mount
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const badgeUrl = (format: "svg" | "png") =>
+    `${origin}/api/badge/${p.mint}.${format}${badgeLp ? "?lp=1" : ""}`;
+  const tokenPageUrl = `${origin}/token/${p.mint}`;
+  const embedSnippets = [
+    { label: "HTML", code: `<a href="${tokenPageUrl}"><img src="${badgeUrl("svg")}" alt="Honest Launch badge" /></a>` },
+    { label: "Markdown", code: `[![Honest Launch badge](${badgeUrl("svg")})](${tokenPageUrl})` },
+    { label: "PNG (Telegram)", code: badgeUrl("png") },
+  ];
 
   // Copy text to clipboard with toast notification
   async function copy(txt: string) {
@@ -54,7 +72,7 @@ export default function AdvancedTools(p: AdvancedProps) {
 
       const acc = await getAccount(conn, ata);
       const decimals = 6; // common for AMM LP; TODO: fetch mint decimals if you prefer
-      const amount = BigInt(Math.floor(amountUi * Math.pow(10, decimals)));
+      const amount = parseUiAmount(amountUi, decimals);
 
       if (amount <= 0n) throw new Error("Amount must be > 0");
       if (amount > acc.amount) throw new Error("Not enough LP balance");
@@ -65,6 +83,7 @@ export default function AdvancedTools(p: AdvancedProps) {
         feePayer: publicKey,
         recentBlockhash: blockhash,
       }).add(ix);
+      await previewOrThrow(conn, tx);
       const signed = await signTransaction(tx);
       const sig = await conn.sendRawTransaction(signed.serialize(), {
         skipPreflight: false,
@@ -72,6 +91,20 @@ export default function AdvancedTools(p: AdvancedProps) {
       });
       await conn.confirmTransaction(sig, "confirmed");
 
+      // Record the burn so the trust report can verify it on-chain
+      await fetch("/api/tx/notify", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          txSig: sig,
+          wallet: publicKey.toBase58(),
+          mint: p.mint,
+          dex: "raydium",
+          context: { action: "lp_burn", poolId: p.ammLpMint, amountA: amount.toString() },
+        }),
+      }).catch(() => {});
+      p.onRecheck();
+
       // @ts-ignore
       window?.toast?.success?.("LP burn succeeded");
     } catch (e: any) {
@@ -235,6 +268,55 @@ export default function AdvancedTools(p: AdvancedProps) {
             </div>
           </div>
 
+          {/* Embeddable honest badge */}
+          <div className="bg-muted/10 border border-muted/20 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">Embed Badge</h3>
+            <p className="text-muted text-sm mb-3">
+              Live honest status for your website or a pinned Telegram message.
+              It updates as the on-chain state changes.
+            </p>
+            {origin && (
+              <img src={badgeUrl("svg")} alt="Honest Launch badge" className="mb-3" />
+            )}
+            <label className="flex items-center gap-2 text-sm mb-3">
+              <input type="checkbox" checked={badgeLp} onChange={(e) => setBadgeLp(e.target.checked)} />
+              Show LP status
+            </label>
+            <div className="space-y-2">
+              {embedSnippets.map((s) => (
+                <div key={s.label}>
+                  <div className="text-xs text-muted mb-1">{s.label}</div>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 text-xs bg-muted/20 p-2 rounded border border-muted/30 break-all">
+                      {s.code}
+                    </code>
+                    <button
+                      className="btn btn-ghost"
+                      onClick={() => copy(s.code)}
+                      title={`Copy ${s.label} embed code`}
+                    >
+                      <AiOutlineCopy />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Post-launch metadata update / lock (creator only) */}
+          {isCreator && (
+            <div className="bg-muted/10 border border-muted/20 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-3">Update Metadata</h3>
+              <MetadataUpdatePanel
+                mint={p.mint}
+                onUpdated={() => {
+                  p.onMetadataUpdated?.();
+                  p.onRecheck();
+                }}
+              />
+            </div>
+          )}
+
           {/* AMM LP Burn (only if ammLpMint provided) */}
           {p.ammLpMint && (
             <div className="bg-muted/10 border border-muted/20 rounded-lg p-4">
@@ -0,0 +1,153 @@
+import { FC } from "react";
+import {
+  ALLOCATION_CATEGORIES,
+  AllocationCategory,
+  AllocationInput,
+  MAX_ALLOCATIONS,
+  resolveAllocations,
+} from "../lib/allocations";
+
+interface AllocationTableProps {
+  value: AllocationInput[];
+  onChange: (rows: AllocationInput[]) => void;
+  supply: string;              // UI units from the form
+  decimals: string | number;
+  creatorWallet?: string;      // Connected wallet; receives the remainder
+  className?: string;
+}
+
+const CATEGORY_LABELS: Record<AllocationCategory, string> = {
+  team: "Team",
+  treasury: "Treasury",
+  airdrop: "Airdrop",
+  liquidity: "Liquidity",
+  other: "Other",
+};
+
+/**
+ * Optional allocation step for the create forms
+ * Rows are set by percentage or exact amount; the remainder stays with the creator
+ */
+export const AllocationTable: FC<AllocationTableProps> = ({
+  value,
+  onChange,
+  supply,
+  decimals,
+  creatorWallet,
+  className = "",
+}) => {
+  const update = (i: number, patch: Partial<AllocationInput>) =>
+    onChange(value.map((row, j) => (j === i ? { ...row, ...patch } : row)));
+
+  const addRow = () =>
+    onChange([...value, { category: "team", wallet: "", percent: "" }]);
+
+  const removeRow = (i: number) => onChange(value.filter((_, j) => j !== i));
+
+  // Live preview of the resolved table (same code the server runs)
+  let summary = "";
+  let error = "";
+  if (value.length > 0 && supply && creatorWallet) {
+    try {
+      const resolved = resolveAllocations(value, { amount: supply, decimals }, creatorWallet);
+      const creator = resolved.find((r) => r.category === "creator");
+      summary = creator
+        ? `You keep ${creator.amount} (${(creator.bp / 100).toFixed(2)}%)`
+        : "Entire supply is allocated";
+    } catch (e: any) {
+      error = e?.message || "Invalid allocation";
+    }
+  }
+
+  return (
+    <div className={`mt-6 ${className}`}>
+      <label className="block text-muted mb-1 font-semibold">Initial Allocation</label>
+      <p className="text-muted text-sm mb-3">
+        Optional. Split the supply at mint time; anything not allocated goes to your wallet.
+      </p>
+
+      <div className="space-y-3">
+        {value.map((row, i) => {
+          const byPercent = row.amount === undefined;
+          return (
+            <div key={i} className="p-3 rounded-lg border border-muted/20 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={row.category}
+                  onChange={(e) => update(i, { category: e.target.value as AllocationCategory })}
+                  className="rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+                >
+                  {ALLOCATION_CATEGORIES.map((c) => (
+                    <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Label (optional)"
+                  maxLength={32}
+                  value={row.label || ""}
+                  onChange={(e) => update(i, { label: e.target.value })}
+                  className="rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+                />
+              </div>
+              <input
+                type="text"
+                placeholder="Recipient wallet address"
+                value={row.wallet}
+                onChange={(e) => update(i, { wallet: e.target.value.trim() })}
+                className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg font-mono text-sm"
+              />
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder={byPercent ? "Percent of supply" : "Token amount"}
+                  value={(byPercent ? row.percent : row.amount) || ""}
+                  onChange={(e) =>
+                    update(i, byPercent ? { percent: e.target.value } : { amount: e.target.value })
+                  }
+                  className="flex-1 rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    update(i, byPercent ? { percent: undefined, amount: "" } : { amount: undefined, percent: "" })
+                  }
+                  className="px-3 py-2 rounded-lg border border-muted/30 text-fg text-sm w-16"
+                  title="Switch between percent and exact amount"
+                >
+                  {byPercent ? "%" : "qty"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeRow(i)}
+                  className="px-3 py-2 rounded-lg border border-muted/30 text-muted text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {value.length < MAX_ALLOCATIONS && (
+        <button
+          type="button"
+          onClick={addRow}
+          className="mt-3 px-4 py-2 rounded-lg border border-primary/30 text-primary text-sm"
+        >
+          + Add Recipient
+        </button>
+      )}
+
+      {error ? (
+        <p className="text-error text-xs mt-2">{error}</p>
+      ) : summary ? (
+        <p className="text-muted text-xs mt-2">
+          {summary}. Each recipient costs an extra approval and ~0.002 SOL account rent.
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { FC, useEffect, useState } from "react";
+import type { AllocationBalance } from "../lib/allocations";
+
+interface DistributionBreakdownProps {
+  mint: string;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  creator: "Creator",
+  team: "Team",
+  treasury: "Treasury",
+  airdrop: "Airdrop",
+  liquidity: "Liquidity",
+  other: "Other",
+};
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Creation-time supply distribution vs current on-chain balances
+ * Renders nothing for tokens created without an allocation table
+ */
+const DistributionBreakdown: FC<DistributionBreakdownProps> = ({ mint }) => {
+  const [rows, setRows] = useState<AllocationBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!mint) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch(`/api/token/allocations?mint=${mint}`);
+        const data = await response.json();
+        if (!cancelled && data.ok) setRows(data.allocations || []);
+      } catch (error) {
+        console.warn("Failed to load allocations:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mint]);
+
+  if (isLoading || rows.length === 0) return null;
+
+  return (
+    <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-4 border border-muted/10">
+      <h2 className="text-lg font-bold mb-1">Distribution</h2>
+      <p className="text-muted text-xs mb-4">
+        Allocation set at creation, checked against each wallet&apos;s current token account
+      </p>
+
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.wallet} className="flex items-center justify-between p-2 rounded-lg bg-muted/5 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium text-fg">
+                {row.label || CATEGORY_LABELS[row.category] || row.category}
+                <span className="text-muted ml-2">{(row.bp / 100).toFixed(2)}%</span>
+              </div>
+              <a
+                href={`https://solscan.io/account/${row.wallet}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-muted text-xs font-mono hover:text-primary"
+              >
+                {shortAddress(row.wallet)}
+              </a>
+            </div>
+            <div className="text-right">
+              <div className="text-fg">{row.amount}</div>
+              <div className={`text-xs ${row.matches ? "text-success" : "text-muted"}`}>
+                {row.onChainAmount === null
+                  ? "account closed"
+                  : row.matches
+                    ? "✓ unchanged"
+                    : `now ${row.onChainAmount}`}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DistributionBreakdown;
@@ -0,0 +1,26 @@
+import { FC } from "react";
+import { DraftSaveStatus } from "../hooks/useTokenDraft";
+
+interface DraftStatusProps {
+  status: DraftSaveStatus;
+  className?: string;
+}
+
+const LABELS: Record<DraftSaveStatus, string> = {
+  idle: "",
+  saving: "Saving draft…",
+  saved: "Draft saved - resume it anytime from My Tokens",
+  error: "Draft could not be saved",
+};
+
+/**
+ * One-line autosave indicator for the create forms
+ */
+export const DraftStatus: FC<DraftStatusProps> = ({ status, className = "" }) => {
+  if (status === "idle") return null;
+  return (
+    <p className={`text-center text-xs mt-2 ${status === "error" ? "text-error" : "text-muted"} ${className}`}>
+      {LABELS[status]}
+    </p>
+  );
+};
@@ -1,16 +1,35 @@
 import { useEffect, useState } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
+import type { TrustReport } from "../lib/trustReport";
+import { useHonestStream } from "../hooks/useHonestStream";
 
 /**
  * Status type for honest launch verification
- * Contains information about mint and freeze authorities
+ * Derived from the trust report checks (mint / freeze authority, metadata)
  */
 type Status = { 
   isHonest: boolean; 
   mintNull: boolean; 
   freezeNull: boolean; 
+  metadataMutable?: boolean; 
+  score: number; // Overall trust score, 0-100
 };
 
+/**
+ * Reduce a trust report to the badge status
+ */
+function statusFromReport(report: TrustReport): Status | null {
+  if (report.error) return null;
+  const passed = (id: string) => report.checks.some((c) => c.id === id && c.status === "pass");
+  return {
+    isHonest: report.isHonest,
+    mintNull: passed("mint_authority"),
+    freezeNull: passed("freeze_authority"),
+    metadataMutable: report.checks.some((c) => c.id === "metadata" && c.status === "warn"),
+    score: report.score,
+  };
+}
+
 /**
  * Props for the HonestBadge component
  */
@@ -40,15 +59,18 @@ export default function HonestBadge({
 
   const [loading, setLoading] = useState(true);
   const [st, setSt] = useState<Status | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Authority changes are pushed by the server; refetch the report when one lands
+  useHonestStream([mint], () => setVersion((v) => v + 1));
 
-  // Fetch honest status from API endpoint
+  // Fetch the trust report (covers the honest status checks)
   useEffect(() => {
     let alive = true;
     
     (async () => {
       try {
-        // Call the existing honest-status API endpoint
-        const r = await fetch(`/api/honest-status?mint=${mint}`, { 
+        const r = await fetch(`/api/trust/${encodeURIComponent(mint)}`, { 
           cache: "no-store" 
         });
         const j = await r.json();
@@ -57,7 +79,7 @@ export default function HonestBadge({
         if (!alive) return;
         
         // Set status if API call was successful
-        setSt(j?.ok ? j.status : null);
+        setSt(j?.ok ? statusFromReport(j.report) : null);
       } catch (error) {
         // Handle fetch errors gracefully
         console.warn("Failed to fetch honest status:", error);
@@ -71,7 +93,7 @@ export default function HonestBadge({
     return () => { 
       alive = false; 
     };
-  }, [mint]);
+  }, [mint, version]);
 
   // Show loading state while fetching status
   if (loading) {
@@ -87,7 +109,9 @@ export default function HonestBadge({
     return (
       <span 
         className="chip" 
-        title="Mint & freeze authorities are revoked on-chain. This token is community-controlled."
+        title={`Mint & freeze authorities are revoked on-chain. This token is community-controlled.${
+          st.metadataMutable ? " Metadata can still be updated by the creator." : ""
+        } Trust score ${st.score}/100.`}
       >
         Honest Launch ✅
       </span>
@@ -97,7 +121,7 @@ export default function HonestBadge({
   // Generate helpful tooltip for pending state
   const tip = !st
     ? "Unable to verify on-chain status right now. Please try again later."
-    : `Pending: ${st.mintNull ? "" : "Mint authority active"}${!st.mintNull && !st.freezeNull ? " & " : ""}${st.freezeNull ? "" : "Freeze authority active"}`;
+    : `Pending: ${st.mintNull ? "" : "Mint authority active"}${!st.mintNull && !st.freezeNull ? " & " : ""}${st.freezeNull ? "" : "Freeze authority active"}. Trust score ${st.score}/100.`;
 
   return (
     <div className="flex items-center gap-2">
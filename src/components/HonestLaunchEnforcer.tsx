@@ -1,5 +1,6 @@
 import { FC, useState } from "react";
 import { useHonestLaunchVerification } from "../hooks/useHonestLaunchVerification";
+import type { MetadataLock } from "../lib/metadataUpdate";
 import { useToast } from "../hooks/useToast";
 import { IS_DEVNET } from "../lib/env";
 import { Spinner } from "./ui/Spinner";
@@ -10,6 +11,14 @@ interface HonestLaunchEnforcerProps {
   onVerificationChange?: (isVerified: boolean) => void;
 }
 
+type MetadataChoice = "revoke" | "immutable" | "keep";
+
+const METADATA_CHOICES: { value: MetadataChoice; label: string; lock?: MetadataLock }[] = [
+  { value: "revoke", label: "Revoke update authority (recommended)", lock: { dropAuthority: true } },
+  { value: "immutable", label: "Make metadata immutable, keep the authority", lock: { immutable: true } },
+  { value: "keep", label: "Keep metadata editable" },
+];
+
 const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
   mintAddress,
   preset,
@@ -18,6 +27,7 @@ const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
   const { status, isLoading, error, isRetrying, enforceHonestLaunch, clearError } = useHonestLaunchVerification(mintAddress);
   const { showToast } = useToast();
   const [txid, setTxid] = useState<string | null>(null);
+  const [metadataChoice, setMetadataChoice] = useState<MetadataChoice>("revoke");
   
   // Only show for honest preset
   if (preset !== "honest") {
@@ -26,7 +36,8 @@ const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
 
   const handleEnforceHonestLaunch = async () => {
     try {
-      const result = await enforceHonestLaunch();
+      const lock = METADATA_CHOICES.find((c) => c.value === metadataChoice)?.lock;
+      const result = await enforceHonestLaunch({ metadata: lock });
       if (result?.success) {
         setTxid(result.txid);
         onVerificationChange?.(true);
@@ -38,15 +49,74 @@ const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
     }
   };
 
+  const handleLockMetadata = async () => {
+    try {
+      const result = await enforceHonestLaunch({ metadata: { dropAuthority: true } });
+      if (result?.success) {
+        setTxid(result.txid);
+        showToast("Metadata locked", "success");
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to lock metadata";
+      showToast(errorMessage, "error");
+    }
+  };
+
+  const metadataPart =
+    status.metadataLocked === null ? "No metadata" : status.metadataLocked ? "Metadata locked" : "Metadata editable";
+  const parts = (
+    <ul className="text-xs space-y-0.5">
+      <li className={status.mintAuthority ? "text-warning" : "text-success"}>
+        {status.mintAuthority ? "⚠️" : "✅"} Mint authority {status.mintAuthority ? "active" : "revoked"}
+      </li>
+      <li className={status.freezeAuthority ? "text-warning" : "text-success"}>
+        {status.freezeAuthority ? "⚠️" : "✅"} Freeze authority {status.freezeAuthority ? "active" : "revoked"}
+      </li>
+      <li className={status.metadataLocked === false ? "text-warning" : "text-success"}>
+        {status.metadataLocked === false ? "⚠️" : "✅"} {metadataPart}
+      </li>
+    </ul>
+  );
+
+  const metadataOptions = (
+    <fieldset className="space-y-1 text-sm">
+      <legend className="text-muted text-xs mb-1">Metadata update authority</legend>
+      {METADATA_CHOICES.map((c) => (
+        <label key={c.value} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="honest-metadata"
+            value={c.value}
+            checked={metadataChoice === c.value}
+            onChange={() => setMetadataChoice(c.value)}
+            disabled={isLoading}
+          />
+          {c.label}
+        </label>
+      ))}
+    </fieldset>
+  );
+
   // If already verified, show success state
   if (status.isVerified) {
     return (
       <div className="flex flex-col items-center space-x-2">
         <div className="bg-success/20 border border-success/30 rounded-lg px-3 py-2">
           <span className="text-success text-sm font-medium flex items-center">
-            ✅ On-chain Verified
+            {status.isFullyVerified ? "✅ On-chain Verified" : "✅ Authorities revoked"}
           </span>
         </div>
+        {parts}
+        {/* Mint & freeze are done; the metadata can still be locked on its own */}
+        {status.metadataLocked === false && status.updateAuthority && (
+          <button
+            onClick={handleLockMetadata}
+            disabled={isLoading}
+            className="mt-2 bg-warning/20 hover:bg-warning/30 text-warning border border-warning/30 rounded-lg px-3 py-1 text-xs font-medium disabled:opacity-50"
+          >
+            {isLoading ? "Locking..." : "Revoke metadata update authority"}
+          </button>
+        )}
         {txid && (
           <a
             href={`https://solscan.io/tx/${txid}`}
@@ -75,6 +145,9 @@ const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
         </div>
       )}
       
+      {status.lastChecked && parts}
+      {status.metadataLocked === false && metadataOptions}
+      
       <button
         onClick={handleEnforceHonestLaunch}
         disabled={isLoading}
@@ -105,7 +178,8 @@ const HonestLaunchEnforcer: FC<HonestLaunchEnforcerProps> = ({
       )}
       
       <div className="text-muted text-xs">
-        This will permanently revoke your ability to mint new tokens or freeze accounts.
+        This will permanently revoke your ability to mint new tokens or freeze accounts
+        {status.metadataLocked === false && metadataChoice !== "keep" ? ", and to change the name, symbol or logo" : ""}.
       </div>
     </div>
   );
@@ -8,12 +8,14 @@ import { ClipLoader } from "react-spinners";
 interface LpTokenBurnerProps {
   lpMint: string;
   ownerTokenAccount: string;
+  tokenMint?: string; // Token the LP pairs; when set, burns are recorded for its trust report
   className?: string;
 }
 
 export const LpTokenBurner: FC<LpTokenBurnerProps> = ({ 
   lpMint, 
   ownerTokenAccount, 
+  tokenMint,
   className = "" 
 }) => {
   const { connection } = useConnection();
@@ -71,6 +73,21 @@ export const LpTokenBurner: FC<LpTokenBurnerProps> = ({
       });
 
       setLastTxid(txid);
+
+      // Record the burn in TxEvent history (verified on-chain by the trust report)
+      if (tokenMint) {
+        await fetch("/api/tx/notify", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            txSig: txid,
+            wallet: publicKey.toBase58(),
+            mint: tokenMint,
+            dex: "raydium",
+            context: { action: "lp_burn", poolId: lpMint, amountA: amount.toString() },
+          }),
+        }).catch(() => {});
+      }
       
       notify({
         type: "success",
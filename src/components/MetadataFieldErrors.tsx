@@ -0,0 +1,40 @@
+import { FC } from "react";
+import type { MetadataFieldErrors as FieldErrors } from "../lib/metadataSchema";
+
+interface MetadataFieldErrorsProps {
+  errors: FieldErrors;
+  className?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Token Name",
+  symbol: "Token Symbol",
+  description: "Description",
+  image: "Image",
+  external_url: "Website",
+  "links.site": "Website",
+  "links.x": "X",
+  "links.tg": "Telegram",
+};
+
+/**
+ * Field-level metadata errors returned by /api/ipfs/upload
+ * Renders nothing when there are no errors
+ */
+export const MetadataFieldErrors: FC<MetadataFieldErrorsProps> = ({ errors, className = "" }) => {
+  const entries = Object.entries(errors);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={`rounded-lg border border-error/30 bg-error/10 p-3 text-sm ${className}`}>
+      <p className="font-semibold text-error mb-1">Token metadata needs fixing:</p>
+      <ul className="space-y-1">
+        {entries.map(([field, message]) => (
+          <li key={field} className="text-error">
+            <span className="font-medium">{FIELD_LABELS[field] || field}:</span> {message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
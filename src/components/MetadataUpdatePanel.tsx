@@ -0,0 +1,243 @@
+import { FC, useCallback, useEffect, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { ClipLoader } from "react-spinners";
+import {
+  MAX_NAME_LENGTH,
+  MAX_SYMBOL_LENGTH,
+  MetadataState,
+  readMetadataState,
+  updateTokenMetadata,
+} from "../lib/metadataUpdate";
+import { MetadataFieldErrors as FieldErrors, metadataFieldErrorsFrom } from "../lib/metadataSchema";
+import { uploadImageToPinata, uploadMetadataToPinata } from "../lib/pinata";
+import { notify } from "../utils/notifications";
+import { MetadataFieldErrors } from "./MetadataFieldErrors";
+
+interface MetadataUpdatePanelProps {
+  mint: string;
+  onUpdated?: () => void; // Refresh page data once the DB record is synced
+}
+
+async function fetchJson(uri: string): Promise<Record<string, any>> {
+  try {
+    const r = await fetch(uri);
+    const json = r.ok ? await r.json() : {};
+    return json && typeof json === "object" ? json : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Creator-only metadata editor for launched tokens
+ * Re-uploads the metadata JSON, updates name/symbol/uri on-chain and
+ * optionally locks the metadata for good
+ */
+const MetadataUpdatePanel: FC<MetadataUpdatePanelProps> = ({ mint, onUpdated }) => {
+  const { connection } = useConnection();
+  const { publicKey, signTransaction } = useWallet();
+
+  const [state, setState] = useState<MetadataState | null>(null);
+  const [json, setJson] = useState<Record<string, any>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [description, setDescription] = useState("");
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [immutable, setImmutable] = useState(false);
+  const [dropAuthority, setDropAuthority] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const current = await readMetadataState(connection, mint);
+      const currentJson = current ? await fetchJson(current.uri) : {};
+      setState(current);
+      setJson(currentJson);
+      setName(current?.name || "");
+      setSymbol(current?.symbol || "");
+      setDescription(typeof currentJson.description === "string" ? currentJson.description : "");
+      setImageFile(null);
+      setImmutable(false);
+      setDropAuthority(false);
+    } catch (error) {
+      console.warn("Failed to read token metadata:", error);
+      setState(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection, mint]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (isLoading) {
+    return <p className="text-muted text-sm">Reading on-chain metadata…</p>;
+  }
+
+  if (!state) {
+    return <p className="text-muted text-sm">This token has no on-chain metadata.</p>;
+  }
+
+  if (state.locked) {
+    return (
+      <p className="text-muted text-sm">
+        🔒 Metadata is locked. Name, symbol and image can no longer be changed by anyone.
+      </p>
+    );
+  }
+
+  const isAuthority = publicKey?.toBase58() === state.updateAuthority;
+  const locking = immutable || dropAuthority;
+  const contentChanged =
+    name.trim() !== state.name ||
+    symbol.trim() !== state.symbol ||
+    description !== (json.description || "") ||
+    !!imageFile;
+
+  const handleSave = async () => {
+    if (!publicKey || !signTransaction) {
+      notify({ type: "error", message: "Connect your wallet first" });
+      return;
+    }
+    if (!contentChanged && !locking) {
+      notify({ type: "info", message: "Nothing to update" });
+      return;
+    }
+    if (
+      locking &&
+      !window.confirm(
+        "Locking metadata is permanent. Nobody, including you, will be able to change the name, symbol or image again. Continue?"
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setFieldErrors({});
+    try {
+      // Re-upload the JSON only when its content changes; locking alone keeps the uri
+      let uri: string | undefined;
+      if (contentChanged) {
+        const image = imageFile ? await uploadImageToPinata(imageFile) : json.image;
+        uri = await uploadMetadataToPinata({
+          ...json,
+          name: name.trim(),
+          symbol: symbol.trim(),
+          description,
+          image,
+        });
+      }
+
+      const { txid } = await updateTokenMetadata({
+        connection,
+        wallet: { publicKey, signTransaction },
+        mint,
+        name: name.trim(),
+        symbol: symbol.trim(),
+        uri,
+        lock: { immutable, dropAuthority },
+      });
+
+      // Refresh the stored record and the honest status cache
+      await fetch("/api/token/metadata-sync", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ mint }),
+      }).catch(() => {});
+
+      notify({
+        type: "success",
+        message: locking ? "Metadata updated and locked" : "Metadata updated",
+        txid,
+      });
+      await load();
+      onUpdated?.();
+    } catch (error: any) {
+      setFieldErrors(metadataFieldErrorsFrom(error) || {});
+      notify({ type: "error", message: "Metadata update failed", description: error?.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isAuthority) {
+    return (
+      <p className="text-muted text-sm">
+        Metadata is still mutable, but the connected wallet is not its update authority.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted text-sm">
+        Metadata standard: {state.standard === "token-2022" ? "Token-2022 (on-mint)" : "Metaplex"}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          className="input"
+          placeholder="Name"
+          maxLength={MAX_NAME_LENGTH}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <input
+          className="input"
+          placeholder="Symbol"
+          maxLength={MAX_SYMBOL_LENGTH}
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value)}
+        />
+      </div>
+      <textarea
+        className="input w-full"
+        rows={3}
+        placeholder="Description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      <div className="flex items-center gap-3">
+        {json.image && !imageFile && (
+          <img src={json.image} alt="Current token image" className="w-12 h-12 rounded-lg object-cover" />
+        )}
+        <input
+          type="file"
+          accept="image/*"
+          onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+          className="text-sm text-muted"
+        />
+      </div>
+
+      <div className="text-sm space-y-1 bg-muted/20 p-3 rounded border border-muted/30">
+        <strong>Lock metadata (irreversible)</strong>
+        {state.standard === "metaplex" && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={immutable} onChange={(e) => setImmutable(e.target.checked)} />
+            <span>Make immutable (isMutable = false)</span>
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={dropAuthority} onChange={(e) => setDropAuthority(e.target.checked)} />
+          <span>Give up the update authority</span>
+        </label>
+      </div>
+
+      <MetadataFieldErrors errors={fieldErrors} />
+
+      <button
+        className={locking ? "btn btn-danger" : "btn btn-primary"}
+        onClick={handleSave}
+        disabled={isSaving || (!contentChanged && !locking)}
+      >
+        {isSaving ? <ClipLoader size={16} color="currentColor" /> : locking ? "Update & Lock Metadata" : "Update Metadata"}
+      </button>
+    </div>
+  );
+};
+
+export default MetadataUpdatePanel;
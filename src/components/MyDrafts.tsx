@@ -0,0 +1,108 @@
+import { FC, useEffect, useState } from "react";
+import Link from "next/link";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { DraftFlow, DraftStep, TokenDraft, draftResumeHref, draftsAuthHeaders } from "../lib/drafts";
+import { useCreateTokenModal } from "../contexts/CreateTokenModalProvider";
+
+interface MyDraftsProps {
+  wallet: string;
+}
+
+const FLOW_LABELS: Record<DraftFlow, string> = {
+  free: "Free",
+  pro: "Pro",
+  modal: "Quick create",
+};
+
+const STEP_LABELS: Record<DraftStep, string> = {
+  details: "Filling in details",
+  payment: "Awaiting payment",
+  create: "Ready to create",
+};
+
+/**
+ * Unfinished creation drafts for the connected wallet (shown on /my-tokens)
+ * Renders nothing when the wallet has no drafts
+ */
+export const MyDrafts: FC<MyDraftsProps> = ({ wallet }) => {
+  const { resumeDraft } = useCreateTokenModal();
+  const { signMessage } = useWallet();
+  const [drafts, setDrafts] = useState<TokenDraft[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const headers = await draftsAuthHeaders(wallet, signMessage);
+        const response = await fetch(`/api/drafts?wallet=${wallet}`, { cache: "no-store", headers });
+        const data = await response.json();
+        if (!cancelled) setDrafts(data?.ok ? data.items : []);
+      } catch (error) {
+        console.warn("Failed to load drafts:", error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, signMessage]);
+
+  const remove = async (id: string) => {
+    try {
+      const headers = await draftsAuthHeaders(wallet, signMessage);
+      await fetch(`/api/drafts/${encodeURIComponent(id)}?wallet=${wallet}`, { method: "DELETE", headers });
+      setDrafts((current) => current.filter((d) => d.id !== id));
+    } catch (error) {
+      console.warn("Failed to delete draft:", error);
+    }
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <section className="mt-6">
+      <h2 className="h3">My Drafts</h2>
+      <p className="small mt-1">Unfinished tokens, saved automatically while you typed.</p>
+
+      <div className="grid mt-3 gap-4 md:grid-cols-2">
+        {drafts.map((draft) => {
+          const href = draftResumeHref(draft);
+          return (
+            <article key={draft.id} className="card p-5">
+              <div className="flex items-center justify-between">
+                <h3 className="h3">
+                  {draft.data.name || "Untitled draft"}
+                  {draft.data.symbol && <span className="text-neutral-400"> ({draft.data.symbol})</span>}
+                </h3>
+                <div className="flex items-center gap-2">
+                  <span className="chip">{FLOW_LABELS[draft.flow] || draft.flow}</span>
+                  {draft.paymentAvailable && <span className="chip">Paid</span>}
+                </div>
+              </div>
+
+              <p className="small mt-1">
+                {STEP_LABELS[draft.step] || draft.step} · Saved {new Date(draft.updatedAt).toLocaleString()}
+              </p>
+
+              <div className="mt-4 flex flex-wrap gap-2">
+                {href ? (
+                  <Link href={href}>
+                    <a className="btn btn-primary">Resume</a>
+                  </Link>
+                ) : (
+                  <button className="btn btn-primary" onClick={() => resumeDraft(draft.id)}>
+                    Resume
+                  </button>
+                )}
+                <button className="btn btn-secondary" onClick={() => remove(draft.id)}>
+                  Delete
+                </button>
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
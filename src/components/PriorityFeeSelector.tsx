@@ -0,0 +1,94 @@
+import { FC, useEffect, useState } from "react";
+import { Connection } from "@solana/web3.js";
+import {
+  DEFAULT_COMPUTE_UNIT_LIMIT,
+  estimatePriorityFees,
+  MAX_PRIORITY_MICRO_LAMPORTS,
+  PRIORITY_LEVELS,
+  PriorityFeeChoice,
+  PriorityFeeEstimates,
+} from "../lib/priorityFees";
+
+interface PriorityFeeSelectorProps {
+  connection: Connection;
+  value: PriorityFeeChoice;
+  onChange: (choice: PriorityFeeChoice) => void;
+  className?: string;
+}
+
+const LABELS = { low: "Low", medium: "Medium", high: "High", custom: "Custom" };
+
+// Worst-case SOL for a price, at the fallback compute limit
+function approxSol(microLamports: number) {
+  return ((microLamports * DEFAULT_COMPUTE_UNIT_LIMIT) / 1e6 / 1e9).toFixed(6);
+}
+
+/**
+ * Priority fee level picker (low / medium / high from recent slots, or custom)
+ * The chosen level is sent with build requests; builders apply the price
+ */
+export const PriorityFeeSelector: FC<PriorityFeeSelectorProps> = ({ connection, value, onChange, className = "" }) => {
+  const [estimates, setEstimates] = useState<PriorityFeeEstimates | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    estimatePriorityFees(connection)
+      .then((e) => !cancelled && setEstimates(e))
+      .catch(() => !cancelled && setEstimates(null));
+    return () => {
+      cancelled = true;
+    };
+    // Callers may recreate the Connection each render; refetch only per endpoint
+  }, [connection.rpcEndpoint]);
+
+  return (
+    <div className={className}>
+      <label className="block text-muted mb-2 font-semibold">Priority Fee</label>
+      <div className="flex flex-wrap gap-2">
+        {PRIORITY_LEVELS.map((level) => (
+          <button
+            key={level}
+            type="button"
+            onClick={() => onChange(level === "custom" ? { level, microLamports: value.microLamports ?? estimates?.medium ?? 0 } : { level })}
+            className={`px-3 py-2 rounded-lg border text-sm ${
+              value.level === level ? "border-accent text-fg bg-accent/10" : "border-muted/20 text-muted hover:border-muted/40"
+            }`}
+          >
+            {LABELS[level]}
+            {level !== "custom" && estimates && (
+              <span className="block text-xs text-muted">{estimates[level].toLocaleString()} µL/CU</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {value.level === "custom" && (
+        <div className="flex items-center space-x-3 mt-2">
+          <input
+            type="number"
+            value={value.microLamports ?? 0}
+            onChange={(e) =>
+              onChange({
+                level: "custom",
+                microLamports: Math.min(MAX_PRIORITY_MICRO_LAMPORTS, Math.max(0, parseInt(e.target.value) || 0)),
+              })
+            }
+            className="w-36 p-2 rounded-lg border border-muted/10 bg-transparent text-fg text-center focus:border-muted/25 focus:ring-transparent"
+            min="0"
+            max={MAX_PRIORITY_MICRO_LAMPORTS}
+          />
+          <span className="text-muted text-sm">micro-lamports per compute unit</span>
+        </div>
+      )}
+
+      <p className="text-xs text-muted mt-1">
+        {(() => {
+          const price = value.level === "custom" ? value.microLamports ?? 0 : estimates?.[value.level];
+          return price != null
+            ? `Up to ≈ ${approxSol(price)} SOL extra per transaction. Higher levels land faster under congestion.`
+            : "Higher levels land faster under congestion.";
+        })()}
+      </p>
+    </div>
+  );
+};
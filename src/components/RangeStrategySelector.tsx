@@ -0,0 +1,167 @@
+import { FC } from "react";
+import { RANGE_STRATEGIES, RANGE_STRATEGY_LABELS, RangeChoice, RangeStrategy } from "../lib/rangePresets";
+
+interface RangeStrategySelectorProps {
+  value: RangeChoice;
+  onChange: (choice: RangeChoice) => void;
+  quoteSymbol: string; // SOL or USDC
+  allowTokenOnly?: boolean; // Offer the single-sided (token only) toggle
+  disabled?: boolean;
+  className?: string;
+}
+
+const DEFAULT_PERCENT = 10;
+// Single-sided positions must sit above the price: only these strategies can hold the token alone
+const TOKEN_ONLY_STRATEGIES: RangeStrategy[] = ["above", "custom"];
+
+// Compact price for labels: significant digits for small prices, grouping for large ones
+export function formatRangePrice(price: number): string {
+  if (!Number.isFinite(price) || price > 1e12) return "∞";
+  if (price < 1e-12) return "0";
+  return price >= 1 ? price.toLocaleString(undefined, { maximumFractionDigits: 4 }) : price.toPrecision(4);
+}
+
+/**
+ * Range strategy picker for concentrated-liquidity positions
+ * (full range, ±X%, single-sided above / below, or custom price bounds)
+ * With token only on, the position is seeded with the token alone (no SOL / USDC)
+ */
+export const RangeStrategySelector: FC<RangeStrategySelectorProps> = ({
+  value,
+  onChange,
+  quoteSymbol,
+  allowTokenOnly = false,
+  disabled = false,
+  className = "",
+}) => {
+  const tokenOnly = value.tokenOnly ? { tokenOnly: true } : {};
+  const select = (strategy: RangeStrategy) => {
+    if (strategy === "full") return onChange({ strategy });
+    if (strategy === "custom") return onChange({ strategy, priceLower: value.priceLower, priceUpper: value.priceUpper, ...tokenOnly });
+    onChange({ strategy, percent: value.percent ?? DEFAULT_PERCENT, ...tokenOnly });
+  };
+  const toggleTokenOnly = (on: boolean) =>
+    onChange(
+      on
+        ? { ...value, strategy: value.strategy === "custom" ? "custom" : "above", percent: value.percent ?? DEFAULT_PERCENT, tokenOnly: true }
+        : { ...value, tokenOnly: undefined }
+    );
+  const strategies = value.tokenOnly ? TOKEN_ONLY_STRATEGIES : RANGE_STRATEGIES;
+  const num = (text: string) => {
+    const n = parseFloat(text);
+    return Number.isFinite(n) ? n : undefined;
+  };
+
+  return (
+    <div className={className}>
+      <label className="block text-muted mb-2 font-semibold">Price Range</label>
+      {allowTokenOnly && (
+        <label className="flex items-center space-x-2 mb-2 text-sm text-fg">
+          <input
+            type="checkbox"
+            checked={!!value.tokenOnly}
+            onChange={(e) => toggleTokenOnly(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>Token only: seed the pool without {quoteSymbol}; buys fill against the range above the price</span>
+        </label>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {strategies.map((strategy) => (
+          <button
+            key={strategy}
+            type="button"
+            disabled={disabled}
+            onClick={() => select(strategy)}
+            className={`px-3 py-2 rounded-lg border text-sm disabled:opacity-50 ${
+              value.strategy === strategy ? "border-accent text-fg bg-accent/10" : "border-muted/20 text-muted hover:border-muted/40"
+            }`}
+          >
+            {RANGE_STRATEGY_LABELS[strategy].label}
+          </button>
+        ))}
+      </div>
+
+      {(value.strategy === "percent" || value.strategy === "above" || value.strategy === "below") && (
+        <div className="flex items-center space-x-3 mt-2">
+          <input
+            type="number"
+            value={value.percent ?? DEFAULT_PERCENT}
+            onChange={(e) => onChange({ strategy: value.strategy, percent: num(e.target.value), ...tokenOnly })}
+            disabled={disabled}
+            className="w-24 p-2 rounded-lg border border-muted/10 bg-transparent text-fg text-center focus:border-muted/25 focus:ring-transparent"
+            min="0.1"
+            max="95"
+            step="1"
+          />
+          <span className="text-muted text-sm">
+            {value.strategy === "percent" ? "% either side of the current price" : `% ${value.strategy} the current price`}
+          </span>
+        </div>
+      )}
+
+      {value.strategy === "custom" && (
+        <div className="grid grid-cols-2 gap-3 mt-2">
+          {(["priceLower", "priceUpper"] as const).map((bound) => (
+            <div key={bound}>
+              <span className="block text-xs text-muted mb-1">
+                {bound === "priceLower" ? "Min" : "Max"} price ({quoteSymbol} per token)
+              </span>
+              <input
+                type="number"
+                value={value[bound] ?? ""}
+                onChange={(e) => onChange({ ...value, [bound]: num(e.target.value) })}
+                disabled={disabled}
+                className="w-full p-2 rounded-lg border border-muted/10 bg-transparent text-fg focus:border-muted/25 focus:ring-transparent"
+                placeholder="0.0"
+                min="0"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted mt-1">{RANGE_STRATEGY_LABELS[value.strategy].hint}</p>
+    </div>
+  );
+};
+
+interface RangeVisualizerProps {
+  priceLower: number;
+  priceUpper: number;
+  priceCurrent: number;
+  quoteSymbol: string;
+  className?: string;
+}
+
+/**
+ * Position range on a log price axis, with the current price marked
+ */
+export const RangeVisualizer: FC<RangeVisualizerProps> = ({ priceLower, priceUpper, priceCurrent, quoteSymbol, className = "" }) => {
+  // Log axis so ±X% and full range both fit; pad a quarter of the span each side
+  const lo = Math.log(Math.min(priceLower, priceCurrent));
+  const hi = Math.log(Math.max(priceUpper, priceCurrent));
+  const pad = Math.max((hi - lo) * 0.25, 0.05);
+  const toPercent = (price: number) => ((Math.log(price) - (lo - pad)) / (hi - lo + 2 * pad)) * 100;
+
+  const left = toPercent(priceLower);
+  const width = Math.max(toPercent(priceUpper) - left, 0.5);
+  const current = toPercent(priceCurrent);
+  const inRange = priceCurrent >= priceLower && priceCurrent <= priceUpper;
+
+  return (
+    <div className={className}>
+      <div className="relative h-8 rounded-lg bg-muted/10">
+        <div className="absolute top-1 bottom-1 rounded bg-accent/30 border border-accent/50" style={{ left: `${left}%`, width: `${width}%` }} />
+        <div className="absolute -top-1 -bottom-1 w-0.5 bg-fg" style={{ left: `${current}%` }} title="Current price" />
+      </div>
+      <div className="flex justify-between text-xs text-muted mt-1">
+        <span>Min {formatRangePrice(priceLower)}</span>
+        <span className={inRange ? "text-fg" : "text-warning"}>
+          Now {formatRangePrice(priceCurrent)} {quoteSymbol}
+        </span>
+        <span>Max {formatRangePrice(priceUpper)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { FC } from "react";
+import { TokenProgramKind } from "../lib/token2022";
+
+export interface TokenProgramFields {
+  tokenProgram: TokenProgramKind;
+  transferFeeBp: string;   // basis points, empty = no transfer fee extension
+  transferFeeMax: string;  // UI units of the new token
+  interestRateBp: string;  // basis points, empty = no interest-bearing extension
+}
+
+interface TokenProgramSelectorProps {
+  value: TokenProgramFields;
+  onChange: (fieldName: keyof TokenProgramFields, value: string) => void;
+  className?: string;
+}
+
+/**
+ * Lets the creator choose between the legacy SPL Token program and Token-2022
+ * Token-2022 always uses on-mint metadata; transfer fee and interest are optional
+ */
+export const TokenProgramSelector: FC<TokenProgramSelectorProps> = ({ value, onChange, className = "" }) => {
+  const is2022 = value.tokenProgram === "token-2022";
+
+  return (
+    <div className={`mt-6 ${className}`}>
+      <label className="block text-muted mb-3 font-semibold">
+        Token Program
+      </label>
+      <div className="space-y-3">
+        <label
+          className={`flex items-start space-x-3 cursor-pointer p-3 rounded-lg transition-all duration-200 ${
+            !is2022 ? "bg-primary/5 border border-primary/20" : "hover:bg-muted/20"
+          }`}
+        >
+          <input
+            type="radio"
+            name="tokenProgram"
+            value="spl-token"
+            checked={!is2022}
+            onChange={(e) => onChange("tokenProgram", e.target.value)}
+            className="text-primary focus:ring-primary mt-1 w-5 h-5 border-2 border-primary/30 checked:bg-primary checked:border-primary transition-all duration-200"
+          />
+          <div className="flex-1">
+            <span className="text-fg font-medium">Standard SPL Token</span>
+            <p className="text-muted text-sm mt-1">
+              Widest wallet and DEX support, Metaplex metadata
+            </p>
+          </div>
+        </label>
+        <label
+          className={`flex items-start space-x-3 cursor-pointer p-3 rounded-lg transition-all duration-200 ${
+            is2022 ? "bg-secondary/5 border border-secondary/20" : "hover:bg-muted/20"
+          }`}
+        >
+          <input
+            type="radio"
+            name="tokenProgram"
+            value="token-2022"
+            checked={is2022}
+            onChange={(e) => onChange("tokenProgram", e.target.value)}
+            className="text-primary focus:ring-primary mt-1 w-5 h-5 border-2 border-primary/30 checked:bg-primary checked:border-primary transition-all duration-200"
+          />
+          <div className="flex-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-fg font-medium">Token-2022</span>
+              <span className="bg-secondary/20 text-secondary text-xs px-2 py-1 rounded-full">
+                Extensions
+              </span>
+            </div>
+            <p className="text-muted text-sm mt-1">
+              Metadata stored on the mint, optional transfer fee and interest
+            </p>
+          </div>
+        </label>
+      </div>
+
+      {is2022 && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-muted text-sm mb-1">Transfer fee (bps)</label>
+              <input
+                type="number"
+                min={0}
+                max={10000}
+                placeholder="e.g. 100 = 1%"
+                value={value.transferFeeBp}
+                onChange={(e) => onChange("transferFeeBp", e.target.value)}
+                className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+              />
+            </div>
+            <div>
+              <label className="block text-muted text-sm mb-1">Max fee (tokens)</label>
+              <input
+                type="number"
+                min={0}
+                placeholder="cap per transfer"
+                value={value.transferFeeMax}
+                onChange={(e) => onChange("transferFeeMax", e.target.value)}
+                className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-muted text-sm mb-1">Interest rate (bps / year)</label>
+            <input
+              type="number"
+              placeholder="leave empty for none"
+              value={value.interestRateBp}
+              onChange={(e) => onChange("interestRateBp", e.target.value)}
+              className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+            />
+          </div>
+          <p className="text-muted text-xs">
+            Transfer fees are visible to buyers and may reduce DEX support. Leave empty to skip an extension.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
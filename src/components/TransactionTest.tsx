@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Connection, Transaction, PublicKey } from '@solana/web3.js';
+import { Connection, Transaction, PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { useSendSolanaTx } from '../hooks/useSendSolanaTx';
 
 /**
@@ -32,7 +32,7 @@ export const TransactionTest: React.FC = () => {
     const mockPublicKey = new PublicKey("11111111111111111111111111111111");
     const mockWallet = {
       publicKey: mockPublicKey,
-      signTransaction: async (tx: Transaction) => {
+      signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T) => {
         addResult("Wallet signing transaction...");
         // Simulate signing delay
         await new Promise(resolve => setTimeout(resolve, 1000));
@@ -89,7 +89,7 @@ export const TransactionTest: React.FC = () => {
     const mockPublicKey = new PublicKey("11111111111111111111111111111111");
     const mockWallet = {
       publicKey: mockPublicKey,
-      signTransaction: async (tx: Transaction) => {
+      signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T) => {
         addResult(`Phase: ${phase} - Wallet signing...`);
         await new Promise(resolve => setTimeout(resolve, 500));
         return tx;
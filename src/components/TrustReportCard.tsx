@@ -0,0 +1,89 @@
+import { FC, useEffect, useState } from "react";
+import type { TrustReport, TrustStatus } from "../lib/trustReport";
+import { useHonestStream } from "../hooks/useHonestStream";
+
+interface TrustReportCardProps {
+  mint: string;
+  refreshKey?: number; // Bump to refetch (bypasses the server cache)
+  className?: string;
+}
+
+const STATUS_ICON: Record<TrustStatus, string> = { pass: "✅", warn: "⚠️", fail: "❌", unknown: "❔" };
+const STATUS_CLASS: Record<TrustStatus, string> = {
+  pass: "text-success",
+  warn: "text-warning",
+  fail: "text-error",
+  unknown: "text-muted",
+};
+const GRADE_CLASS = { high: "text-success", medium: "text-warning", low: "text-error" };
+
+/**
+ * Scored trust checks for a token from /api/trust/[mint]
+ */
+export const TrustReportCard: FC<TrustReportCardProps> = ({ mint, refreshKey = 0, className = "" }) => {
+  const [loading, setLoading] = useState(true);
+  const [report, setReport] = useState<TrustReport | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // The server drops the cached report on authority changes; refetch when told
+  useHonestStream([mint], () => setVersion((v) => v + 1));
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    fetch(`/api/trust/${encodeURIComponent(mint)}${refreshKey ? "?bust=1" : ""}`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => alive && setReport(j?.ok ? j.report : null))
+      .catch(() => alive && setReport(null))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [mint, refreshKey, version]);
+
+  if (loading) {
+    return (
+      <div className={`animate-pulse rounded-lg border border-muted/20 p-3 ${className}`}>
+        <div className="h-5 bg-muted/30 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  if (!report || report.error) {
+    return (
+      <div className={`rounded-lg border border-muted/20 p-3 text-sm text-muted ${className}`}>
+        Unable to build a trust report right now{report?.error ? `: ${report.error}` : ""}. Try Refresh.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-muted/20 p-3 text-sm ${className}`}>
+      <div className="flex items-center justify-between font-semibold">
+        <span>Trust report</span>
+        <span className={GRADE_CLASS[report.grade]}>
+          {report.score}/100 · {report.grade}
+        </span>
+      </div>
+      <ul className="mt-2 space-y-1">
+        {report.checks.map((c) => (
+          <li key={c.id} className="flex items-start justify-between gap-3">
+            <span className="flex items-start gap-2">
+              <span>{STATUS_ICON[c.status]}</span>
+              <span>
+                <span className="font-medium">{c.label}</span>
+                <span className="block text-xs text-muted">{c.detail}</span>
+              </span>
+            </span>
+            <span className={`text-xs whitespace-nowrap ${STATUS_CLASS[c.status]}`}>
+              {c.status === "unknown" ? "—" : `${c.score}/${c.maxScore}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted mt-2">
+        Unknown checks are left out of the score. Generated {new Date(report.generatedAt).toLocaleString()}.
+      </p>
+    </div>
+  );
+};
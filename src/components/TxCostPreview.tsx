@@ -0,0 +1,90 @@
+import { FC } from "react";
+import { formatBaseAmount } from "../lib/amounts";
+import { NATIVE_SOL, TxPreview } from "../lib/txPreview";
+
+interface TxCostPreviewProps {
+  preview: TxPreview | null;
+  className?: string;
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function signed(delta: bigint, decimals: number) {
+  return `${delta > BigInt(0) ? "+" : "−"}${formatBaseAmount(delta < BigInt(0) ? -delta : delta, decimals)}`;
+}
+
+/**
+ * Simulated cost of a transaction: network fee, rent, app fees, compute and
+ * the wallet's balance changes. Renders nothing without a preview.
+ */
+export const TxCostPreview: FC<TxCostPreviewProps> = ({ preview, className = "" }) => {
+  if (!preview) return null;
+
+  if (!preview.ok) {
+    return (
+      <div className={`rounded-lg border border-error/30 bg-error/10 p-3 text-sm text-error ${className}`}>
+        <p className="font-semibold">Simulation failed — nothing was signed</p>
+        <p>{preview.error?.message}</p>
+      </div>
+    );
+  }
+
+  const sol = (lamports: bigint) => `${formatBaseAmount(lamports, 9)} SOL`;
+
+  return (
+    <div className={`rounded-lg border border-muted/20 p-3 text-sm ${className}`}>
+      <div className="flex justify-between font-semibold">
+        <span>Estimated cost</span>
+        <span>{sol(preview.totalSolLamports)}</span>
+      </div>
+      <div className="mt-2 space-y-1 text-muted">
+        <div className="flex justify-between">
+          <span>Network fee</span>
+          <span>{sol(preview.networkFeeLamports)}</span>
+        </div>
+        {preview.rentLamports > BigInt(0) && (
+          <div className="flex justify-between">
+            <span>Rent deposit ({preview.newAccounts.length} new account{preview.newAccounts.length === 1 ? "" : "s"})</span>
+            <span>{sol(preview.rentLamports)}</span>
+          </div>
+        )}
+        {preview.appFees.flatFeeLamports > BigInt(0) && (
+          <div className="flex justify-between">
+            <span>App fee</span>
+            <span>{sol(preview.appFees.flatFeeLamports)}</span>
+          </div>
+        )}
+        {preview.appFees.skims.map((skim) => {
+          const change = preview.balanceChanges.find((c) => c.mint === skim.mint);
+          return (
+            <div key={skim.mint} className="flex justify-between">
+              <span>Liquidity skim ({shortAddress(skim.mint)})</span>
+              <span>{change ? formatBaseAmount(skim.amount, change.decimals) : skim.amount.toString()}</span>
+            </div>
+          );
+        })}
+        {preview.computeUnits != null && (
+          <div className="flex justify-between">
+            <span>Compute units</span>
+            <span>{preview.computeUnits.toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+
+      {preview.balanceChanges.length > 0 && (
+        <div className="mt-2 border-t border-muted/20 pt-2 space-y-1">
+          {preview.balanceChanges.map((change) => (
+            <div key={change.mint} className="flex justify-between">
+              <span>{change.mint === NATIVE_SOL ? "SOL" : shortAddress(change.mint)}</span>
+              <span className={change.delta > BigInt(0) ? "text-success" : "text-fg"}>
+                {signed(change.delta, change.decimals)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { FC, useEffect, useState } from "react";
+import { Keypair } from "@solana/web3.js";
+import { Fingerprint } from "lucide-react";
+import { useVanityMint } from "../hooks/useVanityMint";
+import { VANITY_MAX_CHARS, defaultVanityForSymbol, estimateVanity, estimateVanitySeconds } from "../lib/vanity";
+
+interface VanityMintPanelProps {
+  symbol: string;                               // Used to prefill the suffix
+  onKeypairChange: (keypair: Keypair | null) => void;
+  disabled?: boolean;
+}
+
+function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "—";
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+/**
+ * Pro option: grind a mint address ending (or starting) with the ticker
+ * Runs in Web Workers; the resulting keypair is used as the mint signer
+ */
+export const VanityMintPanel: FC<VanityMintPanelProps> = ({ symbol, onKeypairChange, disabled }) => {
+  const [prefix, setPrefix] = useState("");
+  const [suffix, setSuffix] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [touched, setTouched] = useState(false);
+  const vanity = useVanityMint();
+
+  // Prefill the suffix from the ticker until the user edits the pattern
+  useEffect(() => {
+    if (!touched) setSuffix(defaultVanityForSymbol(symbol).suffix || "");
+  }, [symbol, touched]);
+
+  useEffect(() => {
+    onKeypairChange(vanity.status === "found" ? vanity.keypair : null);
+  }, [vanity.status, vanity.keypair, onKeypairChange]);
+
+  let estimateText = "";
+  let estimateError = "";
+  try {
+    if (prefix || suffix) {
+      const est = estimateVanity({ prefix, suffix, caseSensitive });
+      const rate = vanity.ratePerSecond || 5000; // rough browser rate until measured
+      estimateText = `~${est.expectedAttempts.toLocaleString()} attempts (${est.difficulty}), about ${formatDuration(
+        estimateVanitySeconds(est.expectedAttempts, rate)
+      )}`;
+    }
+  } catch (e: any) {
+    estimateError = e?.message;
+  }
+
+  const running = vanity.status === "running";
+  const expected = vanity.estimate?.expectedAttempts || 0;
+  const progress = expected ? Math.min(99, Math.round((vanity.attempts / expected) * 100)) : 0;
+
+  return (
+    <div className="p-4 bg-primary/10 rounded-lg border border-primary/20">
+      <div className="flex items-center space-x-3 mb-3">
+        <Fingerprint className="text-primary" size={20} />
+        <div>
+          <div className="font-medium text-fg">Vanity Mint Address</div>
+          <div className="text-sm text-muted">Mint address that starts or ends with your ticker</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-muted text-sm mb-1">Prefix</label>
+          <input
+            type="text"
+            maxLength={VANITY_MAX_CHARS}
+            value={prefix}
+            disabled={running || disabled}
+            onChange={(e) => { setTouched(true); setPrefix(e.target.value.trim()); }}
+            className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+          />
+        </div>
+        <div>
+          <label className="block text-muted text-sm mb-1">Suffix</label>
+          <input
+            type="text"
+            maxLength={VANITY_MAX_CHARS}
+            value={suffix}
+            disabled={running || disabled}
+            onChange={(e) => { setTouched(true); setSuffix(e.target.value.trim()); }}
+            className="w-full rounded-lg border border-muted/30 bg-transparent px-3 py-2 text-fg"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 mt-3 text-sm text-muted cursor-pointer">
+        <input
+          type="checkbox"
+          checked={caseSensitive}
+          disabled={running || disabled}
+          onChange={(e) => setCaseSensitive(e.target.checked)}
+        />
+        <span>Case-sensitive (much slower)</span>
+      </label>
+
+      {estimateError ? (
+        <p className="text-error text-xs mt-2">{estimateError}</p>
+      ) : estimateText ? (
+        <p className="text-muted text-xs mt-2">{estimateText}</p>
+      ) : null}
+
+      {running && (
+        <div className="mt-3">
+          <div className="w-full h-2 bg-muted/20 rounded-full overflow-hidden">
+            <div className="h-2 bg-primary transition-all" style={{ width: `${progress}%` }} />
+          </div>
+          <p className="text-muted text-xs mt-1">
+            {vanity.attempts.toLocaleString()} tried · {vanity.ratePerSecond.toLocaleString()}/s
+          </p>
+        </div>
+      )}
+
+      {vanity.status === "found" && vanity.keypair && (
+        <p className="text-success text-xs mt-3 break-all font-mono">
+          {vanity.keypair.publicKey.toBase58()}
+        </p>
+      )}
+      {vanity.status === "error" && vanity.error && (
+        <p className="text-error text-xs mt-2">{vanity.error}</p>
+      )}
+
+      <div className="flex space-x-2 mt-3">
+        {running ? (
+          <button type="button" onClick={vanity.cancel} className="px-4 py-2 rounded-lg border border-muted/30 text-fg text-sm">
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={disabled || !!estimateError || (!prefix && !suffix)}
+            onClick={() => vanity.start({ prefix, suffix, caseSensitive })}
+            className="px-4 py-2 rounded-lg bg-primary text-bg text-sm font-semibold disabled:opacity-50"
+          >
+            {vanity.status === "found" ? "Find Another" : "Find Address"}
+          </button>
+        )}
+        {vanity.status === "found" && (
+          <button type="button" onClick={vanity.reset} className="px-4 py-2 rounded-lg border border-muted/30 text-fg text-sm">
+            Use Random Address
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
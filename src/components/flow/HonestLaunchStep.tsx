@@ -15,6 +15,7 @@ interface HonestLaunchStepProps {
 /**
  * Step 1: Honest Launch Verification
  * Allows users to enforce honest launch by revoking authorities
+ * (mint, freeze and optionally the metadata update authority)
  */
 export const HonestLaunchStep: FC<HonestLaunchStepProps> = ({
   tokenMintAddress,
@@ -68,7 +69,7 @@ export const HonestLaunchStep: FC<HonestLaunchStepProps> = ({
           </div>
           <h2 className="text-xl font-semibold text-fg mb-2">Build Trust with Honest Launch</h2>
           <p className="text-muted">
-            Permanently revoke mint/freeze authorities to prove fairness and earn the trust badge that buyers look for.
+            Permanently revoke mint/freeze authorities and lock your metadata to prove fairness and earn the trust badge that buyers look for.
           </p>
         </div>
 
@@ -91,8 +92,9 @@ export const HonestLaunchStep: FC<HonestLaunchStepProps> = ({
         <div className="space-y-4">
           <h3 className="font-semibold text-fg">Enforce Honest Launch</h3>
           <p className="text-sm text-muted">
-            This will permanently revoke your ability to mint new tokens or freeze accounts, 
-            proving to the community that your token is fair and decentralized.
+            This will permanently revoke your ability to mint new tokens or freeze accounts and, 
+            if you choose, to change the name, symbol or logo, proving to the community that 
+            your token is fair and decentralized.
           </p>
           
           {preset === "honest" ? (
@@ -3,6 +3,8 @@ import { useRouter } from "next/router";
 import ProgressiveFlowLayout from "../ProgressiveFlowLayout";
 import { useToast } from "../../hooks/useToast";
 import { useFlowCompletion } from "../../hooks/useFlowCompletion";
+import { RangeStrategySelector } from "../RangeStrategySelector";
+import { DEFAULT_RANGE, RangeChoice, rangeQuery } from "../../lib/rangePresets";
 
 interface LiquidityStepProps {
   tokenMintAddress: string;
@@ -23,6 +25,7 @@ export const LiquidityStep: FC<LiquidityStepProps> = ({
   const { showToast } = useToast();
   const { updateStep } = useFlowCompletion(tokenMintAddress);
   const [isSettingUp, setIsSettingUp] = useState(false);
+  const [range, setRange] = useState<RangeChoice>(DEFAULT_RANGE);
 
   const handleAddLiquidity = async () => {
     setIsSettingUp(true);
@@ -30,7 +33,7 @@ export const LiquidityStep: FC<LiquidityStepProps> = ({
       // Mark liquidity as completed
       await updateStep("liquidity", true);
       // Navigate to liquidity page with pre-filled data
-      router.push(`/liquidity?tokenMint=${encodeURIComponent(tokenMintAddress)}&dex=Raydium&pair=SOL/TOKEN`);
+      router.push(`/liquidity?tokenMint=${encodeURIComponent(tokenMintAddress)}&dex=Raydium&pair=SOL/TOKEN&${rangeQuery(range)}`);
     } catch (error) {
       showToast("Failed to open liquidity setup", "error");
     } finally {
@@ -130,6 +133,9 @@ export const LiquidityStep: FC<LiquidityStepProps> = ({
           </div>
         </div>
 
+        {/* Position range, carried into the liquidity wizard */}
+        <RangeStrategySelector value={range} onChange={setRange} quoteSymbol="SOL" allowTokenOnly disabled={isSettingUp} />
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-3 pt-4">
           <button
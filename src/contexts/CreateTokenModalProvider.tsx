@@ -9,6 +9,7 @@ interface CreateTokenModalContextType {
   isOpen: boolean;
   openModal: () => void;
   closeModal: () => void;
+  resumeDraft: (draftId: string) => void; // Open the modal with a saved draft
 }
 
 const CreateTokenModalContext = createContext<CreateTokenModalContextType | undefined>(undefined);
@@ -19,14 +20,23 @@ interface CreateTokenModalProviderProps {
 
 export const CreateTokenModalProvider: React.FC<CreateTokenModalProviderProps> = ({ children }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [draftId, setDraftId] = useState<string | null>(null);
 
-  const openModal = () => setIsOpen(true);
+  const openModal = () => {
+    setDraftId(null);
+    setIsOpen(true);
+  };
   const closeModal = () => setIsOpen(false);
+  const resumeDraft = (id: string) => {
+    setDraftId(id);
+    setIsOpen(true);
+  };
 
   const value: CreateTokenModalContextType = {
     isOpen,
     openModal,
     closeModal,
+    resumeDraft,
   };
 
   return (
@@ -35,7 +45,7 @@ export const CreateTokenModalProvider: React.FC<CreateTokenModalProviderProps> =
       {/* Global Create Token Modal - renders when isOpen is true */}
       {isOpen && (
         <div className="new_loader relative h-full bg-slate-900">
-          <CreateViewWithPricing setOpenCreateModal={closeModal} />
+          <CreateViewWithPricing setOpenCreateModal={closeModal} draftId={draftId} />
         </div>
       )}
     </CreateTokenModalContext.Provider>
@@ -5,12 +5,16 @@ import {
   verifyHonestMint, 
   readMintAuthorities 
 } from "../lib/solanaToken";
+import { MetadataLock, readMetadataState } from "../lib/metadataUpdate";
 import { IS_DEVNET } from "../lib/env";
 
 export interface HonestLaunchStatus {
-  isVerified: boolean;
+  isVerified: boolean;      // Mint & freeze authorities revoked
+  isFullyVerified: boolean; // ...and metadata locked (or absent)
   mintAuthority: string | null;
   freezeAuthority: string | null;
+  updateAuthority: string | null;
+  metadataLocked: boolean | null; // null when the token has no metadata
   lastChecked: number | null;
 }
 
@@ -20,8 +24,11 @@ export const useHonestLaunchVerification = (mintAddress: string | null) => {
   
   const [status, setStatus] = useState<HonestLaunchStatus>({
     isVerified: false,
+    isFullyVerified: false,
     mintAuthority: null,
     freezeAuthority: null,
+    updateAuthority: null,
+    metadataLocked: null,
     lastChecked: null,
   });
   
@@ -44,13 +51,20 @@ export const useHonestLaunchVerification = (mintAddress: string | null) => {
       }
       
       // The readMintAuthorities function now uses retryWithBackoff internally
-      const authorities = await readMintAuthorities({ connection, mint: mintAddress });
+      const [authorities, metadata] = await Promise.all([
+        readMintAuthorities({ connection, mint: mintAddress }),
+        readMetadataState(connection, mintAddress),
+      ]);
       const isVerified = !authorities.mintAuthority && !authorities.freezeAuthority;
+      const metadataLocked = metadata ? metadata.locked : null;
       
       setStatus({
         isVerified,
+        isFullyVerified: isVerified && metadataLocked !== false,
         mintAuthority: authorities.mintAuthority,
         freezeAuthority: authorities.freezeAuthority,
+        updateAuthority: metadata?.updateAuthority ?? null,
+        metadataLocked,
         lastChecked: Date.now(),
       });
     } catch (err) {
@@ -66,7 +80,8 @@ export const useHonestLaunchVerification = (mintAddress: string | null) => {
   }, [mintAddress, connection]);
 
   // Revoke authorities to enforce honest launch
-  const enforceHonestLaunch = useCallback(async () => {
+  // metadata optionally locks the metadata in the same transaction
+  const enforceHonestLaunch = useCallback(async ({ metadata }: { metadata?: MetadataLock } = {}) => {
     if (!mintAddress || !connection || !wallet.publicKey || !wallet.signTransaction) {
       throw new Error("Wallet not connected or cannot sign transactions");
     }
@@ -80,22 +95,25 @@ export const useHonestLaunchVerification = (mintAddress: string | null) => {
         connection,
         wallet,
         mint: mintAddress,
+        metadata,
       });
 
       // Verify the revocation was successful
-      const isVerified = await verifyHonestMint({ connection, mint: mintAddress });
+      const verification = await verifyHonestMint({ connection, mint: mintAddress });
       
-      if (isVerified) {
+      if (verification.isHonest && (!result.revoked.includes("metadata") || verification.metadataLocked !== false)) {
         // Update status to reflect successful revocation
-        setStatus(prev => ({
-          ...prev,
+        setStatus({
           isVerified: true,
+          isFullyVerified: verification.isFullyHonest,
           mintAuthority: null,
           freezeAuthority: null,
+          updateAuthority: verification.updateAuthority,
+          metadataLocked: verification.metadataLocked,
           lastChecked: Date.now(),
-        }));
+        });
         
-        return { success: true, txid: result.txid };
+        return { success: true, txid: result.txid, revoked: result.revoked };
       } else {
         throw new Error("Authorities were not properly revoked");
       }
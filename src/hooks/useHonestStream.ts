@@ -0,0 +1,30 @@
+import { useEffect, useRef } from "react";
+import type { HonestUpdate } from "../lib/honestWatcher";
+
+/**
+ * Subscribe to live honest status changes for a set of mints
+ * Opens one EventSource to /api/honest-status/stream; the browser reconnects
+ * on its own if the stream drops
+ */
+export const useHonestStream = (mints: string[], onUpdate: (update: HonestUpdate) => void) => {
+  // Latest callback without reopening the stream on every render
+  const callback = useRef(onUpdate);
+  callback.current = onUpdate;
+
+  const key = Array.from(new Set(mints.filter(Boolean))).sort().join(",");
+
+  useEffect(() => {
+    if (!key || typeof window === "undefined" || !("EventSource" in window)) return;
+
+    const source = new EventSource(`/api/honest-status/stream?mints=${encodeURIComponent(key)}`);
+    source.addEventListener("honest", (e) => {
+      try {
+        callback.current(JSON.parse((e as MessageEvent).data));
+      } catch (error) {
+        console.warn("Bad honest stream event:", error);
+      }
+    });
+
+    return () => source.close();
+  }, [key]);
+};
@@ -1,13 +1,17 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/router";
-import { Connection, Transaction, PublicKey } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { logPending, logSuccess, logError } from "../utils/actionLogger";
 import { DEV_RELAX_CONFIRM_MS } from "../lib/env";
 import { useSendSolanaTx } from "./useSendSolanaTx";
+import { appFeesFromSummary } from "../lib/txPreview";
+import { deserializeTx } from "../lib/versionedTx";
+import { DEFAULT_PRIORITY_FEE, PriorityFeeChoice } from "../lib/priorityFees";
+import { DEFAULT_RANGE, parseRangeChoice, RangeChoice } from "../lib/rangePresets";
 
 export interface LiquidityForm {
   tokenMint: string;
-  dex: "Raydium" | "Orca";
+  dex: "Raydium" | "Orca" | "Meteora";
   pair: "SOL/TOKEN" | "USDC/TOKEN";
   baseAmount: string;
   quoteAmount: string;
@@ -22,7 +26,7 @@ export interface LiquidityQuote {
   expectedLpTokens: string;
   minOut: string;
   quoteId: string;
-  source: "Raydium" | "DexScreener" | "Orca"; // Source of the quote data
+  source: "Raydium" | "DexScreener" | "Orca" | "Meteora"; // Source of the quote data
   // CLMM-specific fields for enhanced quotes
   clmmPoolId?: string;
   tickLower?: number;
@@ -30,6 +34,18 @@ export interface LiquidityQuote {
   tokenAIn?: string;
   tokenBIn?: string;
   estLiquidity?: string;
+  // Range context (token price in SOL / USDC), when the pool state was read
+  currentTick?: number;
+  tickSpacing?: number;
+  priceLower?: number;
+  priceUpper?: number;
+  priceCurrent?: number;
+  deposit?: "both" | "A" | "B";
+  // DLMM-specific fields for Meteora quotes
+  binStep?: number;
+  activeBinId?: number;
+  minBinId?: number;
+  maxBinId?: number;
 }
 
 export interface LiquidityError {
@@ -40,9 +56,12 @@ export interface LiquidityError {
 
 export interface LiquidityCommit {
   txid?: string; // For Raydium (mocked)
-  txBase64?: string; // For Orca (base64 encoded)
+  txBase64?: string; // For Orca / Raydium CLMM / Meteora (base64 encoded)
   summary?: {
-    whirlpool: string;
+    whirlpool?: string;
+    clmmPoolId?: string;
+    lbPair?: string;   // Meteora DLMM pool
+    position?: string; // Meteora position account
     tokenMintA: string;
     tokenMintB: string;
     inputMint: "A" | "B";
@@ -57,6 +76,28 @@ export interface LiquidityCommit {
   };
 }
 
+// Fee tier offered when creating a pool (GET /api/liquidity/createPool)
+export interface PoolFeeTier {
+  tickSpacing: number;
+  feeBp: number;
+}
+
+export interface CreatePoolForm {
+  tickSpacing: number;
+  initialPrice: string; // SOL / USDC per 1 token
+}
+
+export interface CreatedPool {
+  pool: string;
+  tokenMintA: string;
+  tokenMintB: string;
+  tickSpacing: number;
+  feeBp: number;
+  currentTick: number;
+  initialPrice: string;
+  signature: string;
+}
+
 export const useLiquidityWizard = () => {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(1);
@@ -74,18 +115,26 @@ export const useLiquidityWizard = () => {
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [commitResult, setCommitResult] = useState<LiquidityCommit | null>(null);
   const [isCommitting, setIsCommitting] = useState(false);
+  const [priority, setPriority] = useState<PriorityFeeChoice>(DEFAULT_PRIORITY_FEE);
+  const [range, setRange] = useState<RangeChoice>(DEFAULT_RANGE);
+  // Pool creation, offered when the quote finds no pool for a fresh token
+  const [noPool, setNoPool] = useState(false);
+  const [feeTiers, setFeeTiers] = useState<PoolFeeTier[]>([]);
+  const [createPoolForm, setCreatePoolForm] = useState<CreatePoolForm>({ tickSpacing: 0, initialPrice: "" });
+  const [isCreatingPool, setIsCreatingPool] = useState(false);
+  const [createdPool, setCreatedPool] = useState<CreatedPool | null>(null);
 
   // Initialize connection and transaction sending hook
   const connection = new Connection(
     process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
   );
-  const { sendTx, phase, isInFlight } = useSendSolanaTx(connection);
+  const { sendTx, phase, preview, isInFlight } = useSendSolanaTx(connection);
 
   // Update form when URL parameters are available
   useEffect(() => {
     if (router.isReady) {
       const tokenMint = router.query.tokenMint as string;
-      const dex = router.query.dex as "Raydium" | "Orca";
+      const dex = router.query.dex as LiquidityForm["dex"];
       const pair = router.query.pair as "SOL/TOKEN" | "USDC/TOKEN";
       
       if (tokenMint || dex || pair) {
@@ -96,8 +145,19 @@ export const useLiquidityWizard = () => {
           pair: pair || prev.pair
         }));
       }
+
+      // Range preset from the launch flow (?range=above&pct=25, &single=1 for token only)
+      if (router.query.range) {
+        setRange(parseRangeChoice({
+          strategy: router.query.range,
+          percent: router.query.pct,
+          priceLower: router.query.min,
+          priceUpper: router.query.max,
+          tokenOnly: router.query.single
+        }));
+      }
     }
-  }, [router.isReady, router.query.tokenMint, router.query.dex, router.query.pair]);
+  }, [router.isReady, router.query.tokenMint, router.query.dex, router.query.pair, router.query.range, router.query.single]);
 
   const updateForm = (field: keyof LiquidityForm, value: string | number) => {
     setForm(prev => ({ ...prev, [field]: value }));
@@ -115,10 +175,12 @@ export const useLiquidityWizard = () => {
     }
   };
 
-  const getQuote = async () => {
+  // Overrides apply to this request only (state updates land after the call)
+  const getQuote = async (overrides: Partial<LiquidityForm> = {}) => {
     setIsLoading(true);
     setErrorMsg(null);
     setQuote(null);
+    setNoPool(false);
     
     // Create AbortController with 15 second timeout
     const controller = new AbortController();
@@ -130,7 +192,7 @@ export const useLiquidityWizard = () => {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(form),
+        body: JSON.stringify({ ...form, range, ...overrides }),
         signal: controller.signal,
       });
 
@@ -149,6 +211,7 @@ export const useLiquidityWizard = () => {
           }
         } else if (errorData.error === "NoPool") {
           errorMessage = errorData.message || "No pool available for this pair";
+          await offerPoolCreation();
         } else if (errorData.error === "ProviderError") {
           errorMessage = errorData.message || "DEX API error";
         } else if (errorData.error === "Timeout") {
@@ -189,7 +252,9 @@ export const useLiquidityWizard = () => {
     
     const startTime = Date.now();
     const action = `Commit ${form.dex} Liquidity`;
-    const amount = `${form.baseAmount} ${form.pair.split('/')[0]}`;
+    // Token-only deposits put no SOL / USDC in (Meteora always takes both sides)
+    const singleSided = form.dex !== "Meteora" && !!range.tokenOnly;
+    const amount = singleSided ? `${form.quoteAmount} TOKEN` : `${form.baseAmount} ${form.pair.split('/')[0]}`;
     
     setIsCommitting(true);
     setErrorMsg(null);
@@ -214,9 +279,13 @@ export const useLiquidityWizard = () => {
         ...form,
         quoteId: quote.quoteId,
         owner: walletAddress, // Include wallet address for canary validation
+        priority, // Compute unit price level applied by the builder
+        singleSided,
         ...(form.dex === "Orca" && {
           whirlpool: quote.poolAddress,
-          slippageBp: 100 // Default 1% slippage
+          slippageBp: 100, // Default 1% slippage
+          tickLower: quote.tickLower,
+          tickUpper: quote.tickUpper
         }),
         ...(form.dex === "Raydium" && form.pair === "USDC/TOKEN" && {
           clmmPoolId: quote.clmmPoolId || quote.poolAddress, // Use CLMM pool ID if available, fallback to pool address
@@ -224,6 +293,13 @@ export const useLiquidityWizard = () => {
           // NEW: Pass tick boundaries from quote to ensure consistency
           tickLower: quote.tickLower,
           tickUpper: quote.tickUpper
+        }),
+        ...(form.dex === "Meteora" && {
+          lbPair: quote.poolAddress,
+          slippageBp: form.slippageBp || 100,
+          // Bin range from quote; the builder re-centres it if the price moved
+          minBinId: quote.minBinId,
+          maxBinId: quote.maxBinId
         })
       };
 
@@ -276,6 +352,18 @@ export const useLiquidityWizard = () => {
         await signAndSendRaydiumClmmTransaction(data.txBase64, data.summary, data.partialSigners);
         
         // Log success only after successful transaction
+        logSuccess({
+          action,
+          dex: form.dex,
+          tokenMint: form.tokenMint,
+          amount,
+          txSignature: data.summary?.signature || 'pending',
+          duration: Date.now() - startTime
+        });
+      } else if (form.dex === "Meteora" && data.txBase64) {
+        // Meteora DLMM: the new position account co-signs with the wallet
+        await signAndSendMeteoraTransaction(data.txBase64, data.summary, data.partialSigners);
+        
         logSuccess({
           action,
           dex: form.dex,
@@ -339,7 +427,7 @@ export const useLiquidityWizard = () => {
       }
 
       // Deserialize transaction
-      const transaction = Transaction.from(Buffer.from(txBase64, 'base64'));
+      const transaction = deserializeTx(txBase64); // Legacy or v0 with lookup tables
       
       // Check if this is a devnet test transaction with placeholder data
       // If so, skip actual signing and simulate success for testing
@@ -392,7 +480,8 @@ export const useLiquidityWizard = () => {
         wallet: {
           publicKey: wallet.publicKey,
           signTransaction: wallet.signTransaction
-        }
+        },
+        appFees: appFeesFromSummary(summary)
       });
 
       if (!result.ok) {
@@ -481,7 +570,7 @@ export const useLiquidityWizard = () => {
       await wallet.connect();
 
       // Deserialize transaction
-      const transaction = Transaction.from(Buffer.from(txBase64, 'base64'));
+      const transaction = deserializeTx(txBase64); // Legacy or v0 with lookup tables
       
       // Check if this is a devnet test transaction with placeholder data
       // If so, skip actual signing and simulate success for testing
@@ -534,7 +623,8 @@ export const useLiquidityWizard = () => {
         wallet: {
           publicKey: wallet.publicKey,
           signTransaction: wallet.signTransaction
-        }
+        },
+        appFees: appFeesFromSummary(summary)
       });
 
       if (!result.ok) {
@@ -610,12 +700,250 @@ export const useLiquidityWizard = () => {
     }
   };
 
+  const signAndSendMeteoraTransaction = async (txBase64: string, summary: any, partialSigners?: string[]) => {
+    try {
+      if (typeof window === 'undefined' || !window.solana?.isPhantom) {
+        throw new Error("Phantom wallet not found. Please install Phantom wallet.");
+      }
+
+      const wallet = window.solana;
+      if (!wallet.isConnected) {
+        await wallet.connect();
+      }
+      if (!wallet.publicKey) {
+        throw new Error("Wallet not connected or public key not available");
+      }
+
+      // The position account must sign, so a missing key is fatal here
+      const { Keypair } = await import("@solana/web3.js");
+      const partialSignerKeypairs = (partialSigners || []).map(signerBase64 =>
+        Keypair.fromSecretKey(new Uint8Array(Buffer.from(signerBase64, 'base64')))
+      );
+
+      const result = await sendTx({
+        tx: deserializeTx(txBase64),
+        partialSigners: partialSignerKeypairs,
+        walletPublicKey: wallet.publicKey,
+        wallet: {
+          publicKey: wallet.publicKey,
+          signTransaction: wallet.signTransaction
+        },
+        appFees: appFeesFromSummary(summary)
+      });
+
+      if (!result.ok) {
+        throw new Error(result.error || "Transaction failed");
+      }
+
+      const signature = result.signature!;
+      console.log("Meteora DLMM transaction sent successfully:", signature);
+
+      // Notify transaction to database (position account stands in for the position mint)
+      try {
+        await fetch("/api/tx/notify", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            txSig: signature,
+            wallet: wallet.publicKey.toString(),
+            mint: form.tokenMint,
+            dex: "meteora",
+            context: {
+              poolId: summary.lbPair,
+              positionMint: summary.position,
+              tickLower: summary.minBinId,
+              tickUpper: summary.maxBinId,
+              tokenA: summary.tokenMintA,
+              tokenB: summary.tokenMintB,
+              lastLiquidity: `${summary.amountA}/${summary.amountB}`,
+              action: "commit",
+              ...(summary.fee && {
+                action: "skim",
+                skimBp: summary.fee.skimBp,
+                skimA: summary.fee.skimA,
+                skimB: summary.fee.skimB,
+                flatSol: summary.fee.sol
+              })
+            }
+          })
+        });
+      } catch (error) {
+        console.warn("Failed to notify transaction:", error);
+      }
+
+      setCommitResult({
+        txBase64,
+        summary: {
+          ...summary,
+          signature
+        }
+      });
+      setShowConfirmModal(false);
+
+    } catch (error) {
+      console.error("Error signing/sending Meteora transaction:", error);
+      setShowConfirmModal(false);
+
+      if (error instanceof Error) {
+        if (error.message.includes("User rejected")) {
+          setErrorMsg("Transaction was rejected by user");
+        } else if (error.message.includes("insufficient funds")) {
+          setErrorMsg("Insufficient funds for transaction");
+        } else {
+          setErrorMsg(error.message);
+        }
+      } else {
+        setErrorMsg("Failed to sign and send transaction");
+      }
+    }
+  };
+
+  /**
+   * Load the venue's fee tiers and prefill the initial price from the entered amounts
+   */
+  const offerPoolCreation = async () => {
+    try {
+      const response = await fetch(`/api/liquidity/createPool?dex=${form.dex}`);
+      const data = await response.json();
+      const tiers: PoolFeeTier[] = response.ok ? data.feeTiers || [] : [];
+      if (tiers.length === 0) return; // Venue can't create pools
+
+      const base = Number(form.baseAmount);
+      const tokens = Number(form.quoteAmount);
+      const price = base > 0 && tokens > 0 ? String(Number((base / tokens).toPrecision(8))) : "";
+
+      setFeeTiers(tiers);
+      setCreatePoolForm(prev => ({
+        tickSpacing: tiers.some(t => t.tickSpacing === prev.tickSpacing) ? prev.tickSpacing : tiers[Math.min(2, tiers.length - 1)].tickSpacing,
+        initialPrice: prev.initialPrice || price
+      }));
+      setNoPool(true);
+    } catch (error) {
+      console.warn("Failed to load fee tiers:", error);
+    }
+  };
+
+  const updateCreatePoolForm = (field: keyof CreatePoolForm, value: string | number) => {
+    setCreatePoolForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * Create the pool, record it, then quote against it so the normal commit
+   * opens the first position
+   */
+  const createPool = async () => {
+    const startTime = Date.now();
+    const action = `Create ${form.dex} Pool`;
+    const amount = `${createPoolForm.initialPrice} ${form.pair.split('/')[0]} per token`;
+
+    setIsCreatingPool(true);
+    setErrorMsg(null);
+    logPending({ action, dex: form.dex, tokenMint: form.tokenMint, amount });
+
+    try {
+      if (typeof window === 'undefined' || !window.solana?.isPhantom) {
+        throw new Error("Phantom wallet not found. Please install Phantom wallet.");
+      }
+      const wallet = window.solana;
+      if (!wallet.isConnected) {
+        await wallet.connect();
+      }
+      if (!wallet.publicKey) {
+        throw new Error("Wallet not connected or public key not available");
+      }
+
+      const response = await fetch("/api/liquidity/createPool", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dex: form.dex,
+          walletPubkey: wallet.publicKey.toString(),
+          tokenMint: form.tokenMint,
+          pair: form.pair,
+          tickSpacing: createPoolForm.tickSpacing,
+          initialPrice: createPoolForm.initialPrice,
+          priority
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const errorCode = data.error || "ProviderError";
+        logError({ action, dex: form.dex, tokenMint: form.tokenMint, amount, errorCode, errorMessage: data.message, duration: Date.now() - startTime });
+        setErrorMsg(`${errorCode}: ${data.message || "Failed to create pool"}`);
+        return;
+      }
+
+      // Vault accounts (Orca) co-sign with the wallet
+      const { Keypair } = await import("@solana/web3.js");
+      const partialSignerKeypairs = (data.partialSigners || []).map((signerBase64: string) =>
+        Keypair.fromSecretKey(new Uint8Array(Buffer.from(signerBase64, 'base64')))
+      );
+
+      const result = await sendTx({
+        tx: deserializeTx(data.txBase64),
+        partialSigners: partialSignerKeypairs,
+        walletPublicKey: wallet.publicKey,
+        wallet: {
+          publicKey: wallet.publicKey,
+          signTransaction: wallet.signTransaction
+        }
+      });
+      if (!result.ok) {
+        throw new Error(result.error || "Transaction failed");
+      }
+
+      const signature = result.signature!;
+      const summary = data.summary;
+      console.log(`${form.dex} pool created:`, summary.pool, signature);
+
+      // Record the pool so quotes and positions find it before indexers do
+      try {
+        await fetch("/api/tx/notify", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            txSig: signature,
+            wallet: wallet.publicKey.toString(),
+            mint: form.tokenMint,
+            dex: form.dex.toLowerCase(),
+            context: {
+              action: "create_pool",
+              poolId: summary.pool,
+              quoteMint: summary.tokenMintA === form.tokenMint ? summary.tokenMintB : summary.tokenMintA,
+              tickSpacing: summary.tickSpacing,
+              initialPrice: summary.initialPrice
+            }
+          })
+        });
+      } catch (error) {
+        console.warn("Failed to notify transaction:", error);
+      }
+
+      logSuccess({ action, dex: form.dex, tokenMint: form.tokenMint, amount, txSignature: signature, duration: Date.now() - startTime });
+      setCreatedPool({ ...summary, signature });
+      setNoPool(false);
+
+      // The new pool is selected explicitly in case recording it failed
+      setSelectedPool(summary.pool);
+      await getQuote({ selectedPool: summary.pool });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create pool";
+      logError({ action, dex: form.dex, tokenMint: form.tokenMint, amount, errorCode: "ProviderError", errorMessage, duration: Date.now() - startTime });
+      console.error("Error creating pool:", error);
+      setErrorMsg(errorMessage.includes("User rejected") ? "Transaction was rejected by user" : errorMessage);
+    } finally {
+      setIsCreatingPool(false);
+    }
+  };
+
   const resetWizard = () => {
     setCurrentStep(1);
     setQuote(null);
     setErrorMsg(null);
     setCommitResult(null);
     setShowConfirmModal(false);
+    setNoPool(false);
+    setCreatedPool(null);
   };
 
   const goBackFromQuote = () => {
@@ -639,6 +967,12 @@ export const useLiquidityWizard = () => {
     commitResult,
     // Transaction phase information for UI state management
     txPhase: phase,
+    txPreview: preview,
+    connection,
+    priority,
+    setPriority,
+    range,
+    setRange,
     isTxInFlight: isInFlight,
     updateForm,
     nextStep,
@@ -648,6 +982,14 @@ export const useLiquidityWizard = () => {
     setShowConfirmModal,
     resetWizard,
     goBackFromQuote,
-    setSelectedPool
+    setSelectedPool,
+    // Pool creation for fresh tokens
+    noPool,
+    feeTiers,
+    createPoolForm,
+    updateCreatePoolForm,
+    createPool,
+    isCreatingPool,
+    createdPool
   };
 };
@@ -1,11 +1,13 @@
 import { useRef, useState } from "react";
 import { Connection, Transaction, PublicKey, Signer, SendTransactionError, VersionedTransaction } from "@solana/web3.js";
 import toast from "react-hot-toast";
+import { AppFees, describeTxPreview, simulateAndPrice, TxPreview } from "../lib/txPreview";
+import { AnyTransaction, feePayerOf, isVersionedTx, partialSignTx, serializeSigned, setRecentBlockhash, signedKeys } from "../lib/versionedTx";
 
 /**
  * Transaction sending phases for UI state management
  */
-export type TransactionPhase = "idle" | "signing" | "sending" | "confirming";
+export type TransactionPhase = "idle" | "simulating" | "signing" | "sending" | "confirming";
 
 /**
  * Transaction sending result
@@ -14,6 +16,7 @@ export interface SendTxResult {
   ok: boolean;
   signature?: string;
   error?: string;
+  preview?: TxPreview; // Simulation / cost preview, when it could be produced
 }
 
 /**
@@ -21,17 +24,19 @@ export interface SendTxResult {
  */
 export interface Wallet {
   publicKey: PublicKey | null;
-  signTransaction: (tx: Transaction) => Promise<Transaction>;
+  signTransaction: <T extends Transaction | VersionedTransaction>(tx: T) => Promise<T>;
 }
 
 /**
  * Parameters for sending a transaction
  */
 export interface SendTxParams {
-  tx: Transaction;
+  tx: AnyTransaction; // Legacy or v0 (lookup-table) transaction from a builder
   partialSigners?: Signer[];
   walletPublicKey: PublicKey;
   wallet: Wallet;
+  appFees?: Partial<AppFees>; // App fees to include in the cost preview (e.g. appFeesFromSummary)
+  onPreview?: (preview: TxPreview) => boolean | Promise<boolean>; // Return false to cancel before the wallet prompt
 }
 
 /**
@@ -39,6 +44,8 @@ export interface SendTxParams {
  * 
  * Features:
  * - Prevents double-invokes using inFlight ref
+ * - Simulates and prices the transaction before the wallet prompt (lib/txPreview);
+ *   a failing simulation is reported and never reaches the wallet
  * - Proper transaction lifecycle management (signing -> sending -> confirming)
  * - Fresh blockhash and fee payer setup before signing
  * - Partial signing support for position mints and temp WSOL accounts
@@ -57,6 +64,9 @@ export function useSendSolanaTx(connection: Connection) {
   // Track current transaction phase for UI state management
   const [phase, setPhase] = useState<TransactionPhase>("idle");
 
+  // Cost preview of the last transaction, for confirm dialogs / receipts
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+
   /**
    * Send a transaction with comprehensive error handling and race condition protection
    */
@@ -64,7 +74,9 @@ export function useSendSolanaTx(connection: Connection) {
     tx, 
     partialSigners = [], 
     walletPublicKey, 
-    wallet 
+    wallet,
+    appFees,
+    onPreview
   }: SendTxParams): Promise<SendTxResult> {
     
     // Prevent double-invokes by checking inFlight state
@@ -83,7 +95,9 @@ export function useSendSolanaTx(connection: Connection) {
 
     // Set inFlight flag to prevent concurrent transactions
     inFlight.current = true;
-    setPhase("signing");
+    setPhase("simulating");
+    setPreview(null);
+    let txPreview: TxPreview | undefined;
 
     try {
       console.log("[useSendSolanaTx] Starting transaction send process");
@@ -94,11 +108,40 @@ export function useSendSolanaTx(connection: Connection) {
       const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
       
       // Set transaction properties - MUST be done before signing
-      tx.recentBlockhash = blockhash;
-      tx.feePayer = walletPublicKey;
+      // A v0 message is compiled for its fee payer, so it can only be checked
+      setRecentBlockhash(tx, blockhash);
+      if (isVersionedTx(tx)) {
+        if (!feePayerOf(tx)?.equals(walletPublicKey)) {
+          throw new Error("Transaction fee payer does not match the connected wallet");
+        }
+      } else {
+        tx.feePayer = walletPublicKey;
+      }
 
       console.log("[useSendSolanaTx] Transaction configured with blockhash:", blockhash);
 
+      // Simulate and price before anything is signed. Only a failing simulation
+      // stops here; if the preview can't be produced, signing goes ahead.
+      try {
+        txPreview = await simulateAndPrice(connection, tx, { feePayer: walletPublicKey, appFees });
+        setPreview(txPreview);
+      } catch (previewError) {
+        console.warn("[useSendSolanaTx] Simulation unavailable, continuing without preview:", previewError);
+      }
+      if (txPreview && !txPreview.ok) {
+        console.error("[useSendSolanaTx] Simulation failed:", txPreview.rawError);
+        const message = txPreview.error?.message || "Transaction simulation failed";
+        toast.error(message);
+        return { ok: false, error: message, preview: txPreview };
+      }
+      if (txPreview) {
+        console.log("[useSendSolanaTx] Cost preview:", describeTxPreview(txPreview));
+        if (onPreview && !(await onPreview(txPreview))) {
+          return { ok: false, error: "Cancelled", preview: txPreview };
+        }
+      }
+      setPhase("signing");
+
       // IMPORTANT: Partial sign first - these accounts MUST be signed:
       // 1. positionMint (Keypair) → must partialSign
       // 2. Temp WSOL account (if created) → must partialSign  
@@ -106,12 +149,13 @@ export function useSendSolanaTx(connection: Connection) {
       // This must happen before wallet signing to avoid signature conflicts
       if (partialSigners?.length) {
         console.log("[useSendSolanaTx] Partial signing with", partialSigners.length, "signers");
-        tx.partialSign(...partialSigners);
+        partialSignTx(tx, partialSigners);
         
         // CRITICAL: Validate that all partial signers are actually signed
         // This ensures positionMint, temp WSOL accounts, etc. are properly signed
+        const signed = signedKeys(tx);
         const missingSignatures = partialSigners.filter(signer => 
-          !tx.signatures.find(sig => sig.publicKey.equals(signer.publicKey))
+          !signed.find(key => key.equals(signer.publicKey))
         );
         
         if (missingSignatures.length > 0) {
@@ -132,10 +176,7 @@ export function useSendSolanaTx(connection: Connection) {
       console.log("[useSendSolanaTx] Sending signed transaction");
 
       // Serialize and send transaction with retry configuration
-      const raw = signed.serialize({ 
-        requireAllSignatures: false, 
-        verifySignatures: true 
-      });
+      const raw = serializeSigned(signed);
       
       const sig = await connection.sendRawTransaction(raw, { 
         skipPreflight: false, 
@@ -178,7 +219,7 @@ export function useSendSolanaTx(connection: Connection) {
       }
 
       console.log("[useSendSolanaTx] Transaction completed successfully");
-      return { ok: true, signature: sig };
+      return { ok: true, signature: sig, preview: txPreview };
 
     } catch (e: any) {
       console.error("[useSendSolanaTx] Transaction failed:", e?.message || e);
@@ -192,13 +233,13 @@ export function useSendSolanaTx(connection: Connection) {
         }
         
         // Log signature count information for debugging
-        const msg = tx.compileMessage();
-        console.error("[useSendSolanaTx] Signatures required/present:", msg.header.numRequiredSignatures, tx.signatures?.length);
-        console.error("[useSendSolanaTx] Fee payer:", tx.feePayer?.toBase58());
+        const msg = isVersionedTx(tx) ? tx.message : tx.compileMessage();
+        console.error("[useSendSolanaTx] Signatures required/present:", msg.header.numRequiredSignatures, signedKeys(tx).length);
+        console.error("[useSendSolanaTx] Fee payer:", feePayerOf(tx)?.toBase58());
         
         // Log transaction details for debugging
-        console.error("[useSendSolanaTx] Transaction recent blockhash:", tx.recentBlockhash);
-        console.error("[useSendSolanaTx] Transaction instructions count:", tx.instructions.length);
+        console.error("[useSendSolanaTx] Transaction recent blockhash:", msg.recentBlockhash);
+        console.error("[useSendSolanaTx] Transaction instructions count:", msg.compiledInstructions.length);
       } catch (debugError) {
         // Don't let debug logging errors interfere with main error handling
         console.warn("[useSendSolanaTx] Debug logging failed:", debugError);
@@ -221,7 +262,7 @@ export function useSendSolanaTx(connection: Connection) {
       // Show user-friendly error message
       toast.error(errorMessage);
       
-      return { ok: false, error: errorMessage };
+      return { ok: false, error: errorMessage, preview: txPreview };
     } finally {
       // Always reset state, regardless of success or failure
       inFlight.current = false;
@@ -233,6 +274,7 @@ export function useSendSolanaTx(connection: Connection) {
   return { 
     sendTx, 
     phase,
+    preview,
     isInFlight: inFlight.current 
   };
 }
@@ -0,0 +1,181 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { DraftData, DraftFlow, DraftStep, TokenDraft, draftsAuthHeaders, isDraftEmpty } from "../lib/drafts";
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
+// Wait this long after the last keystroke before saving
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface UseTokenDraftOptions {
+  flow: DraftFlow;
+  data: DraftData;
+  step: DraftStep;
+  payment?: { txSig: string; amount?: number } | null; // Pro payment made in this flow
+  resumeId?: string | null;                            // Draft to load (e.g. ?draft=<id>)
+  onResume: (draft: TokenDraft) => void | Promise<void>;
+}
+
+// Hook return type
+interface UseTokenDraftReturn {
+  draftId: string | null;
+  saveStatus: DraftSaveStatus;
+  resuming: boolean; // True until the requested draft has been applied (or failed to load)
+  discard: () => Promise<void>;
+}
+
+/**
+ * Autosave a create form to /api/drafts and resume it later
+ * Saving needs a connected wallet that can sign messages (asked once, see draftsAuthHeaders);
+ * call discard() once the token is created
+ */
+export const useTokenDraft = ({
+  flow,
+  data,
+  step,
+  payment,
+  resumeId,
+  onResume,
+}: UseTokenDraftOptions): UseTokenDraftReturn => {
+  const { publicKey, signMessage } = useWallet();
+  const wallet = publicKey?.toBase58() || null;
+
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>("idle");
+  const [resuming, setResuming] = useState(!!resumeId);
+
+  const draftIdRef = useRef<string | null>(null);
+  const lastSavedRef = useRef<string>("");
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const discardedRef = useRef(false);
+  const authDeclinedRef = useRef(false); // Wallet couldn't or wouldn't sign; stop autosaving
+  const onResumeRef = useRef(onResume);
+  onResumeRef.current = onResume;
+  const signMessageRef = useRef(signMessage);
+  signMessageRef.current = signMessage;
+
+  const body = JSON.stringify({
+    wallet,
+    flow,
+    step,
+    data,
+    paymentTxSig: payment?.txSig || null,
+    paymentAmount: payment?.amount ?? null,
+  });
+
+  // Drafts belong to a wallet; switching wallets starts a new one
+  useEffect(() => {
+    draftIdRef.current = null;
+    authDeclinedRef.current = false;
+    setDraftId(null);
+  }, [wallet]);
+
+  // Load the requested draft once the wallet is connected
+  useEffect(() => {
+    if (!resumeId) {
+      setResuming(false);
+      return;
+    }
+    setResuming(true);
+    if (!wallet) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const headers = await draftsAuthHeaders(wallet, signMessageRef.current);
+        const r = await fetch(`/api/drafts/${encodeURIComponent(resumeId)}?wallet=${wallet}`, { cache: "no-store", headers });
+        const j = await r.json();
+        if (cancelled || !j?.ok) return;
+        const draft: TokenDraft = j.draft;
+        draftIdRef.current = draft.id;
+        setDraftId(draft.id);
+        await onResumeRef.current(draft);
+      } catch (error) {
+        console.warn("Failed to load draft:", error);
+      } finally {
+        if (!cancelled) setResuming(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeId, wallet]);
+
+  const save = useCallback(async (payload: string) => {
+    if (discardedRef.current || payload === lastSavedRef.current) return;
+    setSaveStatus("saving");
+    let auth: Record<string, string>;
+    try {
+      auth = await draftsAuthHeaders(JSON.parse(payload).wallet, signMessageRef.current);
+    } catch (error) {
+      console.warn("Draft autosave needs a wallet signature:", error);
+      authDeclinedRef.current = true;
+      setSaveStatus("error");
+      return;
+    }
+    try {
+      const id = draftIdRef.current;
+      const headers = { "content-type": "application/json", ...auth };
+      let r = id
+        ? await fetch(`/api/drafts/${encodeURIComponent(id)}`, {
+            method: "PUT",
+            headers,
+            body: payload,
+          })
+        : null;
+      // First save, or the draft was deleted elsewhere (e.g. from My Tokens)
+      if (!r || r.status === 404) {
+        r = await fetch("/api/drafts", {
+          method: "POST",
+          headers,
+          body: payload,
+        });
+      }
+      const j = await r.json();
+      if (!j?.ok) throw new Error(j?.error || "Draft save failed");
+      if (discardedRef.current) return;
+      draftIdRef.current = j.draft.id;
+      setDraftId(j.draft.id);
+      lastSavedRef.current = payload;
+      setSaveStatus("saved");
+    } catch (error) {
+      console.warn("Failed to save draft:", error);
+      setSaveStatus("error");
+    }
+  }, []);
+
+  // Debounced autosave; saves are queued so the first POST finishes before any PUT
+  useEffect(() => {
+    if (resuming || !wallet || discardedRef.current || authDeclinedRef.current || isDraftEmpty(data)) return;
+    if (body === lastSavedRef.current) return;
+
+    const timer = setTimeout(() => {
+      queueRef.current = queueRef.current.then(() => save(body));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [body, resuming, wallet, save]); // data is part of body
+
+  const discard = useCallback(async () => {
+    discardedRef.current = true;
+    await queueRef.current;
+    const id = draftIdRef.current;
+    draftIdRef.current = null;
+    setDraftId(null);
+    setSaveStatus("idle");
+    if (!id || !wallet) return;
+    try {
+      const headers = await draftsAuthHeaders(wallet, signMessageRef.current);
+      await fetch(`/api/drafts/${encodeURIComponent(id)}?wallet=${wallet}`, { method: "DELETE", headers });
+    } catch (error) {
+      console.warn("Failed to delete draft:", error);
+    }
+  }, [wallet]);
+
+  return {
+    draftId,
+    saveStatus,
+    resuming,
+    discard,
+  };
+};
@@ -0,0 +1,109 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Keypair } from "@solana/web3.js";
+import { VanityPattern, VanityEstimate, estimateVanity, validateVanityPattern } from "../lib/vanity";
+
+export type VanityStatus = "idle" | "running" | "found" | "cancelled" | "error";
+
+// Hook return type
+interface UseVanityMintReturn {
+  status: VanityStatus;
+  attempts: number;
+  ratePerSecond: number;
+  estimate: VanityEstimate | null;
+  keypair: Keypair | null;
+  error: string | null;
+  start: (pattern: VanityPattern) => void;
+  cancel: () => void;
+  reset: () => void;
+}
+
+// Leave one core for the UI thread; more than 8 workers rarely helps
+function workerCount(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+/**
+ * Grind a vanity mint keypair in the browser with a pool of Web Workers
+ * The secret key never leaves the browser; pass `keypair` to requestCreateTokenTx
+ */
+export const useVanityMint = (): UseVanityMintReturn => {
+  const [status, setStatus] = useState<VanityStatus>("idle");
+  const [attempts, setAttempts] = useState(0);
+  const [ratePerSecond, setRatePerSecond] = useState(0);
+  const [estimate, setEstimate] = useState<VanityEstimate | null>(null);
+  const [keypair, setKeypair] = useState<Keypair | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workersRef = useRef<Worker[]>([]);
+
+  const stopWorkers = useCallback(() => {
+    workersRef.current.forEach((w) => w.terminate());
+    workersRef.current = [];
+  }, []);
+
+  // Terminate workers when the component unmounts
+  useEffect(() => stopWorkers, [stopWorkers]);
+
+  const start = useCallback((pattern: VanityPattern) => {
+    stopWorkers();
+    setKeypair(null);
+    setAttempts(0);
+    setRatePerSecond(0);
+    setError(null);
+
+    let normalized: Required<VanityPattern>;
+    try {
+      normalized = validateVanityPattern(pattern);
+      setEstimate(estimateVanity(normalized));
+    } catch (e: any) {
+      setError(e?.message || "Invalid vanity pattern");
+      setStatus("error");
+      return;
+    }
+
+    setStatus("running");
+    const startedAt = Date.now();
+    let total = 0;
+
+    for (let i = 0; i < workerCount(); i++) {
+      const worker = new Worker(new URL("../lib/vanity.worker.ts", import.meta.url));
+      worker.onmessage = (event: MessageEvent) => {
+        const msg = event.data;
+        total += msg.attempts || 0;
+        setAttempts(total);
+        setRatePerSecond(Math.round(total / Math.max(0.001, (Date.now() - startedAt) / 1000)));
+
+        if (msg.type === "found") {
+          stopWorkers();
+          setKeypair(Keypair.fromSecretKey(new Uint8Array(msg.secretKey)));
+          setStatus("found");
+        }
+      };
+      worker.onerror = (event) => {
+        stopWorkers();
+        setError(event.message || "Vanity worker failed");
+        setStatus("error");
+      };
+      worker.postMessage({ type: "start", pattern: normalized });
+      workersRef.current.push(worker);
+    }
+  }, [stopWorkers]);
+
+  const cancel = useCallback(() => {
+    stopWorkers();
+    setStatus((s) => (s === "running" ? "cancelled" : s));
+  }, [stopWorkers]);
+
+  const reset = useCallback(() => {
+    stopWorkers();
+    setStatus("idle");
+    setAttempts(0);
+    setRatePerSecond(0);
+    setEstimate(null);
+    setKeypair(null);
+    setError(null);
+  }, [stopWorkers]);
+
+  return { status, attempts, ratePerSecond, estimate, keypair, error, start, cancel, reset };
+};
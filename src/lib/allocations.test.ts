@@ -0,0 +1,100 @@
+// Simple test for allocation resolution and the follow-up mint transactions
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { ALLOCATIONS_PER_TX, AllocationInput, resolveAllocations } from './allocations';
+import { buildCreateTokenTx } from './tokenCreate';
+
+const stubConnection = {
+  getMinimumBalanceForRentExemption: async (size: number) => 6960 * (size + 128),
+  getLatestBlockhash: async () => ({
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 100,
+  }),
+} as unknown as Connection;
+
+function errorCode(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (e: any) {
+    return e?.code || 'unknown';
+  }
+}
+
+async function testAllocations() {
+  try {
+    const failures: string[] = [];
+    const creator = Keypair.generate().publicKey.toBase58();
+    const wallet = () => Keypair.generate().publicKey.toBase58();
+    const supply = { amount: '1000000000', decimals: 6 };
+
+    console.log('Testing percent + amount rows with creator remainder...');
+    const rows = resolveAllocations(
+      [
+        { category: 'team', wallet: wallet(), percent: '15' },
+        { category: 'treasury', wallet: wallet(), amount: '100000000.5' },
+        { category: 'airdrop', wallet: wallet(), percent: '0.0001' },
+      ],
+      supply,
+      creator
+    );
+    const total = rows.reduce((sum, r) => sum + r.amountBase, BigInt(0));
+    if (total !== BigInt('1000000000000000')) failures.push(`sum ${total}`);
+    if (rows[0].amount !== '150000000' || rows[0].bp !== 1500) failures.push('percent row');
+    if (rows[2].amount !== '1000') failures.push('tiny percent row');
+    if (rows[3]?.category !== 'creator' || rows[3].wallet !== creator) failures.push('creator remainder');
+
+    console.log('Testing invalid tables are rejected...');
+    const w = wallet();
+    const bad: Array<[AllocationInput[], string]> = [
+      [[{ category: 'team', wallet: w, percent: '60' }, { category: 'other', wallet: wallet(), percent: '41' }], 'AllocationExceedsSupply'],
+      [[{ category: 'team', wallet: w, percent: '1' }, { category: 'other', wallet: w, percent: '1' }], 'DuplicateWallet'],
+      [[{ category: 'team', wallet: creator, percent: '1' }], 'DuplicateWallet'],
+      [[{ category: 'team', wallet: w, percent: '1', amount: '5' }], 'InvalidAllocation'],
+      [[{ category: 'team', wallet: w, amount: '0.0000001' }], 'InvalidAllocation'],
+      [[{ category: 'team', wallet: 'not-a-wallet', percent: '1' }], 'InvalidAllocation'],
+    ];
+    for (const [inputs, code] of bad) {
+      const got = errorCode(() => resolveAllocations(inputs, supply, creator));
+      if (got !== code) failures.push(`expected ${code}, got ${got}`);
+    }
+
+    console.log('Testing follow-up transactions are batched...');
+    const recipients: AllocationInput[] = Array.from({ length: ALLOCATIONS_PER_TX + 1 }, () => ({
+      category: 'airdrop' as const,
+      wallet: wallet(),
+      percent: '1',
+    }));
+    const payer = Keypair.generate().publicKey;
+    const resolved = resolveAllocations(recipients, supply, payer.toBase58());
+    const built = await buildCreateTokenTx({
+      connection: stubConnection,
+      payer,
+      name: 'Alloc',
+      symbol: 'ALC',
+      uri: 'https://example.com/meta.json',
+      decimals: 6,
+      amountBase: BigInt('1000000000000000'),
+      allocations: resolved,
+    });
+    const followUps = (built.followUpTxsBase64 || []).map((tx) => Transaction.from(Buffer.from(tx, 'base64')));
+    if (followUps.length !== 2) failures.push(`expected 2 follow-ups, got ${followUps.length}`);
+    if (followUps[0]?.instructions.length !== ALLOCATIONS_PER_TX * 2) failures.push('batch size');
+    if (built.summary.allocations?.length !== ALLOCATIONS_PER_TX + 2) failures.push('summary allocations');
+
+    if (failures.length === 0) {
+      console.log('✅ Allocations test passed!');
+    } else {
+      console.log('❌ Allocations test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Allocations test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testAllocations();
+}
+
+export { testAllocations };
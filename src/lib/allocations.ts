@@ -0,0 +1,189 @@
+import { PublicKey } from "@solana/web3.js";
+import { formatBaseAmount, parseSupply, parseUiAmount } from "./amounts";
+
+/**
+ * Initial supply allocation table
+ *
+ * Creators can split the initial supply between team, treasury, airdrop,
+ * liquidity and arbitrary wallets at creation time, by percentage or exact
+ * amount. Whatever is not allocated stays with the creator. The resolved table
+ * is minted by the create flow and stored on CreatedToken.allocations so
+ * /token/[mint] can show it next to on-chain balances.
+ */
+
+export const ALLOCATION_CATEGORIES = ["team", "treasury", "airdrop", "liquidity", "other"] as const;
+export type AllocationCategory = (typeof ALLOCATION_CATEGORIES)[number];
+
+// Hard cap on recipients; each one costs an ATA rent deposit
+export const MAX_ALLOCATIONS = 20;
+
+// Recipients per follow-up transaction (create ATA + MintTo each, fits a legacy tx)
+export const ALLOCATIONS_PER_TX = 6;
+
+// Percentages are parsed with 4 decimal places (0.0001% precision)
+const PERCENT_DECIMALS = 4;
+const PERCENT_SCALE = BigInt(100) * BigInt(10 ** PERCENT_DECIMALS);
+
+/**
+ * One row as entered in the create form - exactly one of percent / amount is set
+ */
+export interface AllocationInput {
+  category: AllocationCategory;
+  label?: string;
+  wallet: string;
+  percent?: string; // "12.5" = 12.5% of supply
+  amount?: string;  // UI units of the new token
+}
+
+/**
+ * Stored / displayed allocation row
+ * "creator" is the implicit remainder row that stays with the creator wallet
+ */
+export interface TokenAllocation {
+  category: AllocationCategory | "creator";
+  label?: string;
+  wallet: string;
+  amount: string; // UI units, exact decimal string
+  bp: number;     // Share of supply in basis points (display only, floored)
+}
+
+export interface ResolvedAllocation extends TokenAllocation {
+  amountBase: bigint;
+}
+
+/**
+ * Stored row plus the recipient's current balance (GET /api/token/allocations)
+ */
+export interface AllocationBalance extends TokenAllocation {
+  ata: string;
+  onChainAmount: string | null; // UI units; null when the ATA does not exist (closed or never created)
+  matches: boolean;             // On-chain balance still equals the planned amount
+}
+
+function allocationError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+/**
+ * Resolve form rows into exact base-unit amounts
+ * @param inputs - Allocation rows (may be empty)
+ * @param supply - Total supply in UI units and mint decimals
+ * @param creatorWallet - Receives whatever is left unallocated
+ * @returns Rows in input order, followed by the creator remainder when non-zero
+ * @throws Error with code InvalidAllocation | DuplicateWallet | TooManyAllocations | AllocationExceedsSupply
+ */
+export function resolveAllocations(
+  inputs: AllocationInput[],
+  supply: { amount: string; decimals: number | string },
+  creatorWallet: string
+): ResolvedAllocation[] {
+  const decimals = Number(supply.decimals);
+  const supplyBase = parseSupply(supply.amount, decimals);
+
+  if (inputs.length > MAX_ALLOCATIONS) {
+    throw allocationError("TooManyAllocations", `At most ${MAX_ALLOCATIONS} allocation rows are supported`);
+  }
+
+  const creator = new PublicKey(creatorWallet).toBase58();
+  const seen = new Set<string>();
+  const rows: ResolvedAllocation[] = [];
+  let allocated = BigInt(0);
+
+  inputs.forEach((input, i) => {
+    const row = i + 1;
+    let wallet: string;
+    try {
+      wallet = new PublicKey(input.wallet.trim()).toBase58();
+    } catch {
+      throw allocationError("InvalidAllocation", `Row ${row}: invalid wallet address`);
+    }
+    if (wallet === creator) {
+      throw allocationError("DuplicateWallet", `Row ${row}: unallocated supply already stays in your wallet`);
+    }
+    if (seen.has(wallet)) {
+      throw allocationError("DuplicateWallet", `Row ${row}: wallet is already in the table`);
+    }
+    seen.add(wallet);
+
+    if (!ALLOCATION_CATEGORIES.includes(input.category)) {
+      throw allocationError("InvalidAllocation", `Row ${row}: unknown category "${input.category}"`);
+    }
+
+    const hasPercent = !!input.percent && input.percent.trim() !== "";
+    const hasAmount = !!input.amount && input.amount.trim() !== "";
+    if (hasPercent === hasAmount) {
+      throw allocationError("InvalidAllocation", `Row ${row}: set either a percentage or an amount`);
+    }
+
+    let amountBase: bigint;
+    try {
+      if (hasPercent) {
+        const pct = parseUiAmount(input.percent, PERCENT_DECIMALS, "exact");
+        if (pct > PERCENT_SCALE) throw new Error();
+        amountBase = (supplyBase * pct) / PERCENT_SCALE;
+      } else {
+        amountBase = parseUiAmount(input.amount, decimals, "exact");
+      }
+    } catch {
+      throw allocationError(
+        "InvalidAllocation",
+        hasPercent
+          ? `Row ${row}: percentage must be between 0 and 100 with at most ${PERCENT_DECIMALS} decimals`
+          : `Row ${row}: amount must be a positive number with at most ${decimals} decimals`
+      );
+    }
+    if (amountBase <= BigInt(0)) {
+      throw allocationError("InvalidAllocation", `Row ${row}: allocation rounds to zero tokens`);
+    }
+
+    allocated += amountBase;
+    rows.push({
+      category: input.category,
+      label: input.label?.trim() || undefined,
+      wallet,
+      amount: formatBaseAmount(amountBase, decimals),
+      amountBase,
+      bp: Number((amountBase * BigInt(10_000)) / supplyBase),
+    });
+  });
+
+  if (allocated > supplyBase) {
+    throw allocationError(
+      "AllocationExceedsSupply",
+      `Allocations total ${formatBaseAmount(allocated, decimals)}, more than the supply of ${formatBaseAmount(supplyBase, decimals)}`
+    );
+  }
+
+  const remainder = supplyBase - allocated;
+  if (remainder > BigInt(0)) {
+    rows.push({
+      category: "creator",
+      wallet: creator,
+      amount: formatBaseAmount(remainder, decimals),
+      amountBase: remainder,
+      bp: Number((remainder * BigInt(10_000)) / supplyBase),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Strip base units for JSON storage / API responses
+ */
+export function toStoredAllocations(rows: ResolvedAllocation[]): TokenAllocation[] {
+  return rows.map(({ amountBase, ...row }) => row);
+}
+
+/**
+ * Sum base-unit amounts per wallet (one row per wallet today; summed defensively)
+ */
+export function amountsByWallet(rows: ResolvedAllocation[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const row of rows) {
+    totals.set(row.wallet, (totals.get(row.wallet) || BigInt(0)) + row.amountBase);
+  }
+  return totals;
+}
@@ -0,0 +1,116 @@
+// Property tests for exact amount conversion at the decimals/supply edges
+import {
+  U64_MAX,
+  formatBaseAmount,
+  maxUiSupply,
+  parseSupply,
+  parseUiAmount,
+} from './amounts';
+
+// Deterministic PRNG so failures are reproducible
+function makeRng(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 0x100000000;
+  };
+}
+
+function randomBase(rng: () => number): bigint {
+  // Spread values across the whole u64 range, including tiny ones
+  const bits = Math.floor(rng() * 65);
+  let v = BigInt(0);
+  for (let i = 0; i < bits; i++) {
+    v = (v << BigInt(1)) | (rng() < 0.5 ? BigInt(1) : BigInt(0));
+  }
+  return v;
+}
+
+function throwsCode(fn: () => unknown, code: string): boolean {
+  try {
+    fn();
+    return false;
+  } catch (e: any) {
+    return e?.code === code;
+  }
+}
+
+async function testAmounts() {
+  try {
+    const failures: string[] = [];
+    const rng = makeRng(42);
+
+    console.log('Testing format/parse round-trip for decimals 0-9...');
+    for (let i = 0; i < 5000; i++) {
+      const decimals = i % 10;
+      const base = randomBase(rng);
+      const ui = formatBaseAmount(base, decimals);
+      const back = parseUiAmount(ui, decimals, 'exact');
+      if (back !== base) failures.push(`round-trip ${base} @${decimals} -> ${ui} -> ${back}`);
+    }
+
+    console.log('Testing u64 boundary...');
+    for (let d = 0; d <= 9; d++) {
+      const max = maxUiSupply(d);
+      if (parseSupply(max, d) !== U64_MAX) failures.push(`max supply @${d}`);
+      const oneMore = formatBaseAmount(U64_MAX + BigInt(1), d);
+      if (!throwsCode(() => parseSupply(oneMore, d), 'ExceedsU64')) failures.push(`u64+1 @${d}`);
+    }
+
+    console.log('Testing precision above 2^53...');
+    if (parseUiAmount('9007199254.740993', 6) !== BigInt('9007199254740993')) failures.push('2^53+1');
+    // 1e12 tokens at 9 decimals = 1e21 base units, above u64 max
+    if (!throwsCode(() => parseSupply('1000000000000', 9), 'ExceedsU64')) failures.push('1e12 @9 fits u64');
+
+    console.log('Testing rounding modes...');
+    const cases: Array<[string, number, 'floor' | 'ceil' | 'round', string]> = [
+      ['1.2345', 2, 'floor', '123'],
+      ['1.2345', 2, 'ceil', '124'],
+      ['1.2350', 2, 'round', '124'],
+      ['1.2349', 2, 'round', '123'],
+      ['1.2300', 2, 'ceil', '123'],
+      ['0.0000001', 6, 'ceil', '1'],
+      ['0.0000001', 6, 'floor', '0'],
+      ['1e3', 0, 'floor', '1000'],
+      ['2.5e-3', 4, 'floor', '25'],
+      ['.5', 1, 'floor', '5'],
+      ['0004.5e-1', 1, 'floor', '4'],
+      ['1e-50000000', 9, 'ceil', '1'],
+      ['0e50000000', 9, 'floor', '0'],
+    ];
+    for (const [ui, d, mode, expected] of cases) {
+      const got = parseUiAmount(ui, d, mode).toString();
+      if (got !== expected) failures.push(`${ui} @${d} ${mode}: ${got} != ${expected}`);
+    }
+
+    console.log('Testing invalid input is rejected...');
+    if (!throwsCode(() => parseUiAmount('1.23', 1, 'exact'), 'TooManyDecimals')) failures.push('exact');
+    if (!throwsCode(() => parseUiAmount('-1', 6), 'NegativeAmount')) failures.push('negative');
+    if (!throwsCode(() => parseUiAmount('abc', 6), 'InvalidAmount')) failures.push('garbage');
+    if (!throwsCode(() => parseUiAmount('.', 6), 'InvalidAmount')) failures.push('lone dot');
+    if (!throwsCode(() => parseUiAmount(NaN, 6), 'InvalidAmount')) failures.push('NaN');
+    if (!throwsCode(() => parseSupply('0', 6), 'InvalidAmount')) failures.push('zero supply');
+    if (!throwsCode(() => parseSupply('1', 10), 'InvalidDecimals')) failures.push('decimals 10');
+    // Huge exponents are rejected before the digits are expanded
+    const started = Date.now();
+    if (!throwsCode(() => parseSupply('1e50000000', 9), 'ExceedsU64')) failures.push('huge exponent');
+    if (!throwsCode(() => parseUiAmount('1'.repeat(21), 0), 'ExceedsU64')) failures.push('21 digits');
+    if (Date.now() - started > 100) failures.push(`huge exponent took ${Date.now() - started}ms`);
+
+    if (failures.length === 0) {
+      console.log('✅ Amounts test passed!');
+    } else {
+      console.log('❌ Amounts test failed:', failures.slice(0, 10));
+    }
+
+  } catch (error) {
+    console.error('❌ Amounts test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testAmounts();
+}
+
+export { testAmounts };
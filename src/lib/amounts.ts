@@ -0,0 +1,202 @@
+/**
+ * Exact decimal-string <-> base-unit conversion for SPL token amounts
+ *
+ * All math is done on bigint so amounts above 2^53 (common once decimals are
+ * applied to meme-sized supplies) never lose precision. UI amounts are parsed
+ * as decimal strings; numbers are accepted but converted through their string
+ * form, so pass strings wherever the user typed the value.
+ */
+
+// Largest value a u64 token amount / supply can hold on chain
+export const U64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+// SPL mints support 0-9 decimals in this app (matches the create form limits)
+export const MAX_DECIMALS = 9;
+
+/**
+ * How to handle UI amounts with more fractional digits than the mint supports
+ * - "floor": drop extra digits (never more than the user asked for)
+ * - "ceil": round up to the next base unit (e.g. for fee caps)
+ * - "round": half-up to the nearest base unit
+ * - "exact": reject with code "TooManyDecimals"
+ */
+export type Rounding = "floor" | "ceil" | "round" | "exact";
+
+/**
+ * Error codes thrown by this module (attached as `e.code`)
+ */
+export type AmountErrorCode =
+  | "InvalidAmount"
+  | "NegativeAmount"
+  | "InvalidDecimals"
+  | "TooManyDecimals"
+  | "ExceedsU64";
+
+function amountError(code: AmountErrorCode, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+/**
+ * Validate a decimals value and return it as a number
+ * @throws Error with code "InvalidDecimals"
+ */
+export function assertDecimals(decimals: number | string, max = MAX_DECIMALS): number {
+  const d = typeof decimals === "string" ? Number(decimals.trim()) : decimals;
+  if (!Number.isInteger(d) || d < 0 || d > max) {
+    throw amountError("InvalidDecimals", `Decimals must be a number between 0 and ${max}`);
+  }
+  return d;
+}
+
+// Plain decimal with optional exponent: "123", "1.5", ".5", "1e9", "2.5E-3"
+const DECIMAL_RE = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// Digits in U64_MAX; a base amount with more integer digits can never fit
+const U64_DIGITS = U64_MAX.toString().length;
+
+/**
+ * Convert a UI amount to base units with exact bigint math
+ * @param ui - Amount as typed by the user ("1000000.5") or a JS number
+ * @param decimals - Mint decimals
+ * @param rounding - What to do with digits beyond `decimals` (default "floor")
+ * @returns Amount in base units
+ * @throws Error with code InvalidAmount | NegativeAmount | InvalidDecimals | TooManyDecimals,
+ *   or ExceedsU64 when the base amount has more digits than any u64 (checked before
+ *   expanding exponents, so "1e50000000" fails fast)
+ *
+ * @example
+ * parseUiAmount("1.5", 9) // 1500000000n
+ * parseUiAmount("0.0000001", 6, "ceil") // 1n
+ */
+export function parseUiAmount(ui: string | number, decimals: number, rounding: Rounding = "floor"): bigint {
+  assertDecimals(decimals, 255);
+
+  if (typeof ui === "number" && !Number.isFinite(ui)) {
+    throw amountError("InvalidAmount", "Amount must be a finite number");
+  }
+
+  const raw = String(ui).trim().replace(/_/g, "");
+  if (raw.startsWith("-")) {
+    throw amountError("NegativeAmount", "Amount must not be negative");
+  }
+
+  const m = DECIMAL_RE.exec(raw.startsWith("+") ? raw.slice(1) : raw);
+  if (!m || (m[1] === "" && (m[2] === undefined || m[2] === ""))) {
+    throw amountError("InvalidAmount", `Invalid amount: ${String(ui)}`);
+  }
+
+  // Normalise to an integer digit string plus the position of the decimal point
+  let digits = (m[1] || "") + (m[2] || "");
+  let pointPos = (m[1] || "").length + Number(m[3] || 0);
+
+  // Shift the decimal point right by `decimals` to get base units
+  pointPos += decimals;
+
+  // Bound the size before padding with zeros
+  const significant = digits.replace(/^0+/, "");
+  if (significant === "") return BigInt(0);
+  pointPos -= digits.length - significant.length;
+  digits = significant;
+  if (pointPos > U64_DIGITS) {
+    throw amountError("ExceedsU64", `Amount is too large: ${String(ui).slice(0, 40)}`);
+  }
+  if (pointPos < 0) {
+    // Entirely below one base unit; a single leading zero keeps rounding correct
+    digits = "0" + digits;
+    pointPos = 0;
+  }
+  if (pointPos > digits.length) {
+    digits = digits + "0".repeat(pointPos - digits.length);
+  }
+
+  const intPart = digits.slice(0, pointPos) || "0";
+  const fracPart = digits.slice(pointPos);
+  let base = BigInt(intPart);
+
+  if (/[1-9]/.test(fracPart)) {
+    switch (rounding) {
+      case "exact":
+        throw amountError("TooManyDecimals", `Amount has more than ${decimals} decimal places`);
+      case "ceil":
+        base += BigInt(1);
+        break;
+      case "round":
+        if (fracPart[0] >= "5") base += BigInt(1);
+        break;
+      case "floor":
+      default:
+        break;
+    }
+  }
+
+  return base;
+}
+
+/**
+ * Convert base units back to an exact decimal string
+ * @param base - Amount in base units
+ * @param decimals - Mint decimals
+ * @param opts.trimZeros - Drop trailing fractional zeros (default true)
+ *
+ * @example
+ * formatBaseAmount(1500000000n, 9) // "1.5"
+ */
+export function formatBaseAmount(
+  base: bigint | string | number,
+  decimals: number,
+  { trimZeros = true }: { trimZeros?: boolean } = {}
+): string {
+  assertDecimals(decimals, 255);
+  let v = BigInt(base);
+  const negative = v < BigInt(0);
+  if (negative) v = -v;
+
+  const s = v.toString().padStart(decimals + 1, "0");
+  const intPart = s.slice(0, s.length - decimals);
+  let fracPart = decimals > 0 ? s.slice(s.length - decimals) : "";
+  if (trimZeros) fracPart = fracPart.replace(/0+$/, "");
+
+  return (negative ? "-" : "") + intPart + (fracPart ? `.${fracPart}` : "");
+}
+
+/**
+ * Ensure a base-unit amount fits in a u64 (on-chain supply / amount limit)
+ * @throws Error with code "ExceedsU64"
+ */
+export function assertU64(base: bigint, label = "Amount"): bigint {
+  if (base < BigInt(0) || base > U64_MAX) {
+    throw amountError("ExceedsU64", `${label} is too large. Please reduce the amount or decimals.`);
+  }
+  return base;
+}
+
+/**
+ * Largest UI supply that can be minted for the given decimals
+ * @example maxUiSupply(9) // "18446744073.709551615"
+ */
+export function maxUiSupply(decimals: number): string {
+  return formatBaseAmount(U64_MAX, decimals);
+}
+
+/**
+ * Parse and validate a token supply for creation
+ * Supply must be positive, have at most `decimals` fractional digits and fit in u64
+ * @returns Supply in base units
+ */
+export function parseSupply(amountUi: string | number, decimals: number | string): bigint {
+  const d = assertDecimals(decimals);
+  const base = parseUiAmount(amountUi, d, "exact");
+  if (base <= BigInt(0)) {
+    throw amountError("InvalidAmount", "Amount must be a positive number");
+  }
+  return assertU64(base, "Token amount");
+}
+
+/**
+ * Convert base units to a JS number for display only (may lose precision)
+ */
+export function baseToUiNumber(base: bigint | string | number, decimals: number): number {
+  return Number(formatBaseAmount(base, decimals));
+}
@@ -1,4 +1,5 @@
 import { DEV_DISABLE_DEXSCR } from "./env";
+import { createCache } from "./cache";
 
 export type TokenStats = {
   price?: number;
@@ -8,15 +9,15 @@ export type TokenStats = {
   source?: "dexscreener";
 };
 
-// In-memory cache with 60 second TTL
-const tokenStatsCache = new Map<string, { ts: number; data: TokenStats }>();
+// Shared cache with 60 second TTL
 const CACHE_TTL = 60 * 1000; // 60 seconds
+const tokenStatsCache = createCache<TokenStats>("token-stats", { ttlMs: CACHE_TTL });
 
 export async function fetchTokenStats(mint: string): Promise<TokenStats> {
   // Check cache first
-  const cached = tokenStatsCache.get(mint);
-  if (cached && Date.now() - cached.ts < CACHE_TTL) {
-    return cached.data;
+  const cached = await tokenStatsCache.get(mint);
+  if (cached) {
+    return cached;
   }
 
   const stats: TokenStats = {};
@@ -118,21 +119,7 @@ export async function fetchTokenStats(mint: string): Promise<TokenStats> {
   }
 
   // Cache the result (even if partial)
-  tokenStatsCache.set(mint, { ts: Date.now(), data: stats });
+  await tokenStatsCache.set(mint, stats, { tags: [`mint:${mint}`] });
 
   return stats;
 }
-
-// Utility function to clear expired cache entries
-export function clearExpiredCache() {
-  const now = Date.now();
-  const entries = Array.from(tokenStatsCache.entries());
-  for (const [key, value] of entries) {
-    if (now - value.ts >= CACHE_TTL) {
-      tokenStatsCache.delete(key);
-    }
-  }
-}
-
-// Clear cache every 2 minutes
-setInterval(clearExpiredCache, 2 * 60 * 1000);
@@ -0,0 +1,73 @@
+// Simple test for signed honest attestations
+import nacl from 'tweetnacl';
+import { decodeAttestation, HonestAttestationClaims, publicKeyToJwk, signAttestation, verifyAttestation } from './attestation';
+
+function testAttestation() {
+  try {
+    const failures: string[] = [];
+    const key = nacl.sign.keyPair();
+    const other = nacl.sign.keyPair();
+    const keys = { keys: [publicKeyToJwk(key.publicKey, 'k1'), publicKeyToJwk(other.publicKey, 'k0')] };
+    const claims: HonestAttestationClaims = {
+      v: 1,
+      mint: 'So11111111111111111111111111111111111111112',
+      isHonest: true,
+      mintNull: true,
+      freezeNull: true,
+      slot: 123,
+      cluster: 'devnet',
+      iat: 1_700_000_000,
+      exp: 1_700_086_400,
+      kid: 'k1',
+    };
+    const now = 1_700_000_100;
+
+    console.log('Testing a signed attestation verifies...');
+    const token = signAttestation(claims, key.secretKey);
+    const ok = verifyAttestation(token, keys, { now });
+    if (!ok.valid || ok.claims.slot !== 123 || ok.claims.mint !== claims.mint) failures.push(`valid: ${JSON.stringify(ok)}`);
+    if (decodeAttestation(token)?.kid !== 'k1') failures.push('decode');
+
+    console.log('Testing tampered claims are rejected...');
+    const [h, , s] = token.split('.');
+    const forged = signAttestation({ ...claims, isHonest: false }, key.secretKey).split('.')[1];
+    const tampered = verifyAttestation(`${h}.${forged}.${s}`, keys, { now });
+    if (tampered.valid || tampered.error !== 'BadSignature') failures.push('tampered payload accepted');
+
+    console.log('Testing a key swap is rejected...');
+    const wrongKey = verifyAttestation(signAttestation(claims, other.secretKey), keys, { now });
+    if (wrongKey.valid || wrongKey.error !== 'BadSignature') failures.push('signature from another key accepted');
+    const unknown = verifyAttestation(token, { keys: [keys.keys[1]] }, { now });
+    if (unknown.valid || unknown.error !== 'UnknownKey') failures.push('unknown kid accepted');
+
+    console.log('Testing expiry and malformed tokens...');
+    const expired = verifyAttestation(token, keys, { now: claims.exp + 1 });
+    if (expired.valid || expired.error !== 'Expired') failures.push('expired accepted');
+    const malformed = verifyAttestation('not-a-token', keys);
+    if (malformed.valid || malformed.error !== 'Malformed') failures.push('malformed accepted');
+    // "null" header and payload
+    const nulls = verifyAttestation('bnVsbA.bnVsbA.AA', keys);
+    if (nulls.valid || nulls.error !== 'Malformed') failures.push('null header / claims accepted');
+    const { exp: _exp, ...noExp } = claims;
+    const unexpiring = verifyAttestation(signAttestation(noExp as any, key.secretKey), keys, { now });
+    if (unexpiring.valid || unexpiring.error !== 'Malformed') failures.push('claims without exp accepted');
+    const badSig = verifyAttestation(`${h}.${token.split('.')[1]}.AAAA`, keys, { now });
+    if (badSig.valid || badSig.error !== 'BadSignature') failures.push('short signature accepted');
+
+    if (failures.length === 0) {
+      console.log('✅ Attestation test passed!');
+    } else {
+      console.log('❌ Attestation test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Attestation test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testAttestation();
+}
+
+export { testAttestation };
@@ -0,0 +1,165 @@
+import nacl from "tweetnacl";
+
+/**
+ * Signed Honest Launch attestations
+ *
+ * An attestation is a compact JWS (header.payload.signature, alg EdDSA) over the
+ * honest status of a mint, signed with the app's ed25519 key. Partners fetch the
+ * public keys once from /api/honest-status/keys (a JWKS) and can then check a
+ * badge offline with verifyAttestation, or any JOSE library that supports EdDSA.
+ *
+ * Nothing here touches env or the network; attestationKeys holds the server key.
+ */
+
+export const ATTESTATION_ALG = "EdDSA";
+export const ATTESTATION_TYPE = "honest-attestation+jwt";
+
+export interface HonestAttestationClaims {
+  v: 1;
+  mint: string;
+  isHonest: boolean;
+  mintNull: boolean;   // Mint authority revoked
+  freezeNull: boolean; // Freeze authority revoked
+  slot: number;        // Slot the mint account was read at
+  cluster: string;     // "mainnet-beta" | "devnet"
+  iat: number;         // Issued at, unix seconds
+  exp: number;         // Expires at, unix seconds
+  kid: string;         // Signing key id (also in the header)
+}
+
+/**
+ * Public key in JWK form (OKP / Ed25519, RFC 8037)
+ */
+export interface AttestationJwk {
+  kty: "OKP";
+  crv: "Ed25519";
+  x: string; // base64url public key
+  kid: string;
+  alg: typeof ATTESTATION_ALG;
+  use: "sig";
+}
+
+export interface AttestationKeySet {
+  keys: AttestationJwk[];
+}
+
+export type AttestationVerifyError = "Malformed" | "UnsupportedAlgorithm" | "UnknownKey" | "BadSignature" | "Expired";
+
+export type AttestationVerifyResult =
+  | { valid: true; claims: HonestAttestationClaims; error?: undefined }
+  | { valid: false; error: AttestationVerifyError; claims?: HonestAttestationClaims };
+
+interface AttestationHeader {
+  alg: string;
+  typ: string;
+  kid: string;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  return new Uint8Array(Buffer.from(text.replace(/-/g, "+").replace(/_/g, "/"), "base64"));
+}
+
+function encodeJson(value: unknown): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson<T>(part: string): T {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+}
+
+/**
+ * JWK for an ed25519 public key (32 bytes)
+ */
+export function publicKeyToJwk(publicKey: Uint8Array, kid: string): AttestationJwk {
+  return { kty: "OKP", crv: "Ed25519", x: toBase64Url(publicKey), kid, alg: ATTESTATION_ALG, use: "sig" };
+}
+
+/**
+ * Sign claims into a compact JWS
+ * @param secretKey - 64-byte ed25519 secret key (Solana keypair format)
+ */
+export function signAttestation(claims: HonestAttestationClaims, secretKey: Uint8Array): string {
+  const header: AttestationHeader = { alg: ATTESTATION_ALG, typ: ATTESTATION_TYPE, kid: claims.kid };
+  const signingInput = `${encodeJson(header)}.${encodeJson(claims)}`;
+  const signature = nacl.sign.detached(new TextEncoder().encode(signingInput), secretKey);
+  return `${signingInput}.${toBase64Url(signature)}`;
+}
+
+// Decoded JSON is untrusted: check the fields verification relies on before reading them
+function isHeader(value: any): value is AttestationHeader {
+  return !!value && typeof value === "object" && typeof value.alg === "string" && typeof value.kid === "string";
+}
+
+function isClaims(value: any): value is HonestAttestationClaims {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof value.mint === "string" &&
+    typeof value.kid === "string" &&
+    typeof value.exp === "number"
+  );
+}
+
+/**
+ * Read the claims without checking the signature (display only)
+ */
+export function decodeAttestation(token: string): HonestAttestationClaims | null {
+  try {
+    const parts = token.split(".");
+    const claims = parts.length === 3 ? decodeJson<unknown>(parts[1]) : null;
+    return isClaims(claims) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an attestation against a key set, e.g. a saved copy of /api/honest-status/keys
+ * @param options.now - Unix seconds to check expiry against (defaults to the clock)
+ */
+export function verifyAttestation(
+  token: string,
+  keySet: AttestationKeySet | AttestationJwk[],
+  options: { now?: number } = {}
+): AttestationVerifyResult {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) return { valid: false, error: "Malformed" };
+
+  let header: unknown;
+  let claims: unknown;
+  try {
+    header = decodeJson<unknown>(parts[0]);
+    claims = decodeJson<unknown>(parts[1]);
+  } catch {
+    return { valid: false, error: "Malformed" };
+  }
+  // Claims without a numeric exp would never expire
+  if (!isHeader(header) || !isClaims(claims)) return { valid: false, error: "Malformed" };
+  if (header.alg !== ATTESTATION_ALG) return { valid: false, error: "UnsupportedAlgorithm", claims };
+
+  const keys = Array.isArray(keySet) ? keySet : keySet.keys;
+  const key = keys.find((k) => k.kid === header.kid && k.kty === "OKP" && k.crv === "Ed25519");
+  // The claims repeat the kid so it can't be swapped in the header alone
+  if (!key || claims.kid !== header.kid) return { valid: false, error: "UnknownKey", claims };
+
+  let ok = false;
+  try {
+    ok = nacl.sign.detached.verify(
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      fromBase64Url(parts[2]),
+      fromBase64Url(key.x)
+    );
+  } catch {
+    // Wrong signature or key length
+  }
+  if (!ok) return { valid: false, error: "BadSignature", claims };
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (claims.exp < now) return { valid: false, error: "Expired", claims };
+
+  return { valid: true, claims };
+}
@@ -0,0 +1,108 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { CLUSTER } from "./network";
+import type { Honest } from "./honestCache";
+import {
+  AttestationJwk,
+  AttestationKeySet,
+  HonestAttestationClaims,
+  publicKeyToJwk,
+  signAttestation,
+} from "./attestation";
+
+/**
+ * Server signing key for Honest Launch attestations (server-side only)
+ *
+ * ATTESTATION_SECRET_KEY is a JSON byte array (Solana keypair format).
+ * ATTESTATION_KEY_ID names it; ATTESTATION_PREVIOUS_KEYS keeps retired public
+ * keys ("kid:base58,kid:base58") in the published set so badges signed before a
+ * rotation still verify until they expire.
+ */
+
+// How long an attestation stays valid (default: 24 hours)
+const TTL_SECONDS = Number(process.env.ATTESTATION_TTL_SECONDS || 86_400);
+
+export interface AttestationSigner {
+  kid: string;
+  keypair: Keypair;
+}
+
+export interface HonestAttestation {
+  token: string; // Compact JWS
+  kid: string;
+  claims: HonestAttestationClaims;
+}
+
+/**
+ * Configured signing key, or null when attestations are disabled
+ */
+export function attestationSigner(): AttestationSigner | null {
+  try {
+    const parsed = JSON.parse(process.env.ATTESTATION_SECRET_KEY || "");
+    if (!Array.isArray(parsed) || parsed.length !== 64) return null;
+    const keypair = Keypair.fromSecretKey(Uint8Array.from(parsed));
+    const kid = process.env.ATTESTATION_KEY_ID || `honest-${keypair.publicKey.toBase58().slice(0, 8)}`;
+    return { kid, keypair };
+  } catch {
+    return null;
+  }
+}
+
+function previousKeys(): AttestationJwk[] {
+  return (process.env.ATTESTATION_PREVIOUS_KEYS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [kid, key] = entry.split(":");
+      try {
+        return kid && key ? [publicKeyToJwk(new PublicKey(key).toBytes(), kid)] : [];
+      } catch {
+        console.warn(`[attestation] Ignoring invalid previous key "${entry}"`);
+        return [];
+      }
+    });
+}
+
+/**
+ * Public keys partners verify against (current key first)
+ */
+export function publishedAttestationKeys(): AttestationKeySet {
+  const signer = attestationSigner();
+  const current = signer ? [publicKeyToJwk(signer.keypair.publicKey.toBytes(), signer.kid)] : [];
+  return { keys: [...current, ...previousKeys().filter((k) => k.kid !== signer?.kid)] };
+}
+
+/**
+ * Sign an honest status
+ * @throws Error with code AttestationKeyMissing when no key is configured,
+ *         AttestationUnavailable when the status could not be read
+ */
+export function signHonestAttestation(status: Honest, now = Date.now()): HonestAttestation {
+  const signer = attestationSigner();
+  if (!signer) {
+    const e: any = new Error("ATTESTATION_SECRET_KEY is not configured");
+    e.code = "AttestationKeyMissing";
+    throw e;
+  }
+  // Never vouch for a read that failed
+  if (status.error || status.slot === undefined) {
+    const e: any = new Error(`Honest status unavailable: ${status.error || "no slot"}`);
+    e.code = "AttestationUnavailable";
+    throw e;
+  }
+
+  const iat = Math.floor(now / 1000);
+  const claims: HonestAttestationClaims = {
+    v: 1,
+    mint: status.mint,
+    isHonest: status.isHonest,
+    mintNull: status.mintNull,
+    freezeNull: status.freezeNull,
+    slot: status.slot,
+    cluster: CLUSTER,
+    iat,
+    exp: iat + TTL_SECONDS,
+    kid: signer.kid,
+  };
+  return { token: signAttestation(claims, signer.keypair.secretKey), kid: signer.kid, claims };
+}
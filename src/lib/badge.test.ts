@@ -0,0 +1,44 @@
+// Simple test for the embeddable honest badge
+import { badgeTicker, renderBadgeSvg } from './badge';
+
+function testBadge() {
+  try {
+    const failures: string[] = [];
+    const palette = { bg: '#000000', fg: '#FFFFFF', accent: '#00FF00', accent2: '#FF00FF' };
+
+    console.log('Testing ticker cleanup...');
+    if (badgeTicker('bonk') !== '$BONK') failures.push(`ticker: ${badgeTicker('bonk')}`);
+    if (badgeTicker('<script>') !== '$SCRIPT') failures.push(`markup: ${badgeTicker('<script>')}`);
+    if (badgeTicker(null) !== 'TOKEN') failures.push('missing ticker');
+    if (badgeTicker('AVERYLONGTICKER').length !== 11) failures.push('long ticker not trimmed');
+
+    console.log('Testing verdict colours ignore the palette...');
+    const honest = renderBadgeSvg({ ticker: 'ABC', verdict: 'honest', palette });
+    const notHonest = renderBadgeSvg({ ticker: 'ABC', verdict: 'not_honest', palette: { ...palette, bg: '#2EA44F' } });
+    if (!honest.includes('Honest Launch') || !honest.includes('#2EA44F')) failures.push('honest segment');
+    if (!notHonest.includes('#D73A49') || notHonest.includes('Honest Launch')) failures.push('not honest segment');
+
+    console.log('Testing the optional LP segment...');
+    if (honest.includes('LP ')) failures.push('LP shown without status');
+    const lp = renderBadgeSvg({ ticker: 'ABC', verdict: 'honest', lp: 'burned', palette });
+    if (!lp.includes('LP burned')) failures.push('LP burned missing');
+    const width = (svg: string) => Number(/width="(\d+)"/.exec(svg)?.[1]);
+    if (!(width(lp) > width(honest))) failures.push('LP segment did not widen the badge');
+
+    if (failures.length === 0) {
+      console.log('✅ Badge test passed!');
+    } else {
+      console.log('❌ Badge test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Badge test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testBadge();
+}
+
+export { testBadge };
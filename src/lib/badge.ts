@@ -0,0 +1,91 @@
+import type { Palette } from "./kitComposer";
+
+/**
+ * Embeddable honest badge (shields-style SVG)
+ *
+ * Three segments: the ticker in the token's palette, the honest verdict in a
+ * fixed pass / fail / unknown colour (so a palette can't make a failing token
+ * look green) and, optionally, the LP status in the palette accent.
+ * Pure string building; /api/badge/[mint] reads the state and rasterizes PNGs.
+ */
+
+export type BadgeVerdict = "honest" | "not_honest" | "unknown";
+export type BadgeLp = "burned" | "unlocked" | null;
+
+export interface BadgeInput {
+  ticker: string | null;
+  verdict: BadgeVerdict;
+  lp?: BadgeLp;
+  palette: Palette;
+}
+
+const HEIGHT = 20;
+const FONT_SIZE = 11;
+const PADDING = 6;
+const MAX_TICKER = 10;
+
+const VERDICT_TEXT: Record<BadgeVerdict, string> = {
+  honest: "✓ Honest Launch",
+  not_honest: "✗ Authorities active",
+  unknown: "? Status unknown",
+};
+
+const VERDICT_COLOR: Record<BadgeVerdict, string> = {
+  honest: "#2EA44F",
+  not_honest: "#D73A49",
+  unknown: "#6A737D",
+};
+
+const LP_TEXT: Record<Exclude<BadgeLp, null>, string> = {
+  burned: "LP burned",
+  unlocked: "LP unlocked",
+};
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c] as string);
+}
+
+// Verdana-ish average advance at 11px; good enough without font metrics
+function textWidth(text: string) {
+  return Math.ceil(Array.from(text).length * 6.8);
+}
+
+/**
+ * Ticker shown on the badge ("$ABC"), trimmed to a sane length
+ */
+export function badgeTicker(ticker: string | null): string {
+  const clean = (ticker || "").replace(/[^\p{L}\p{N}_-]/gu, "").slice(0, MAX_TICKER);
+  return clean ? `$${clean.toUpperCase()}` : "TOKEN";
+}
+
+/**
+ * Render the badge SVG
+ */
+export function renderBadgeSvg({ ticker, verdict, lp = null, palette }: BadgeInput): string {
+  const segments = [
+    { text: badgeTicker(ticker), bg: palette.bg, fg: palette.fg },
+    { text: VERDICT_TEXT[verdict], bg: VERDICT_COLOR[verdict], fg: "#FFFFFF" },
+    ...(lp ? [{ text: LP_TEXT[lp], bg: palette.accent, fg: palette.bg }] : []),
+  ];
+
+  let x = 0;
+  const parts = segments.map((s) => {
+    const w = textWidth(s.text) + PADDING * 2;
+    const part =
+      `<rect x="${x}" width="${w}" height="${HEIGHT}" fill="${s.bg}"/>` +
+      `<text x="${x + w / 2}" y="14" fill="${s.fg}" text-anchor="middle">${escapeXml(s.text)}</text>`;
+    x += w;
+    return part;
+  });
+  const title = segments.map((s) => s.text).join(" · ");
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${x}" height="${HEIGHT}" role="img" aria-label="${escapeXml(title)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<clipPath id="r"><rect width="${x}" height="${HEIGHT}" rx="3" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)" font-family="Verdana,DejaVu Sans,Geneva,sans-serif" font-size="${FONT_SIZE}">`,
+    ...parts,
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
@@ -0,0 +1,73 @@
+import type { CacheBackend, CacheEntry } from "./cache";
+
+// Expired entries are also dropped on read; this just bounds memory between reads
+const PURGE_MS = 5 * 60_000;
+
+/**
+ * Process-local backend; values are stored as-is (no serialization)
+ * With maxEntries the least recently used entry is evicted first
+ */
+export function createMemoryBackend({ maxEntries }: { maxEntries?: number } = {}): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  const purge = setInterval(() => {
+    const now = Date.now();
+    Array.from(entries.entries()).forEach(([key, entry]) => {
+      if (entry.expiresAt <= now) entries.delete(key);
+    });
+  }, PURGE_MS);
+  // Don't keep scripts and tests alive just for the purge
+  purge.unref?.();
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Re-insert so Map order tracks recency
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      if (maxEntries && entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, entry);
+    },
+
+    async delete(keys) {
+      keys.forEach((key) => entries.delete(key));
+    },
+
+    async deleteTag(tag) {
+      let removed = 0;
+      Array.from(entries.entries()).forEach(([key, entry]) => {
+        if (entry.tags.includes(tag)) {
+          entries.delete(key);
+          removed++;
+        }
+      });
+      return removed;
+    },
+
+    async deletePrefix(prefix) {
+      let removed = 0;
+      Array.from(entries.keys()).forEach((key) => {
+        if (key.startsWith(prefix)) {
+          entries.delete(key);
+          removed++;
+        }
+      });
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { prisma } from "./db";
+import { CacheBackend, decodeEntry, encodeEntry } from "./cache";
+
+// Expired rows are skipped on read and deleted in the background
+const PURGE_MS = 10 * 60_000;
+
+/**
+ * CacheEntry table backend; shared by every instance on the same database
+ */
+export function createPostgresBackend(): CacheBackend {
+  const purge = setInterval(() => {
+    prisma.cacheEntry
+      .deleteMany({ where: { expiresAt: { lt: new Date() } } })
+      .catch((error) => console.warn("[cache] Postgres purge failed:", error?.message));
+  }, PURGE_MS);
+  purge.unref?.();
+
+  return {
+    name: "postgres",
+
+    async get(key) {
+      const row = await prisma.cacheEntry.findUnique({ where: { key } });
+      return row ? decodeEntry(row.value) : null;
+    },
+
+    async set(key, entry) {
+      const data = { value: encodeEntry(entry), tags: entry.tags, expiresAt: new Date(entry.expiresAt) };
+      await prisma.cacheEntry.upsert({ where: { key }, update: data, create: { key, ...data } });
+    },
+
+    async delete(keys) {
+      await prisma.cacheEntry.deleteMany({ where: { key: { in: keys } } });
+    },
+
+    async deleteTag(tag) {
+      const { count } = await prisma.cacheEntry.deleteMany({ where: { tags: { has: tag } } });
+      return count;
+    },
+
+    async deletePrefix(prefix) {
+      const { count } = await prisma.cacheEntry.deleteMany({ where: { key: { startsWith: prefix } } });
+      return count;
+    },
+  };
+}
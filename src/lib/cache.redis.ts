@@ -0,0 +1,72 @@
+import Redis from "ioredis";
+import { CacheBackend, decodeEntry, encodeEntry } from "./cache";
+
+// Namespaces several apps sharing one server
+const PREFIX = process.env.CACHE_PREFIX || "stg:";
+// Tag sets outlive their members; stale members just delete nothing
+const TAG_TTL_MS = 24 * 60 * 60_000;
+const SCAN_COUNT = 500;
+
+/**
+ * Redis-compatible backend (Redis, Valkey, KeyDB, ...) at REDIS_URL
+ * Tags are sets of member keys so invalidation doesn't need a full scan
+ * @throws Error with code CacheBackendMissing when REDIS_URL is unset
+ */
+export function createRedisBackend(): CacheBackend {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    const e: any = new Error("CACHE_BACKEND=redis needs REDIS_URL");
+    e.code = "CacheBackendMissing";
+    throw e;
+  }
+
+  const redis = new Redis(url, { maxRetriesPerRequest: 2, enableOfflineQueue: false, lazyConnect: false });
+  redis.on("error", (error) => console.warn("[cache] Redis error:", error?.message));
+
+  const entryKey = (key: string) => `${PREFIX}${key}`;
+  const tagKey = (tag: string) => `${PREFIX}tag:${tag}`;
+
+  async function deleteKeys(keys: string[]) {
+    if (keys.length) await redis.del(...keys);
+  }
+
+  return {
+    name: "redis",
+
+    async get(key) {
+      const text = await redis.get(entryKey(key));
+      return text ? decodeEntry(text) : null;
+    },
+
+    async set(key, entry) {
+      const ttl = Math.max(1, entry.expiresAt - Date.now());
+      const tx = redis.multi().set(entryKey(key), encodeEntry(entry), "PX", ttl);
+      for (const tag of entry.tags) {
+        tx.sadd(tagKey(tag), entryKey(key)).pexpire(tagKey(tag), Math.max(ttl, TAG_TTL_MS));
+      }
+      await tx.exec();
+    },
+
+    async delete(keys) {
+      await deleteKeys(keys.map(entryKey));
+    },
+
+    async deleteTag(tag) {
+      const members = await redis.smembers(tagKey(tag));
+      await deleteKeys([...members, tagKey(tag)]);
+      return members.length;
+    },
+
+    async deletePrefix(prefix) {
+      let cursor = "0";
+      let removed = 0;
+      do {
+        const [next, keys] = await redis.scan(cursor, "MATCH", `${entryKey(prefix)}*`, "COUNT", SCAN_COUNT);
+        await deleteKeys(keys);
+        removed += keys.length;
+        cursor = next;
+      } while (cursor !== "0");
+      return removed;
+    },
+  };
+}
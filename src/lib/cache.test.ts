@@ -0,0 +1,95 @@
+// Simple test for the shared cache layer (memory backend)
+import { cacheStats, createCache, decodeEntry, encodeEntry, invalidateTag } from './cache';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function testCache() {
+  try {
+    const failures: string[] = [];
+    process.env.CACHE_BACKEND = 'memory';
+
+    console.log('Testing get / set and TTL expiry...');
+    const short = createCache<string>('test-ttl', { ttlMs: 20 });
+    await short.set('a', 'one');
+    if ((await short.get('a')) !== 'one') failures.push('set value not returned');
+    await sleep(40);
+    if ((await short.get('a')) !== undefined) failures.push('expired value returned');
+
+    console.log('Testing getOrLoad de-duplicates concurrent loads...');
+    const loads = createCache<number>('test-load', { ttlMs: 60_000 });
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await sleep(10);
+      return 42;
+    };
+    const results = await Promise.all([loads.getOrLoad('k', loader), loads.getOrLoad('k', loader), loads.getOrLoad('k', loader)]);
+    if (calls !== 1 || results.some((r) => r !== 42)) failures.push(`dedupe: ${calls} loads`);
+    await loads.getOrLoad('k', loader);
+    if (calls !== 1) failures.push('cached value reloaded');
+    await loads.getOrLoad('k', loader, { bust: true });
+    if (calls !== 2) failures.push('bust did not reload');
+    const stats = loads.stats();
+    if (stats.loads !== 2 || stats.dedupedLoads !== 2 || stats.hits !== 1) failures.push(`stats: ${JSON.stringify(stats)}`);
+
+    console.log('Testing shouldCache skips rejected values...');
+    const errors = createCache<{ error?: string }>('test-should', { ttlMs: 60_000 });
+    await errors.getOrLoad('k', async () => ({ error: 'rpc' }), { shouldCache: (v) => !v.error });
+    if ((await errors.get('k')) !== undefined) failures.push('error result cached');
+
+    console.log('Testing tag invalidation across namespaces...');
+    const other = createCache<string>('test-tags', { ttlMs: 60_000 });
+    await loads.set('tagged', 1, { tags: ['mint:abc'] });
+    await other.set('tagged', 'x', { tags: ['mint:abc'] });
+    await other.set('untagged', 'y');
+    const removed = await invalidateTag('mint:abc');
+    if (removed !== 2) failures.push(`tag removed ${removed}`);
+    if ((await loads.get('tagged')) !== undefined || (await other.get('tagged')) !== undefined) failures.push('tagged entry kept');
+    if ((await other.get('untagged')) !== 'y') failures.push('untagged entry dropped');
+
+    console.log('Testing clear only drops its own namespace...');
+    await other.clear();
+    if ((await other.get('untagged')) !== undefined) failures.push('clear kept entry');
+    if ((await loads.get('k')) !== 42) failures.push('clear dropped another namespace');
+
+    console.log('Testing maxEntries evicts the least recently used...');
+    const lru = createCache<number>('test-lru', { ttlMs: 60_000, maxEntries: 2 });
+    await lru.set('a', 1);
+    await lru.set('b', 2);
+    await lru.get('a');
+    await lru.set('c', 3);
+    if ((await lru.get('b')) !== undefined) failures.push('LRU kept oldest');
+    if ((await lru.get('a')) !== 1 || (await lru.get('c')) !== 3) failures.push('LRU dropped recent');
+
+    console.log('Testing re-creating a namespace keeps its entries...');
+    const again = createCache<number>('test-load', { ttlMs: 60_000 });
+    if ((await again.get('k')) !== 42) failures.push('re-created namespace lost entries');
+    if (cacheStats().filter((s) => s.namespace === 'test-load').length !== 1) failures.push('duplicate stats');
+
+    console.log('Testing entry encoding keeps bigint, Buffer and Date...');
+    const when = new Date('2025-01-01T00:00:00Z');
+    const decoded = decodeEntry(
+      encodeEntry({ value: { n: 10n ** 20n, b: Buffer.from([1, 2, 3]), d: when }, expiresAt: 1, tags: ['t'] })
+    );
+    const v = decoded.value as any;
+    if (v.n !== 10n ** 20n) failures.push('bigint');
+    if (!Buffer.isBuffer(v.b) || v.b.toString('hex') !== '010203') failures.push('buffer');
+    if (!(v.d instanceof Date) || v.d.getTime() !== when.getTime()) failures.push('date');
+
+    if (failures.length === 0) {
+      console.log('✅ Cache test passed!');
+    } else {
+      console.log('❌ Cache test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Cache test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testCache();
+}
+
+export { testCache };
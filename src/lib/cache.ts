@@ -0,0 +1,250 @@
+import { createMemoryBackend } from "./cache.memory";
+
+/**
+ * Shared cache layer (server-side only)
+ *
+ * Every server cache (honest status, trust reports, token stats, pool
+ * discovery, positions, meme kits...) goes through createCache so a
+ * multi-instance deployment can share one store. CACHE_BACKEND selects it:
+ * - "memory" (default): process-local, the old behaviour
+ * - "postgres": CacheEntry table via Prisma
+ * - "redis": any Redis-compatible server at REDIS_URL
+ *
+ * Caches get TTLs, in-flight de-duplication of loads (per process), tag-based
+ * invalidation across namespaces (e.g. "mint:<mint>") and hit/miss counters.
+ * A failing backend is treated as a miss so callers fall through to the loader.
+ */
+
+export const CACHE_BACKEND_NAMES = ["memory", "postgres", "redis"] as const;
+export type CacheBackendName = (typeof CACHE_BACKEND_NAMES)[number];
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // epoch ms
+  tags: string[];
+}
+
+export interface CacheBackend {
+  name: CacheBackendName;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  deleteTag(tag: string): Promise<number>;
+  deletePrefix(prefix: string): Promise<number>;
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  backend?: CacheBackendName; // Pin a backend, e.g. "memory" for values that don't serialize
+  maxEntries?: number;        // LRU bound; memory backend only
+}
+
+export interface SetOptions {
+  ttlMs?: number;
+  tags?: string[];
+}
+
+export interface LoadOptions<T> extends SetOptions {
+  bust?: boolean;                      // Skip the lookup and reload
+  shouldCache?: (value: T) => boolean; // e.g. don't keep error results
+}
+
+export interface CacheStats {
+  namespace: string;
+  backend: CacheBackendName;
+  hits: number;
+  misses: number;
+  loads: number;
+  dedupedLoads: number; // Callers that joined an in-flight load
+  errors: number;       // Backend failures (served as misses)
+}
+
+export interface Cache<T> {
+  namespace: string;
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, options?: SetOptions): Promise<void>;
+  getOrLoad(key: string, loader: () => Promise<T>, options?: LoadOptions<T>): Promise<T>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): CacheStats;
+}
+
+// Shared backends are created on first use so Prisma / Redis clients only load when selected
+const FACTORIES: Record<CacheBackendName, () => CacheBackend> = {
+  memory: () => createMemoryBackend(),
+  postgres: () => require("./cache.postgres").createPostgresBackend(),
+  redis: () => require("./cache.redis").createRedisBackend(),
+};
+
+const backends = new Map<CacheBackendName, CacheBackend>();
+const caches = new Map<string, { stats: CacheStats; backend: CacheBackend }>();
+const inflight = new Map<string, Promise<unknown>>();
+
+/**
+ * Backend named by CACHE_BACKEND (unknown values fall back to memory)
+ */
+export function configuredBackendName(): CacheBackendName {
+  const name = (process.env.CACHE_BACKEND || "memory").trim().toLowerCase();
+  return (CACHE_BACKEND_NAMES as readonly string[]).includes(name) ? (name as CacheBackendName) : "memory";
+}
+
+function backendFor(name: CacheBackendName): CacheBackend {
+  let backend = backends.get(name);
+  if (!backend) {
+    backend = FACTORIES[name]();
+    backends.set(name, backend);
+  }
+  return backend;
+}
+
+/**
+ * Create a namespaced cache
+ * Namespaces are unique per module; creating one again (dev hot reload)
+ * reuses its store and counters
+ */
+export function createCache<T>(namespace: string, { ttlMs, backend, maxEntries }: CacheOptions): Cache<T> {
+  const name = backend || configuredBackendName();
+  const existing = caches.get(namespace);
+  // A size bound needs its own LRU map; shared stores rely on TTLs
+  const store =
+    existing?.backend ?? (name === "memory" && maxEntries ? createMemoryBackend({ maxEntries }) : backendFor(name));
+  const stats: CacheStats = existing?.stats ?? {
+    namespace,
+    backend: name,
+    hits: 0,
+    misses: 0,
+    loads: 0,
+    dedupedLoads: 0,
+    errors: 0,
+  };
+  caches.set(namespace, { stats, backend: store });
+
+  const fullKey = (key: string) => `${namespace}:${key}`;
+
+  async function lookup(key: string): Promise<T | undefined> {
+    try {
+      const entry = await store.get(fullKey(key));
+      if (entry && entry.expiresAt > Date.now()) {
+        stats.hits++;
+        return entry.value as T;
+      }
+    } catch (error: any) {
+      stats.errors++;
+      console.warn(`[cache] ${namespace} get failed:`, error?.message);
+    }
+    stats.misses++;
+    return undefined;
+  }
+
+  async function set(key: string, value: T, options: SetOptions = {}) {
+    try {
+      await store.set(fullKey(key), {
+        value,
+        expiresAt: Date.now() + (options.ttlMs ?? ttlMs),
+        tags: options.tags || [],
+      });
+    } catch (error: any) {
+      stats.errors++;
+      console.warn(`[cache] ${namespace} set failed:`, error?.message);
+    }
+  }
+
+  return {
+    namespace,
+    get: lookup,
+    set,
+
+    async getOrLoad(key, loader, options = {}) {
+      if (!options.bust) {
+        const hit = await lookup(key);
+        if (hit !== undefined) return hit;
+      }
+
+      const k = fullKey(key);
+      const pending = inflight.get(k);
+      if (pending) {
+        stats.dedupedLoads++;
+        return pending as Promise<T>;
+      }
+
+      const p = (async () => {
+        try {
+          stats.loads++;
+          const value = await loader();
+          if (value !== undefined && (!options.shouldCache || options.shouldCache(value))) {
+            await set(key, value, options);
+          }
+          return value;
+        } finally {
+          inflight.delete(k);
+        }
+      })();
+      inflight.set(k, p);
+      return p;
+    },
+
+    async delete(key) {
+      await store.delete([fullKey(key)]).catch((error) => {
+        stats.errors++;
+        console.warn(`[cache] ${namespace} delete failed:`, error?.message);
+      });
+    },
+
+    async clear() {
+      await store.deletePrefix(`${namespace}:`).catch((error) => {
+        stats.errors++;
+        console.warn(`[cache] ${namespace} clear failed:`, error?.message);
+      });
+    },
+
+    stats: () => ({ ...stats }),
+  };
+}
+
+/**
+ * Drop every entry carrying a tag, in every namespace and backend
+ * @returns Number of entries removed (where the backend reports it)
+ */
+export async function invalidateTag(tag: string): Promise<number> {
+  const stores = new Set(Array.from(caches.values()).map((c) => c.backend));
+  let removed = 0;
+  for (const store of Array.from(stores)) {
+    removed += await store.deleteTag(tag).catch((error) => {
+      console.warn(`[cache] Tag invalidation failed on ${store.name}:`, error?.message);
+      return 0;
+    });
+  }
+  return removed;
+}
+
+/**
+ * Hit / miss counters for every cache in this process
+ */
+export function cacheStats(): CacheStats[] {
+  return Array.from(caches.values()).map((c) => ({ ...c.stats }));
+}
+
+/**
+ * Serialize an entry for a shared backend (bigint, Buffer and Date survive)
+ */
+export function encodeEntry(entry: CacheEntry): string {
+  return JSON.stringify(entry, function (key, value) {
+    // `this[key]` is the raw value; `value` has already been through toJSON
+    const raw = (this as any)[key];
+    if (typeof raw === "bigint") return { $bigint: raw.toString() };
+    if (Buffer.isBuffer(raw)) return { $buffer: raw.toString("base64") };
+    if (raw instanceof Date) return { $date: raw.toISOString() };
+    return value;
+  });
+}
+
+export function decodeEntry(text: string): CacheEntry {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === "object") {
+      if (typeof value.$bigint === "string") return BigInt(value.$bigint);
+      if (typeof value.$buffer === "string") return Buffer.from(value.$buffer, "base64");
+      if (typeof value.$date === "string") return new Date(value.$date);
+    }
+    return value;
+  });
+}
@@ -1,6 +1,7 @@
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { getMint, NATIVE_MINT } from "@solana/spl-token";
 import { IS_MAINNET, CANARY_MODE, CANARY_MAX_SOL, CANARY_MAX_TOKEN_UI, isAllowedWallet } from "@/lib/canary";
+import { parseUiAmount } from "@/lib/amounts";
 
 /**
  * Convert UI amounts to base units using mint decimals
@@ -23,19 +24,17 @@ export async function uiToBase(conn: Connection, mintStr: string, uiAmount: numb
   
   // Handle SOL (native mint) - always use lamports
   if (mint.equals(NATIVE_MINT)) {
-    return BigInt(Math.floor(uiAmount * LAMPORTS_PER_SOL));
+    return parseUiAmount(uiAmount, 9);
   }
   
   // Handle other tokens - fetch decimals from on-chain mint account
   try {
     const mintAcc = await getMint(conn, mint);
-    const factor = 10 ** mintAcc.decimals;
-    return BigInt(Math.floor(uiAmount * factor));
+    return parseUiAmount(uiAmount, mintAcc.decimals);
   } catch (error) {
     console.error(`Failed to fetch mint decimals for ${mintStr}:`, error);
     // Fallback to 6 decimals (common for most SPL tokens)
-    const factor = 10 ** 6;
-    return BigInt(Math.floor(uiAmount * factor));
+    return parseUiAmount(uiAmount, 6);
   }
 }
 
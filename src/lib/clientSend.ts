@@ -1,5 +1,6 @@
-import { Transaction } from "@solana/web3.js";
 import { DEV_RELAX_CONFIRM_MS } from "./env";
+import { previewOrThrow } from "./txPreview";
+import { deserializeTx, setRecentBlockhash } from "./versionedTx";
 
 /**
  * Client-side transaction sending utility with automatic retry on blockhash expiry
@@ -32,7 +33,14 @@ export async function sendWithRetry(
     try {
       // Build transaction
       const { txBase64 } = await build();
-      const tx = Transaction.from(Buffer.from(txBase64, "base64"));
+      const tx = deserializeTx(txBase64); // Legacy or v0 with lookup tables
+
+      // Fresh blockhash on every attempt; the builder's may have expired by now
+      const { blockhash } = await connection.getLatestBlockhash("confirmed");
+      setRecentBlockhash(tx, blockhash);
+
+      // Simulate before the wallet prompt; a failing simulation is not retried
+      await previewOrThrow(connection, tx, { feePayer: wallet.publicKey });
       
       // Send transaction
       const sig = await wallet.sendTransaction(tx, connection);
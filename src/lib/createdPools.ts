@@ -0,0 +1,157 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { prisma } from "./db";
+import { CLUSTER } from "./network";
+import { invalidateTag } from "./cache";
+import { retryWithBackoff } from "./confirmRetry";
+import { ORCA_WHIRLPOOL_PROGRAM_ID } from "./orcaCreatePool";
+import { decodeWhirlpool } from "./orcaWhirlpool";
+import { RAYDIUM_CLMM_PROGRAM_ID, decodeClmmPoolState } from "./raydiumClmmPools";
+import type { DexId } from "./dex";
+
+/**
+ * Pools created through the app for fresh tokens
+ *
+ * Pool discovery (DexScreener, Raydium API) lags new pools by minutes to
+ * hours, so quotes check this table first and pick a new pool up as soon as
+ * its creation transaction is notified.
+ */
+
+// Program that must own the pool account, per venue that can create pools
+const POOL_PROGRAM: Partial<Record<DexId, PublicKey>> = {
+  orca: ORCA_WHIRLPOOL_PROGRAM_ID,
+  raydium: RAYDIUM_CLMM_PROGRAM_ID,
+};
+
+export interface CreatedPoolRecord {
+  poolId: string;
+  dex: DexId;
+  tokenMint: string;
+  quoteMint: string;
+  tickSpacing: number;
+  initialPrice: string;
+  creatorWallet: string;
+  txSig: string;
+}
+
+/**
+ * Most recent app-created pool for a pair on this cluster, or null
+ */
+export async function findCreatedPool({
+  dex,
+  tokenMint,
+  quoteMint,
+}: {
+  dex: DexId;
+  tokenMint: string;
+  quoteMint: string;
+}): Promise<string | null> {
+  try {
+    const row = await prisma.createdPool.findFirst({
+      where: { dex, cluster: CLUSTER, tokenMint, quoteMint },
+      orderBy: { createdAt: "desc" },
+    });
+    return row?.poolId ?? null;
+  } catch (error) {
+    console.warn("[createdPools] Could not read created pools from the database:", error);
+    return null;
+  }
+}
+
+/**
+ * Mints and tick spacing read from the pool account, or null when it isn't a pool of the venue
+ */
+function decodePoolAccount(
+  dex: DexId,
+  poolId: string,
+  account: { owner: PublicKey; data: Buffer }
+): { mintA: string; mintB: string; tickSpacing: number } | null {
+  try {
+    if (dex === "orca") return decodeWhirlpool(poolId, account.data);
+    if (dex === "raydium") return decodeClmmPoolState(poolId, account);
+  } catch {
+    // Wrong layout: fall through
+  }
+  return null;
+}
+
+/**
+ * True when the transaction succeeded, was signed by the creator and created the pool account
+ * through the venue's program
+ */
+async function createdPoolInTx(
+  connection: Connection,
+  txSig: string,
+  { poolId, program, creatorWallet }: { poolId: string; program: PublicKey; creatorWallet: string }
+): Promise<boolean> {
+  const tx = await retryWithBackoff(() =>
+    connection.getTransaction(txSig, { maxSupportedTransactionVersion: 0, commitment: "confirmed" })
+  );
+  if (!tx || !tx.meta || tx.meta.err) return false;
+
+  const msg = tx.transaction.message;
+  const keys = msg
+    .getAccountKeys({ accountKeysFromLookups: tx.meta.loadedAddresses ?? undefined })
+    .keySegments()
+    .flat()
+    .map((k) => k.toBase58());
+
+  const signers = keys.slice(0, msg.header.numRequiredSignatures);
+  if (!signers.includes(creatorWallet)) return false;
+
+  // The pool account held no lamports before this transaction, i.e. it was initialized here
+  const poolIndex = keys.indexOf(poolId);
+  if (poolIndex < 0 || tx.meta.preBalances[poolIndex] !== 0 || !(tx.meta.postBalances[poolIndex] > 0)) return false;
+
+  const programId = program.toBase58();
+  return msg.compiledInstructions.some(
+    (ix) => keys[ix.programIdIndex] === programId && ix.accountKeyIndexes.includes(poolIndex)
+  );
+}
+
+/**
+ * Record a pool once its creation transaction has landed
+ * The pool account must decode as a pool of the venue for exactly {tokenMint, quoteMint},
+ * and txSig must be the creator-signed transaction that initialized it
+ * @returns false when any of those checks fail
+ */
+export async function recordCreatedPool(connection: Connection, record: CreatedPoolRecord): Promise<boolean> {
+  const program = POOL_PROGRAM[record.dex];
+  if (!program) return false;
+
+  const account = await connection.getAccountInfo(new PublicKey(record.poolId), "confirmed");
+  if (!account || !account.owner.equals(program)) {
+    console.warn(`[createdPools] ${record.dex} pool ${record.poolId} not found on chain`);
+    return false;
+  }
+
+  const pool = decodePoolAccount(record.dex, record.poolId, account);
+  const pairMatches =
+    !!pool &&
+    record.tokenMint !== record.quoteMint &&
+    [pool.mintA, pool.mintB].includes(record.tokenMint) &&
+    [pool.mintA, pool.mintB].includes(record.quoteMint);
+  if (!pool || !pairMatches) {
+    console.warn(`[createdPools] ${record.dex} pool ${record.poolId} is not a ${record.tokenMint}/${record.quoteMint} pool`);
+    return false;
+  }
+
+  const created = await createdPoolInTx(connection, record.txSig, {
+    poolId: record.poolId,
+    program,
+    creatorWallet: record.creatorWallet,
+  });
+  if (!created) {
+    console.warn(`[createdPools] ${record.txSig} did not create ${record.poolId} for ${record.creatorWallet}`);
+    return false;
+  }
+
+  await prisma.createdPool.upsert({
+    where: { poolId: record.poolId },
+    update: { txSig: record.txSig },
+    create: { ...record, tickSpacing: pool.tickSpacing, cluster: CLUSTER },
+  });
+
+  // Cached "no pool" lookups for this token are stale now
+  await invalidateTag(`mint:${record.tokenMint}`);
+  return true;
+}
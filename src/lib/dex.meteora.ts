@@ -0,0 +1,178 @@
+import { PublicKey } from "@solana/web3.js";
+import { getMeteoraQuote } from "./meteoraDlmm";
+import { buildMeteoraCommitTx } from "./meteoraCommit";
+import { buildMeteoraIncreaseTx } from "./meteoraActions.increase";
+import { buildMeteoraDecreaseTx } from "./meteoraActions.decrease";
+import { buildMeteoraCollectTx } from "./meteoraActions.collect";
+import { fetchMeteoraPositions, MeteoraPos } from "./meteoraPositions";
+import { flags } from "./flags";
+import { WSOL_MINT } from "./wsol";
+import { USDC_MINT } from "./raydiumClmmPools";
+import type { DexActionInput, DexAdapter, DexDecreaseInput } from "./dex";
+
+function meteoraError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+function positionParams(p: DexActionInput) {
+  return {
+    connection: p.connection,
+    walletPubkey: p.walletPubkey,
+    lbPair: p.position.pool,
+    position: p.position.position,
+    priority: p.priority,
+  };
+}
+
+async function decrease(p: DexDecreaseInput) {
+  const result = await buildMeteoraDecreaseTx({ ...positionParams(p), percent: p.percent });
+  return {
+    txBase64: result.txBase64,
+    summary: result.summary,
+    warning: p.percent >= 100 ? "Decreasing 100% closes the position and unwraps any SOL" : null,
+  };
+}
+
+export const meteoraAdapter: DexAdapter<MeteoraPos> = {
+  id: "meteora",
+  label: "Meteora",
+  depositsBothSides: true,
+
+  isEnabled(op) {
+    if (op === "commit") return flags.meteoraCommit;
+    if (op === "actions") return flags.meteoraActions;
+    return true;
+  },
+
+  // Pool discovery via DexScreener, state from chain
+  async quote({ connection, tokenMint, quoteMint, baseAmount, quoteAmount, pool, slippageBp }) {
+    try {
+      return await getMeteoraQuote({
+        connection,
+        tokenMint,
+        quoteMint,
+        baseAmount,
+        quoteAmount,
+        lbPair: pool,
+        slippageBp,
+      });
+    } catch (error: any) {
+      if (error?.code === "NoPool" || error?.code === "PoolMismatch") throw meteoraError("NoPool", error.message);
+      if (error?.message?.includes("Invalid public key")) throw meteoraError("InvalidRequest", "Invalid token mint address");
+      throw meteoraError("ProviderError", "Meteora API error");
+    }
+  },
+
+  async commit(p) {
+    const lbPair = p.pool;
+    if (!lbPair) throw meteoraError("MissingLbPair", "LB pair address required for Meteora");
+    // Bin ranges are centred on the active bin, so both sides are always deposited
+    if (p.singleSided) throw meteoraError("InvalidSingleSided", "Single-sided deposits are not supported on Meteora");
+    try {
+      new PublicKey(lbPair);
+      new PublicKey(p.tokenMint);
+    } catch {
+      throw meteoraError("InvalidAddress", "LB pair and token mint must be valid base58-encoded public keys");
+    }
+
+    const result = await buildMeteoraCommitTx({
+      connection: p.connection,
+      walletPubkey: p.owner,
+      lbPair,
+      tokenMint: p.tokenMint,
+      quoteMint: p.pair === "SOL/TOKEN" ? WSOL_MINT.toBase58() : USDC_MINT,
+      baseAmountUi: p.baseAmount,
+      quoteAmountUi: p.quoteAmount,
+      slippageBp: p.slippageBp,
+      minBinId: p.rangeLower,
+      maxBinId: p.rangeUpper,
+      priority: p.priority,
+    });
+
+    return {
+      txBase64: result.txBase64,
+      partialSigners: result.partialSigners,
+      summary: {
+        ...result.summary,
+        inputMint: "A",
+        inputAmountUi: p.baseAmount,
+        expectedOutputAmountUi: p.quoteAmount,
+        tickLower: result.summary.minBinId, // Bins stand in for ticks in the shared summary
+        tickUpper: result.summary.maxBinId,
+        currentTick: result.summary.activeBinId,
+        tickSpacing: result.summary.binStep,
+      },
+    };
+  },
+
+  listPositions(connection, owner) {
+    return fetchMeteoraPositions({ connection, owner });
+  },
+
+  // Bins are stored as ticks; lastLiquidity keeps both side amounts as "A/B"
+  fromRow(row) {
+    const [amountA = "0", amountB = "0"] = row.lastLiquidity.split("/");
+    return {
+      source: "meteora",
+      kind: "DLMM",
+      lbPair: row.poolId,
+      position: row.positionMint,
+      tokenA: row.tokenA,
+      tokenB: row.tokenB,
+      decA: row.decA,
+      decB: row.decB,
+      lowerBinId: row.tickLower,
+      upperBinId: row.tickUpper,
+      amountA,
+      amountB,
+      feeA: "0", // Fees accrue on chain; refreshed on the next chain fetch
+      feeB: "0",
+    };
+  },
+
+  toRow(pos) {
+    return {
+      positionMint: pos.position,
+      poolId: pos.lbPair,
+      tokenA: pos.tokenA,
+      tokenB: pos.tokenB,
+      decA: pos.decA,
+      decB: pos.decB,
+      tickLower: pos.lowerBinId,
+      tickUpper: pos.upperBinId,
+      lastLiquidity: `${pos.amountA}/${pos.amountB}`,
+      dex: "meteora",
+    };
+  },
+
+  // Position token A / B follow the pool's X / Y order
+  async increase(p) {
+    const amountUi = String(p.amountUi);
+    const result = await buildMeteoraIncreaseTx({
+      ...positionParams(p),
+      amountXUi: p.inputMint === "A" ? amountUi : "0",
+      amountYUi: p.inputMint === "B" ? amountUi : "0",
+      slippageBp: p.slippageBp,
+    });
+    return { txBase64: result.txBase64, summary: result.summary };
+  },
+
+  decrease,
+
+  async collect(p) {
+    const result = await buildMeteoraCollectTx(positionParams(p));
+    return { txBase64: result.txBase64, summary: result.summary };
+  },
+
+  // Full removal also claims fees and closes the position account
+  close(p) {
+    return decrease({ ...p, percent: 100, slippageBp: 100 });
+  },
+
+  // The position account is generated server-side and returned in the commit summary
+  async parseTx() {
+    return null;
+  },
+};
@@ -0,0 +1,272 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getOrcaQuote } from "./orcaClient";
+import { buildCommitTx } from "./orcaCommit";
+import { fetchOrcaPositionsReal, OrcaPosition } from "./orcaPositions";
+import { buildIncreaseTx } from "./orcaActions.increase";
+import { buildDecreaseTx } from "./orcaActions.decrease";
+import { buildCollectTx } from "./orcaActions.collect";
+import { buildOrcaCreatePoolTx, ORCA_FEE_TIERS } from "./orcaCreatePool";
+import { findCreatedPool } from "./createdPools";
+import { fetchWhirlpoolState } from "./orcaWhirlpool";
+import { loadPoolMints } from "./poolInit";
+import { DEFAULT_RANGE, RangeChoice, rangeTokenPrices, resolveRange } from "./rangePresets";
+import { liquidityFromAmounts, tickToSqrtPriceX64 } from "./ticks";
+import { parseUiAmount } from "./amounts";
+import { isWSOL, WSOL_MINT } from "./wsol";
+import { USDC_MINT } from "./raydiumClmmPools";
+import { flags } from "./flags";
+import { IS_DEVNET } from "./network";
+import type { DexActionInput, DexAdapter, DexDecreaseInput, DexPositionRef } from "./dex";
+
+// Orca Whirlpool Program ID
+const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey("whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc");
+
+function orcaError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+/**
+ * Position PDA for a position mint, when the client only sent the mint
+ */
+function positionPdaOf(ref: DexPositionRef): string {
+  if (ref.positionPda) return ref.positionPda;
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from("position"), new PublicKey(ref.position).toBuffer()],
+    ORCA_WHIRLPOOL_PROGRAM_ID
+  );
+  return pda.toBase58();
+}
+
+/**
+ * Range ticks and token prices on a live Whirlpool; null for devnet test pools
+ * or unreadable accounts (the commit then uses its default band).
+ * Token-only ranges also get the single-sided deposit for `tokenAmountUi`.
+ */
+async function whirlpoolRange(connection: Connection, whirlpool: string, tokenMint: string, range: RangeChoice, tokenAmountUi: string) {
+  if (whirlpool.startsWith("orca_devnet_")) return null;
+  let pool;
+  let sqrtPriceX64: bigint;
+  try {
+    const state = await fetchWhirlpoolState(connection, whirlpool);
+    if (!state) return null;
+    sqrtPriceX64 = state.sqrtPriceX64;
+    const [infoA, infoB] = await loadPoolMints(connection, state.mintA, state.mintB);
+    pool = {
+      currentTick: state.tickCurrent,
+      tickSpacing: state.tickSpacing,
+      decimalsA: infoA.decimals,
+      decimalsB: infoB.decimals,
+      tokenIsA: state.mintA === tokenMint,
+    };
+  } catch (error) {
+    console.warn(`Could not read Whirlpool ${whirlpool}:`, error);
+    return null;
+  }
+  const resolved = resolveRange(range, pool);
+  const ticks = { ...resolved, currentTick: pool.currentTick, tickSpacing: pool.tickSpacing, ...rangeTokenPrices(resolved, pool) };
+  if (!range.tokenOnly) return ticks;
+
+  // The whole amount goes in on the token's side; the other side stays zero
+  const amount = parseUiAmount(tokenAmountUi, pool.tokenIsA ? pool.decimalsA : pool.decimalsB);
+  const liquidity = liquidityFromAmounts(
+    sqrtPriceX64,
+    tickToSqrtPriceX64(resolved.tickLower),
+    tickToSqrtPriceX64(resolved.tickUpper),
+    pool.tokenIsA ? amount : 0n,
+    pool.tokenIsA ? 0n : amount
+  );
+  return {
+    ...ticks,
+    tokenAIn: (pool.tokenIsA ? amount : 0n).toString(),
+    tokenBIn: (pool.tokenIsA ? 0n : amount).toString(),
+    estLiquidity: liquidity.toString(),
+  };
+}
+
+function positionParams(p: DexActionInput) {
+  const ref = p.position;
+  return {
+    connection: p.connection,
+    walletPubkey: p.walletPubkey,
+    whirlpool: ref.pool,
+    positionPda: positionPdaOf(ref),
+    positionMint: ref.position,
+    priority: p.priority,
+  };
+}
+
+async function decrease(p: DexDecreaseInput) {
+  const ref = p.position;
+  const result = await buildDecreaseTx({
+    ...positionParams(p),
+    tickLower: ref.tickLower ?? 0,
+    tickUpper: ref.tickUpper ?? 0,
+    tokenA: ref.tokenA,
+    tokenB: ref.tokenB,
+    percent: p.percent,
+    slippageBp: p.slippageBp,
+  });
+
+  const fullClose = p.percent >= 100 && (isWSOL(ref.tokenA) || isWSOL(ref.tokenB));
+  return {
+    txBase64: result.txBase64,
+    summary: result.summary,
+    warning: fullClose ? "Note: Decreasing 100% will unwrap WSOL back to SOL" : null,
+  };
+}
+
+export const orcaAdapter: DexAdapter<OrcaPosition> = {
+  id: "orca",
+  label: "Orca",
+  depositsBothSides: false,
+
+  isEnabled(op) {
+    if (op === "commit") return flags.orcaCommit;
+    if (op === "actions") return flags.orcaActions;
+    return true;
+  },
+
+  // A selected or app-created pool is used before DexScreener has indexed it
+  async quote({ connection, tokenMint, quoteMint, baseAmount, quoteAmount, pool, range = DEFAULT_RANGE }) {
+    try {
+      const whirlpool = pool || (await findCreatedPool({ dex: "orca", tokenMint, quoteMint }));
+      const quote = await getOrcaQuote({ tokenMint, baseAmount, quoteMint, pool: whirlpool || undefined });
+      const ticks = await whirlpoolRange(connection, quote.pool, tokenMint, range, quoteAmount);
+      return { ...quote, ...ticks, source: "Orca" };
+    } catch (error: any) {
+      if (error?.code === "InvalidRange") throw error;
+      const message = error?.message || "";
+      if (message.includes("No Orca pool found")) throw orcaError("NoPool", message);
+      if (message.includes("Invalid token mint address") || message.includes("Invalid public key")) {
+        throw orcaError("InvalidRequest", "Invalid token mint address");
+      }
+      throw orcaError("ProviderError", "Orca API error");
+    }
+  },
+
+  async commit(p) {
+    const whirlpool = p.pool;
+    if (!whirlpool) throw orcaError("MissingWhirlpool", "Whirlpool address required for Orca");
+
+    // On devnet, allow test pool addresses for testing purposes
+    if (IS_DEVNET && whirlpool.startsWith("orca_devnet_")) {
+      console.log(`[DEVNET] Using test pool address: ${whirlpool}`);
+    } else {
+      try {
+        new PublicKey(whirlpool);
+      } catch {
+        throw orcaError(
+          "InvalidWhirlpoolAddress",
+          `Invalid whirlpool address format: ${whirlpool}. Must be a valid base58-encoded public key.`
+        );
+      }
+    }
+
+    try {
+      // Always input the base token (SOL/USDC) as side A, or only the token (side B) when single-sided
+      return await buildCommitTx({
+        connection: p.connection,
+        walletPubkey: p.owner,
+        whirlpool,
+        tokenMintA: p.pair === "SOL/TOKEN" ? WSOL_MINT.toBase58() : USDC_MINT,
+        tokenMintB: p.tokenMint,
+        inputMint: p.singleSided ? "B" : "A",
+        inputAmountUi: p.singleSided ? p.quoteAmount : p.baseAmount,
+        slippageBp: p.slippageBp,
+        priority: p.priority,
+        tickLower: p.rangeLower,
+        tickUpper: p.rangeUpper,
+        singleSided: p.singleSided,
+      });
+    } catch (error: any) {
+      console.error("[commit-orca] error", { name: error?.name, message: error?.message, stack: error?.stack });
+      const message = error?.message || "Internal server error";
+      const code =
+        /associated.*owner/i.test(message) ? "ATAOwnerMismatch" :
+        /invalid account data for instruction/i.test(message) ? "InvalidAccountData" :
+        /custom program error/i.test(message) ? "ProgramError" :
+        /not single-sided/i.test(message) ? "RangeNotSingleSided" :
+        "InternalError";
+      throw orcaError(code, message);
+    }
+  },
+
+  feeTiers: ORCA_FEE_TIERS,
+
+  createPool(p) {
+    return buildOrcaCreatePoolTx({
+      connection: p.connection,
+      walletPubkey: p.owner,
+      tokenMint: p.tokenMint,
+      quoteMint: p.quoteMint,
+      tickSpacing: p.tickSpacing,
+      initialPrice: p.initialPrice,
+      priority: p.priority,
+    });
+  },
+
+  listPositions(connection, owner) {
+    return fetchOrcaPositionsReal({ connection, owner });
+  },
+
+  fromRow(row) {
+    return {
+      positionMint: row.positionMint,
+      whirlpool: row.poolId,
+      lowerTick: row.tickLower,
+      upperTick: row.tickUpper,
+      liquidity: row.lastLiquidity,
+      tokenA: row.tokenA,
+      tokenB: row.tokenB,
+    };
+  },
+
+  toRow(pos) {
+    if (!pos.whirlpool || !pos.positionMint) return null;
+    return {
+      positionMint: pos.positionMint,
+      poolId: pos.whirlpool,
+      tokenA: pos.tokenA || "",
+      tokenB: pos.tokenB || "",
+      decA: 0, // Default values - could be enhanced
+      decB: 0,
+      tickLower: pos.lowerTick || 0,
+      tickUpper: pos.upperTick || 0,
+      lastLiquidity: pos.liquidity || "0",
+      dex: "orca",
+    };
+  },
+
+  async increase(p) {
+    const ref = p.position;
+    const result = await buildIncreaseTx({
+      ...positionParams(p),
+      tickLower: ref.tickLower ?? 0,
+      tickUpper: ref.tickUpper ?? 0,
+      tokenA: ref.tokenA,
+      tokenB: ref.tokenB,
+      inputMint: p.inputMint,
+      amountUi: p.amountUi,
+      slippageBp: p.slippageBp,
+    });
+    return { txBase64: result.txBase64, summary: result.summary };
+  },
+
+  decrease,
+
+  async collect(p) {
+    const result = await buildCollectTx(positionParams(p));
+    return { txBase64: result.txBase64, summary: result.summary };
+  },
+
+  close(p) {
+    return decrease({ ...p, percent: 100, slippageBp: 100 });
+  },
+
+  // Position mints come from the client (commit summary / positions list)
+  async parseTx() {
+    return null;
+  },
+};
@@ -0,0 +1,258 @@
+import { getRaydiumQuote } from "./raydiumClient";
+import { findClmmPoolId, USDC_MINT } from "./raydiumClmmPools";
+import { buildRaydiumClmmCommitTx } from "./raydiumClmmCommit";
+import { buildRaydiumClmmCreatePoolTx, RAYDIUM_CLMM_FEE_TIERS } from "./raydiumClmmCreatePool";
+import { findCreatedPool } from "./createdPools";
+import { buildRayClmmIncreaseTx } from "./raydiumClmmActions_increase";
+import { buildRayClmmDecreaseTx } from "./raydiumClmmActions_decrease";
+import { buildRayClmmCollectTx } from "./raydiumClmmActions_collect";
+import { fetchRaydiumPositions, RaydiumPos } from "./raydiumPositions";
+import { findClmmPositionMint } from "./txParse";
+import { isWSOL } from "./wsol";
+import { DEV_ALLOW_MANUAL_RAY } from "./env";
+import type { DexActionInput, DexAdapter, DexDecreaseInput, DexPositionRef } from "./dex";
+
+function raydiumError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+/**
+ * CLMM actions only support TOKEN/USDC positions with both ticks known (MVP)
+ */
+function clmmPosition(ref: DexPositionRef, needTicks: boolean) {
+  if (isWSOL(ref.tokenA) || isWSOL(ref.tokenB)) {
+    throw raydiumError("WSOLNotSupported", "WSOL pairs are not supported in MVP. Only USDC pairs are allowed.");
+  }
+  if (ref.tokenA !== USDC_MINT && ref.tokenB !== USDC_MINT) {
+    throw raydiumError("USDCRequired", "One of the tokens must be USDC. Only USDC pairs are supported in MVP.");
+  }
+  const { tickLower, tickUpper } = ref;
+  if (needTicks && (!Number.isInteger(tickLower) || !Number.isInteger(tickUpper) || tickLower! >= tickUpper!)) {
+    throw raydiumError("InvalidTicks", "Tick values must be integers with lower < upper");
+  }
+  return {
+    clmmPoolId: ref.pool,
+    positionNftMint: ref.position,
+    tokenAMint: ref.tokenA,
+    tokenBMint: ref.tokenB,
+    tickLower: tickLower ?? 0,
+    tickUpper: tickUpper ?? 0,
+  };
+}
+
+async function decrease(p: DexDecreaseInput) {
+  const result = await buildRayClmmDecreaseTx({
+    connection: p.connection,
+    walletPubkey: p.walletPubkey,
+    ...clmmPosition(p.position, true),
+    percent: p.percent,
+    slippageBp: p.slippageBp,
+    priority: p.priority,
+  });
+  return { txBase64: result.txBase64 };
+}
+
+export const raydiumAdapter: DexAdapter<RaydiumPos> = {
+  id: "raydium",
+  label: "Raydium",
+  depositsBothSides: false,
+
+  // Quotes and commits are a manual opt-in on devnet; position actions always work
+  isEnabled(op) {
+    return op === "actions" || DEV_ALLOW_MANUAL_RAY;
+  },
+
+  async quote({ connection, pair, tokenMint, quoteMint, baseAmount, quoteAmount, pool, range }) {
+    // For USDC/TOKEN pairs, resolve the CLMM pool first (manual override on devnet,
+    // then pools created through the app, then discovery)
+    let clmmPoolId: string | null = null;
+    if (pair === "USDC/TOKEN") {
+      if (pool) {
+        console.log(`[devnet] using manual CLMM pool: ${pool}`);
+        clmmPoolId = pool;
+      } else {
+        clmmPoolId = await findCreatedPool({ dex: "raydium", tokenMint, quoteMint });
+        if (clmmPoolId) console.log(`Using app-created CLMM pool: ${clmmPoolId}`);
+      }
+      if (!clmmPoolId) {
+        try {
+          clmmPoolId = await findClmmPoolId({ connection, tokenMint });
+          console.log(clmmPoolId ? `Found CLMM pool: ${clmmPoolId}` : `No CLMM pool found for ${tokenMint} vs USDC`);
+        } catch (clmmError) {
+          // Don't fail the quote if CLMM discovery fails
+          console.warn("CLMM pool discovery failed:", clmmError);
+        }
+      }
+      if (!clmmPoolId) throw raydiumError("NoPool", "No Raydium CLMM pool for TOKEN/USDC");
+    }
+
+    try {
+      const quote = await getRaydiumQuote({
+        tokenMint,
+        baseAmount: range?.tokenOnly ? quoteAmount : baseAmount, // Token-only quotes size the token side
+        quoteMint,
+        clmmPoolId,
+        inputMint: "TOKEN",
+        range,
+      });
+      return { ...quote, source: quote.source || "Raydium", ...(clmmPoolId && { clmmPoolId }) };
+    } catch (error: any) {
+      if (error?.code === "InvalidRange") throw error;
+      const message = error?.message || "";
+      if (message.includes("No pool available")) throw raydiumError("NoPool", "No pool available for this pair on Raydium or DexScreener");
+      if (message.includes("Invalid token mint address")) throw raydiumError("InvalidRequest", "Invalid token mint address");
+      if (message.includes("timeout")) throw raydiumError("Timeout", "Request timeout - please try again");
+      if (message.includes("too large")) throw raydiumError("ResponseTooLarge", "Response too large - using fallback data");
+      if (message.includes("Unable to get quote")) throw raydiumError("NoLiquidity", message);
+      throw raydiumError("ProviderError", "Raydium API error");
+    }
+  },
+
+  async commit(p) {
+    if (p.pair !== "USDC/TOKEN") {
+      throw raydiumError("UnsupportedPair", "Raydium CLMM only supports USDC/TOKEN pairs");
+    }
+    if (!p.pool) {
+      throw raydiumError("MissingPool", "CLMM pool ID is required for Raydium liquidity commitment");
+    }
+    // User always inputs their token (the token amount itself when single-sided)
+    const inputAmountUi = p.singleSided ? p.quoteAmount : p.baseAmount;
+    const amountUi = parseFloat(inputAmountUi);
+    if (isNaN(amountUi) || amountUi <= 0) {
+      throw raydiumError("InvalidAmount", `${p.singleSided ? "Token" : "Base"} amount must be a positive number`);
+    }
+    if (typeof p.rangeLower !== "number" || typeof p.rangeUpper !== "number") {
+      throw raydiumError(
+        "MissingTicks",
+        "Tick boundaries (tickLower, tickUpper) are required from quote for Raydium CLMM"
+      );
+    }
+
+    const result = await buildRaydiumClmmCommitTx({
+      connection: p.connection,
+      walletPubkey: p.owner.toBase58(),
+      tokenMint: p.tokenMint,
+      inputMint: "TOKEN",
+      amountUi,
+      slippageBp: p.slippageBp,
+      clmmPoolId: p.pool,
+      tickLower: p.rangeLower,
+      tickUpper: p.rangeUpper,
+      singleSided: p.singleSided,
+      priority: p.priority,
+    });
+
+    return {
+      txBase64: result.txBase64,
+      partialSigners: result.partialSigners,
+      summary: {
+        clmmPoolId: p.pool,
+        position: result.summary.positionNftMint,
+        tokenMintA: result.mints.A,
+        tokenMintB: result.mints.B,
+        inputMint: result.summary.inputIsA ? "A" : "B",
+        inputAmountUi,
+        expectedOutputAmountUi: "0", // CLMM doesn't provide this in the same way
+        slippageBp: p.slippageBp,
+        tickLower: result.summary.tickLower,
+        tickUpper: result.summary.tickUpper,
+        currentTick: result.summary.currentTick,
+        tickSpacing: result.summary.tickSpacing,
+        singleSided: result.summary.singleSided,
+        fee: result.summary.fee,
+      },
+    };
+  },
+
+  feeTiers: RAYDIUM_CLMM_FEE_TIERS,
+
+  // CLMM only, matching commit (CPMM pools can't hold ranged positions)
+  async createPool(p) {
+    if (p.pair !== "USDC/TOKEN") {
+      throw raydiumError("UnsupportedPair", "Raydium CLMM only supports USDC/TOKEN pairs");
+    }
+    return buildRaydiumClmmCreatePoolTx({
+      connection: p.connection,
+      walletPubkey: p.owner,
+      tokenMint: p.tokenMint,
+      quoteMint: p.quoteMint,
+      tickSpacing: p.tickSpacing,
+      initialPrice: p.initialPrice,
+      priority: p.priority,
+    });
+  },
+
+  listPositions(connection, owner) {
+    return fetchRaydiumPositions({ connection, owner });
+  },
+
+  fromRow(row) {
+    return {
+      source: "raydium",
+      kind: "CLMM",
+      poolId: row.poolId,
+      tokenA: row.tokenA,
+      tokenB: row.tokenB,
+      tickLower: row.tickLower,
+      tickUpper: row.tickUpper,
+      liquidity: row.lastLiquidity,
+    };
+  },
+
+  toRow(pos, wallet) {
+    if (pos.kind !== "CLMM" || !pos.poolId) return null;
+    return {
+      // For CLMM, we need a unique identifier - using poolId + wallet for now
+      // This could be enhanced with proper position mint tracking
+      positionMint: `${pos.poolId}_${wallet}`,
+      poolId: pos.poolId,
+      tokenA: pos.tokenA || "",
+      tokenB: pos.tokenB || "",
+      decA: 0,
+      decB: 0,
+      tickLower: pos.tickLower || 0,
+      tickUpper: pos.tickUpper || 0,
+      lastLiquidity: pos.liquidity || "0",
+      dex: "raydium",
+    };
+  },
+
+  async increase(p) {
+    const position = clmmPosition(p.position, true);
+    const chosen = p.inputMint === "A" ? position.tokenAMint : position.tokenBMint;
+    const result = await buildRayClmmIncreaseTx({
+      connection: p.connection,
+      walletPubkey: p.walletPubkey,
+      ...position,
+      inputMint: chosen === USDC_MINT ? "USDC" : "TOKEN",
+      amountUi: p.amountUi,
+      slippageBp: p.slippageBp,
+      priority: p.priority,
+    });
+    return { txBase64: result.txBase64 };
+  },
+
+  decrease,
+
+  async collect(p: DexActionInput) {
+    const { tickLower, tickUpper, ...position } = clmmPosition(p.position, false);
+    const result = await buildRayClmmCollectTx({
+      connection: p.connection,
+      walletPubkey: p.walletPubkey,
+      ...position,
+      priority: p.priority,
+    });
+    return { txBase64: result.txBase64 };
+  },
+
+  // At 100% the decrease builder also closes the position NFT
+  close(p) {
+    return decrease({ ...p, percent: 100, slippageBp: 100 });
+  },
+
+  parseTx(connection, txSig, opts) {
+    return findClmmPositionMint(connection, txSig, opts);
+  },
+};
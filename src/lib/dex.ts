@@ -0,0 +1,264 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { PriorityFeeChoice } from "./priorityFees";
+import type { RangeChoice, ResolvedRange } from "./rangePresets";
+import { orcaAdapter } from "./dex.orca";
+import { raydiumAdapter } from "./dex.raydium";
+import { meteoraAdapter } from "./dex.meteora";
+
+/**
+ * Liquidity venues behind one interface (server-side only)
+ *
+ * Each venue lives in its own dex.<id>.ts adapter and is registered below.
+ * Routes look the adapter up by name and never branch on the venue, so adding
+ * a DEX means adding an adapter file and one registry entry.
+ *
+ * Adapters throw Error with a string `code`; routes map codes to HTTP status.
+ */
+
+export const DEX_IDS = ["orca", "raydium", "meteora"] as const;
+export type DexId = (typeof DEX_IDS)[number];
+export type DexLabel = "Orca" | "Raydium" | "Meteora";
+export type DexPair = "SOL/TOKEN" | "USDC/TOKEN";
+
+// Gates checked by routes before calling the adapter (feature flags, devnet switches)
+export type DexOperation = "quote" | "commit" | "actions";
+
+export interface DexQuoteInput {
+  connection: Connection;
+  pair: DexPair;
+  tokenMint: string;
+  quoteMint: string;     // SOL or USDC, from the pair
+  baseAmount: string;
+  quoteAmount: string;
+  pool?: string;         // Manual pool override (devnet)
+  slippageBp?: number;
+  range?: RangeChoice;   // CLMM range strategy (default ±10%)
+}
+
+export interface DexQuote {
+  pool: string;
+  priceImpact: number;   // Percent
+  lpFee: number;         // Fraction (0.003 = 0.3%)
+  expectedLpTokens: string;
+  minOut: string;
+  source: DexLabel | "DexScreener";
+  // CLMM fields (Orca / Raydium)
+  clmmPoolId?: string;
+  tickLower?: number;
+  tickUpper?: number;
+  tokenAIn?: string;
+  tokenBIn?: string;
+  estLiquidity?: string;
+  currentTick?: number;
+  tickSpacing?: number;
+  priceLower?: number;   // Token price (quote per token) at the range bounds and now
+  priceUpper?: number;
+  priceCurrent?: number;
+  deposit?: ResolvedRange["deposit"];
+  // DLMM fields (Meteora)
+  binStep?: number;
+  activeBinId?: number;
+  minBinId?: number;
+  maxBinId?: number;
+}
+
+export interface DexCommitInput {
+  connection: Connection;
+  owner: PublicKey;
+  pair: DexPair;
+  tokenMint: string;
+  baseAmount: string;    // SOL / USDC side (UI)
+  quoteAmount: string;   // Token side (UI)
+  pool?: string;         // Whirlpool / CLMM pool / LB pair from the quote
+  slippageBp: number;
+  rangeLower?: number;   // Ticks (bins for Meteora) from the quote
+  rangeUpper?: number;
+  singleSided?: boolean; // Token-only deposit of quoteAmount; the range must sit above the price (CLMM)
+  priority?: PriorityFeeChoice;
+}
+
+export interface DexCommitSummary {
+  whirlpool?: string;    // Orca
+  clmmPoolId?: string;   // Raydium CLMM
+  lbPair?: string;       // Meteora DLMM
+  position?: string;     // Position mint / account, when known up front
+  tokenMintA: string;
+  tokenMintB: string;
+  inputMint: "A" | "B";
+  inputAmountUi: string;
+  expectedOutputAmountUi: string;
+  slippageBp: number;
+  tickLower: number;
+  tickUpper: number;
+  currentTick: number;
+  tickSpacing: number;
+  fee?: { sol: number; skimBp: number; skimA: string; skimB: string };
+  [extra: string]: unknown;
+}
+
+export interface DexCommitResult {
+  txBase64: string;
+  partialSigners?: string[]; // Base64 secret keys that must co-sign
+  summary: DexCommitSummary;
+}
+
+/**
+ * Fee tier offered when creating a pool (the tick spacing fixes the fee)
+ */
+export interface DexFeeTier {
+  tickSpacing: number;
+  feeBp: number;
+}
+
+export interface DexCreatePoolInput {
+  connection: Connection;
+  owner: PublicKey;
+  pair: DexPair;
+  tokenMint: string;
+  quoteMint: string;     // SOL or USDC, from the pair
+  tickSpacing: number;
+  initialPrice: string;  // Quote (SOL / USDC) per 1 token, UI units
+  priority?: PriorityFeeChoice;
+}
+
+export interface DexCreatePoolResult {
+  txBase64: string;
+  partialSigners?: string[]; // Base64 secret keys that must co-sign
+  summary: {
+    pool: string;
+    tokenMintA: string;  // Pool order (byte-sorted mints)
+    tokenMintB: string;
+    tickSpacing: number;
+    feeBp: number;
+    currentTick: number;
+    initialPrice: string;
+  };
+}
+
+/**
+ * Identifies an existing position for increase / decrease / collect / close
+ */
+export interface DexPositionRef {
+  pool: string;          // Whirlpool / CLMM pool / LB pair
+  position: string;      // Position mint (Orca, Raydium) or position account (Meteora)
+  positionPda?: string;  // Orca position PDA (derived from the mint when missing)
+  tokenA: string;
+  tokenB: string;
+  tickLower?: number;    // Ticks (bins for Meteora)
+  tickUpper?: number;
+}
+
+export interface DexActionInput {
+  connection: Connection;
+  walletPubkey: string;
+  position: DexPositionRef;
+  priority?: PriorityFeeChoice;
+}
+
+export interface DexIncreaseInput extends DexActionInput {
+  inputMint: "A" | "B";
+  amountUi: number;
+  slippageBp: number;
+}
+
+export interface DexDecreaseInput extends DexActionInput {
+  percent: number;       // 0..100
+  slippageBp: number;
+}
+
+export interface DexActionResult {
+  txBase64: string;
+  summary?: unknown;
+  warning?: string | null;
+}
+
+/**
+ * PositionsClmm row as stored by /api/tx/notify and /api/positions
+ */
+export interface DexPositionRow {
+  positionMint: string;
+  poolId: string;
+  tokenA: string;
+  tokenB: string;
+  decA: number;
+  decB: number;
+  tickLower: number;
+  tickUpper: number;
+  lastLiquidity: string;
+  dex?: string | null;
+}
+
+export interface DexAdapter<P = unknown> {
+  id: DexId;
+  label: DexLabel;
+  isEnabled(op: DexOperation): boolean;
+  /** Commits deposit both entered amounts (not just the base side) for every pair */
+  depositsBothSides: boolean;
+
+  quote(input: DexQuoteInput): Promise<DexQuote>;
+  commit(input: DexCommitInput): Promise<DexCommitResult>;
+
+  /** Pool creation for tokens with no pool yet; gated like commit, unset where unsupported */
+  feeTiers?: DexFeeTier[];
+  createPool?(input: DexCreatePoolInput): Promise<DexCreatePoolResult>;
+
+  /** Positions held by a wallet, in the shape /positions renders for this venue */
+  listPositions(connection: Connection, owner: string): Promise<P[]>;
+  fromRow(row: DexPositionRow): P;
+  toRow(position: P, wallet: string): DexPositionRow | null;
+
+  increase(input: DexIncreaseInput): Promise<DexActionResult>;
+  decrease(input: DexDecreaseInput): Promise<DexActionResult>;
+  collect(input: DexActionInput): Promise<DexActionResult>;
+  close(input: DexActionInput): Promise<DexActionResult>;
+
+  /** Position mint / account created by a confirmed transaction, when the client didn't send it */
+  parseTx(connection: Connection, txSig: string, opts: { wallet: string; poolId?: string }): Promise<string | null>;
+}
+
+const ADAPTERS: Record<DexId, DexAdapter<any>> = {
+  orca: orcaAdapter,
+  raydium: raydiumAdapter,
+  meteora: meteoraAdapter,
+};
+
+/**
+ * Adapter id for a venue name in any case ("Orca", "orca")
+ */
+export function parseDexId(name: unknown): DexId | null {
+  const id = typeof name === "string" ? name.trim().toLowerCase() : "";
+  return (DEX_IDS as readonly string[]).includes(id) ? (id as DexId) : null;
+}
+
+/**
+ * @throws Error with code UnsupportedDex for unknown venues
+ */
+export function getDexAdapter(name: unknown): DexAdapter<any> {
+  const id = parseDexId(name);
+  if (!id) {
+    const e: any = new Error(`Unsupported DEX: ${String(name)}`);
+    e.code = "UnsupportedDex";
+    throw e;
+  }
+  return ADAPTERS[id];
+}
+
+export function listDexAdapters(): DexAdapter<any>[] {
+  return DEX_IDS.map((id) => ADAPTERS[id]);
+}
+
+/**
+ * Venue of a stored position; rows written before the dex column
+ * fall back to the old pool-id heuristic (Orca vs Raydium CLMM)
+ */
+export function dexForRow(row: Pick<DexPositionRow, "poolId" | "dex">): DexId {
+  return parseDexId(row.dex) ?? (row.poolId.startsWith("whirlpool") ? "orca" : "raydium");
+}
+
+/**
+ * Message for the 503 Disabled response when an adapter operation is switched off
+ */
+export function dexDisabledMessage(adapter: DexAdapter<any>, op: DexOperation): string {
+  const what = op === "actions" ? "actions" : op === "commit" ? "liquidity commit" : "quotes";
+  return `${adapter.label} ${what} temporarily disabled`;
+}
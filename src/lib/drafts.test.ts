@@ -0,0 +1,93 @@
+// Simple test for draft step detection, resume merging, input validation and request signing
+import nacl from 'tweetnacl';
+import { Keypair } from '@solana/web3.js';
+import {
+  applyDraft,
+  buildDraftsAuthMessage,
+  DRAFTS_AUTH_TTL_MS,
+  draftInputSchema,
+  draftResumeHref,
+  draftStepFor,
+  isDraftEmpty,
+  verifyDraftsAuth,
+} from './drafts';
+
+function testDrafts() {
+  try {
+    const failures: string[] = [];
+    const complete = {
+      name: 'Draft',
+      symbol: 'DRF',
+      decimals: '9',
+      amount: '1000',
+      image: 'https://example.com/img.png',
+      description: 'desc',
+    };
+
+    console.log('Testing step detection...');
+    if (draftStepFor({ name: 'Draft' }) !== 'details') failures.push('incomplete -> details');
+    if (draftStepFor(complete) !== 'create') failures.push('free complete -> create');
+    if (draftStepFor(complete, { needsPayment: true }) !== 'payment') failures.push('unpaid pro -> payment');
+    if (draftStepFor(complete, { needsPayment: true, paid: true }) !== 'create') failures.push('paid pro -> create');
+    if (!isDraftEmpty({ preset: 'honest', decimals: '9' }) || isDraftEmpty({ name: 'x' })) failures.push('isDraftEmpty');
+
+    console.log('Testing resume only fills fields the form has...');
+    const form = { name: '', symbol: '', preset: 'honest' as 'honest' | 'degen' };
+    const resumed = applyDraft(form, { name: 'Draft', tokenProgram: 'token-2022', preset: 'degen' });
+    if (resumed.name !== 'Draft' || resumed.preset !== 'degen') failures.push('applied fields');
+    if ('tokenProgram' in resumed) failures.push('foreign field copied');
+
+    console.log('Testing input validation...');
+    const wallet = '11111111111111111111111111111111';
+    const parsed = draftInputSchema.safeParse({
+      wallet,
+      flow: 'pro',
+      data: { ...complete, secretKey: [1, 2, 3] },
+    });
+    if (!parsed.success) failures.push('valid draft rejected');
+    else {
+      if (parsed.data.step !== 'details') failures.push('default step');
+      if ('secretKey' in parsed.data.data) failures.push('unknown field kept');
+    }
+    if (draftInputSchema.safeParse({ wallet, flow: 'elsewhere', data: {} }).success) failures.push('unknown flow accepted');
+    if (draftInputSchema.safeParse({ wallet: 'short', flow: 'free', data: {} }).success) failures.push('short wallet accepted');
+
+    console.log('Testing resume links...');
+    if (draftResumeHref({ id: 'abc', flow: 'pro' }) !== '/create-token/pro?draft=abc') failures.push('pro href');
+    if (draftResumeHref({ id: 'abc', flow: 'modal' }) !== null) failures.push('modal href');
+
+    console.log('Testing request signatures...');
+    const owner = Keypair.generate();
+    const ownerWallet = owner.publicKey.toBase58();
+    const now = Date.now();
+    const sign = (message: string, signer = owner) => [
+      Buffer.from(message).toString('base64'),
+      Buffer.from(nacl.sign.detached(new TextEncoder().encode(message), signer.secretKey)).toString('base64'),
+    ] as const;
+    const fresh = buildDraftsAuthMessage(ownerWallet, new Date(now).toISOString());
+    if (verifyDraftsAuth(ownerWallet, ...sign(fresh), now) !== null) failures.push('valid signature rejected');
+    if (verifyDraftsAuth(ownerWallet, undefined, undefined, now) !== 'MissingSignature') failures.push('unsigned request accepted');
+    if (verifyDraftsAuth(ownerWallet, ...sign(fresh, Keypair.generate()), now) !== 'BadSignature') failures.push('other signer accepted');
+    // A valid signature for one wallet doesn't open another wallet's drafts
+    if (verifyDraftsAuth(wallet, ...sign(fresh), now) !== 'BadMessageFormat') failures.push('signature reused for another wallet');
+    const stale = buildDraftsAuthMessage(ownerWallet, new Date(now - DRAFTS_AUTH_TTL_MS - 1000).toISOString());
+    if (verifyDraftsAuth(ownerWallet, ...sign(stale), now) !== 'Expired') failures.push('expired signature accepted');
+    if (verifyDraftsAuth(ownerWallet, ...sign(`${fresh}\nextra`), now) !== 'BadMessageFormat') failures.push('edited message accepted');
+
+    if (failures.length === 0) {
+      console.log('✅ Drafts test passed!');
+    } else {
+      console.log('❌ Drafts test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Drafts test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testDrafts();
+}
+
+export { testDrafts };
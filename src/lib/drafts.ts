@@ -0,0 +1,223 @@
+import { z } from "zod";
+import nacl from "tweetnacl";
+import { PublicKey } from "@solana/web3.js";
+import { ALLOCATION_CATEGORIES, MAX_ALLOCATIONS } from "./allocations";
+
+/**
+ * Server-persisted creation drafts
+ *
+ * The create forms autosave to /api/drafts (TokenDraft rows keyed to the
+ * wallet) so a dismissed wallet popup or a reload doesn't lose the form.
+ * Drafts only hold what can be restored safely: typed fields, the uploaded
+ * image URL and the Pro payment signature - never keypairs or files.
+ *
+ * Every /api/drafts request carries a message signed by the wallet
+ * (buildDraftsAuthMessage) in the x-drafts-message / x-drafts-signature
+ * headers; one signature is reused until it expires so autosave doesn't
+ * prompt on every save.
+ */
+
+// Where the draft was started; decides how it is resumed
+export const DRAFT_FLOWS = ["free", "pro", "modal"] as const;
+export type DraftFlow = (typeof DRAFT_FLOWS)[number];
+
+// details -> payment (Pro only) -> create (ready to submit)
+export const DRAFT_STEPS = ["details", "payment", "create"] as const;
+export type DraftStep = (typeof DRAFT_STEPS)[number];
+
+// Oldest drafts beyond this are dropped when a new one is saved
+export const MAX_DRAFTS_PER_WALLET = 10;
+
+// How long a signed drafts message is accepted
+export const DRAFTS_AUTH_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+// Allowed clock skew for timestamps in the future
+const DRAFTS_AUTH_SKEW_MS = 5 * 60 * 1000;
+
+export const DRAFTS_MESSAGE_HEADER = "x-drafts-message";     // base64 of the signed message
+export const DRAFTS_SIGNATURE_HEADER = "x-drafts-signature"; // base64 ed25519 signature
+
+export const draftDataSchema = z.object({
+  name: z.string().max(64).optional(),
+  symbol: z.string().max(16).optional(),
+  decimals: z.string().max(4).optional(),
+  amount: z.string().max(40).optional(),
+  image: z.string().max(500).optional(),
+  description: z.string().max(2000).optional(),
+  preset: z.enum(["honest", "degen"]).optional(),
+  vibe: z.enum(["funny", "serious", "degen"]).optional(),
+  links: z.object({
+    tg: z.string().max(200).optional(),
+    x: z.string().max(200).optional(),
+    site: z.string().max(200).optional(),
+  }).optional(),
+  tokenType: z.enum(["free", "pro"]).optional(),
+  tokenProgram: z.enum(["spl-token", "token-2022"]).optional(),
+  transferFeeBp: z.string().max(8).optional(),
+  transferFeeMax: z.string().max(40).optional(),
+  interestRateBp: z.string().max(8).optional(),
+  allocations: z.array(z.object({
+    category: z.enum(ALLOCATION_CATEGORIES),
+    label: z.string().max(32).optional(),
+    wallet: z.string().max(64),
+    percent: z.string().max(16).optional(),
+    amount: z.string().max(40).optional(),
+  })).max(MAX_ALLOCATIONS).optional(),
+  enableHonestLaunch: z.boolean().optional(),
+  generateMemeKit: z.boolean().optional(),
+  setupLiquidity: z.boolean().optional(),
+});
+
+export type DraftData = z.infer<typeof draftDataSchema>;
+
+export const draftInputSchema = z.object({
+  wallet: z.string().min(32, "Wallet address must be at least 32 characters").max(64),
+  flow: z.enum(DRAFT_FLOWS),
+  step: z.enum(DRAFT_STEPS).default("details"),
+  data: draftDataSchema,
+  paymentTxSig: z.string().min(32).max(128).nullable().optional(),
+  paymentAmount: z.number().positive().nullable().optional(),
+});
+
+export type DraftInput = z.infer<typeof draftInputSchema>;
+
+/**
+ * Draft as returned by /api/drafts
+ */
+export interface TokenDraft {
+  id: string;
+  wallet: string;
+  flow: DraftFlow;
+  step: DraftStep;
+  data: DraftData;
+  paymentTxSig: string | null;
+  paymentAmount: number | null;
+  paymentAvailable: boolean; // Payment signature present and not yet used by a created token
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Canonical message a wallet signs to access its drafts
+export function buildDraftsAuthMessage(wallet: string, isoTs: string): string {
+  return [
+    "Access my token drafts",
+    `Wallet: ${wallet}`,
+    `Timestamp: ${isoTs}`,
+    "This signature lets the app save and load your unfinished tokens.",
+  ].join("\n");
+}
+
+/**
+ * Check that the drafts auth headers were signed by the wallet the request acts on
+ * @param wallet - Wallet whose drafts are read or written
+ * @param messageB64 - DRAFTS_MESSAGE_HEADER value
+ * @param signatureB64 - DRAFTS_SIGNATURE_HEADER value
+ * @returns null when valid, otherwise an error code
+ */
+export function verifyDraftsAuth(
+  wallet: string,
+  messageB64: string | string[] | undefined,
+  signatureB64: string | string[] | undefined,
+  now: number = Date.now()
+): "MissingSignature" | "BadMessageFormat" | "Expired" | "BadWallet" | "BadSignature" | null {
+  if (typeof messageB64 !== "string" || typeof signatureB64 !== "string" || !messageB64 || !signatureB64) {
+    return "MissingSignature";
+  }
+
+  const message = Buffer.from(messageB64, "base64").toString("utf8");
+  const tsLine = message.split("\n").find((l) => l.startsWith("Timestamp: "));
+  const iso = tsLine ? tsLine.replace("Timestamp: ", "").trim() : "";
+  const ts = Date.parse(iso);
+  // Reconstruct the canonical message for this wallet (rejects other wallets and edited lines)
+  if (!Number.isFinite(ts) || buildDraftsAuthMessage(wallet, iso) !== message) return "BadMessageFormat";
+  if (now - ts > DRAFTS_AUTH_TTL_MS || ts - now > DRAFTS_AUTH_SKEW_MS) return "Expired";
+
+  let pk: PublicKey;
+  try {
+    pk = new PublicKey(wallet);
+  } catch {
+    return "BadWallet";
+  }
+  const ok = nacl.sign.detached.verify(
+    new TextEncoder().encode(message),
+    new Uint8Array(Buffer.from(signatureB64, "base64")),
+    pk.toBytes()
+  );
+  return ok ? null : "BadSignature";
+}
+
+// Signed headers per wallet, kept for the page session
+const authHeaderCache = new Map<string, Promise<Record<string, string>>>();
+
+/**
+ * Auth headers for /api/drafts, asking the wallet to sign at most once per TTL
+ * @param signMessage - Wallet adapter signMessage
+ * @throws When the wallet can't sign or the user rejects the request
+ */
+export async function draftsAuthHeaders(
+  wallet: string,
+  signMessage: ((message: Uint8Array) => Promise<Uint8Array>) | undefined
+): Promise<Record<string, string>> {
+  const cached = authHeaderCache.get(wallet);
+  if (cached) {
+    const headers = await cached.catch(() => null);
+    const message = headers ? Buffer.from(headers[DRAFTS_MESSAGE_HEADER], "base64").toString("utf8") : "";
+    const ts = Date.parse(message.split("\n").find((l) => l.startsWith("Timestamp: "))?.slice(11) || "");
+    // Re-sign a little before expiry so a save in flight doesn't fail
+    if (headers && Date.now() - ts < DRAFTS_AUTH_TTL_MS - 10 * 60 * 1000) return headers;
+  }
+  if (!signMessage) throw new Error("Wallet does not support message signing");
+
+  const pending = (async () => {
+    const message = buildDraftsAuthMessage(wallet, new Date().toISOString());
+    const signature = await signMessage(new TextEncoder().encode(message));
+    return {
+      [DRAFTS_MESSAGE_HEADER]: Buffer.from(message, "utf8").toString("base64"),
+      [DRAFTS_SIGNATURE_HEADER]: Buffer.from(signature).toString("base64"),
+    };
+  })();
+  authHeaderCache.set(wallet, pending);
+  pending.catch(() => authHeaderCache.delete(wallet));
+  return pending;
+}
+
+/**
+ * Work out which step a form is on from its contents
+ * @param data - Current form values
+ * @param payment - needsPayment: Pro selected; paid: payment signature present
+ */
+export function draftStepFor(
+  data: DraftData,
+  payment: { needsPayment?: boolean; paid?: boolean } = {}
+): DraftStep {
+  const complete = [data.name, data.symbol, data.decimals, data.amount, data.image, data.description]
+    .every((v) => !!v && v.trim() !== "");
+  if (!complete) return "details";
+  if (payment.needsPayment && !payment.paid) return "payment";
+  return "create";
+}
+
+/**
+ * True when nothing worth saving has been typed yet
+ */
+export function isDraftEmpty(data: DraftData): boolean {
+  return ![data.name, data.symbol, data.amount, data.image, data.description].some((v) => !!v && v.trim() !== "");
+}
+
+/**
+ * Copy draft values onto a form state, keeping only the keys that form has
+ */
+export function applyDraft<T extends Record<string, any>>(current: T, data: DraftData): T {
+  const next: Record<string, any> = { ...current };
+  for (const [key, value] of Object.entries(data)) {
+    if (key in current && value !== undefined) next[key] = value;
+  }
+  return next as T;
+}
+
+/**
+ * Page that resumes a draft; modal drafts are reopened from the create modal instead
+ */
+export function draftResumeHref(draft: Pick<TokenDraft, "id" | "flow">): string | null {
+  if (draft.flow === "modal") return null;
+  return `/create-token/${draft.flow}?draft=${encodeURIComponent(draft.id)}`;
+}
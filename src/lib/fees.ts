@@ -1,4 +1,5 @@
 import { PublicKey } from "@solana/web3.js";
+import { formatBaseAmount, parseUiAmount } from "./amounts";
 
 /**
  * Centralized fee configuration for token launches
@@ -65,7 +66,7 @@ export function applySkimBp(amount: bigint) {
  * @returns Amount in lamports (1 SOL = 1,000,000,000 lamports)
  */
 export function solToLamports(solAmount: number): bigint {
-  return BigInt(Math.floor(solAmount * 1_000_000_000));
+  return parseUiAmount(solAmount, 9);
 }
 
 /**
@@ -75,7 +76,7 @@ export function solToLamports(solAmount: number): bigint {
  * @returns Amount in SOL with 9 decimal places
  */
 export function lamportsToSol(lamports: bigint): number {
-  return Number(lamports) / 1_000_000_000;
+  return Number(formatBaseAmount(lamports, 9));
 }
 
 /**
@@ -4,6 +4,8 @@ import { DEV_RELAX_CONFIRM_MS, DEV_DISABLE_DEXSCR, DEV_ALLOW_MANUAL_RAY } from '
 export const flags = {
   orcaActions: process.env.ORCA_ACTIONS === "on",
   orcaCommit: process.env.DEX_ORCA_COMMIT === "on",
+  meteoraActions: process.env.METEORA_ACTIONS === "on",
+  meteoraCommit: process.env.DEX_METEORA_COMMIT === "on",
   
   // Devnet behavior flags from centralized configuration
   devnetRelaxConfirmMs: DEV_RELAX_CONFIRM_MS,
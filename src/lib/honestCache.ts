@@ -1,36 +1,38 @@
 import { PublicKey } from "@solana/web3.js";
-import { getMint } from "@solana/spl-token";
+import { unpackMint } from "@solana/spl-token";
 import { getConnection } from "@/lib/rpc";
+import { readMetadataState } from "@/lib/metadataUpdate";
+import { createCache } from "@/lib/cache";
 
 /**
  * Honest status result type
- * Contains mint authority information and verification status
+ * Contains mint authority information, metadata mutability and verification status
  */
 export type Honest = { 
   mint: string; 
   mintNull: boolean; 
   freezeNull: boolean; 
+  metadataMutable: boolean; // Creator can still change name/symbol/image
+  updateAuthority: string | null; // Metadata update authority (null once dropped)
+  symbol: string | null; // Ticker from metadata, when there is any
   isHonest: boolean; 
-  error?: string 
+  slot?: number; // Slot the mint account was read at (for attestations)
+  error?: string // Set when any part couldn't be read; such results aren't cached
 };
 
 // Cache configuration - 60 seconds default TTL
 const CACHE_MS = Number(process.env.HONEST_CACHE_MS || 60000);
 
-// In-memory cache storage
-// Key: mint address string, Value: { timestamp, cached value }
-const cache = new Map<string, { t: number; v: Honest }>();
-
-// Inflight request deduplication
-// Prevents multiple simultaneous requests for the same mint
-const inflight = new Map<string, Promise<Honest>>();
+// Shared cache keyed by mint address; entries carry a "mint:<mint>" tag
+// In-flight requests for the same mint are de-duplicated by the cache layer
+const cache = createCache<Honest>("honest", { ttlMs: CACHE_MS });
 
 /**
  * Invalidate cached honest status for a specific mint
  * @param mint - The mint address to invalidate from cache
  */
-export function invalidateHonest(mint: string) {
-  cache.delete(mint);
+export async function invalidateHonest(mint: string) {
+  await cache.delete(mint);
 }
 
 /**
@@ -44,8 +46,10 @@ export async function readHonestFresh(mintStr: string): Promise<Honest> {
     const conn = getConnection("primary");
     const mintPk = new PublicKey(mintStr);
     
-    // Fetch mint account information
-    const acc = await getMint(conn, mintPk);
+    // Fetch mint account information (SPL Token or Token-2022) with the slot it was read at
+    const { context, value: info } = await conn.getAccountInfoAndContext(mintPk, "confirmed");
+    if (!info) throw new Error("Mint account not found");
+    const acc = unpackMint(mintPk, info, info.owner);
     
     // Check if authorities are null (honest launch requirement)
     const mintNull = acc.mintAuthority === null;
@@ -53,12 +57,24 @@ export async function readHonestFresh(mintStr: string): Promise<Honest> {
     
     // Token is honest if both authorities are null
     const isHonest = mintNull && freezeNull;
+
+    // null is a mint without metadata; a failed read counts as not locked, as in verifyHonestMint
+    let metadataError: string | undefined;
+    const metadata = await readMetadataState(conn, mintStr).catch((error) => {
+      metadataError = `metadata-read-failed: ${error?.message || error}`;
+      return undefined;
+    });
     
     return { 
       mint: mintStr, 
       mintNull, 
       freezeNull, 
-      isHonest 
+      metadataMutable: metadata !== null && !metadata?.locked,
+      updateAuthority: metadata?.updateAuthority ?? null,
+      symbol: metadata?.symbol || null,
+      isHonest,
+      slot: context.slot,
+      ...(metadataError ? { error: metadataError } : {})
     };
   } catch (e: any) {
     // Return error result with structured format
@@ -67,6 +83,9 @@ export async function readHonestFresh(mintStr: string): Promise<Honest> {
       isHonest: false, 
       mintNull: false, 
       freezeNull: false, 
+      metadataMutable: true,
+      updateAuthority: null,
+      symbol: null,
       error: e?.message || "read-failed" 
     };
   }
@@ -83,41 +102,11 @@ export async function readHonestCached(
   mintStr: string, 
   { bust = false } = {}
 ): Promise<Honest> {
-  // Force cache bust if requested
-  if (bust) {
-    invalidateHonest(mintStr);
-  }
-  
-  const now = Date.now();
-  const hit = cache.get(mintStr);
-  
-  // Return cached result if still valid (within TTL)
-  if (hit && now - hit.t < CACHE_MS) {
-    return hit.v;
-  }
-
-  // Check if there's already an inflight request for this mint
-  if (inflight.has(mintStr)) {
-    return inflight.get(mintStr)!;
-  }
-
-  // Create new request and store in inflight map
-  const p = (async () => {
-    try {
-      // Fetch fresh data from blockchain
-      const v = await readHonestFresh(mintStr);
-      
-      // Cache the result with current timestamp
-      cache.set(mintStr, { t: now, v });
-      
-      return v;
-    } finally {
-      // Always clean up inflight request
-      inflight.delete(mintStr);
-    }
-  })();
-
-  // Store the promise to prevent duplicate requests
-  inflight.set(mintStr, p);
-  return p;
+  // Cached result within TTL, else a fresh read from the blockchain
+  // bust skips the lookup and overwrites the entry; failed reads are retried next time
+  return cache.getOrLoad(mintStr, () => readHonestFresh(mintStr), {
+    bust,
+    tags: [`mint:${mintStr}`],
+    shouldCache: (v) => !v.error,
+  });
 }
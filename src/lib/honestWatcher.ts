@@ -0,0 +1,275 @@
+import { EventEmitter } from "events";
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import { unpackMint } from "@solana/spl-token";
+import { prisma } from "@/lib/db";
+import { getConnection } from "@/lib/rpc";
+import { Honest, readHonestCached } from "@/lib/honestCache";
+import { invalidateTrust } from "@/lib/trustCache";
+
+/**
+ * Push-based honest status (server-side only)
+ *
+ * Subscribes to the mint account of every CreatedToken with onAccountChange and
+ * re-reads all of them on an interval as a fallback for dropped websockets or
+ * RPCs without subscriptions. When the mint or freeze authority changes the
+ * honest cache is refreshed, the trust report invalidated, an AuthorityChange
+ * row written and listeners (the SSE stream) notified. Mints opened by SSE
+ * streams that aren't CreatedTokens are watched only while a stream holds them.
+ *
+ * Started once at boot by server.js (via /api/honest-status/watcher), so it
+ * needs that long-lived process; on serverless hosts the TTL in honestCache
+ * still applies and streams only send the status at open.
+ */
+
+export type AuthorityField = "mint" | "freeze";
+
+export interface AuthorityChange {
+  mint: string;
+  authority: AuthorityField;
+  previous: string | null;
+  current: string | null;
+  slot: number | null;
+  source: "subscription" | "poll";
+}
+
+export interface HonestUpdate {
+  mint: string;
+  changes: AuthorityChange[];
+  status: Honest;
+}
+
+type Authorities = { mint: string | null; freeze: string | null };
+
+// Fallback re-read of every watched mint
+const POLL_MS = Number(process.env.HONEST_WATCH_POLL_MS || 60_000);
+// How often new CreatedToken rows are picked up
+const REFRESH_MS = Number(process.env.HONEST_WATCH_REFRESH_MS || 5 * 60_000);
+// getMultipleAccountsInfo limit
+const POLL_BATCH = 100;
+
+interface WatcherState {
+  connection: Connection;
+  known: Map<string, Authorities>;
+  subscriptions: Map<string, number>;
+  created: Set<string>;             // CreatedToken mints, always watched
+  streamRefs: Map<string, number>;  // Open streams per mint
+  emitter: EventEmitter;
+  timers: ReturnType<typeof setInterval>[];
+}
+
+// Kept on globalThis so dev hot reloads don't stack subscriptions (same idea as lib/db)
+const g = globalThis as any;
+
+function state(): WatcherState | null {
+  return g.__honestWatcher || null;
+}
+
+function decodeAuthorities(mint: string, info: AccountInfo<Buffer>): Authorities | null {
+  try {
+    const decoded = unpackMint(new PublicKey(mint), info, info.owner);
+    return {
+      mint: decoded.mintAuthority ? decoded.mintAuthority.toBase58() : null,
+      freeze: decoded.freezeAuthority ? decoded.freezeAuthority.toBase58() : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function handleAccount(
+  mint: string,
+  info: AccountInfo<Buffer> | null,
+  slot: number | null,
+  source: AuthorityChange["source"]
+) {
+  const s = state();
+  if (!s || !info) return;
+  const next = decodeAuthorities(mint, info);
+  if (!next) return;
+
+  const prev = s.known.get(mint);
+  s.known.set(mint, next);
+  // First sighting is the baseline, not a change
+  if (!prev) return;
+
+  const changes: AuthorityChange[] = (["mint", "freeze"] as AuthorityField[])
+    .filter((field) => prev[field] !== next[field])
+    .map((field) => ({ mint, authority: field, previous: prev[field], current: next[field], slot, source }));
+  if (!changes.length) return;
+
+  await invalidateTrust(mint);
+  const status = await readHonestCached(mint, { bust: true });
+
+  await prisma.authorityChange
+    .createMany({
+      data: changes.map((c) => ({ ...c, slot: c.slot == null ? null : BigInt(c.slot) })),
+    })
+    .catch((error) => console.warn("[honestWatcher] Could not record authority change:", error?.message));
+
+  console.log(`[honestWatcher] ${mint} ${changes.map((c) => `${c.authority}: ${c.previous} -> ${c.current}`).join(", ")}`);
+  s.emitter.emit("update", { mint, changes, status } as HonestUpdate);
+}
+
+/**
+ * Watch a CreatedToken mint for the life of the process
+ * (no-op when the watcher isn't running)
+ */
+export function watchMint(mint: string) {
+  const s = state();
+  if (!s) return;
+  s.created.add(mint);
+  subscribeMint(mint);
+}
+
+/**
+ * Subscribe to one mint (no-op when the watcher isn't running or already watching)
+ */
+function subscribeMint(mint: string) {
+  const s = state();
+  if (!s || s.subscriptions.has(mint)) return;
+  let pk: PublicKey;
+  try {
+    pk = new PublicKey(mint);
+  } catch {
+    return;
+  }
+
+  try {
+    const id = s.connection.onAccountChange(
+      pk,
+      (info, ctx) => void handleAccount(mint, info, ctx.slot, "subscription"),
+      { commitment: "confirmed" }
+    );
+    s.subscriptions.set(mint, id);
+  } catch (error) {
+    // Polling still covers this mint
+    console.warn(`[honestWatcher] Subscription failed for ${mint}:`, error);
+    s.subscriptions.set(mint, -1);
+  }
+
+  // Baseline right away so the first notification can be diffed
+  s.connection
+    .getAccountInfo(pk, "confirmed")
+    .then((info) => handleAccount(mint, info, null, "poll"))
+    .catch(() => {});
+}
+
+/**
+ * Watch mints for an SSE stream; returns a release function for when the stream closes
+ * Mints that aren't CreatedTokens are unsubscribed once the last stream releases them
+ */
+export function watchStreamMints(mints: string[]): () => void {
+  const s = state();
+  if (!s) return () => {};
+  for (const mint of mints) {
+    s.streamRefs.set(mint, (s.streamRefs.get(mint) || 0) + 1);
+    subscribeMint(mint);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    for (const mint of mints) {
+      const refs = (s.streamRefs.get(mint) || 1) - 1;
+      if (refs > 0) {
+        s.streamRefs.set(mint, refs);
+        continue;
+      }
+      s.streamRefs.delete(mint);
+      if (!s.created.has(mint)) unwatchMint(mint);
+    }
+  };
+}
+
+function unwatchMint(mint: string) {
+  const s = state();
+  const id = s?.subscriptions.get(mint);
+  if (!s || id === undefined) return;
+  if (id >= 0) s.connection.removeAccountChangeListener(id).catch(() => {});
+  s.subscriptions.delete(mint);
+  s.known.delete(mint);
+}
+
+/**
+ * Re-read every watched mint (fallback path)
+ */
+export async function pollWatchedMints() {
+  const s = state();
+  if (!s) return;
+  const mints = Array.from(s.subscriptions.keys());
+  for (let i = 0; i < mints.length; i += POLL_BATCH) {
+    const batch = mints.slice(i, i + POLL_BATCH);
+    try {
+      const { context, value } = await s.connection.getMultipleAccountsInfoAndContext(
+        batch.map((m) => new PublicKey(m)),
+        "confirmed"
+      );
+      await Promise.all(batch.map((m, j) => handleAccount(m, value[j], context.slot, "poll")));
+    } catch (error) {
+      console.warn("[honestWatcher] Poll failed:", error);
+    }
+  }
+}
+
+/**
+ * Watch any CreatedToken mints not yet subscribed
+ */
+export async function refreshWatchList() {
+  const s = state();
+  if (!s) return;
+  try {
+    const rows = await prisma.createdToken.findMany({ select: { mint: true } });
+    rows.forEach((r) => watchMint(r.mint as string));
+  } catch (error) {
+    console.warn("[honestWatcher] Could not load created tokens:", error);
+  }
+}
+
+/**
+ * Start the watcher once per process (HONEST_WATCHER=off disables it)
+ * @returns Whether the watcher is running
+ */
+export function ensureHonestWatcher(): boolean {
+  if (state()) return true;
+  if (process.env.HONEST_WATCHER === "off") return false;
+
+  const emitter = new EventEmitter();
+  // One listener per open SSE stream
+  emitter.setMaxListeners(0);
+  g.__honestWatcher = {
+    connection: getConnection("primary"),
+    known: new Map(),
+    subscriptions: new Map(),
+    created: new Set(),
+    streamRefs: new Map(),
+    emitter,
+    timers: [setInterval(pollWatchedMints, POLL_MS), setInterval(refreshWatchList, REFRESH_MS)],
+  } as WatcherState;
+
+  void refreshWatchList();
+  return true;
+}
+
+/**
+ * Stop the watcher and drop all subscriptions
+ */
+export function stopHonestWatcher() {
+  const s = state();
+  if (!s) return;
+  s.timers.forEach(clearInterval);
+  Array.from(s.subscriptions.keys()).forEach(unwatchMint);
+  s.emitter.removeAllListeners();
+  g.__honestWatcher = null;
+}
+
+/**
+ * Listen for authority changes; returns an unsubscribe function
+ * (no-op when the watcher isn't running)
+ */
+export function onHonestUpdate(listener: (update: HonestUpdate) => void): () => void {
+  const s = state();
+  if (!s) return () => {};
+  s.emitter.on("update", listener);
+  return () => s.emitter.off("update", listener);
+}
@@ -0,0 +1,71 @@
+// Simple test for logo sniffing, policy checks and variant generation
+import sharp from 'sharp';
+import { perceptualHash, processLogo, sniffImageType } from './imagePipeline';
+
+const solid = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 90 } } });
+
+async function codeOf(promise: Promise<unknown>): Promise<string | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error: any) {
+    return error?.code || 'NoCode';
+  }
+}
+
+async function testImagePipeline() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing content sniffing...');
+    const jpeg = await solid(600, 300).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+    if (sniffImageType(jpeg) !== 'image/jpeg') failures.push('jpeg sniff');
+    if (sniffImageType(await solid(20, 20).webp().toBuffer()) !== 'image/webp') failures.push('webp sniff');
+    if (sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')) !== null) failures.push('svg accepted');
+
+    console.log('Testing policy rejections...');
+    if ((await codeOf(processLogo(Buffer.from('not an image at all')))) !== 'UnsupportedImageType') failures.push('unsupported');
+    if ((await codeOf(processLogo(await solid(64, 64).png().toBuffer()))) !== 'ImageTooSmall') failures.push('too small');
+    if ((await codeOf(processLogo(await solid(5000, 200).png().toBuffer()))) !== 'ImageTooLarge') failures.push('too large');
+    const animatedGif = await sharp(
+      [await solid(200, 200).png().toBuffer(), await solid(200, 200).negate().png().toBuffer()],
+      { join: { animated: true } }
+    ).gif().toBuffer();
+    if ((await codeOf(processLogo(animatedGif))) !== 'AnimatedImage') failures.push('animated');
+
+    console.log('Testing square crop and variants...');
+    const logo = await processLogo(jpeg);
+    const normalized = await sharp(logo.normalized.buffer).metadata();
+    if (normalized.format !== 'png' || normalized.width !== 300 || normalized.height !== 300) failures.push('normalized square');
+    if (normalized.exif || normalized.orientation) failures.push('EXIF kept');
+    const webp = await sharp(logo.webp512.buffer).metadata();
+    if (webp.format !== 'webp' || webp.width !== 512 || webp.height !== 512) failures.push('webp variant');
+    if ((await sharp(logo.png512.buffer).metadata()).width !== 512) failures.push('png variant');
+
+    console.log('Testing perceptual hash...');
+    if (!/^[0-9a-f]{16}$/.test(logo.phash)) failures.push('phash format');
+    const gradient = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256"><defs><linearGradient id="g"><stop offset="0" stop-color="#000"/><stop offset="1" stop-color="#fff"/></linearGradient></defs><rect width="256" height="256" fill="url(#g)"/></svg>`
+    );
+    const a = await perceptualHash(await sharp(gradient).png().toBuffer());
+    const b = await perceptualHash(await sharp(gradient).resize(128, 128).jpeg({ quality: 60 }).toBuffer());
+    if (a !== b) failures.push('phash not stable across re-encodes');
+
+    if (failures.length === 0) {
+      console.log('✅ Image pipeline test passed!');
+    } else {
+      console.log('❌ Image pipeline test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Image pipeline test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testImagePipeline();
+}
+
+export { testImagePipeline };
@@ -0,0 +1,142 @@
+import sharp from "sharp";
+
+/**
+ * Logo image pipeline
+ *
+ * Runs on every file sent to /api/ipfs/upload before it is pinned: the real
+ * format is sniffed from the file's magic bytes, oversized / tiny / animated
+ * inputs are rejected, and the image is auto-cropped to a square, re-encoded
+ * without EXIF and given a perceptual hash. Wallets get a logo they can
+ * display; the 512px variants are what lists and explorers should use.
+ */
+
+// Policy
+export const MAX_LOGO_BYTES = 5 * 1024 * 1024; // 5MB
+export const MAX_LOGO_DIMENSION = 4096; // px, either side
+export const MIN_LOGO_DIMENSION = 128; // px, shorter side
+export const NORMALIZED_LOGO_SIZE = 1024; // px, upper bound for the pinned logo
+export const VARIANT_LOGO_SIZE = 512; // px
+
+export type LogoSourceType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+
+export interface LogoImage {
+  buffer: Buffer;
+  mime: "image/png" | "image/webp";
+  size: number; // Width and height (square)
+}
+
+export interface ProcessedLogo {
+  sourceType: LogoSourceType;
+  normalized: LogoImage; // Square PNG, up to NORMALIZED_LOGO_SIZE
+  png512: LogoImage;
+  webp512: LogoImage;
+  phash: string; // 64-bit difference hash, 16 hex chars
+}
+
+function logoError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+/**
+ * Detect the image format from its first bytes; the extension and the
+ * browser-reported MIME type are not trusted
+ * @returns MIME type, or null for anything that isn't a supported image
+ */
+export function sniffImageType(buffer: Buffer): LogoSourceType | null {
+  if (buffer.length < 12) return null;
+  if (buffer.subarray(0, 8).toString("hex") === "89504e470d0a1a0a") return "image/png";
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "image/jpeg";
+  const head = buffer.subarray(0, 6).toString("ascii");
+  if (head === "GIF87a" || head === "GIF89a") return "image/gif";
+  if (buffer.subarray(0, 4).toString("ascii") === "RIFF" && buffer.subarray(8, 12).toString("ascii") === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+/**
+ * 64-bit difference hash (dHash) of an image
+ * Visually similar logos differ in only a few bits, so re-uploads of a
+ * known logo can be matched by Hamming distance
+ */
+export async function perceptualHash(input: Buffer | sharp.Sharp): Promise<string> {
+  const image = Buffer.isBuffer(input) ? sharp(input) : input.clone();
+  const pixels = await image
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = pixels[y * 9 + x];
+      const right = pixels[y * 9 + x + 1];
+      hash = (hash << BigInt(1)) | (left > right ? BigInt(1) : BigInt(0));
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Validate a logo upload and produce the normalised image and its variants
+ * @param buffer - Raw uploaded file
+ * @throws Error with code UnsupportedImageType | ImageTooLarge | ImageTooSmall | AnimatedImage | InvalidImage
+ */
+export async function processLogo(buffer: Buffer): Promise<ProcessedLogo> {
+  if (buffer.length > MAX_LOGO_BYTES) {
+    throw logoError("ImageTooLarge", `Image must be ${MAX_LOGO_BYTES / 1024 / 1024}MB or smaller`);
+  }
+
+  const sourceType = sniffImageType(buffer);
+  if (!sourceType) {
+    throw logoError("UnsupportedImageType", "Image must be a PNG, JPEG, GIF or WebP file");
+  }
+
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(buffer).metadata();
+  } catch {
+    throw logoError("InvalidImage", "Image could not be read");
+  }
+
+  if ((meta.pages || 1) > 1) {
+    throw logoError("AnimatedImage", "Animated images are not supported; upload a still logo");
+  }
+
+  // EXIF orientation 5-8 swaps width and height
+  const rotated = (meta.orientation || 1) >= 5;
+  const width = (rotated ? meta.height : meta.width) || 0;
+  const height = (rotated ? meta.width : meta.height) || 0;
+  if (width > MAX_LOGO_DIMENSION || height > MAX_LOGO_DIMENSION) {
+    throw logoError("ImageTooLarge", `Image must be at most ${MAX_LOGO_DIMENSION}x${MAX_LOGO_DIMENSION}px`);
+  }
+  if (Math.min(width, height) < MIN_LOGO_DIMENSION) {
+    throw logoError("ImageTooSmall", `Image must be at least ${MIN_LOGO_DIMENSION}x${MIN_LOGO_DIMENSION}px`);
+  }
+
+  // Apply EXIF orientation, then crop to a square around the most interesting
+  // region. sharp drops EXIF and other metadata on output by default.
+  const size = Math.min(width, height, NORMALIZED_LOGO_SIZE);
+  const normalized = await sharp(buffer)
+    .rotate()
+    .resize(size, size, { fit: "cover", position: sharp.strategy.attention })
+    .png()
+    .toBuffer();
+  const base = sharp(normalized);
+  const [png512, webp512, phash] = await Promise.all([
+    base.clone().resize(VARIANT_LOGO_SIZE, VARIANT_LOGO_SIZE).png().toBuffer(),
+    base.clone().resize(VARIANT_LOGO_SIZE, VARIANT_LOGO_SIZE).webp({ quality: 90 }).toBuffer(),
+    perceptualHash(base),
+  ]);
+
+  return {
+    sourceType,
+    normalized: { buffer: normalized, mime: "image/png", size },
+    png512: { buffer: png512, mime: "image/png", size: VARIANT_LOGO_SIZE },
+    webp512: { buffer: webp512, mime: "image/webp", size: VARIANT_LOGO_SIZE },
+    phash,
+  };
+}
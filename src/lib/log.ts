@@ -5,8 +5,8 @@
 
 export interface ActionLogEntry {
   when?: number;           // Timestamp (auto-filled if not provided)
-  action: string;          // Action type: "commit", "increase", "decrease", "collect"
-  dex?: string;            // DEX name: "raydium", "orca"
+  action: string;          // Action type: "commit", "increase", "decrease", "collect", "create"
+  dex?: string;            // DEX name: "raydium", "orca", "meteora"
   mint?: string;           // Token mint address
   poolId?: string;         // Pool identifier
   wallet?: string;         // Wallet public key (shortened for privacy)
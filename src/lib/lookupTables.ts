@@ -0,0 +1,264 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  VersionedTransaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { prisma } from "./db";
+import { CLUSTER } from "./network";
+import { RAYDIUM_CLMM_PROGRAM_ID } from "./raydiumClmmPools";
+import { toVersionedTx } from "./versionedTx";
+
+/**
+ * App-managed address lookup tables (server-side only)
+ *
+ * Commit and position-action builders compile v0 messages against these
+ * tables so static accounts (programs, sysvars, WSOL / USDC mints, the fee
+ * wallet) cost one byte each instead of 32. Tables are created and extended
+ * from /api/admin/lookup-tables with ALT_AUTHORITY_SECRET_KEY and recorded in
+ * the AddressLookupTable model; LOOKUP_TABLE_ADDRESSES pins them without a DB.
+ */
+
+const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey("whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc");
+const TOKEN_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+
+// Addresses per extend instruction; keeps each admin tx well under the size limit
+const EXTEND_CHUNK = 20;
+
+// Fetched tables are reused for a minute per RPC endpoint
+const CACHE_MS = 60_000;
+const cache = new Map<string, { t: number; tables: AddressLookupTableAccount[] }>();
+
+/**
+ * Accounts every commit / position action may reference
+ */
+export function staticLookupAddresses(): PublicKey[] {
+  const addresses = [
+    SystemProgram.programId,
+    ComputeBudgetProgram.programId,
+    SYSVAR_RENT_PUBKEY,
+    TOKEN_PROGRAM_ID,
+    TOKEN_2022_PROGRAM_ID,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    TOKEN_METADATA_PROGRAM_ID,
+    ORCA_WHIRLPOOL_PROGRAM_ID,
+    RAYDIUM_CLMM_PROGRAM_ID,
+    NATIVE_MINT,
+    USDC_MINT,
+  ];
+  // Read directly so a missing fee wallet doesn't throw at import time (see lib/fees)
+  const feeWallet = process.env.LAUNCH_FEE_WALLET || process.env.FEE_WALLET;
+  if (feeWallet) {
+    try {
+      addresses.push(new PublicKey(feeWallet));
+    } catch {
+      console.warn("[lookupTables] Ignoring invalid fee wallet address");
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Keypair that creates, extends and pays for app tables
+ */
+export function lookupTableAuthority(): Keypair | null {
+  try {
+    const parsed = JSON.parse(process.env.ALT_AUTHORITY_SECRET_KEY || "");
+    return Array.isArray(parsed) && parsed.length === 64 ? Keypair.fromSecretKey(Uint8Array.from(parsed)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Table addresses for this cluster: LOOKUP_TABLE_ADDRESSES, else the database
+ */
+export async function listLookupTableAddresses(): Promise<string[]> {
+  const pinned = (process.env.LOOKUP_TABLE_ADDRESSES || "").split(",").map((s) => s.trim()).filter(Boolean);
+  if (pinned.length) return pinned;
+  try {
+    const rows = await prisma.addressLookupTable.findMany({
+      where: { cluster: CLUSTER, active: true },
+      orderBy: { createdAt: "asc" },
+    });
+    return rows.map((r) => r.address);
+  } catch (error) {
+    console.warn("[lookupTables] Could not read lookup tables from the database:", error);
+    return [];
+  }
+}
+
+/**
+ * Active app tables, fetched from chain (cached)
+ */
+export async function getAppLookupTables(connection: Connection): Promise<AddressLookupTableAccount[]> {
+  const key = connection.rpcEndpoint;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.t < CACHE_MS) return hit.tables;
+
+  const addresses = await listLookupTableAddresses();
+  const fetched = await Promise.all(
+    addresses.map((address) =>
+      connection
+        .getAddressLookupTable(new PublicKey(address))
+        .then((r) => r.value)
+        .catch((error) => {
+          console.warn(`[lookupTables] Failed to fetch table ${address}:`, error?.message);
+          return null;
+        })
+    )
+  );
+  const tables = fetched.filter((t): t is AddressLookupTableAccount => !!t && t.isActive());
+  cache.set(key, { t: Date.now(), tables });
+  return tables;
+}
+
+export function clearLookupTableCache() {
+  cache.clear();
+}
+
+/**
+ * Compile a builder's transaction to v0 against the app tables
+ * The blockhash is a placeholder until the client refreshes it before signing
+ * @throws Error with code TransactionTooLarge when it still exceeds the packet size
+ */
+export async function buildVersionedTx(
+  connection: Connection,
+  tx: Transaction,
+  payer: PublicKey
+): Promise<VersionedTransaction> {
+  const [tables, { blockhash }] = await Promise.all([
+    getAppLookupTables(connection),
+    connection.getLatestBlockhash("confirmed"),
+  ]);
+  const versioned = toVersionedTx(tx, payer, blockhash, tables);
+
+  // Signatures are zero-filled in the serialized form, so this is the final size
+  const size = versioned.serialize().length;
+  if (size > PACKET_DATA_SIZE) {
+    const e: any = new Error(`Transaction is ${size} bytes (limit ${PACKET_DATA_SIZE}) even with lookup tables`);
+    e.code = "TransactionTooLarge";
+    throw e;
+  }
+  return versioned;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+function requireAuthority(): Keypair {
+  const authority = lookupTableAuthority();
+  if (!authority) {
+    const e: any = new Error("ALT_AUTHORITY_SECRET_KEY is not a 64-byte key array");
+    e.code = "LookupTableAuthorityMissing";
+    throw e;
+  }
+  return authority;
+}
+
+/**
+ * Create a table owned by the app authority, seeded with the static accounts
+ * plus any extra addresses, and record it for this cluster
+ */
+export async function createAppLookupTable(
+  connection: Connection,
+  { label, addresses = [] }: { label: string; addresses?: PublicKey[] }
+): Promise<{ address: string; signatures: string[]; size: number }> {
+  const authority = requireAuthority();
+  const recentSlot = await connection.getSlot("finalized");
+  const [createIx, tableAddress] = AddressLookupTableProgram.createLookupTable({
+    authority: authority.publicKey,
+    payer: authority.publicKey,
+    recentSlot,
+  });
+
+  const entries = dedupe([...staticLookupAddresses(), ...addresses]);
+  const signatures: string[] = [];
+  const [first, ...rest] = chunk(entries, EXTEND_CHUNK);
+
+  // Create and the first extension land together; later chunks follow in order
+  const createTx = new Transaction().add(createIx);
+  if (first) createTx.add(extendIx(authority.publicKey, tableAddress, first));
+  signatures.push(await sendAndConfirmTransaction(connection, createTx, [authority], { commitment: "confirmed" }));
+  for (const part of rest) {
+    const tx = new Transaction().add(extendIx(authority.publicKey, tableAddress, part));
+    signatures.push(await sendAndConfirmTransaction(connection, tx, [authority], { commitment: "confirmed" }));
+  }
+
+  await prisma.addressLookupTable.create({
+    data: {
+      address: tableAddress.toBase58(),
+      label,
+      cluster: CLUSTER,
+      authority: authority.publicKey.toBase58(),
+      size: entries.length,
+    },
+  });
+  clearLookupTableCache();
+
+  return { address: tableAddress.toBase58(), signatures, size: entries.length };
+}
+
+/**
+ * Add addresses to an app table (already-present entries are skipped)
+ */
+export async function extendAppLookupTable(
+  connection: Connection,
+  address: string,
+  addresses: PublicKey[]
+): Promise<{ address: string; signatures: string[]; added: number; size: number }> {
+  const authority = requireAuthority();
+  const tableAddress = new PublicKey(address);
+  const { value: table } = await connection.getAddressLookupTable(tableAddress);
+  if (!table) {
+    const e: any = new Error(`Lookup table ${address} not found`);
+    e.code = "LookupTableNotFound";
+    throw e;
+  }
+
+  const existing = new Set(table.state.addresses.map((a) => a.toBase58()));
+  const missing = dedupe(addresses).filter((a) => !existing.has(a.toBase58()));
+  const signatures: string[] = [];
+  for (const part of chunk(missing, EXTEND_CHUNK)) {
+    const tx = new Transaction().add(extendIx(authority.publicKey, tableAddress, part));
+    signatures.push(await sendAndConfirmTransaction(connection, tx, [authority], { commitment: "confirmed" }));
+  }
+
+  const size = existing.size + missing.length;
+  if (missing.length) {
+    await prisma.addressLookupTable.update({ where: { address }, data: { size } }).catch((error) => {
+      console.warn("[lookupTables] Table extended but not recorded:", error?.message);
+    });
+    clearLookupTableCache();
+  }
+
+  return { address, signatures, added: missing.length, size };
+}
+
+function extendIx(authority: PublicKey, lookupTable: PublicKey, addresses: PublicKey[]) {
+  return AddressLookupTableProgram.extendLookupTable({ authority, payer: authority, lookupTable, addresses });
+}
+
+function dedupe(addresses: PublicKey[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  addresses.forEach((a) => seen.set(a.toBase58(), a));
+  return Array.from(seen.values());
+}
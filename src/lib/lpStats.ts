@@ -61,7 +61,7 @@ export async function fetchLpChips({ mint }: { mint: string }): Promise<LpChips>
       process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
     );
     
-    honest = await verifyHonestMint({ connection, mint });
+    honest = (await verifyHonestMint({ connection, mint })).isHonest;
   } catch (error) {
     console.warn("Honest verification failed:", error);
   }
@@ -0,0 +1,80 @@
+// Simple test for Metaplex fungible metadata normalisation and compliance checks
+import { checkMetadataCompliance, inferImageMime, normalizeTokenMetadata } from './metadataSchema';
+
+function testMetadataSchema() {
+  try {
+    const failures: string[] = [];
+    const base = {
+      name: ' Test Token ',
+      symbol: 'TEST',
+      description: 'A test token',
+      image: 'https://gateway.pinata.cloud/ipfs/QmTest/logo.png',
+    };
+
+    console.log('Testing image MIME inference...');
+    if (inferImageMime('https://x.io/a.JPG?v=1') !== 'image/jpeg') failures.push('jpg mime');
+    if (inferImageMime('ipfs://QmNoExtension') !== null) failures.push('bare CID mime');
+
+    console.log('Testing normalisation...');
+    const result = normalizeTokenMetadata({
+      ...base,
+      links: { tg: '@test_group', x: 'https://twitter.com/test', site: 'example.com' },
+    });
+    if (!('metadata' in result)) failures.push('valid metadata rejected');
+    else {
+      const m = result.metadata;
+      if (m.name !== 'Test Token') failures.push('name not trimmed');
+      if (m.properties.category !== 'image') failures.push('category');
+      if (m.properties.files[0]?.uri !== base.image || m.properties.files[0]?.type !== 'image/png') failures.push('image file');
+      if (m.extensions?.telegram !== 'https://t.me/test_group') failures.push('telegram link');
+      if (m.extensions?.twitter !== 'https://twitter.com/test') failures.push('twitter link');
+      if (m.external_url !== 'https://example.com') failures.push('external_url from site');
+      if ('links' in m) failures.push('links kept in output');
+    }
+
+    const typed = normalizeTokenMetadata({ ...base, image: 'ipfs://QmNoExtension' }, { imageType: 'image/webp' });
+    if (!('metadata' in typed) || typed.metadata.properties.files[0].type !== 'image/webp') failures.push('probed image type');
+
+    console.log('Testing field errors...');
+    const bad = normalizeTokenMetadata({
+      ...base,
+      symbol: 'WAYTOOLONGSYMBOL',
+      image: 'javascript:alert(1)',
+      links: { x: 'https://facebook.com/test' },
+    });
+    if (!('fieldErrors' in bad)) failures.push('invalid metadata accepted');
+    else {
+      if (!bad.fieldErrors.symbol) failures.push('symbol error');
+      if (!bad.fieldErrors.image) failures.push('image error');
+      if (!bad.fieldErrors['links.x']) failures.push('links.x error');
+    }
+    const untyped = normalizeTokenMetadata({ ...base, image: 'ipfs://QmNoExtension' });
+    if (!('fieldErrors' in untyped) || !untyped.fieldErrors.image) failures.push('unknown image type accepted');
+
+    console.log('Testing compliance checks...');
+    if ('metadata' in result) {
+      const report = checkMetadataCompliance(result.metadata, { name: 'Test Token', symbol: 'TEST' });
+      if (!report.compliant || report.issues.length !== 0) failures.push('normalised metadata not compliant');
+    }
+    const legacy = checkMetadataCompliance({ ...base, name: 'Test Token' }, { name: 'Other', symbol: 'TEST' });
+    if (legacy.compliant) failures.push('missing properties compliant');
+    if (!legacy.issues.some((i) => i.field === 'name' && i.level === 'warning')) failures.push('name mismatch warning');
+    if (checkMetadataCompliance('not json').compliant) failures.push('non-object compliant');
+
+    if (failures.length === 0) {
+      console.log('✅ Metadata schema test passed!');
+    } else {
+      console.log('❌ Metadata schema test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Metadata schema test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testMetadataSchema();
+}
+
+export { testMetadataSchema };
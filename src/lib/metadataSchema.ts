@@ -0,0 +1,285 @@
+import { z } from "zod";
+
+/**
+ * Metaplex fungible token metadata standard
+ *
+ * The create flows send loosely shaped JSON to /api/ipfs/upload; this module
+ * validates it and normalises it into the shape wallets and explorers expect:
+ * an http(s)/ipfs image, properties.files with the image MIME type, category "image",
+ * and links from the form (links.tg / x / site) mapped into extensions and
+ * external_url. checkMetadataCompliance reports problems in any existing JSON.
+ */
+
+// On-chain field limits (Metaplex; Token-2022 metadata uses the same)
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+export interface MetadataFile {
+  uri: string;
+  type: string;
+}
+
+export interface FungibleTokenMetadata {
+  name: string;
+  symbol: string;
+  description: string;
+  image: string;
+  external_url?: string;
+  attributes?: { trait_type: string; value: string | number | boolean }[];
+  properties: {
+    files: MetadataFile[];
+    category: "image";
+  };
+  extensions?: Record<string, string>; // website / twitter / telegram / …
+}
+
+export type MetadataFieldErrors = Record<string, string>;
+
+export type MetadataValidation =
+  | { ok: true; metadata: FungibleTokenMetadata }
+  | { ok: false; fieldErrors: MetadataFieldErrors };
+
+export interface MetadataIssue {
+  field: string;
+  message: string;
+  level: "error" | "warning";
+}
+
+const isHttpUrl = (s: string) => /^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(s);
+const isImageUri = (s: string) => isHttpUrl(s) || /^(ipfs|ar):\/\/\S+$/i.test(s);
+
+const X_HANDLE = /^@?([A-Za-z0-9_]{1,15})$/;
+const TG_HANDLE = /^@?([A-Za-z0-9_]{5,32})$/;
+
+/**
+ * Guess an image MIME type from the URI's file extension
+ * @returns MIME type, or null when the URI has no known image extension (e.g. bare IPFS CIDs)
+ */
+export function inferImageMime(uri: string): string | null {
+  const path = uri.split(/[?#]/)[0];
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return path.includes(".") ? IMAGE_MIME_TYPES[ext] || null : null;
+}
+
+function normalizeSocial(
+  value: string,
+  handle: RegExp,
+  hosts: string[],
+  base: string
+): string | null {
+  const v = value.trim();
+  const m = v.match(handle);
+  if (m) return `${base}${m[1]}`;
+  const url = /^https?:\/\//i.test(v) ? v : `https://${v}`;
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+    return hosts.includes(host) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+const linksSchema = z.object({
+  tg: z.string().trim().optional(),
+  x: z.string().trim().optional(),
+  site: z.string().trim().optional(),
+}).transform((links, ctx) => {
+  const out: { website?: string; twitter?: string; telegram?: string } = {};
+  if (links.site) {
+    const site = /^https?:\/\//i.test(links.site) ? links.site : `https://${links.site}`;
+    if (isHttpUrl(site)) out.website = site;
+    else ctx.addIssue({ code: "custom", path: ["site"], message: "Website must be a valid URL" });
+  }
+  if (links.x) {
+    const x = normalizeSocial(links.x, X_HANDLE, ["x.com", "twitter.com"], "https://x.com/");
+    if (x) out.twitter = x;
+    else ctx.addIssue({ code: "custom", path: ["x"], message: "X must be an @handle or an x.com / twitter.com link" });
+  }
+  if (links.tg) {
+    const tg = normalizeSocial(links.tg, TG_HANDLE, ["t.me", "telegram.me"], "https://t.me/");
+    if (tg) out.telegram = tg;
+    else ctx.addIssue({ code: "custom", path: ["tg"], message: "Telegram must be an @handle or a t.me link" });
+  }
+  return out;
+});
+
+const metadataInputSchema = z.object({
+  name: z.string().trim()
+    .min(1, "Name is required")
+    .max(MAX_NAME_LENGTH, `Name must be ${MAX_NAME_LENGTH} characters or less`),
+  symbol: z.string().trim()
+    .min(1, "Symbol is required")
+    .max(MAX_SYMBOL_LENGTH, `Symbol must be ${MAX_SYMBOL_LENGTH} characters or less`),
+  description: z.string().trim()
+    .max(MAX_DESCRIPTION_LENGTH, `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`)
+    .optional()
+    .default(""),
+  image: z.string().trim()
+    .min(1, "Image is required")
+    .refine(isImageUri, "Image must be an https:// or ipfs:// URL"),
+  external_url: z.string().trim().refine(isHttpUrl, "External URL must be a valid URL").optional(),
+  links: linksSchema.optional(),
+  attributes: z.array(z.object({
+    trait_type: z.string().min(1).max(64),
+    value: z.union([z.string().max(200), z.number(), z.boolean()]),
+  })).max(50).optional(),
+  properties: z.object({
+    files: z.array(z.object({ uri: z.string().min(1), type: z.string().min(1) })).optional(),
+    category: z.string().optional(),
+  }).optional(),
+  extensions: z.record(z.string(), z.string().max(200)).optional(),
+});
+
+/**
+ * Output shape checked by checkMetadataCompliance
+ */
+const fungibleMetadataSchema = z.object({
+  name: z.string().min(1, "Name is required").max(MAX_NAME_LENGTH, `Name is longer than ${MAX_NAME_LENGTH} characters`),
+  symbol: z.string().min(1, "Symbol is required").max(MAX_SYMBOL_LENGTH, `Symbol is longer than ${MAX_SYMBOL_LENGTH} characters`),
+  description: z.string().optional(),
+  image: z.string().refine(isImageUri, "Image must be an https:// or ipfs:// URL"),
+  properties: z.object({
+    files: z.array(z.object({
+      uri: z.string().min(1),
+      type: z.string().min(1, "File type is required"),
+    })).min(1, "properties.files must list the image"),
+    category: z.literal("image", { message: 'properties.category should be "image"' }),
+  }, { message: "properties (files + category) is missing" }),
+  extensions: z.record(z.string(), z.string()).optional(),
+});
+
+function toFieldErrors(issues: readonly { path: PropertyKey[]; message: string }[]): MetadataFieldErrors {
+  const errors: MetadataFieldErrors = {};
+  for (const issue of issues) {
+    const key = issue.path.map(String).join(".") || "metadata";
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return errors;
+}
+
+/**
+ * Validate form metadata and normalise it to the Metaplex fungible standard
+ * @param input - JSON as sent by the create / update forms
+ * @param options.imageType - MIME type of the image when it can't be inferred from the URL
+ * @returns { ok: true, metadata } or { ok: false, fieldErrors } keyed by field path ("name", "links.x", …)
+ */
+export function normalizeTokenMetadata(
+  input: unknown,
+  options: { imageType?: string | null } = {}
+): MetadataValidation {
+  const parsed = metadataInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { ok: false, fieldErrors: toFieldErrors(parsed.error.issues) };
+  }
+  const data = parsed.data;
+
+  const declared = data.properties?.files?.find((f) => f.uri === data.image)?.type;
+  const imageType = options.imageType || declared || inferImageMime(data.image);
+  if (!imageType || !imageType.startsWith("image/")) {
+    return {
+      ok: false,
+      fieldErrors: { image: "Could not determine the image type (use png, jpg, gif, webp or svg)" },
+    };
+  }
+
+  // Image first, then any non-image files (animation etc.) the caller already listed
+  const files: MetadataFile[] = [
+    { uri: data.image, type: imageType },
+    ...(data.properties?.files || []).filter((f) => f.uri !== data.image && !f.type.startsWith("image/")),
+  ];
+
+  const extensions = { ...data.extensions, ...data.links };
+  const metadata: FungibleTokenMetadata = {
+    name: data.name,
+    symbol: data.symbol,
+    description: data.description,
+    image: data.image,
+    ...(data.external_url || extensions.website ? { external_url: data.external_url || extensions.website } : {}),
+    ...(data.attributes?.length ? { attributes: data.attributes as FungibleTokenMetadata["attributes"] } : {}),
+    properties: { files, category: "image" },
+    ...(Object.keys(extensions).length ? { extensions } : {}),
+  };
+
+  return { ok: true, metadata };
+}
+
+/**
+ * One-line summary of field errors for toasts / API messages
+ */
+export function summarizeMetadataErrors(fieldErrors: MetadataFieldErrors): string {
+  return Object.entries(fieldErrors)
+    .map(([field, message]) => `${field}: ${message}`)
+    .join("; ");
+}
+
+/**
+ * Check existing off-chain JSON against the fungible standard
+ * @param json - Parsed metadata JSON (anything)
+ * @param onChain - Optional on-chain name/symbol to compare against
+ * @returns compliant is false when any error-level issue exists; warnings don't affect it
+ */
+export function checkMetadataCompliance(
+  json: unknown,
+  onChain?: { name: string; symbol: string }
+): { compliant: boolean; issues: MetadataIssue[] } {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    return { compliant: false, issues: [{ field: "metadata", message: "Metadata is not a JSON object", level: "error" }] };
+  }
+
+  const issues: MetadataIssue[] = [];
+  const parsed = fungibleMetadataSchema.safeParse(json);
+  if (!parsed.success) {
+    for (const [field, message] of Object.entries(toFieldErrors(parsed.error.issues))) {
+      issues.push({ field, message, level: "error" });
+    }
+  }
+
+  const j = json as Record<string, any>;
+  const files: any[] = Array.isArray(j.properties?.files) ? j.properties.files : [];
+  const imageFile = files.find((f) => f?.uri === j.image);
+  if (typeof j.image === "string" && files.length && !imageFile) {
+    issues.push({ field: "properties.files", message: "Image is not listed in properties.files", level: "error" });
+  }
+  if (imageFile && typeof imageFile.type === "string" && !imageFile.type.startsWith("image/")) {
+    issues.push({ field: "properties.files", message: `Image MIME type "${imageFile.type}" is not an image type`, level: "error" });
+  }
+  if (typeof j.image === "string" && /^http:\/\//i.test(j.image)) {
+    issues.push({ field: "image", message: "Image uses http:// (some wallets block mixed content)", level: "warning" });
+  }
+  if (!j.description) {
+    issues.push({ field: "description", message: "No description", level: "warning" });
+  }
+  if (!j.extensions || typeof j.extensions !== "object" || Object.keys(j.extensions).length === 0) {
+    issues.push({ field: "extensions", message: "No links (website / twitter / telegram) in extensions", level: "warning" });
+  }
+  if (onChain) {
+    if (typeof j.name === "string" && j.name !== onChain.name) {
+      issues.push({ field: "name", message: `JSON name "${j.name}" differs from on-chain "${onChain.name}"`, level: "warning" });
+    }
+    if (typeof j.symbol === "string" && j.symbol !== onChain.symbol) {
+      issues.push({ field: "symbol", message: `JSON symbol "${j.symbol}" differs from on-chain "${onChain.symbol}"`, level: "warning" });
+    }
+  }
+
+  return { compliant: !issues.some((i) => i.level === "error"), issues };
+}
+
+/**
+ * Pull field errors out of a failed /api/ipfs/upload call (axios or fetch wrapper)
+ * @returns Field errors, or null when the failure wasn't a validation error
+ */
+export function metadataFieldErrorsFrom(error: any): MetadataFieldErrors | null {
+  const fieldErrors = error?.response?.data?.fieldErrors || error?.fieldErrors;
+  return fieldErrors && typeof fieldErrors === "object" ? fieldErrors : null;
+}
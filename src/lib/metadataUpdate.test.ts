@@ -0,0 +1,116 @@
+// Simple test for building Metaplex metadata update / lock instructions
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  Key,
+  Metadata,
+  PROGRAM_ID as METADATA_PROGRAM_ID,
+  TokenStandard,
+  UpdateMetadataAccountV2Struct,
+} from '@metaplex-foundation/mpl-token-metadata';
+import { buildMetadataUpdateInstructions, readMetadataState } from './metadataUpdate';
+import { findMetadataPda } from './tokenCreate';
+
+function metadataAccount(mint: PublicKey, updateAuthority: PublicKey, isMutable: boolean): AccountInfo<Buffer> {
+  const [data] = Metadata.fromArgs({
+    key: Key.MetadataV1,
+    updateAuthority,
+    mint,
+    data: {
+      name: 'Old Name'.padEnd(32, '\0'),
+      symbol: 'OLD'.padEnd(10, '\0'),
+      uri: 'https://example.com/old.json'.padEnd(200, '\0'),
+      sellerFeeBasisPoints: 0,
+      creators: null,
+    },
+    primarySaleHappened: false,
+    isMutable,
+    editionNonce: 255,
+    tokenStandard: TokenStandard.Fungible,
+    collection: null,
+    uses: null,
+    collectionDetails: null,
+    programmableConfig: null,
+  }).serialize();
+  return { data, owner: METADATA_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+function stubConnection(mint: PublicKey, metadata: AccountInfo<Buffer>): Connection {
+  const pda = findMetadataPda(mint);
+  return {
+    getAccountInfo: async (key: PublicKey) => {
+      if (key.equals(mint)) return { data: Buffer.alloc(82), owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false };
+      if (key.equals(pda)) return metadata;
+      return null;
+    },
+  } as unknown as Connection;
+}
+
+async function errorCode(fn: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await fn();
+    return null;
+  } catch (e: any) {
+    return e?.code || 'unknown';
+  }
+}
+
+async function testMetadataUpdate() {
+  try {
+    const failures: string[] = [];
+    const mint = Keypair.generate().publicKey;
+    const authority = Keypair.generate().publicKey;
+    const connection = stubConnection(mint, metadataAccount(mint, authority, true));
+
+    console.log('Testing metadata state is read and NULs trimmed...');
+    const state = await readMetadataState(connection, mint.toBase58());
+    if (state?.name !== 'Old Name' || state.symbol !== 'OLD') failures.push('trimmed fields');
+    if (state?.locked || state?.updateAuthority !== authority.toBase58()) failures.push('mutable state');
+
+    console.log('Testing update + lock instruction data...');
+    const [ix] = await buildMetadataUpdateInstructions({
+      connection,
+      mint: mint.toBase58(),
+      authority,
+      name: 'New Name',
+      uri: 'https://example.com/new.json',
+      lock: { immutable: true, dropAuthority: true },
+    });
+    const [args] = UpdateMetadataAccountV2Struct.deserialize(ix.data);
+    const v2 = args.updateMetadataAccountArgsV2;
+    if (v2.data?.name !== 'New Name' || v2.data?.symbol !== 'OLD') failures.push('update data');
+    if (v2.isMutable !== false) failures.push('isMutable');
+    if (!v2.updateAuthority?.equals(SystemProgram.programId)) failures.push('dropped authority');
+
+    console.log('Testing guards...');
+    const wrongSigner = await errorCode(() =>
+      buildMetadataUpdateInstructions({ connection, mint: mint.toBase58(), authority: Keypair.generate().publicKey, name: 'X' })
+    );
+    if (wrongSigner !== 'NotUpdateAuthority') failures.push(`wrong signer: ${wrongSigner}`);
+    const noop = await errorCode(() =>
+      buildMetadataUpdateInstructions({ connection, mint: mint.toBase58(), authority, name: 'Old Name' })
+    );
+    if (noop !== 'NothingToUpdate') failures.push(`no-op: ${noop}`);
+    const lockedConnection = stubConnection(mint, metadataAccount(mint, authority, false));
+    const locked = await errorCode(() =>
+      buildMetadataUpdateInstructions({ connection: lockedConnection, mint: mint.toBase58(), authority, name: 'X' })
+    );
+    if (locked !== 'MetadataLocked') failures.push(`locked: ${locked}`);
+
+    if (failures.length === 0) {
+      console.log('✅ Metadata update test passed!');
+    } else {
+      console.log('❌ Metadata update test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Metadata update test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testMetadataUpdate();
+}
+
+export { testMetadataUpdate };
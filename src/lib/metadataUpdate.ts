@@ -0,0 +1,268 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  AuthorityType,
+  TOKEN_2022_PROGRAM_ID,
+  createSetAuthorityInstruction,
+  getMetadataPointerState,
+  getMint,
+  getTokenMetadata,
+} from "@solana/spl-token";
+import {
+  Field,
+  TokenMetadata,
+  createUpdateAuthorityInstruction,
+  createUpdateFieldInstruction,
+  pack,
+} from "@solana/spl-token-metadata";
+import {
+  Metadata,
+  createUpdateMetadataAccountV2Instruction,
+} from "@metaplex-foundation/mpl-token-metadata";
+import { getMintProgramId } from "./token2022";
+import { findMetadataPda } from "./tokenCreate";
+import { MAX_NAME_LENGTH, MAX_SYMBOL_LENGTH, MAX_URI_LENGTH } from "./metadataSchema";
+import { previewOrThrow } from "./txPreview";
+
+/**
+ * Post-launch metadata update and lock
+ *
+ * SPL Token mints carry Metaplex metadata (UpdateMetadataAccountV2);
+ * Token-2022 mints carry on-mint metadata (spl-token-metadata UpdateField).
+ * Locking is irreversible:
+ * - Metaplex: isMutable=false and/or hand the update authority to the system
+ *   program (Metaplex cannot clear it, and nobody can sign for 1111…)
+ * - Token-2022: clear the metadata update authority and metadata pointer authority
+ */
+
+export { MAX_NAME_LENGTH, MAX_SYMBOL_LENGTH, MAX_URI_LENGTH };
+
+export type MetadataStandard = "metaplex" | "token-2022";
+
+export interface MetadataState {
+  standard: MetadataStandard;
+  name: string;
+  symbol: string;
+  uri: string;
+  updateAuthority: string | null; // null once dropped
+  isMutable: boolean;             // Metaplex flag; Token-2022 is mutable while it has an authority
+  locked: boolean;                // No one can change the metadata any more
+}
+
+export interface MetadataLock {
+  immutable?: boolean;     // Metaplex isMutable=false (Token-2022: same as dropAuthority)
+  dropAuthority?: boolean; // Give up the update authority
+}
+
+export interface MetadataUpdateParams {
+  connection: Connection;
+  mint: string;
+  authority: PublicKey; // Current update authority, pays for any Token-2022 realloc
+  name?: string;
+  symbol?: string;
+  uri?: string;
+  lock?: MetadataLock;
+}
+
+function metadataError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+// Metaplex pads fixed-size strings with NULs
+const trimNul = (s: string) => s.replace(/\0/g, "").trim();
+
+async function loadMetadata(connection: Connection, mintPk: PublicKey) {
+  const programId = await getMintProgramId(connection, mintPk);
+
+  if (programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    const meta = await getTokenMetadata(connection, mintPk, "confirmed", TOKEN_2022_PROGRAM_ID);
+    if (!meta) return null;
+    const updateAuthority = meta.updateAuthority && !meta.updateAuthority.equals(PublicKey.default)
+      ? meta.updateAuthority.toBase58()
+      : null;
+    const state: MetadataState = {
+      standard: "token-2022",
+      name: meta.name,
+      symbol: meta.symbol,
+      uri: meta.uri,
+      updateAuthority,
+      isMutable: updateAuthority !== null,
+      locked: updateAuthority === null,
+    };
+    return { state, token2022: meta, metaplex: null as Metadata | null };
+  }
+
+  const info = await connection.getAccountInfo(findMetadataPda(mintPk), "confirmed");
+  if (!info) return null;
+  const [md] = Metadata.fromAccountInfo(info);
+  const updateAuthority = md.updateAuthority.equals(SystemProgram.programId) ? null : md.updateAuthority.toBase58();
+  const state: MetadataState = {
+    standard: "metaplex",
+    name: trimNul(md.data.name),
+    symbol: trimNul(md.data.symbol),
+    uri: trimNul(md.data.uri),
+    updateAuthority,
+    isMutable: md.isMutable,
+    locked: !md.isMutable || updateAuthority === null,
+  };
+  return { state, token2022: null as TokenMetadata | null, metaplex: md };
+}
+
+/**
+ * Read the current on-chain metadata and whether it can still change
+ * @returns MetadataState, or null when the mint has no metadata
+ */
+export async function readMetadataState(connection: Connection, mint: string): Promise<MetadataState | null> {
+  const loaded = await loadMetadata(connection, new PublicKey(mint));
+  return loaded?.state || null;
+}
+
+/**
+ * Build the instructions to update and/or lock a token's metadata
+ * @throws Error with code NoMetadata | MetadataLocked | NotUpdateAuthority | InvalidField | NothingToUpdate
+ */
+export async function buildMetadataUpdateInstructions(p: MetadataUpdateParams): Promise<TransactionInstruction[]> {
+  const mintPk = new PublicKey(p.mint);
+  const loaded = await loadMetadata(p.connection, mintPk);
+  if (!loaded) {
+    throw metadataError("NoMetadata", "This token has no on-chain metadata");
+  }
+  const { state } = loaded;
+  if (state.locked) {
+    throw metadataError("MetadataLocked", "Metadata is locked and can no longer be changed");
+  }
+  if (state.updateAuthority !== p.authority.toBase58()) {
+    throw metadataError("NotUpdateAuthority", "Connected wallet is not the metadata update authority");
+  }
+
+  const next = {
+    name: p.name?.trim() ?? state.name,
+    symbol: p.symbol?.trim() ?? state.symbol,
+    uri: p.uri?.trim() ?? state.uri,
+  };
+  if (!next.name || next.name.length > MAX_NAME_LENGTH) {
+    throw metadataError("InvalidField", `Name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  if (!next.symbol || next.symbol.length > MAX_SYMBOL_LENGTH) {
+    throw metadataError("InvalidField", `Symbol must be 1-${MAX_SYMBOL_LENGTH} characters`);
+  }
+  if (!next.uri || next.uri.length > MAX_URI_LENGTH) {
+    throw metadataError("InvalidField", `Metadata URI must be 1-${MAX_URI_LENGTH} characters`);
+  }
+
+  const changed = (["name", "symbol", "uri"] as const).filter((k) => next[k] !== state[k]);
+  const lock = p.lock || {};
+  if (changed.length === 0 && !lock.immutable && !lock.dropAuthority) {
+    throw metadataError("NothingToUpdate", "Nothing to update");
+  }
+
+  const ixs: TransactionInstruction[] = [];
+
+  if (loaded.metaplex) {
+    const md = loaded.metaplex;
+    ixs.push(
+      createUpdateMetadataAccountV2Instruction(
+        { metadata: findMetadataPda(mintPk), updateAuthority: p.authority },
+        {
+          updateMetadataAccountArgsV2: {
+            data: changed.length
+              ? {
+                  ...next,
+                  sellerFeeBasisPoints: md.data.sellerFeeBasisPoints,
+                  creators: md.data.creators,
+                  collection: md.collection,
+                  uses: md.uses,
+                }
+              : null,
+            updateAuthority: lock.dropAuthority ? SystemProgram.programId : null,
+            primarySaleHappened: null,
+            isMutable: lock.immutable ? false : null,
+          },
+        }
+      )
+    );
+    return ixs;
+  }
+
+  // Token-2022: metadata lives in the mint account, so longer values need more rent
+  const current = loaded.token2022!;
+  if (changed.length) {
+    const info = await p.connection.getAccountInfo(mintPk, "confirmed");
+    const updated: TokenMetadata = { ...current, ...next };
+    const newLen = info!.data.length + pack(updated).length - pack(current).length;
+    const required = await p.connection.getMinimumBalanceForRentExemption(newLen);
+    if (required > info!.lamports) {
+      ixs.push(SystemProgram.transfer({ fromPubkey: p.authority, toPubkey: mintPk, lamports: required - info!.lamports }));
+    }
+
+    const fields = { name: Field.Name, symbol: Field.Symbol, uri: Field.Uri };
+    for (const key of changed) {
+      ixs.push(
+        createUpdateFieldInstruction({
+          programId: TOKEN_2022_PROGRAM_ID,
+          metadata: mintPk,
+          updateAuthority: p.authority,
+          field: fields[key],
+          value: next[key],
+        })
+      );
+    }
+  }
+
+  if (lock.immutable || lock.dropAuthority) {
+    ixs.push(
+      createUpdateAuthorityInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mintPk,
+        oldAuthority: p.authority,
+        newAuthority: null,
+      })
+    );
+    // Otherwise the pointer could be redirected to a different metadata account
+    const mintInfo = await getMint(p.connection, mintPk, "confirmed", TOKEN_2022_PROGRAM_ID);
+    const pointer = getMetadataPointerState(mintInfo);
+    if (pointer?.authority?.equals(p.authority)) {
+      ixs.push(
+        createSetAuthorityInstruction(mintPk, p.authority, AuthorityType.MetadataPointer, null, [], TOKEN_2022_PROGRAM_ID)
+      );
+    }
+  }
+
+  return ixs;
+}
+
+/**
+ * Update and/or lock metadata from the creator's wallet
+ * Mirrors revokeAuthorities: build, sign with the wallet, send and confirm
+ */
+export async function updateTokenMetadata({
+  wallet,
+  ...params
+}: Omit<MetadataUpdateParams, "authority"> & {
+  wallet: { publicKey: PublicKey; signTransaction: (transaction: Transaction) => Promise<Transaction> };
+}): Promise<{ txid: string }> {
+  if (!wallet.publicKey || !wallet.signTransaction) {
+    throw new Error("Wallet not connected or cannot sign transactions");
+  }
+
+  const instructions = await buildMetadataUpdateInstructions({ ...params, authority: wallet.publicKey });
+  const transaction = new Transaction().add(...instructions);
+  const { blockhash } = await params.connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = wallet.publicKey;
+
+  await previewOrThrow(params.connection, transaction);
+
+  const signedTx = await wallet.signTransaction(transaction);
+  const txid = await params.connection.sendRawTransaction(signedTx.serialize());
+  await params.connection.confirmTransaction(txid, "confirmed");
+
+  return { txid };
+}
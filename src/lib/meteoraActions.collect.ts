@@ -0,0 +1,53 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import { instructionsOf, loadDlmmPool, loadOwnedPosition } from "./meteoraDlmm";
+
+export type MeteoraCollectParams = {
+  connection: Connection;
+  walletPubkey: string;
+  lbPair: string;
+  position: string; // Position account
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
+};
+
+/**
+ * Claim swap fees (and farm rewards, when the pool has any) for a Meteora DLMM position
+ * @throws Error with code NothingToCollect when the position has no fees or rewards
+ */
+export async function buildMeteoraCollectTx(p: MeteoraCollectParams) {
+  const owner = new PublicKey(p.walletPubkey);
+
+  const dlmm = await loadDlmmPool(p.connection, p.lbPair);
+  const lbPosition = await loadOwnedPosition(dlmm, p.position, owner);
+  const { feeX, feeY, rewardOne, rewardTwo } = lbPosition.positionData;
+  const hasFees = !feeX.isZero() || !feeY.isZero();
+  const hasRewards = !rewardOne.isZero() || !rewardTwo.isZero();
+  if (!hasFees && !hasRewards) {
+    const e: any = new Error("No fees or rewards to collect yet");
+    e.code = "NothingToCollect";
+    throw e;
+  }
+
+  const ixs = [
+    ...(hasFees ? instructionsOf(await dlmm.claimSwapFee({ owner, position: lbPosition })) : []),
+    ...(hasRewards ? instructionsOf(await dlmm.claimAllRewardsByPosition({ owner, position: lbPosition })) : []),
+  ];
+
+  const tx = new Transaction().add(...ixs);
+  await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
+
+  return {
+    txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
+    summary: {
+      action: "collect_fees",
+      lbPair: p.lbPair,
+      position: p.position,
+      feeX: feeX.toString(),
+      feeY: feeY.toString(),
+      collectedFees: hasFees,
+      collectedRewards: hasRewards,
+    },
+  };
+}
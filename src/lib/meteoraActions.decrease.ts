@@ -0,0 +1,59 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import BN from "bn.js";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import { instructionsOf, loadDlmmPool, loadOwnedPosition } from "./meteoraDlmm";
+
+export type MeteoraDecreaseParams = {
+  connection: Connection;
+  walletPubkey: string;
+  lbPair: string;
+  position: string; // Position account
+  percent: number;  // 0..100; 100 also claims fees and closes the position
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
+};
+
+/**
+ * Withdraw a share of every bin in a Meteora DLMM position
+ */
+export async function buildMeteoraDecreaseTx(p: MeteoraDecreaseParams) {
+  const owner = new PublicKey(p.walletPubkey);
+  const pct = Math.max(0, Math.min(100, p.percent));
+  if (pct <= 0) {
+    const e: any = new Error("percent must be greater than zero");
+    e.code = "BadAmount";
+    throw e;
+  }
+
+  const dlmm = await loadDlmmPool(p.connection, p.lbPair);
+  const { positionData } = await loadOwnedPosition(dlmm, p.position, owner);
+  const isFullClose = pct >= 100;
+  const bps = Math.round(pct * 100);
+
+  const removeTxs = await dlmm.removeLiquidity({
+    user: owner,
+    position: new PublicKey(p.position),
+    fromBinId: positionData.lowerBinId,
+    toBinId: positionData.upperBinId,
+    bps: new BN(bps),
+    shouldClaimAndClose: isFullClose,
+  });
+
+  // Wide positions may come back in several chunks; buildVersionedTx reports
+  // TransactionTooLarge if they don't fit together
+  const tx = new Transaction().add(...instructionsOf(removeTxs));
+  await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
+
+  return {
+    txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
+    summary: {
+      action: isFullClose ? "close" : "decrease",
+      lbPair: p.lbPair,
+      position: p.position,
+      percent: pct,
+      expectedX: ((BigInt(positionData.totalXAmount.split(".")[0] || "0") * BigInt(bps)) / 10_000n).toString(),
+      expectedY: ((BigInt(positionData.totalYAmount.split(".")[0] || "0") * BigInt(bps)) / 10_000n).toString(),
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import BN from "bn.js";
+import { clampSlippageBp } from "./slippage";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import { SPOT_STRATEGY, instructionsOf, loadDlmmPool, loadOwnedPosition, sideToBase } from "./meteoraDlmm";
+
+export type MeteoraIncreaseParams = {
+  connection: Connection;
+  walletPubkey: string;
+  lbPair: string;
+  position: string;   // Position account
+  amountXUi: string;  // UI amounts per pool side (either may be "0")
+  amountYUi: string;
+  slippageBp: number; // default 100
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
+};
+
+/**
+ * Add liquidity to an existing Meteora DLMM position over its own bin range
+ */
+export async function buildMeteoraIncreaseTx(p: MeteoraIncreaseParams) {
+  const owner = new PublicKey(p.walletPubkey);
+  const slippageBp = clampSlippageBp(p.slippageBp);
+
+  const dlmm = await loadDlmmPool(p.connection, p.lbPair);
+  const { positionData } = await loadOwnedPosition(dlmm, p.position, owner);
+
+  const amountX = sideToBase(dlmm, "X", p.amountXUi || 0);
+  const amountY = sideToBase(dlmm, "Y", p.amountYUi || 0);
+  if (amountX <= 0n && amountY <= 0n) {
+    const e: any = new Error("Amount must be greater than zero");
+    e.code = "BadAmount";
+    throw e;
+  }
+
+  const addTx = await dlmm.addLiquidityByStrategy({
+    positionPubKey: new PublicKey(p.position),
+    user: owner,
+    totalXAmount: new BN(amountX.toString()),
+    totalYAmount: new BN(amountY.toString()),
+    strategy: { minBinId: positionData.lowerBinId, maxBinId: positionData.upperBinId, strategyType: SPOT_STRATEGY },
+    slippage: slippageBp / 100, // SDK takes a percentage
+  });
+
+  const tx = new Transaction().add(...instructionsOf(addTx));
+  await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
+
+  return {
+    txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
+    summary: {
+      action: "increase",
+      lbPair: p.lbPair,
+      position: p.position,
+      amountX: amountX.toString(),
+      amountY: amountY.toString(),
+      minBinId: positionData.lowerBinId,
+      maxBinId: positionData.upperBinId,
+      slippageBp,
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from "@solana/web3.js";
+import {
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import BN from "bn.js";
+import type DLMM from "@meteora-ag/dlmm";
+import { FEE_WALLET, FLAT_FEE_SOL, SKIM_BP, applySkimBp, solToLamports } from "./fees";
+import { clampSlippageBp } from "./slippage";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import {
+  SPOT_STRATEGY,
+  assertPairMints,
+  instructionsOf,
+  loadDlmmPool,
+  pairAmountsToXY,
+  sideToBase,
+  spotBinRange,
+} from "./meteoraDlmm";
+
+export interface MeteoraCommitParams {
+  connection: Connection;
+  walletPubkey: PublicKey;
+  lbPair: string;
+  tokenMint: string;
+  quoteMint: string;     // SOL or USDC, from the pair
+  baseAmountUi: string;  // SOL / USDC side
+  quoteAmountUi: string; // Token side
+  slippageBp: number;
+  minBinId?: number;     // Bin range from the quote (defaults to Spot around the active bin)
+  maxBinId?: number;
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
+}
+
+export interface MeteoraCommitResult {
+  txBase64: string;
+  partialSigners: string[]; // Base64 secret key of the new position account
+  summary: {
+    lbPair: string;
+    position: string;
+    tokenMintA: string; // Token X
+    tokenMintB: string; // Token Y
+    amountA: string;    // Net base units deposited
+    amountB: string;
+    slippageBp: number;
+    activeBinId: number;
+    minBinId: number;
+    maxBinId: number;
+    binStep: number;
+    fee: {
+      sol: number;
+      skimBp: number;
+      skimA: string;
+      skimB: string;
+    };
+  };
+}
+
+/**
+ * Skim one side of the deposit to the fee wallet
+ * SOL goes as a lamports transfer (the SDK wraps the net amount itself),
+ * SPL / Token-2022 as a checked transfer into the fee wallet's ATA
+ */
+function skimInstructions(owner: PublicKey, reserve: DLMM["tokenX"], skim: bigint): TransactionInstruction[] {
+  if (skim <= 0n) return [];
+  const mint = reserve.publicKey;
+  if (mint.equals(NATIVE_MINT)) {
+    return [SystemProgram.transfer({ fromPubkey: owner, toPubkey: FEE_WALLET, lamports: skim })];
+  }
+
+  const programId = reserve.owner;
+  const ownerAta = getAssociatedTokenAddressSync(mint, owner, false, programId);
+  const feeAta = getAssociatedTokenAddressSync(mint, FEE_WALLET, true, programId);
+  return [
+    // devnet audit: SOL skim lamports; ATA payer=user, owner=FEE_WALLET
+    createAssociatedTokenAccountIdempotentInstruction(owner, feeAta, FEE_WALLET, mint, programId),
+    createTransferCheckedInstruction(ownerAta, mint, feeAta, owner, skim, reserve.mint.decimals, [], programId),
+  ];
+}
+
+/**
+ * Build a Meteora DLMM liquidity commitment
+ * Opens a new position over the quoted bin range with a Spot distribution,
+ * after the flat SOL fee and the skim on both sides
+ */
+export async function buildMeteoraCommitTx(p: MeteoraCommitParams): Promise<MeteoraCommitResult> {
+  const owner = p.walletPubkey;
+  const slippageBp = clampSlippageBp(p.slippageBp);
+
+  const dlmm = await loadDlmmPool(p.connection, p.lbPair);
+  const activeBin = await dlmm.getActiveBin();
+  const tokenX = dlmm.tokenX.publicKey.toBase58();
+  const tokenY = dlmm.tokenY.publicKey.toBase58();
+  // The other side must be the pair's SOL / USDC, which the canary caps were checked against
+  assertPairMints(p.lbPair, tokenX, tokenY, p.tokenMint, p.quoteMint);
+
+  // Bin range from the quote, re-centred if the price has moved out of it
+  let { minBinId, maxBinId } = spotBinRange(activeBin.binId);
+  if (
+    typeof p.minBinId === "number" &&
+    typeof p.maxBinId === "number" &&
+    p.minBinId <= activeBin.binId &&
+    activeBin.binId <= p.maxBinId
+  ) {
+    ({ minBinId, maxBinId } = spotBinRange(activeBin.binId, Math.min(activeBin.binId - p.minBinId, p.maxBinId - activeBin.binId)));
+  }
+
+  const { amountXUi, amountYUi } = pairAmountsToXY({
+    tokenX,
+    tokenMint: p.tokenMint,
+    baseAmountUi: p.baseAmountUi,
+    quoteAmountUi: p.quoteAmountUi,
+  });
+  const { net: netX, skim: skimX } = applySkimBp(sideToBase(dlmm, "X", amountXUi));
+  const { net: netY, skim: skimY } = applySkimBp(sideToBase(dlmm, "Y", amountYUi));
+  if (netX <= 0n && netY <= 0n) {
+    const e: any = new Error("Deposit amounts are zero after fees");
+    e.code = "BadAmount";
+    throw e;
+  }
+
+  console.log(`After skim (${SKIM_BP} bps) - Net X: ${netX.toString()}, Net Y: ${netY.toString()}`);
+  console.log(`Bin range ${minBinId}..${maxBinId} (active ${activeBin.binId})`);
+
+  const ixs: TransactionInstruction[] = [];
+
+  // 1) Flat SOL fee
+  if (FLAT_FEE_SOL > 0) {
+    ixs.push(
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: FEE_WALLET,
+        lamports: solToLamports(FLAT_FEE_SOL),
+      })
+    );
+  }
+
+  // 2) Skim both sides
+  ixs.push(...skimInstructions(owner, dlmm.tokenX, skimX));
+  ixs.push(...skimInstructions(owner, dlmm.tokenY, skimY));
+
+  // 3) New position account + deposit of the NET amounts
+  const position = Keypair.generate();
+  const depositTx = await dlmm.initializePositionAndAddLiquidityByStrategy({
+    positionPubKey: position.publicKey,
+    user: owner,
+    totalXAmount: new BN(netX.toString()),
+    totalYAmount: new BN(netY.toString()),
+    strategy: { minBinId, maxBinId, strategyType: SPOT_STRATEGY },
+    slippage: slippageBp / 100, // SDK takes a percentage
+  });
+  ixs.push(...instructionsOf(depositTx));
+
+  const tx = new Transaction().add(...ixs);
+  await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
+  const txBase64 = serializeTx(await buildVersionedTx(p.connection, tx, owner));
+
+  return {
+    txBase64,
+    partialSigners: [Buffer.from(position.secretKey).toString("base64")],
+    summary: {
+      lbPair: p.lbPair,
+      position: position.publicKey.toBase58(),
+      tokenMintA: tokenX,
+      tokenMintB: tokenY,
+      amountA: netX.toString(),
+      amountB: netY.toString(),
+      slippageBp,
+      activeBinId: activeBin.binId,
+      minBinId,
+      maxBinId,
+      binStep: dlmm.lbPair.binStep,
+      fee: {
+        sol: FLAT_FEE_SOL,
+        skimBp: SKIM_BP,
+        skimA: skimX.toString(),
+        skimB: skimY.toString(),
+      },
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Simple test for the Meteora DLMM bin range, pool mint and amount helpers
+import { MAX_POSITION_BINS, assertPairMints, minAfterSlippage, pairAmountsToXY, spotBinRange } from './meteoraDlmm';
+
+function errorCode(fn: () => unknown): string | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error: any) {
+    return error.code;
+  }
+}
+
+function testMeteoraDlmm() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing spot bin ranges...');
+    const range = spotBinRange(100);
+    if (range.minBinId !== 90 || range.maxBinId !== 110) failures.push(`default range: ${JSON.stringify(range)}`);
+    const wide = spotBinRange(-5, 1_000);
+    if (wide.maxBinId - wide.minBinId + 1 > MAX_POSITION_BINS) failures.push('range exceeds position width');
+    const single = spotBinRange(7, 0);
+    if (single.minBinId !== 7 || single.maxBinId !== 7) failures.push('single bin');
+
+    console.log('Testing side mapping...');
+    const tokenMint = 'Token111';
+    const asX = pairAmountsToXY({ tokenX: tokenMint, tokenMint, baseAmountUi: '1', quoteAmountUi: '500' });
+    if (asX.amountXUi !== '500' || asX.amountYUi !== '1') failures.push('token as X');
+    const asY = pairAmountsToXY({ tokenX: 'So111', tokenMint, baseAmountUi: '1', quoteAmountUi: '500' });
+    if (asY.amountXUi !== '1' || asY.amountYUi !== '500') failures.push('token as Y');
+
+    console.log('Testing pool mints...');
+    const WSOL = 'So11111111111111111111111111111111111111112';
+    const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    if (errorCode(() => assertPairMints('Pair111', tokenMint, WSOL, tokenMint, WSOL))) failures.push('TOKEN/SOL pool rejected');
+    if (errorCode(() => assertPairMints('Pair111', USDC, tokenMint, tokenMint, USDC))) failures.push('USDC/TOKEN pool rejected');
+    // TOKEN/USDC pool committed as SOL/TOKEN would skip the SOL canary cap
+    if (errorCode(() => assertPairMints('Pair111', tokenMint, USDC, tokenMint, WSOL)) !== 'PoolMismatch') failures.push('wrong quote side');
+    if (errorCode(() => assertPairMints('Pair111', 'Other111', WSOL, tokenMint, WSOL)) !== 'PoolMismatch') failures.push('wrong token');
+
+    console.log('Testing slippage floor...');
+    if (minAfterSlippage(10_000n, 100) !== 9_900n) failures.push('1% slippage');
+    if (minAfterSlippage(1n, 50) !== 0n) failures.push('rounds down');
+
+    if (failures.length) {
+      console.error('❌ Meteora DLMM test failed:', failures);
+    } else {
+      console.log('✅ Meteora DLMM test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Meteora DLMM test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testMeteoraDlmm();
+}
+
+export { testMeteoraDlmm };
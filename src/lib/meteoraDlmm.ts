@@ -0,0 +1,228 @@
+import { Connection, PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js";
+import DLMM, { LbPosition, StrategyType } from "@meteora-ag/dlmm";
+import { CLUSTER } from "./network";
+import { DEV_DISABLE_DEXSCR } from "./env";
+import { parseUiAmount } from "./amounts";
+
+/**
+ * Meteora DLMM (Dynamic Liquidity Market Maker) helpers
+ *
+ * A DLMM pool ("LB pair") holds liquidity in discrete price bins instead of a
+ * tick range. Positions are plain accounts owned by the wallet (no NFT, no LP
+ * token), so the builders here sign for a fresh position keypair on commit and
+ * address existing positions by their account key afterwards.
+ */
+
+// Bins placed either side of the active bin for new positions (Spot strategy)
+export const DEFAULT_BINS_PER_SIDE = 10;
+
+// One position account covers at most this many bins
+export const MAX_POSITION_BINS = 69;
+
+export interface MeteoraQuoteRequest {
+  connection: Connection;
+  tokenMint: string;
+  quoteMint: string;   // SOL or USDC
+  baseAmount: string;  // UI amount of the quote mint (SOL / USDC side)
+  quoteAmount: string; // UI amount of the token
+  lbPair?: string;     // Skip discovery when the pool is already known
+  slippageBp?: number;
+}
+
+export interface MeteoraQuoteResponse {
+  pool: string;
+  priceImpact: number;      // Percent; depositing into bins doesn't move the price
+  lpFee: number;            // Decimal (0.0025 = 25 bps)
+  expectedLpTokens: string; // Always "0": DLMM positions are accounts, not LP tokens
+  minOut: string;
+  source: "Meteora";
+  binStep: number;
+  activeBinId: number;
+  minBinId: number;
+  maxBinId: number;
+  activePrice: string;      // Token Y per token X at the active bin
+  tokenX: string;
+  tokenY: string;
+}
+
+/**
+ * SDK options for the configured cluster
+ */
+export function dlmmOptions() {
+  return { cluster: CLUSTER as "mainnet-beta" | "devnet" };
+}
+
+/**
+ * Load an LB pair
+ * @throws Error with code NoPool when the account isn't a DLMM pool
+ */
+export async function loadDlmmPool(connection: Connection, lbPair: string): Promise<DLMM> {
+  try {
+    return await DLMM.create(connection, new PublicKey(lbPair), dlmmOptions());
+  } catch (error: any) {
+    const e: any = new Error(`Not a Meteora DLMM pool: ${lbPair}`);
+    e.code = "NoPool";
+    e.originalError = error;
+    throw e;
+  }
+}
+
+/**
+ * Find the DLMM pool for TOKEN vs SOL / USDC (DexScreener lists DLMM pairs
+ * under dexId "meteora" with a "DLMM" label)
+ */
+export async function findMeteoraPool({ tokenMint, quoteMint }: { tokenMint: string; quoteMint: string }): Promise<string | null> {
+  if (DEV_DISABLE_DEXSCR) {
+    console.log(`DexScreener API calls disabled on devnet, no Meteora discovery for ${tokenMint}`);
+    return null;
+  }
+
+  const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`DexScreener API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const pools = (data.pairs || [])
+    .filter((pair: any) =>
+      pair.dexId === "meteora" &&
+      (pair.labels || []).includes("DLMM") &&
+      [pair.baseToken?.address, pair.quoteToken?.address].includes(tokenMint) &&
+      [pair.baseToken?.address, pair.quoteToken?.address].includes(quoteMint)
+    )
+    // Deepest pool first
+    .sort((a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0));
+
+  return pools[0]?.pairAddress || null;
+}
+
+/**
+ * Bin range for a new Spot position centred on the active bin
+ */
+export function spotBinRange(activeBinId: number, binsPerSide = DEFAULT_BINS_PER_SIDE) {
+  const side = Math.max(0, Math.min(Math.floor(binsPerSide), Math.floor((MAX_POSITION_BINS - 1) / 2)));
+  return { minBinId: activeBinId - side, maxBinId: activeBinId + side };
+}
+
+/**
+ * Split the wizard's SOL-or-USDC / token amounts onto the pool's X / Y sides
+ */
+export function pairAmountsToXY({
+  tokenX,
+  tokenMint,
+  baseAmountUi,
+  quoteAmountUi,
+}: {
+  tokenX: string;
+  tokenMint: string;
+  baseAmountUi: string;  // SOL / USDC
+  quoteAmountUi: string; // Token
+}): { amountXUi: string; amountYUi: string } {
+  return tokenX === tokenMint
+    ? { amountXUi: quoteAmountUi, amountYUi: baseAmountUi }
+    : { amountXUi: baseAmountUi, amountYUi: quoteAmountUi };
+}
+
+/**
+ * Check an LB pair holds exactly the token and the pair's SOL / USDC mint
+ * @throws Error with code PoolMismatch
+ */
+export function assertPairMints(lbPair: string, tokenX: string, tokenY: string, tokenMint: string, quoteMint: string): void {
+  if (![tokenX, tokenY].includes(tokenMint) || ![tokenX, tokenY].includes(quoteMint)) {
+    const e: any = new Error(`Pool ${lbPair} is not a ${tokenMint} / ${quoteMint} pool`);
+    e.code = "PoolMismatch";
+    throw e;
+  }
+}
+
+/**
+ * Minimum amount after slippage, in the same units as the input
+ */
+export function minAfterSlippage(amount: bigint, slippageBp: number): bigint {
+  return (amount * BigInt(10_000 - slippageBp)) / 10_000n;
+}
+
+/**
+ * Convert a UI amount to base units for one side of the pool
+ */
+export function sideToBase(dlmm: DLMM, side: "X" | "Y", amountUi: string | number): bigint {
+  const decimals = side === "X" ? dlmm.tokenX.mint.decimals : dlmm.tokenY.mint.decimals;
+  return parseUiAmount(amountUi, decimals);
+}
+
+/**
+ * Instructions from SDK-built transactions, so they can be merged into one
+ * transaction with our fee instructions (ComputeBudget is re-applied later)
+ */
+export function instructionsOf(txs: Transaction | Transaction[]): TransactionInstruction[] {
+  return (Array.isArray(txs) ? txs : [txs]).flatMap((tx) => tx.instructions);
+}
+
+export const SPOT_STRATEGY = StrategyType.Spot;
+
+/**
+ * Load a position and check it belongs to the wallet
+ * @throws Error with code PositionNotFound / NotPositionOwner
+ */
+export async function loadOwnedPosition(dlmm: DLMM, position: string, owner: PublicKey): Promise<LbPosition> {
+  let lbPosition: LbPosition;
+  try {
+    lbPosition = await dlmm.getPosition(new PublicKey(position));
+  } catch (error: any) {
+    const e: any = new Error(`Meteora position not found: ${position}`);
+    e.code = "PositionNotFound";
+    e.originalError = error;
+    throw e;
+  }
+  if (!lbPosition.positionData.owner.equals(owner)) {
+    const e: any = new Error("Position is owned by another wallet");
+    e.code = "NotPositionOwner";
+    throw e;
+  }
+  return lbPosition;
+}
+
+/**
+ * Quote adding liquidity to a Meteora DLMM pool
+ * @throws Error with code NoPool when no DLMM pool exists for the pair
+ */
+export async function getMeteoraQuote(request: MeteoraQuoteRequest): Promise<MeteoraQuoteResponse> {
+  const { connection, tokenMint, quoteMint, quoteAmount } = request;
+  new PublicKey(tokenMint); // Throws "Invalid public key input" on bad input
+
+  const lbPair = request.lbPair || (await findMeteoraPool({ tokenMint, quoteMint }));
+  if (!lbPair) {
+    const e: any = new Error(`No Meteora DLMM pool found for token pair: ${tokenMint} / ${quoteMint}`);
+    e.code = "NoPool";
+    throw e;
+  }
+
+  const dlmm = await loadDlmmPool(connection, lbPair);
+  const activeBin = await dlmm.getActiveBin();
+  const { minBinId, maxBinId } = spotBinRange(activeBin.binId);
+
+  const tokenX = dlmm.tokenX.publicKey.toBase58();
+  const tokenY = dlmm.tokenY.publicKey.toBase58();
+  assertPairMints(lbPair, tokenX, tokenY, tokenMint, quoteMint);
+
+  // Token side leaves the wallet in full; slippage only bounds the active bin
+  const tokenSide = tokenX === tokenMint ? "X" : "Y";
+  const tokenBase = sideToBase(dlmm, tokenSide, quoteAmount);
+  const minOut = minAfterSlippage(tokenBase, request.slippageBp ?? 100);
+
+  return {
+    pool: lbPair,
+    priceImpact: 0,
+    lpFee: Number(dlmm.getFeeInfo().baseFeeRatePercentage.toString()) / 100,
+    expectedLpTokens: "0",
+    minOut: minOut.toString(),
+    source: "Meteora",
+    binStep: dlmm.lbPair.binStep,
+    activeBinId: activeBin.binId,
+    minBinId,
+    maxBinId,
+    activePrice: activeBin.pricePerToken,
+    tokenX,
+    tokenY,
+  };
+}
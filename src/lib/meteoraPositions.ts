@@ -0,0 +1,65 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import DLMM from "@meteora-ag/dlmm";
+import { dlmmOptions } from "./meteoraDlmm";
+
+/**
+ * Meteora DLMM position as listed on /positions
+ * A/B follow the pool's X/Y order; amounts and fees are base units
+ */
+export type MeteoraPos = {
+  source: "meteora";
+  kind: "DLMM";
+  lbPair: string;
+  position: string;   // Position account (stands in for the position mint)
+  tokenA: string;
+  tokenB: string;
+  decA: number;
+  decB: number;
+  lowerBinId: number;
+  upperBinId: number;
+  amountA: string;
+  amountB: string;
+  feeA: string;
+  feeB: string;
+};
+
+/**
+ * Every DLMM position owned by a wallet, across all pools
+ * Returns [] on RPC failure so the other venues still render
+ */
+export async function fetchMeteoraPositions({
+  connection,
+  owner,
+}: {
+  connection: Connection;
+  owner: string;
+}): Promise<MeteoraPos[]> {
+  try {
+    const byPair = await DLMM.getAllLbPairPositionsByUser(connection, new PublicKey(owner), dlmmOptions());
+    const out: MeteoraPos[] = [];
+    byPair.forEach((info, lbPair) => {
+      for (const { publicKey, positionData } of info.lbPairPositionsData) {
+        out.push({
+          source: "meteora",
+          kind: "DLMM",
+          lbPair,
+          position: publicKey.toBase58(),
+          tokenA: info.tokenX.publicKey.toBase58(),
+          tokenB: info.tokenY.publicKey.toBase58(),
+          decA: info.tokenX.mint.decimals,
+          decB: info.tokenY.mint.decimals,
+          lowerBinId: positionData.lowerBinId,
+          upperBinId: positionData.upperBinId,
+          amountA: positionData.totalXAmount,
+          amountB: positionData.totalYAmount,
+          feeA: positionData.feeX.toString(),
+          feeB: positionData.feeY.toString(),
+        });
+      }
+    });
+    return out;
+  } catch (error) {
+    console.warn("Failed to fetch Meteora positions:", error);
+    return [];
+  }
+}
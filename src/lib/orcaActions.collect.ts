@@ -3,6 +3,9 @@ import { Connection, PublicKey, Transaction } from "@solana/web3.js";
 import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 import { ensureAtaIx } from "./atas";
 import { clampSlippageBp } from "./slippage";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 
 // Orca Whirlpool Program ID
 const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
@@ -13,6 +16,7 @@ export type CollectParams = {
   whirlpool: string;
   positionPda: string;
   positionMint: string;
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
 };
 
 export async function buildCollectTx(p: CollectParams) {
@@ -52,9 +56,10 @@ export async function buildCollectTx(p: CollectParams) {
   ixs.forEach(ix => tx.add(ix));
   tx.feePayer = owner;
   tx.recentBlockhash = (await p.connection.getLatestBlockhash()).blockhash;
+  await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
 
   return { 
-    txBase64: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+    txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
     summary: {
       action: "collect_fees",
       positionMint: p.positionMint,
@@ -4,6 +4,9 @@ import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 import { WSOL_MINT, isWSOL, wrapWSOLIx, unwrapWSOLIx } from "./wsol";
 import { ensureAtaIx } from "./atas";
 import { clampSlippageBp } from "./slippage";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 
 // Orca Whirlpool Program ID
 const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
@@ -20,6 +23,7 @@ export type DecreaseParams = {
   tokenB: string;     // Token B mint address
   percent: number;    // 0..100
   slippageBp: number; // default 100
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
 };
 
 export async function buildDecreaseTx(p: DecreaseParams) {
@@ -84,9 +88,10 @@ export async function buildDecreaseTx(p: DecreaseParams) {
              ixs.forEach(ix => tx.add(ix));
              tx.feePayer = owner;
              tx.recentBlockhash = (await p.connection.getLatestBlockhash()).blockhash;
+             await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
 
   return {
-    txBase64: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+    txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
     summary: { 
       tokenMinA: "0", // Placeholder - would be calculated by SDK
       tokenMinB: "0", // Placeholder - would be calculated by SDK
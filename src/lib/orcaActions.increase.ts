@@ -4,6 +4,10 @@ import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 import { WSOL_MINT, isWSOL, wrapWSOLIx, unwrapWSOLIx } from "./wsol";
 import { ensureAtaIx } from "./atas";
 import { clampSlippageBp } from "./slippage";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import { parseUiAmount } from "./amounts";
 import { createOrcaContext, safeOrcaOperation, validatePositionParams, OrcaContextError } from "./orcaContext";
 
 // Orca Whirlpool Program ID
@@ -21,6 +25,7 @@ export type IncreaseParams = {
   inputMint: "A"|"B";
   amountUi: number;
   slippageBp: number; // default 100
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
 };
 
 export type IncreaseResult = {
@@ -67,7 +72,7 @@ export async function buildIncreaseTx(p: IncreaseParams): Promise<IncreaseResult
     const inMint = p.inputMint === "A" ? mintA : mintB;
 
     // Convert UI amount to raw amount
-    const amount = BigInt(Math.floor(p.amountUi * Math.pow(10, inDec)));
+    const amount = parseUiAmount(p.amountUi, inDec);
     
     // Clamp slippage between 10-500 basis points using centralized helper
     const slippageBp = clampSlippageBp(p.slippageBp);
@@ -95,12 +100,12 @@ export async function buildIncreaseTx(p: IncreaseParams): Promise<IncreaseResult
     // WSOL handling: Wrap SOL if input mint is WSOL
     let wsolAta: PublicKey | null = null;
     if (isTokenAWSOL && p.inputMint === "A") {
-      const lamports = Math.floor(p.amountUi * Math.pow(10, 9)); // SOL has 9 decimals
+      const lamports = Number(parseUiAmount(p.amountUi, 9)); // SOL has 9 decimals
       const { ata, ixs: wrapIxs } = wrapWSOLIx(owner, lamports);
       wsolAta = ata;
       ixs.push(...wrapIxs);
     } else if (isTokenBWSOL && p.inputMint === "B") {
-      const lamports = Math.floor(p.amountUi * Math.pow(10, 9)); // SOL has 9 decimals
+      const lamports = Number(parseUiAmount(p.amountUi, 9)); // SOL has 9 decimals
       const { ata, ixs: wrapIxs } = wrapWSOLIx(owner, lamports);
       wsolAta = ata;
       ixs.push(...wrapIxs);
@@ -175,9 +180,10 @@ export async function buildIncreaseTx(p: IncreaseParams): Promise<IncreaseResult
     ixs.forEach(ix => tx.add(ix));
     tx.feePayer = owner;
     tx.recentBlockhash = (await p.connection.getLatestBlockhash()).blockhash;
+    await applyComputeBudget(p.connection, tx, { payer: owner, priority: p.priority });
 
     return {
-      txBase64: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+      txBase64: serializeTx(await buildVersionedTx(p.connection, tx, owner)),
       summary: { 
         tokenMaxA: amount.toString(), 
         tokenMaxB: amount.toString(),
@@ -7,6 +7,7 @@ import {
   closePositionInstructions
 } from "@orca-so/whirlpools";
 import { createOrcaContext, safeOrcaOperation, validatePositionParams, OrcaContextError } from "@/lib/orcaContext";
+import { parseUiAmount } from "@/lib/amounts";
 
 // Orca Whirlpool Program ID
 const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
@@ -101,8 +102,8 @@ export async function buildIncreaseLiquidityTx({
     const decimalsA = (mintAInfo.value?.data as any)?.parsed?.info?.decimals || 9;
     const decimalsB = (mintBInfo.value?.data as any)?.parsed?.info?.decimals || 9;
 
-    const amountARaw = Math.floor(parseFloat(amountAUi) * Math.pow(10, decimalsA));
-    const amountBRaw = Math.floor(parseFloat(amountBUi) * Math.pow(10, decimalsB));
+    const amountARaw = Number(parseUiAmount(amountAUi, decimalsA));
+    const amountBRaw = Number(parseUiAmount(amountBUi, decimalsB));
 
     // Create Orca context with error handling
     const { context, error: contextError } = await createOrcaContext(connection);
@@ -12,6 +12,7 @@ export interface OrcaQuoteRequest {
   tokenMint: string;
   baseAmount: string;
   quoteMint: string;
+  pool?: string; // Known Whirlpool (e.g. created through the app); skips discovery
 }
 
 export interface OrcaQuoteResponse {
@@ -28,7 +29,7 @@ export interface OrcaQuoteResponse {
  */
 export async function getOrcaQuote(request: OrcaQuoteRequest): Promise<OrcaQuoteResponse> {
   try {
-    const { tokenMint, baseAmount, quoteMint } = request;
+    const { tokenMint, baseAmount, quoteMint, pool } = request;
     
     // Validate inputs
     if (!tokenMint || !baseAmount || !quoteMint) {
@@ -43,7 +44,9 @@ export async function getOrcaQuote(request: OrcaQuoteRequest): Promise<OrcaQuote
     // Try to find a real Orca pool using DexScreener API (mainnet only)
     let poolAddress: string;
     
-    if (IS_DEVNET) {
+    if (pool) {
+      poolAddress = pool;
+    } else if (IS_DEVNET) {
       // On devnet, DexScreener doesn't have data for test tokens
       // For testing purposes, we'll generate a deterministic pool address
       // This allows the commit flow to work for testing without real pools
@@ -20,6 +20,14 @@ import { FEE_WALLET, FLAT_FEE_SOL, SKIM_BP, applySkimBp, solToLamports } from ".
 import { IS_DEVNET } from "./network";
 import { buildOrcaRealCommit } from "./orcaReal";
 import { createOrcaContext } from "./orcaContext";
+import { parseUiAmount } from "./amounts";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+import { fetchWhirlpoolState } from "./orcaWhirlpool";
+import { poolMintAmount } from "./poolInit";
+import { isTokenOnlyRange, resolveRange } from "./rangePresets";
+import { snapTick } from "./ticks";
 
 // Orca Whirlpool Program ID
 const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
@@ -44,7 +52,7 @@ function isNativeSolMint(mint: PublicKey): boolean {
  * @returns Amount in lamports as number
  */
 function lamports(amount: number | bigint): number {
-  return typeof amount === "bigint" ? Number(amount) : Math.floor(amount * 1e9);
+  return typeof amount === "bigint" ? Number(amount) : Number(parseUiAmount(amount, 9));
 }
 
 export interface OrcaCommitRequest {
@@ -56,6 +64,10 @@ export interface OrcaCommitRequest {
   inputMint: "A" | "B";
   inputAmountUi: string;
   slippageBp: number; // basis points (100 = 1%)
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
+  tickLower?: number; // Range from the quote; defaults to ±2 spacings around the current tick
+  tickUpper?: number;
+  singleSided?: boolean; // Deposit only the inputMint side; the range must exclude the current tick
 }
 
 export interface OrcaCommitResponse {
@@ -73,6 +85,7 @@ export interface OrcaCommitResponse {
     tickUpper: number;
     currentTick: number;
     tickSpacing: number;
+    singleSided: boolean;
     fee?: {
       sol: number;
       skimBp: number;
@@ -95,7 +108,11 @@ export async function buildCommitTx({
   tokenMintB,
   inputMint,
   inputAmountUi,
-  slippageBp
+  slippageBp,
+  priority,
+  tickLower: rangeLower,
+  tickUpper: rangeUpper,
+  singleSided = false
 }: OrcaCommitRequest): Promise<OrcaCommitResponse> {
   
   try {
@@ -134,6 +151,37 @@ export async function buildCommitTx({
       throw new Error("Slippage must be between 10-500 basis points (0.1%-5%)");
     }
 
+    // Tick spacing and current tick from the Whirlpool when readable (defaults for devnet test pools)
+    // Both the real and mock flows below use this range, so a stale single-sided quote is rejected in either
+    const state = whirlpool.startsWith('orca_devnet_')
+      ? null
+      : await fetchWhirlpoolState(connection, whirlpool).catch(() => null);
+    const tickSpacing = state?.tickSpacing ?? 64; // Default for most pools
+    const currentTick = state?.tickCurrent ?? 0;
+    // Whether the deposited side is the pool's token A (the caller's A / B may not be in pool order)
+    const inputIsPoolA = state ? state.mintA === (inputMint === "A" ? tokenMintA : tokenMintB) : inputMint === "A";
+
+    // Range from the quote, else ±2*spacing around current (or just past it when single-sided)
+    const hasRange = Number.isInteger(rangeLower) && Number.isInteger(rangeUpper) && rangeLower! < rangeUpper!;
+    const aligned = snapTick(currentTick, tickSpacing, "floor");
+    let tickLower = hasRange ? rangeLower! : aligned - (2 * tickSpacing);
+    let tickUpper = hasRange ? rangeUpper! : aligned + (2 * tickSpacing);
+    if (singleSided && !hasRange) {
+      // Decimals only matter for custom bounds
+      ({ tickLower, tickUpper } = resolveRange(
+        { strategy: "above", tokenOnly: true },
+        { currentTick, tickSpacing, decimalsA: 9, decimalsB: 9, tokenIsA: inputIsPoolA }
+      ));
+    }
+    if (singleSided && !isTokenOnlyRange(currentTick, tickLower, tickUpper, inputIsPoolA)) {
+      throw new Error(
+        `Range ${tickLower}..${tickUpper} is not single-sided at the current tick ${currentTick}; get a new quote`
+      );
+    }
+
+    // Deposit in base units of the input mint (same decimals the quote used)
+    const inputAmountRaw = await poolMintAmount(connection, inputMint === "A" ? tokenMintA : tokenMintB, inputAmountUi);
+
     // Check if we should use real Orca flow
     if (RUN_ORCA_REAL) {
       console.log("Using real Orca production flow");
@@ -145,24 +193,17 @@ export async function buildCommitTx({
         tokenMintB: mintBPk,
         inputMint,
         inputAmountUi,
-        slippageBp
+        inputAmountRaw,
+        slippageBp,
+        priority,
+        tickLower,
+        tickUpper,
+        singleSided
       });
     }
 
     console.log("Using mock/dev Orca flow for testing");
 
-    // For now, use default values for tick spacing and current tick
-    // In the future, this could be enhanced to fetch real pool data
-    const tickSpacing = 64; // Default for most pools
-    const currentTick = 0; // Would be fetched from pool data
-    
-    // Compute tick range around current (±2*spacing)
-    const tickLower = currentTick - (2 * tickSpacing);
-    const tickUpper = currentTick + (2 * tickSpacing);
-
-    // Simplified version without SPL token functions for now
-    const inputAmountRaw = Math.floor(parseFloat(inputAmountUi) * Math.pow(10, 9)); // Assume 9 decimals
-
     // Build instructions array
     const instructions: TransactionInstruction[] = [];
 
@@ -179,7 +220,7 @@ export async function buildCommitTx({
     }
 
     // 2) Compute quote to get tokenMaxA and tokenMaxB
-    const quote = await getSimplifiedQuote(inputAmountRaw, inputMint, mintAPk, mintBPk);
+    const quote = await getSimplifiedQuote(Number(inputAmountRaw), inputMint, mintAPk, mintBPk, singleSided);
     
     // Defensive parse - convert quote amounts to BigInt for fee calculations
     const qA = BigInt((quote?.tokenMaxA ?? 0).toString());
@@ -198,15 +239,15 @@ export async function buildCommitTx({
     // For SOL side (NATIVE_MINT) → use lamports transfer, NOT SPL (no ATA)
     // devnet audit: SOL skim lamports; ATA payer=user, owner=FEE_WALLET
     
-    // Handle token A skimming
+    // Handle token A skimming (a zero side, e.g. single-sided, gets no fee ATA or transfer)
     if (!isNativeSolMint(mintAPk)) {
       // Token A is SPL - create fee ATA and transfer
-      const feeAtaA = getAssociatedTokenAddressSync(mintAPk, FEE_WALLET);
-      // payer=walletPubkey, ataOwner=FEE_WALLET
-      instructions.push(
-        createAssociatedTokenAccountInstruction(walletPubkey, feeAtaA, FEE_WALLET, mintAPk)
-      );
       if (skimA > 0n) {
+        const feeAtaA = getAssociatedTokenAddressSync(mintAPk, FEE_WALLET);
+        // payer=walletPubkey, ataOwner=FEE_WALLET
+        instructions.push(
+          createAssociatedTokenAccountInstruction(walletPubkey, feeAtaA, FEE_WALLET, mintAPk)
+        );
         const ownerAtaA = getAssociatedTokenAddressSync(mintAPk, walletPubkey);
         instructions.push(
           createTransferInstruction(ownerAtaA, feeAtaA, walletPubkey, skimA)
@@ -228,11 +269,11 @@ export async function buildCommitTx({
     // Handle token B skimming
     if (!isNativeSolMint(mintBPk)) {
       // Token B is SPL - create fee ATA and transfer
-      const feeAtaB = getAssociatedTokenAddressSync(mintBPk, FEE_WALLET);
-      instructions.push(
-        createAssociatedTokenAccountInstruction(walletPubkey, feeAtaB, FEE_WALLET, mintBPk)
-      );
       if (skimB > 0n) {
+        const feeAtaB = getAssociatedTokenAddressSync(mintBPk, FEE_WALLET);
+        instructions.push(
+          createAssociatedTokenAccountInstruction(walletPubkey, feeAtaB, FEE_WALLET, mintBPk)
+        );
         const ownerAtaB = getAssociatedTokenAddressSync(mintBPk, walletPubkey);
         instructions.push(
           createTransferInstruction(ownerAtaB, feeAtaB, walletPubkey, skimB)
@@ -274,18 +315,16 @@ export async function buildCommitTx({
     // Create Transaction and add instructions
     const transaction = new Transaction();
     transaction.add(...instructions);
-    
-    // Note: Do NOT set blockhash and feePayer here
-    // These will be set in the client-side sending flow to prevent message changes after signing
 
-    // Serialize to base64 (requireAllSignatures=false)
-    const txBase64 = transaction.serialize({
-      requireAllSignatures: false,
-      verifySignatures: false
-    }).toString('base64');
+    // Compute unit limit from simulation + chosen priority price
+    await applyComputeBudget(connection, transaction, { payer: walletPubkey, priority });
+    
+    // v0 message against the app lookup tables; the client refreshes the
+    // blockhash before signing, so the message isn't changed after signing
+    const txBase64 = serializeTx(await buildVersionedTx(connection, transaction, walletPubkey));
 
     // Calculate expected output amount (simplified for now)
-    const expectedOutputAmountUi = (inputAmountRaw * 0.99) / Math.pow(10, 9); // Rough estimate with 1% slippage
+    const expectedOutputAmountUi = parseFloat(inputAmountUi) * 0.99; // Rough estimate with 1% slippage
 
     // 5) Add fee information to response summary
     const feeSummary = {
@@ -309,6 +348,7 @@ export async function buildCommitTx({
         tickUpper,
         currentTick,
         tickSpacing,
+        singleSided,
         fee: feeSummary
       }
     };
@@ -324,18 +364,20 @@ export async function buildCommitTx({
 /**
  * Simplified quote function that returns tokenMaxA and tokenMaxB
  * Uses basic calculations for now - can be enhanced with real pool data later
+ * Single-sided deposits put nothing on the other side
  */
 async function getSimplifiedQuote(
   inputAmount: number, 
   inputMint: "A" | "B", 
   mintA: PublicKey, 
-  mintB: PublicKey
+  mintB: PublicKey,
+  singleSided = false
 ) {
   // For now, use simplified calculations
   // In the future, this could be enhanced to fetch real pool data
   
   const baseAmount = inputAmount;
-  const quoteAmount = Math.floor(baseAmount * 0.98); // 2% slippage
+  const quoteAmount = singleSided ? 0 : Math.floor(baseAmount * 0.98); // 2% slippage
   
   return {
     tokenMaxA: inputMint === "A" ? baseAmount : quoteAmount,
@@ -524,7 +566,12 @@ async function buildRealOrcaCommit({
   tokenMintB,
   inputMint,
   inputAmountUi,
-  slippageBp
+  inputAmountRaw,
+  slippageBp,
+  priority,
+  tickLower,
+  tickUpper,
+  singleSided
 }: {
   connection: Connection;
   walletPubkey: PublicKey;
@@ -533,15 +580,21 @@ async function buildRealOrcaCommit({
   tokenMintB: PublicKey;
   inputMint: "A" | "B";
   inputAmountUi: string;
+  inputAmountRaw: bigint; // Base units at the input mint's decimals
   slippageBp: number;
+  priority?: PriorityFeeChoice;
+  tickLower?: number;
+  tickUpper?: number;
+  singleSided: boolean;
 }): Promise<OrcaCommitResponse> {
   
   // Get quote to determine token amounts
   const quote = await getSimplifiedQuote(
-    Math.floor(parseFloat(inputAmountUi) * Math.pow(10, 9)), 
+    Number(inputAmountRaw), 
     inputMint, 
     tokenMintA, 
-    tokenMintB
+    tokenMintB,
+    singleSided
   );
   
   // Build real Orca commit transaction
@@ -552,17 +605,17 @@ async function buildRealOrcaCommit({
     mintB: tokenMintB,
     tokenMaxA: BigInt(quote.tokenMaxA.toString()),
     tokenMaxB: BigInt(quote.tokenMaxB.toString()),
-    slippageBps: slippageBp
+    slippageBps: slippageBp,
+    priceLower: tickLower,
+    priceUpper: tickUpper
   });
 
-  // Note: Do NOT set blockhash and feePayer here
-  // These will be set in the client-side sending flow to prevent message changes after signing
+  // Compute unit limit from simulation + chosen priority price
+  await applyComputeBudget(connection, tx, { payer: walletPubkey, priority });
 
-  // Serialize transaction
-  const txBase64 = tx.serialize({
-    requireAllSignatures: false,
-    verifySignatures: false
-  }).toString('base64');
+  // v0 message against the app lookup tables; the client refreshes the
+  // blockhash before signing, so the message isn't changed after signing
+  const txBase64 = serializeTx(await buildVersionedTx(connection, tx, walletPubkey));
 
   // Calculate expected output amount
   const expectedOutputAmountUi = (parseFloat(inputAmountUi) * 0.99).toFixed(6);
@@ -584,10 +637,11 @@ async function buildRealOrcaCommit({
       inputAmountUi,
       expectedOutputAmountUi,
       slippageBp,
-      tickLower: 0, // Will be set by real implementation
-      tickUpper: 0, // Will be set by real implementation
+      tickLower: tickLower ?? 0, // Range from the quote when known
+      tickUpper: tickUpper ?? 0,
       currentTick: 0, // Will be fetched from pool
       tickSpacing: 64, // Will be fetched from pool
+      singleSided,
       fee: {
         sol: FLAT_FEE_SOL,
         skimBp: SKIM_BP,
@@ -0,0 +1,171 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { createHash } from "crypto";
+import { IS_DEVNET } from "./network";
+import { initialSqrtPriceX64, loadPoolMints, sortPoolMints } from "./poolInit";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+
+// Orca Whirlpool Program ID
+export const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey("whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc");
+
+// Orca's public WhirlpoolsConfig per cluster (owns the fee tiers)
+const WHIRLPOOLS_CONFIG = new PublicKey(
+  IS_DEVNET ? "FcrweFY1G9HJAHG5inkGB6pKg1HZ6x9UC2WioAfWrGkR" : "2LecshUwdy9xi7meFgHtFJQNSKk4KdTrcpvaB56dP2NQ"
+);
+
+/**
+ * Fee tiers offered for new Whirlpools (each tick spacing has one fee tier account)
+ */
+export const ORCA_FEE_TIERS = [
+  { tickSpacing: 1, feeBp: 1 },
+  { tickSpacing: 8, feeBp: 5 },
+  { tickSpacing: 64, feeBp: 30 },
+  { tickSpacing: 128, feeBp: 100 },
+];
+
+// Anchor discriminator for initialize_pool_v2 (supports Token-2022 mints)
+const INITIALIZE_POOL_V2 = createHash("sha256").update("global:initialize_pool_v2").digest().subarray(0, 8);
+
+export interface OrcaCreatePoolParams {
+  connection: Connection;
+  walletPubkey: PublicKey;
+  tokenMint: string;
+  quoteMint: string;     // SOL or USDC
+  tickSpacing: number;
+  initialPrice: string;  // Quote per 1 token (UI)
+  priority?: PriorityFeeChoice;
+}
+
+export interface OrcaCreatePoolResult {
+  txBase64: string;
+  partialSigners: string[]; // Base64 secret keys of the two vault accounts
+  summary: {
+    pool: string;
+    tokenMintA: string;
+    tokenMintB: string;
+    tickSpacing: number;
+    feeBp: number;
+    currentTick: number;
+    initialPrice: string;
+  };
+}
+
+function orcaError(code: string, message: string): Error {
+  const e: any = new Error(message);
+  e.code = code;
+  return e;
+}
+
+function tickSpacingSeed(tickSpacing: number): Buffer {
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16LE(tickSpacing);
+  return buf;
+}
+
+export function whirlpoolAddress(mintA: PublicKey, mintB: PublicKey, tickSpacing: number): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("whirlpool"), WHIRLPOOLS_CONFIG.toBuffer(), mintA.toBuffer(), mintB.toBuffer(), tickSpacingSeed(tickSpacing)],
+    ORCA_WHIRLPOOL_PROGRAM_ID
+  )[0];
+}
+
+function feeTierAddress(tickSpacing: number): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("fee_tier"), WHIRLPOOLS_CONFIG.toBuffer(), tickSpacingSeed(tickSpacing)],
+    ORCA_WHIRLPOOL_PROGRAM_ID
+  )[0];
+}
+
+function tokenBadgeAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("token_badge"), WHIRLPOOLS_CONFIG.toBuffer(), mint.toBuffer()],
+    ORCA_WHIRLPOOL_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * Build a transaction initializing a new Whirlpool for TOKEN/SOL or TOKEN/USDC
+ *
+ * The vault token accounts are fresh keypairs, returned as partial signers.
+ * The first position is opened afterwards through the normal commit flow.
+ *
+ * @throws Error with code UnsupportedFeeTier, PoolExists or InvalidPrice
+ */
+export async function buildOrcaCreatePoolTx(p: OrcaCreatePoolParams): Promise<OrcaCreatePoolResult> {
+  const tier = ORCA_FEE_TIERS.find((t) => t.tickSpacing === p.tickSpacing);
+  if (!tier) {
+    throw orcaError("UnsupportedFeeTier", `Orca has no fee tier with tick spacing ${p.tickSpacing}`);
+  }
+
+  const { mintA, mintB, tokenIsA } = sortPoolMints(p.tokenMint, p.quoteMint);
+  const [infoA, infoB] = await loadPoolMints(p.connection, mintA, mintB);
+
+  const whirlpool = whirlpoolAddress(infoA.mint, infoB.mint, p.tickSpacing);
+  if (await p.connection.getAccountInfo(whirlpool)) {
+    throw orcaError("PoolExists", `A Whirlpool with tick spacing ${p.tickSpacing} already exists: ${whirlpool.toBase58()}`);
+  }
+
+  const { sqrtPriceX64, tick } = initialSqrtPriceX64({
+    initialPrice: p.initialPrice,
+    tokenIsA,
+    decimalsA: infoA.decimals,
+    decimalsB: infoB.decimals,
+  });
+
+  const vaultA = Keypair.generate();
+  const vaultB = Keypair.generate();
+
+  // Args: tick_spacing u16, initial_sqrt_price u128 (little endian)
+  const data = Buffer.alloc(8 + 2 + 16);
+  data.set(INITIALIZE_POOL_V2, 0);
+  data.writeUInt16LE(p.tickSpacing, 8);
+  data.set(sqrtPriceX64.toArray("le", 16), 10);
+
+  const ix = new TransactionInstruction({
+    programId: ORCA_WHIRLPOOL_PROGRAM_ID,
+    keys: [
+      { pubkey: WHIRLPOOLS_CONFIG, isSigner: false, isWritable: false },
+      { pubkey: infoA.mint, isSigner: false, isWritable: false },
+      { pubkey: infoB.mint, isSigner: false, isWritable: false },
+      { pubkey: tokenBadgeAddress(infoA.mint), isSigner: false, isWritable: false },
+      { pubkey: tokenBadgeAddress(infoB.mint), isSigner: false, isWritable: false },
+      { pubkey: p.walletPubkey, isSigner: true, isWritable: true },
+      { pubkey: whirlpool, isSigner: false, isWritable: true },
+      { pubkey: vaultA.publicKey, isSigner: true, isWritable: true },
+      { pubkey: vaultB.publicKey, isSigner: true, isWritable: true },
+      { pubkey: feeTierAddress(p.tickSpacing), isSigner: false, isWritable: false },
+      { pubkey: infoA.programId, isSigner: false, isWritable: false },
+      { pubkey: infoB.programId, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+
+  const tx = new Transaction().add(ix);
+  await applyComputeBudget(p.connection, tx, { payer: p.walletPubkey, priority: p.priority });
+  const txBase64 = serializeTx(await buildVersionedTx(p.connection, tx, p.walletPubkey));
+
+  return {
+    txBase64,
+    partialSigners: [vaultA, vaultB].map((kp) => Buffer.from(kp.secretKey).toString("base64")),
+    summary: {
+      pool: whirlpool.toBase58(),
+      tokenMintA: mintA,
+      tokenMintB: mintB,
+      tickSpacing: p.tickSpacing,
+      feeBp: tier.feeBp,
+      currentTick: tick,
+      initialPrice: p.initialPrice,
+    },
+  };
+}
@@ -1,15 +1,16 @@
 import { Connection, PublicKey } from "@solana/web3.js";
 import { getTokenSymbol } from "./tokenSymbols";
+import { createCache } from "./cache";
 // Orca Whirlpool Program ID
 const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
 
-// In-memory cache for positions (30 seconds)
-const positionsCache = new Map<string, { data: any[]; timestamp: number }>();
+// Shared cache for positions per owner (30 seconds)
 const CACHE_DURATION = 30 * 1000;
+const positionsCache = createCache<OrcaPosition[]>("orca-positions", { ttlMs: CACHE_DURATION });
 
-// In-memory cache for pool token mints (60 seconds)
-const poolTokenCache = new Map<string, { ts: number; tokenA?: string; tokenB?: string }>();
+// Shared cache for pool token mints (60 seconds)
 const POOL_CACHE_DURATION = 60 * 1000;
+const poolTokenCache = createCache<{ tokenA?: string; tokenB?: string }>("orca-pool-tokens", { ttlMs: POOL_CACHE_DURATION });
 
 export interface OrcaPosition {
   positionMint: string;
@@ -36,9 +37,9 @@ async function getPoolTokenMints({
 }): Promise<{ tokenA?: string; tokenB?: string }> {
   
   // Check cache first
-  const cached = poolTokenCache.get(whirlpool);
-  if (cached && Date.now() - cached.ts < POOL_CACHE_DURATION) {
-    return { tokenA: cached.tokenA, tokenB: cached.tokenB };
+  const cached = await poolTokenCache.get(whirlpool);
+  if (cached) {
+    return cached;
   }
 
   // Use DexScreener API to get token pair information
@@ -56,7 +57,7 @@ async function getPoolTokenMints({
     };
     
     // Cache the result
-    poolTokenCache.set(whirlpool, { ts: Date.now(), ...result });
+    await poolTokenCache.set(whirlpool, result);
     return result;
     
   } catch (error) {
@@ -78,9 +79,9 @@ export async function fetchOrcaPositionsReal({
 }): Promise<OrcaPosition[]> {
   
   // Check cache first
-  const cached = positionsCache.get(owner);
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
+  const cached = await positionsCache.get(owner);
+  if (cached) {
+    return cached;
   }
 
     try {
@@ -98,7 +99,7 @@ export async function fetchOrcaPositionsReal({
 
     if (candidateMints.length === 0) {
       const emptyResult: OrcaPosition[] = [];
-      positionsCache.set(owner, { data: emptyResult, timestamp: Date.now() });
+      await positionsCache.set(owner, emptyResult, { tags: [`wallet:${owner}`] });
       return emptyResult;
     }
 
@@ -169,22 +170,7 @@ export async function fetchOrcaPositionsReal({
     const sortedPositions = out.sort((a,b) => BigInt(b.liquidity) > BigInt(a.liquidity) ? 1 : -1);
 
     // Cache the result
-    positionsCache.set(owner, { data: sortedPositions, timestamp: Date.now() });
-
-    // Clean up old cache entries (older than 5 minutes)
-    const now = Date.now();
-    for (const [key, value] of positionsCache.entries()) {
-      if (now - value.timestamp > 5 * 60 * 1000) {
-        positionsCache.delete(key);
-      }
-    }
-    
-    // Clean up old pool token cache entries (older than 2 minutes)
-    for (const [key, value] of poolTokenCache.entries()) {
-      if (now - value.ts > 2 * 60 * 1000) {
-        poolTokenCache.delete(key);
-      }
-    }
+    await positionsCache.set(owner, sortedPositions, { tags: [`wallet:${owner}`] });
 
     return sortedPositions;
 
@@ -0,0 +1,73 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { ORCA_WHIRLPOOL_PROGRAM_ID } from "./orcaCreatePool";
+
+/**
+ * Whirlpool account fields needed to place a position
+ */
+export interface WhirlpoolState {
+  address: string;
+  tickSpacing: number;
+  feeRate: number;       // Hundredths of a basis point
+  liquidity: bigint;
+  sqrtPriceX64: bigint;
+  tickCurrent: number;
+  mintA: string;
+  vaultA: string;
+  mintB: string;
+  vaultB: string;
+}
+
+// Byte offsets in the Whirlpool account (after the 8-byte discriminator)
+const OFFSET = {
+  tickSpacing: 41,
+  feeRate: 45,
+  liquidity: 49,
+  sqrtPrice: 65,
+  tickCurrent: 81,
+  mintA: 101,
+  vaultA: 133,
+  mintB: 181,
+  vaultB: 213,
+};
+const MIN_LENGTH = 245;
+
+function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+function readKey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+/**
+ * Decode a Whirlpool account's pricing fields
+ * @throws Error with code InvalidPool when the data is too short
+ */
+export function decodeWhirlpool(address: string, data: Buffer): WhirlpoolState {
+  if (data.length < MIN_LENGTH) {
+    const e: any = new Error(`Account ${address} is not a Whirlpool`);
+    e.code = "InvalidPool";
+    throw e;
+  }
+  return {
+    address,
+    tickSpacing: data.readUInt16LE(OFFSET.tickSpacing),
+    feeRate: data.readUInt16LE(OFFSET.feeRate),
+    liquidity: readU128(data, OFFSET.liquidity),
+    sqrtPriceX64: readU128(data, OFFSET.sqrtPrice),
+    tickCurrent: data.readInt32LE(OFFSET.tickCurrent),
+    mintA: readKey(data, OFFSET.mintA),
+    vaultA: readKey(data, OFFSET.vaultA),
+    mintB: readKey(data, OFFSET.mintB),
+    vaultB: readKey(data, OFFSET.vaultB),
+  };
+}
+
+/**
+ * Current state of a Whirlpool, or null when the account is missing or not owned by Orca
+ */
+export async function fetchWhirlpoolState(connection: Connection, whirlpool: string): Promise<WhirlpoolState | null> {
+  const account = await connection.getAccountInfo(new PublicKey(whirlpool));
+  if (!account || !account.owner.equals(ORCA_WHIRLPOOL_PROGRAM_ID)) return null;
+  return decodeWhirlpool(whirlpool, account.data);
+}
@@ -1,7 +1,8 @@
 /**
  * Pinata IPFS Configuration and Utilities
  * Secure server-side uploads via /api/ipfs/upload endpoint
- * API keys are kept secure on the server and never exposed to the client
+ * API keys are kept secure on the server and never exposed to the client;
+ * the server picks the storage provider (Pinata first by default, see lib/storage)
  */
 
 /**
@@ -56,7 +57,9 @@ export async function uploadMetadataToPinata(metadata: any): Promise<string> {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `Metadata upload failed: ${response.status} ${response.statusText}`);
+      const e: any = new Error(errorData.message || `Metadata upload failed: ${response.status} ${response.statusText}`);
+      e.fieldErrors = errorData.fieldErrors; // Set when the JSON fails the Metaplex standard check
+      throw e;
     }
 
     const data = await response.json();
@@ -68,7 +71,9 @@ export async function uploadMetadataToPinata(metadata: any): Promise<string> {
     return data.ipfsUrl;
   } catch (error: any) {
     console.error("IPFS metadata upload error:", error);
-    throw new Error(`Failed to upload metadata to IPFS: ${error.message}`);
+    const e: any = new Error(`Failed to upload metadata to IPFS: ${error.message}`);
+    e.fieldErrors = error.fieldErrors;
+    throw e;
   }
 }
 
@@ -0,0 +1,86 @@
+// Simple test for pool mint ordering, initial sqrt price and deposit amounts
+import BN from 'bn.js';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { initialSqrtPriceX64, poolMintAmount, sortPoolMints } from './poolInit';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const Q64 = new BN(1).shln(64);
+
+// Connection that serves one SPL mint account with the given decimals
+function mintConnection(decimals: number): Connection {
+  const bytes = new Uint8Array(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: BigInt(0),
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, bytes);
+  const account = { owner: TOKEN_PROGRAM_ID, data: Buffer.from(bytes), lamports: 1_461_600, executable: false };
+  return { getAccountInfo: async () => account } as unknown as Connection;
+}
+
+async function testPoolInit() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing mint ordering...');
+    const ab = sortPoolMints(WSOL, USDC);
+    const ba = sortPoolMints(USDC, WSOL);
+    if (ab.mintA !== ba.mintA || ab.mintB !== ba.mintB) failures.push('order depends on argument order');
+    if (ab.tokenIsA === ba.tokenIsA) failures.push('tokenIsA not flipped');
+    try {
+      sortPoolMints(USDC, USDC);
+      failures.push('same mint accepted');
+    } catch (error: any) {
+      if (error.code !== 'InvalidRequest') failures.push(`same mint code: ${error.code}`);
+    }
+
+    console.log('Testing initial sqrt price...');
+    const unit = initialSqrtPriceX64({ initialPrice: '1', tokenIsA: true, decimalsA: 6, decimalsB: 6 });
+    if (!unit.sqrtPriceX64.eq(Q64) || unit.tick !== 0) failures.push(`price 1: ${unit.sqrtPriceX64.toString()} @ ${unit.tick}`);
+
+    // Token sorts second: 4 quote per token is 0.25 token per quote in pool terms
+    const inverted = initialSqrtPriceX64({ initialPrice: '4', tokenIsA: false, decimalsA: 6, decimalsB: 6 });
+    if (!inverted.sqrtPriceX64.eq(Q64.shrn(1))) failures.push(`inverted: ${inverted.sqrtPriceX64.toString()}`);
+
+    // 9-decimal token priced at 1 USDC: 1e6 / 1e9 base units
+    const scaled = initialSqrtPriceX64({ initialPrice: '1', tokenIsA: true, decimalsA: 9, decimalsB: 6 });
+    if (Math.abs(scaled.tick - -69082) > 1) failures.push(`decimals tick: ${scaled.tick}`);
+
+    for (const bad of ['0', '-1', 'abc']) {
+      try {
+        initialSqrtPriceX64({ initialPrice: bad, tokenIsA: true, decimalsA: 6, decimalsB: 6 });
+        failures.push(`price ${bad} accepted`);
+      } catch (error: any) {
+        if (error.code !== 'InvalidPrice') failures.push(`price ${bad} code: ${error.code}`);
+      }
+    }
+
+    console.log('Testing deposit amounts...');
+    // 1.5 of a 6-decimal token is 1.5e6 base units, not 1.5e9
+    const six = await poolMintAmount(mintConnection(6), USDC, '1.5');
+    if (six !== BigInt(1_500_000)) failures.push(`6 decimals: ${six}`);
+    const nine = await poolMintAmount(mintConnection(9), WSOL, '1.5');
+    if (nine !== BigInt(1_500_000_000)) failures.push(`9 decimals: ${nine}`);
+
+    if (failures.length) {
+      console.error('❌ Pool init test failed:', failures);
+    } else {
+      console.log('✅ Pool init test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Pool init test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testPoolInit();
+}
+
+export { testPoolInit };
@@ -0,0 +1,85 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import { getMintAnyProgram } from "./token2022";
+import { parseUiAmount } from "./amounts";
+import { priceToSqrtPriceX64, Q64, sqrtPriceX64ToTick } from "./ticks";
+
+/**
+ * Shared helpers for creating concentrated-liquidity pools
+ *
+ * Orca Whirlpools and Raydium CLMM both store mints in byte order and the
+ * price as a Q64.64 square root of token B per token A (base units), so the
+ * ordering and price maths are venue independent.
+ */
+
+export interface PoolMintInfo {
+  mint: PublicKey;
+  decimals: number;
+  programId: PublicKey; // SPL Token or Token-2022
+}
+
+/**
+ * Token / quote mints in pool order (A sorts before B byte-wise)
+ */
+export function sortPoolMints(tokenMint: string, quoteMint: string): { mintA: string; mintB: string; tokenIsA: boolean } {
+  const token = new PublicKey(tokenMint);
+  const quote = new PublicKey(quoteMint);
+  if (token.equals(quote)) {
+    const e: any = new Error("Token and quote mint must differ");
+    e.code = "InvalidRequest";
+    throw e;
+  }
+  const tokenIsA = new BN(token.toBuffer()).lt(new BN(quote.toBuffer()));
+  return tokenIsA
+    ? { mintA: tokenMint, mintB: quoteMint, tokenIsA }
+    : { mintA: quoteMint, mintB: tokenMint, tokenIsA };
+}
+
+/**
+ * Initial sqrt price for a pool from the UI price of one token in the quote asset
+ * @param initialPrice - Quote (SOL / USDC) per 1 token, e.g. "0.0015"
+ * @throws Error with code InvalidPrice when the price is not a positive number
+ */
+export function initialSqrtPriceX64({
+  initialPrice,
+  tokenIsA,
+  decimalsA,
+  decimalsB,
+}: {
+  initialPrice: string;
+  tokenIsA: boolean;
+  decimalsA: number;
+  decimalsB: number;
+}): { sqrtPriceX64: BN; tick: number } {
+  // Pools price B in A; when the quote asset sorts first the entered price is
+  // inverted, which for sqrt prices is 2^128 / sqrt(price with decimals swapped)
+  const sqrtPriceX64 = tokenIsA
+    ? priceToSqrtPriceX64(initialPrice, decimalsA, decimalsB)
+    : (Q64 * Q64) / priceToSqrtPriceX64(initialPrice, decimalsB, decimalsA);
+  return { sqrtPriceX64: new BN(sqrtPriceX64.toString()), tick: sqrtPriceX64ToTick(sqrtPriceX64) };
+}
+
+/**
+ * Base units of a UI amount of a pool mint, at the mint's on-chain decimals
+ */
+export async function poolMintAmount(connection: Connection, mint: string, amountUi: string): Promise<bigint> {
+  const { mint: info } = await getMintAnyProgram(connection, new PublicKey(mint));
+  return parseUiAmount(amountUi, info.decimals);
+}
+
+/**
+ * Decimals and owning token program for both pool mints
+ */
+export async function loadPoolMints(
+  connection: Connection,
+  mintA: string,
+  mintB: string
+): Promise<[PoolMintInfo, PoolMintInfo]> {
+  const [a, b] = await Promise.all(
+    [mintA, mintB].map((m) => getMintAnyProgram(connection, new PublicKey(m)))
+  );
+  return [
+    { mint: new PublicKey(mintA), decimals: a.mint.decimals, programId: a.programId },
+    { mint: new PublicKey(mintB), decimals: b.mint.decimals, programId: b.programId },
+  ];
+}
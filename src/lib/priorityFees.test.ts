@@ -0,0 +1,74 @@
+// Simple test for priority fee levels and compute budget instructions
+import { ComputeBudgetProgram, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  applyComputeBudget,
+  DEFAULT_COMPUTE_UNIT_LIMIT,
+  estimatePriorityFees,
+  MAX_PRIORITY_MICRO_LAMPORTS,
+  parsePriorityFeeChoice,
+} from './priorityFees';
+
+// Just enough of Connection for the estimator and the compute simulation
+function mockConnection(fees: number[], unitsConsumed: number | null): any {
+  return {
+    getRecentPrioritizationFees: async () => fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })),
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1 }),
+    simulateTransaction: async () => ({
+      value: unitsConsumed == null ? { err: 'AccountNotFound', logs: [] } : { err: null, logs: [], unitsConsumed },
+    }),
+  };
+}
+
+async function testPriorityFees() {
+  try {
+    const failures: string[] = [];
+    const payer = Keypair.generate().publicKey;
+
+    console.log('Testing choice parsing...');
+    if (parsePriorityFeeChoice(undefined).level !== 'medium') failures.push('default level');
+    if (parsePriorityFeeChoice({ level: 'turbo' }).level !== 'medium') failures.push('unknown level');
+    if (parsePriorityFeeChoice({ level: 'custom', microLamports: 1e12 }).microLamports !== MAX_PRIORITY_MICRO_LAMPORTS) failures.push('custom clamp');
+    if (parsePriorityFeeChoice({ level: 'custom', microLamports: 'abc' }).level !== 'medium') failures.push('bad custom price');
+
+    console.log('Testing level estimates...');
+    const fees = Array.from({ length: 100 }, (_, i) => i * 10_000);
+    const estimates = await estimatePriorityFees(mockConnection(fees, null));
+    if (estimates.low !== 250_000 || estimates.medium !== 500_000 || estimates.high !== 750_000) {
+      failures.push(`percentiles: ${JSON.stringify(estimates)}`);
+    }
+    const quiet = await estimatePriorityFees(mockConnection([0, 0, 0], null));
+    if (!(quiet.low > 0 && quiet.low <= quiet.medium && quiet.medium <= quiet.high)) failures.push('floors');
+
+    console.log('Testing compute budget instructions...');
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1 })
+    );
+    const plan = await applyComputeBudget(mockConnection(fees, 100_000), tx, { payer, priority: { level: 'high' } });
+    if (!plan.simulated || plan.computeUnitLimit !== 115_000) failures.push(`limit: ${plan.computeUnitLimit}`);
+    if (plan.microLamports !== 750_000) failures.push(`price: ${plan.microLamports}`);
+    if (plan.priorityFeeLamports !== 86_250) failures.push(`fee: ${plan.priorityFeeLamports}`);
+    const budgetIxs = () => tx.instructions.filter((ix) => ix.programId.equals(ComputeBudgetProgram.programId)).length;
+    if (tx.instructions.length !== 3 || budgetIxs() !== 2) failures.push('instructions not prepended');
+
+    console.log('Testing re-apply and simulation fallback...');
+    const again = await applyComputeBudget(mockConnection(fees, null), tx, { payer, priority: { level: 'custom', microLamports: 5 } });
+    if (again.simulated || again.computeUnitLimit !== DEFAULT_COMPUTE_UNIT_LIMIT) failures.push('fallback limit');
+    if (again.microLamports !== 5) failures.push('custom price');
+    if (tx.instructions.length !== 3 || budgetIxs() !== 2) failures.push('budget instructions duplicated');
+
+    if (failures.length) {
+      console.error('❌ Priority fees test failed:', failures);
+    } else {
+      console.log('✅ Priority fees test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Priority fees test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testPriorityFees();
+}
+
+export { testPriorityFees };
@@ -0,0 +1,209 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * Priority fees and compute budget for every transaction builder
+ *
+ * estimatePriorityFees samples getRecentPrioritizationFees for the writable
+ * accounts a transaction locks and turns it into low / medium / high prices.
+ * applyComputeBudget simulates the transaction to size its compute unit limit,
+ * then prepends the ComputeBudget instructions with the chosen price so
+ * launches keep landing under congestion.
+ */
+
+export const PRIORITY_LEVELS = ["low", "medium", "high", "custom"] as const;
+export type PriorityLevel = (typeof PRIORITY_LEVELS)[number];
+
+export interface PriorityFeeChoice {
+  level: PriorityLevel;
+  microLamports?: number; // Price per compute unit, required for "custom"
+}
+
+export interface PriorityFeeEstimates {
+  low: number;
+  medium: number;
+  high: number;
+  sampledSlots: number;
+}
+
+export interface ComputeBudgetPlan {
+  level: PriorityLevel;
+  computeUnitLimit: number;
+  microLamports: number;
+  priorityFeeLamports: number; // computeUnitLimit * microLamports / 1e6, rounded up
+  simulated: boolean; // false when the limit is the fallback
+}
+
+export const DEFAULT_PRIORITY_FEE: PriorityFeeChoice = { level: "medium" };
+
+// Percentile of recent fees per level, with a floor so empty samples still pay something
+const LEVEL_PERCENTILES = { low: 0.25, medium: 0.5, high: 0.75 };
+const LEVEL_FLOORS = { low: 1_000, medium: 10_000, high: 50_000 };
+
+// Ceiling on the price per compute unit, for custom prices and spiking estimates alike.
+// 1 lamport = 1,000,000 µlamports, so at DEFAULT_COMPUTE_UNIT_LIMIT (400k CU) the most a
+// transaction pays is 8e11 µlamports = 800,000 lamports = 0.0008 SOL, and at
+// MAX_COMPUTE_UNIT_LIMIT (1.4M CU) 0.0028 SOL. That is 40x the "high" floor, enough to
+// land under congestion, while a mistyped custom price can't cost more than ~0.003 SOL
+export const MAX_PRIORITY_MICRO_LAMPORTS = 2_000_000;
+
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// Used when simulation can't run (e.g. placeholder fee payer on server-built txs)
+export const DEFAULT_COMPUTE_UNIT_LIMIT = 400_000;
+// Headroom over simulated usage; state can shift between simulation and landing
+const COMPUTE_UNIT_MARGIN = 1.15;
+const MIN_COMPUTE_UNIT_LIMIT = 10_000;
+
+// RPC limit on lockedWritableAccounts
+const MAX_SAMPLED_ACCOUNTS = 128;
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Normalize a priority choice from a request body or UI state
+ * Unknown levels fall back to medium; custom prices are clamped
+ */
+export function parsePriorityFeeChoice(input: any): PriorityFeeChoice {
+  const level = (PRIORITY_LEVELS as readonly string[]).includes(input?.level) ? (input.level as PriorityLevel) : "medium";
+  if (level !== "custom") return { level };
+  const n = Math.floor(Number(input?.microLamports));
+  if (!Number.isFinite(n) || n < 0) return DEFAULT_PRIORITY_FEE;
+  return { level, microLamports: Math.min(MAX_PRIORITY_MICRO_LAMPORTS, n) };
+}
+
+/**
+ * Writable accounts referenced by a transaction's instructions (fee sampling keys)
+ */
+export function writableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable && !seen.has(key.pubkey.toBase58())) seen.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return Array.from(seen.values()).slice(0, MAX_SAMPLED_ACCOUNTS);
+}
+
+/**
+ * Low / medium / high prices (micro-lamports per CU) from recent slots
+ */
+export async function estimatePriorityFees(
+  connection: Connection,
+  accounts: PublicKey[] = []
+): Promise<PriorityFeeEstimates> {
+  const recent = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: accounts.slice(0, MAX_SAMPLED_ACCOUNTS),
+  });
+  const fees = recent.map((r) => r.prioritizationFee).sort((a, b) => a - b);
+
+  const low = Math.max(LEVEL_FLOORS.low, percentile(fees, LEVEL_PERCENTILES.low));
+  const medium = Math.max(LEVEL_FLOORS.medium, low, percentile(fees, LEVEL_PERCENTILES.medium));
+  const high = Math.max(LEVEL_FLOORS.high, medium, percentile(fees, LEVEL_PERCENTILES.high));
+
+  return {
+    low: Math.min(MAX_PRIORITY_MICRO_LAMPORTS, low),
+    medium: Math.min(MAX_PRIORITY_MICRO_LAMPORTS, medium),
+    high: Math.min(MAX_PRIORITY_MICRO_LAMPORTS, high),
+    sampledSlots: recent.length,
+  };
+}
+
+/**
+ * Price for a choice; custom prices skip the RPC sample
+ */
+export async function resolvePriorityFee(
+  connection: Connection,
+  accounts: PublicKey[],
+  choice: PriorityFeeChoice = DEFAULT_PRIORITY_FEE
+): Promise<number> {
+  const { level, microLamports } = parsePriorityFeeChoice(choice);
+  if (level === "custom") return microLamports as number;
+  try {
+    const estimates = await estimatePriorityFees(connection, accounts);
+    return estimates[level];
+  } catch (error) {
+    console.warn("[priorityFees] Fee sample unavailable, using floor:", error);
+    return LEVEL_FLOORS[level];
+  }
+}
+
+/**
+ * Compute units a set of instructions uses, from a signature-less simulation
+ * @returns null when the simulation fails or reports no usage
+ */
+export async function simulateComputeUnits(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey
+): Promise<number | null> {
+  try {
+    const { blockhash } = await connection.getLatestBlockhash("confirmed");
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      // Simulate with the max limit so a tight default doesn't abort the run
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }), ...instructions],
+    }).compileToLegacyMessage();
+    const sim = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+    });
+    if (sim.value.err || !sim.value.unitsConsumed) return null;
+    return sim.value.unitsConsumed;
+  } catch (error) {
+    console.warn("[priorityFees] Compute simulation unavailable:", error);
+    return null;
+  }
+}
+
+function isComputeBudgetIx(ix: TransactionInstruction): boolean {
+  return ix.programId.equals(ComputeBudgetProgram.programId);
+}
+
+/**
+ * Size the compute unit limit and prepend ComputeBudget instructions
+ * Replaces any ComputeBudget instructions already on the transaction, so it
+ * is safe to call more than once (e.g. when a tx is rebuilt on retry)
+ */
+export async function applyComputeBudget(
+  connection: Connection,
+  tx: Transaction,
+  { payer, priority = DEFAULT_PRIORITY_FEE }: { payer: PublicKey; priority?: PriorityFeeChoice }
+): Promise<ComputeBudgetPlan> {
+  const instructions = tx.instructions.filter((ix) => !isComputeBudgetIx(ix));
+  const choice = parsePriorityFeeChoice(priority);
+
+  const [units, microLamports] = await Promise.all([
+    simulateComputeUnits(connection, instructions, payer),
+    resolvePriorityFee(connection, writableAccounts(instructions), choice),
+  ]);
+
+  const computeUnitLimit = units
+    ? Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.max(MIN_COMPUTE_UNIT_LIMIT, Math.ceil(units * COMPUTE_UNIT_MARGIN)))
+    : DEFAULT_COMPUTE_UNIT_LIMIT;
+
+  tx.instructions = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ...instructions,
+  ];
+
+  return {
+    level: choice.level,
+    computeUnitLimit,
+    microLamports,
+    priorityFeeLamports: Math.ceil((computeUnitLimit * microLamports) / 1_000_000),
+    simulated: units != null,
+  };
+}
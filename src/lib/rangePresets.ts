@@ -0,0 +1,226 @@
+import { maxUsableTick, minUsableTick, priceToTick, snapTick, tickToPrice } from "./ticks";
+
+/**
+ * Range strategy presets for concentrated-liquidity positions
+ *
+ * Users pick a strategy in terms of their token's price in SOL / USDC; the
+ * pool's own orientation (token as A or B) is resolved here, so "above"
+ * always means "above the current token price" whichever way the mints sort.
+ *
+ * - full:    the whole usable tick range
+ * - percent: ±X% around the current price
+ * - above:   current price up to +X%, entirely above it (token-only deposit)
+ * - below:   -X% up to the current price, entirely below it (SOL / USDC only)
+ * - custom:  explicit token price bounds
+ *
+ * A token-only choice (single-sided launch liquidity) keeps the range strictly
+ * on the token's side of the current tick, so no SOL / USDC is deposited.
+ */
+
+export const RANGE_STRATEGIES = ["full", "percent", "above", "below", "custom"] as const;
+export type RangeStrategy = (typeof RANGE_STRATEGIES)[number];
+
+export interface RangeChoice {
+  strategy: RangeStrategy;
+  percent?: number;    // Width in % for percent / above / below
+  priceLower?: number; // Token price bounds (quote per token) for custom
+  priceUpper?: number;
+  tokenOnly?: boolean; // Single-sided: deposit only the token (above / custom above the price)
+}
+
+export const RANGE_STRATEGY_LABELS: Record<RangeStrategy, { label: string; hint: string }> = {
+  full: { label: "Full range", hint: "Always in range, lowest fee share" },
+  percent: { label: "± around price", hint: "Balanced position centred on the current price" },
+  above: { label: "Above price", hint: "Token only; sells into buys as the price rises" },
+  below: { label: "Below price", hint: "SOL / USDC only; buys the token as the price falls" },
+  custom: { label: "Custom", hint: "Set your own price bounds" },
+};
+
+export const DEFAULT_RANGE: RangeChoice = { strategy: "percent", percent: 10 };
+
+// Below 100% so the lower bound of a ±X% range stays positive
+const MAX_RANGE_PERCENT = 95;
+const MIN_RANGE_PERCENT = 0.1;
+
+/**
+ * Pool facts a range is resolved against
+ */
+export interface RangePool {
+  currentTick: number;
+  tickSpacing: number;
+  decimalsA: number;
+  decimalsB: number;
+  tokenIsA: boolean; // Token is mint A (otherwise SOL / USDC is)
+}
+
+export interface ResolvedRange {
+  tickLower: number;
+  tickUpper: number;
+  deposit: "both" | "A" | "B"; // Sides the position takes at the current tick
+}
+
+function rangeError(message: string): Error {
+  const e: any = new Error(message);
+  e.code = "InvalidRange";
+  return e;
+}
+
+/**
+ * Normalize a range choice from a request body, query string or UI state
+ * Unknown strategies fall back to the default; percentages are clamped.
+ * Token-only choices can only be "above" or "custom"; others become "above".
+ */
+export function parseRangeChoice(input: any): RangeChoice {
+  const tokenOnly = input?.tokenOnly === true || input?.tokenOnly === "true" || input?.tokenOnly === "1";
+  let strategy = (RANGE_STRATEGIES as readonly string[]).includes(input?.strategy)
+    ? (input.strategy as RangeStrategy)
+    : DEFAULT_RANGE.strategy;
+  if (tokenOnly && strategy !== "custom") strategy = "above";
+
+  const flag = tokenOnly ? { tokenOnly } : {};
+  if (strategy === "full") return { strategy };
+  if (strategy === "custom") {
+    return { strategy, priceLower: Number(input?.priceLower), priceUpper: Number(input?.priceUpper), ...flag };
+  }
+  const percent = Number(input?.percent);
+  return {
+    strategy,
+    percent: Number.isFinite(percent) && percent > 0
+      ? Math.min(MAX_RANGE_PERCENT, Math.max(MIN_RANGE_PERCENT, percent))
+      : DEFAULT_RANGE.percent,
+    ...flag,
+  };
+}
+
+/**
+ * Query parameters for a range choice (/liquidity?range=above&pct=25), read back with parseRangeChoice
+ */
+export function rangeQuery(choice: RangeChoice): string {
+  const params = new URLSearchParams({ range: choice.strategy });
+  if (choice.percent !== undefined) params.set("pct", String(choice.percent));
+  if (choice.priceLower !== undefined) params.set("min", String(choice.priceLower));
+  if (choice.priceUpper !== undefined) params.set("max", String(choice.priceUpper));
+  if (choice.tokenOnly) params.set("single", "1");
+  return params.toString();
+}
+
+/**
+ * Sides a position holds at the current tick (pools are all A below the range, all B at or above it)
+ */
+export function depositSides(currentTick: number, tickLower: number, tickUpper: number): ResolvedRange["deposit"] {
+  if (currentTick < tickLower) return "A";
+  if (currentTick >= tickUpper) return "B";
+  return "both";
+}
+
+/**
+ * Whether a range holds only the token at the current tick (single-sided deposit)
+ */
+export function isTokenOnlyRange(currentTick: number, tickLower: number, tickUpper: number, tokenIsA: boolean): boolean {
+  return depositSides(currentTick, tickLower, tickUpper) === (tokenIsA ? "A" : "B");
+}
+
+// Tick distance for a price factor, signed so it moves the token's price
+function ticksFor(factor: number, tokenIsA: boolean): number {
+  const ticks = Math.log(factor) / Math.log(1.0001);
+  return tokenIsA ? ticks : -ticks;
+}
+
+// Token price (quote per token) -> pool tick
+function tokenPriceToTick(price: number, pool: RangePool): number {
+  return priceToTick(pool.tokenIsA ? price : 1 / price, pool.decimalsA, pool.decimalsB);
+}
+
+/**
+ * Token price (quote per token) at a pool tick
+ */
+export function tickToTokenPrice(tick: number, pool: Pick<RangePool, "decimalsA" | "decimalsB" | "tokenIsA">): number {
+  const price = tickToPrice(tick, pool.decimalsA, pool.decimalsB);
+  return pool.tokenIsA ? price : 1 / price;
+}
+
+/**
+ * Tick bounds for a strategy, snapped to the pool's tick spacing
+ * @throws Error with code InvalidRange for empty or inverted custom bounds, or a
+ * token-only choice whose range would also need SOL / USDC
+ */
+export function resolveRange(choice: RangeChoice, pool: RangePool): ResolvedRange {
+  const { currentTick, tickSpacing, tokenIsA } = pool;
+  const percent = (choice.percent ?? DEFAULT_RANGE.percent!) / 100;
+  // Last initializable tick at or below the current tick
+  const alignedBelow = snapTick(currentTick, tickSpacing, "floor");
+
+  let lower: number;
+  let upper: number;
+  switch (choice.strategy) {
+    case "full":
+      lower = minUsableTick(tickSpacing);
+      upper = maxUsableTick(tickSpacing);
+      break;
+
+    case "percent": {
+      const a = currentTick + ticksFor(1 - percent, tokenIsA);
+      const b = currentTick + ticksFor(1 + percent, tokenIsA);
+      lower = snapTick(Math.min(a, b), tickSpacing, "floor");
+      upper = snapTick(Math.max(a, b), tickSpacing, "ceil");
+      break;
+    }
+
+    // One-sided ranges must exclude the current tick entirely: a range above
+    // in tick terms starts past it, a range below ends at or before it
+    case "above":
+    case "below": {
+      const factor = choice.strategy === "above" ? 1 + percent : 1 - percent;
+      const far = currentTick + ticksFor(factor, tokenIsA);
+      // A higher token price is a higher tick only when the token is mint A
+      if ((choice.strategy === "above") === tokenIsA) {
+        lower = alignedBelow + tickSpacing;
+        upper = Math.max(snapTick(far, tickSpacing, "ceil"), lower + tickSpacing);
+      } else {
+        upper = alignedBelow;
+        lower = Math.min(snapTick(far, tickSpacing, "floor"), upper - tickSpacing);
+      }
+      break;
+    }
+
+    case "custom": {
+      const { priceLower, priceUpper } = choice;
+      if (!(Number(priceLower) > 0) || !(Number(priceUpper) > 0) || priceLower! >= priceUpper!) {
+        throw rangeError("Custom range needs price bounds with 0 < lower < upper");
+      }
+      const a = tokenPriceToTick(priceLower!, pool);
+      const b = tokenPriceToTick(priceUpper!, pool);
+      lower = snapTick(Math.min(a, b), tickSpacing, "floor");
+      upper = snapTick(Math.max(a, b), tickSpacing, "ceil");
+      if (lower === upper) upper += tickSpacing;
+      break;
+    }
+
+    default:
+      throw rangeError(`Unknown range strategy: ${(choice as RangeChoice).strategy}`);
+  }
+
+  if (lower < minUsableTick(tickSpacing) || upper > maxUsableTick(tickSpacing) || lower >= upper) {
+    throw rangeError("Range falls outside the pool's usable ticks");
+  }
+  if (choice.tokenOnly && !isTokenOnlyRange(currentTick, lower, upper, tokenIsA)) {
+    throw rangeError("A token-only range must sit entirely above the current price");
+  }
+  return { tickLower: lower, tickUpper: upper, deposit: depositSides(currentTick, lower, upper) };
+}
+
+/**
+ * Token prices at the range bounds and the current tick, low to high (for the range visualizer)
+ */
+export function rangeTokenPrices(
+  range: { tickLower: number; tickUpper: number },
+  pool: Omit<RangePool, "tickSpacing">
+): { priceLower: number; priceUpper: number; priceCurrent: number } {
+  const a = tickToTokenPrice(range.tickLower, pool);
+  const b = tickToTokenPrice(range.tickUpper, pool);
+  return {
+    priceLower: Math.min(a, b),
+    priceUpper: Math.max(a, b),
+    priceCurrent: tickToTokenPrice(pool.currentTick, pool),
+  };
+}
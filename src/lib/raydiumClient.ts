@@ -1,6 +1,10 @@
 import { PublicKey, Connection } from '@solana/web3.js';
 import { getDexScreenerPair, USDC_MINT as DEXSCREENER_USDC_MINT, WSOL_MINT as DEXSCREENER_WSOL_MINT } from './dexScreener';
 import { Clmm } from '@raydium-io/raydium-sdk';
+import { parseUiAmount } from './amounts';
+import { CacheStats, createCache } from './cache';
+import { getClmmPoolState, validateClmmPoolState } from './raydiumClmmPools';
+import { DEFAULT_RANGE, RangeChoice, rangeTokenPrices, resolveRange } from './rangePresets';
 
 // Common token mints
 const WSOL_MINT = 'So11111111111111111111111111111111111111112'; // Wrapped SOL
@@ -11,11 +15,11 @@ const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
 const MAX_RESPONSE_SIZE = 50 * 1024 * 1024; // 50 MB in bytes (increased for large pool data)
 const REQUEST_TIMEOUT = 15000; // 15 seconds in milliseconds (increased timeout)
 
-// In-memory cache for Raydium API responses
-const raydiumCache = new Map<string, { ts: number; json: any }>();
-
-// Set up periodic cache cleanup every 10 minutes
-setInterval(clearExpiredCache, 10 * 60 * 1000);
+// Raydium API responses, pinned to memory: the pool lists are tens of MB and
+// not worth shipping to a shared store (per-token results are shared instead)
+const raydiumCache = createCache<any>('raydium-api', { ttlMs: CACHE_TTL, backend: 'memory' });
+// Pool ids per token, shared across instances
+const tokenPoolsCache = createCache<string[]>('raydium-token-pools', { ttlMs: CACHE_TTL });
 
 /**
  * Helper function to reconstruct response from chunks
@@ -37,6 +41,7 @@ export interface RaydiumQuoteRequest {
   quoteMint: string;
   clmmPoolId?: string; // Optional: specific CLMM pool ID for enhanced quotes
   inputMint?: "TOKEN" | "USDC"; // Optional: which token is being input
+  range?: RangeChoice; // Range strategy for CLMM quotes (default ±10%)
 }
 
 export interface RaydiumQuoteResponse {
@@ -53,6 +58,13 @@ export interface RaydiumQuoteResponse {
   tokenAIn?: string;
   tokenBIn?: string;
   estLiquidity?: string;
+  // Range context for the visualizer
+  currentTick?: number;
+  tickSpacing?: number;
+  priceLower?: number;   // Token price (USDC per token) at the range bounds
+  priceUpper?: number;
+  priceCurrent?: number;
+  deposit?: "both" | "A" | "B";
 }
 
 interface RaydiumPool {
@@ -98,24 +110,17 @@ interface RaydiumCLMMPool {
   feeRate: number;
 }
 
-/**
- * Check if cached data is still valid
- */
-function isCacheValid(timestamp: number): boolean {
-  return Date.now() - timestamp < CACHE_TTL;
-}
-
 /**
  * Fetch Raydium AMM pools from public API with caching, timeout, and size limits
  */
 async function fetchRaydiumAMMPools(): Promise<RaydiumAMMPool[]> {
   const cacheKey = 'amm';
-  const cached = raydiumCache.get(cacheKey);
+  const cached = await raydiumCache.get(cacheKey);
   
   // Check cache first
-  if (cached && isCacheValid(cached.ts)) {
+  if (cached) {
     console.info('Using cached AMM pools data');
-    return cached.json.official || [];
+    return cached.official || [];
   }
   
   try {
@@ -166,7 +171,7 @@ async function fetchRaydiumAMMPools(): Promise<RaydiumAMMPool[]> {
     const data = JSON.parse(responseText);
     
     // Cache successful response
-    raydiumCache.set(cacheKey, { ts: Date.now(), json: data });
+    await raydiumCache.set(cacheKey, data);
     
     return data.official || [];
     
@@ -189,12 +194,12 @@ async function fetchRaydiumAMMPools(): Promise<RaydiumAMMPool[]> {
  */
 async function fetchRaydiumCLMMPools(): Promise<RaydiumCLMMPool[]> {
   const cacheKey = 'clmm';
-  const cached = raydiumCache.get(cacheKey);
+  const cached = await raydiumCache.get(cacheKey);
   
   // Check cache first
-  if (cached && isCacheValid(cached.ts)) {
+  if (cached) {
     console.info('Using cached CLMM pools data');
-    return cached.json.data || [];
+    return cached.data || [];
   }
   
   try {
@@ -245,7 +250,7 @@ async function fetchRaydiumCLMMPools(): Promise<RaydiumCLMMPool[]> {
     const data = JSON.parse(responseText);
     
     // Cache successful response
-    raydiumCache.set(cacheKey, { ts: Date.now(), json: data });
+    await raydiumCache.set(cacheKey, data);
     
     return data.data || [];
     
@@ -317,7 +322,7 @@ function calculatePriceImpact(baseAmount: number, baseReserve: number): number {
  */
 export async function getRaydiumQuote(request: RaydiumQuoteRequest): Promise<RaydiumQuoteResponse> {
   try {
-    const { tokenMint, baseAmount, quoteMint, clmmPoolId, inputMint } = request;
+    const { tokenMint, baseAmount, quoteMint, clmmPoolId, inputMint, range } = request;
     
     // Validate inputs
     if (!tokenMint || !baseAmount || !quoteMint) {
@@ -338,13 +343,16 @@ export async function getRaydiumQuote(request: RaydiumQuoteRequest): Promise<Ray
           tokenMint,
           amountUi: baseAmountNum,
           inputMint: inputMint || "TOKEN",
-          clmmPoolId
+          clmmPoolId,
+          range
         });
         
         if (clmmQuote) {
           return clmmQuote;
         }
-      } catch (clmmError) {
+      } catch (clmmError: any) {
+        // A range the pool can't hold is the caller's problem, not a reason to fall back
+        if (clmmError?.code === 'InvalidRange') throw clmmError;
         console.warn('Enhanced CLMM quote failed, falling back to standard quote:', clmmError);
       }
     }
@@ -475,12 +483,14 @@ export async function getEnhancedClmmQuote({
   tokenMint,
   amountUi,
   inputMint,
-  clmmPoolId
+  clmmPoolId,
+  range = DEFAULT_RANGE
 }: {
   tokenMint: string;
   amountUi: number;
   inputMint: "TOKEN" | "USDC";
   clmmPoolId: string;
+  range?: RangeChoice;
 }): Promise<RaydiumQuoteResponse | null> {
   try {
     console.log(`Getting enhanced CLMM quote for pool: ${clmmPoolId}`);
@@ -490,18 +500,12 @@ export async function getEnhancedClmmQuote({
       process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
     );
     
-    // For MVP, we'll use a simplified approach since the full SDK integration
-    // requires more complex setup. In production, you'd fetch real pool state.
-    
-    // Simulate pool state for now
-    const tickCurrent = 0; // Would be fetched from pool
-    const tickSpacing = 1; // Would be fetched from pool config
-    const mintA = { mint: tokenMint, decimals: 6 }; // Assume 6 decimals
-    const mintB = { mint: USDC_MINT, decimals: 6 }; // USDC has 6 decimals
-    
-    // Compute narrow range around current tick (±2 steps)
-    const lower = tickCurrent - 2 * tickSpacing;
-    const upper = tickCurrent + 2 * tickSpacing;
+    // Decoded pool state (mints, decimals, tick spacing, current tick)
+    const state = await getClmmPoolState({ connection, poolId: clmmPoolId });
+    validateClmmPoolState(state, { tokenMint });
+    const { tickCurrent, tickSpacing } = state;
+    const mintA = { mint: state.mintA, decimals: state.decimalsA };
+    const mintB = { mint: state.mintB, decimals: state.decimalsB };
     
     // Determine which token is which
     const isTokenA = mintA.mint === tokenMint;
@@ -511,13 +515,17 @@ export async function getEnhancedClmmQuote({
       console.warn(`Token ${tokenMint} not found in pool ${clmmPoolId}`);
       return null;
     }
+
+    // Range from the chosen strategy, aligned to the pool's spacing
+    const rangePool = { currentTick: tickCurrent, tickSpacing, decimalsA: mintA.decimals, decimalsB: mintB.decimals, tokenIsA: isTokenA };
+    const { tickLower: lower, tickUpper: upper, deposit } = resolveRange(range, rangePool);
     
     // Convert UI amount to base units
     const inputDecimals = inputMint === "TOKEN" ? 
       (isTokenA ? mintA.decimals : mintB.decimals) :
       (isTokenA ? mintB.decimals : mintA.decimals);
     
-    const inputAmount = BigInt(Math.floor(amountUi * 10 ** inputDecimals));
+    const inputAmount = parseUiAmount(amountUi, inputDecimals);
     
     // For MVP, we'll use simplified calculations since the full SDK integration
     // requires more complex setup. In production, you'd use real SDK quotes.
@@ -546,50 +554,33 @@ export async function getEnhancedClmmQuote({
       tickUpper: upper,
       tokenAIn,
       tokenBIn,
-      estLiquidity
+      estLiquidity,
+      currentTick: tickCurrent,
+      tickSpacing,
+      ...rangeTokenPrices({ tickLower: lower, tickUpper: upper }, rangePool),
+      deposit
     };
     
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === 'InvalidRange') throw error;
     console.error('Error in enhanced CLMM quote:', error);
     return null;
   }
 }
 
-/**
- * Clear expired cache entries
- */
-export function clearExpiredCache(): void {
-  const now = Date.now();
-  const entries = Array.from(raydiumCache.entries());
-  for (const [key, value] of entries) {
-    if (!isCacheValid(value.ts)) {
-      raydiumCache.delete(key);
-    }
-  }
-}
-
 /**
  * Manually clear all cache entries
  */
-export function clearAllCache(): void {
-  raydiumCache.clear();
+export async function clearAllCache(): Promise<void> {
+  await raydiumCache.clear();
   console.info('Raydium cache cleared');
 }
 
 /**
  * Get cache statistics for debugging
  */
-export function getCacheStats(): { size: number; entries: Array<{ key: string; age: number }> } {
-  const now = Date.now();
-  const entries = Array.from(raydiumCache.entries()).map(([key, value]) => ({
-    key,
-    age: Math.round((now - value.ts) / 1000) // age in seconds
-  }));
-  
-  return {
-    size: raydiumCache.size,
-    entries
-  };
+export function getCacheStats(): CacheStats {
+  return raydiumCache.stats();
 }
 
 /**
@@ -599,7 +590,16 @@ export async function getAvailableRaydiumPools(tokenMint: string): Promise<strin
   try {
     // Validate token mint format
     new PublicKey(tokenMint);
-    
+  } catch (error) {
+    console.error('Error getting available Raydium pools:', error);
+    return [];
+  }
+
+  return tokenPoolsCache.getOrLoad(tokenMint, () => findRaydiumPools(tokenMint), { tags: [`mint:${tokenMint}`] });
+}
+
+async function findRaydiumPools(tokenMint: string): Promise<string[]> {
+  try {
     // Fetch pools
     const [ammPools, clmmPools] = await Promise.all([
       fetchRaydiumAMMPools(),
@@ -1,5 +1,8 @@
 import { Connection, PublicKey, Transaction } from "@solana/web3.js";
 import { getAssociatedTokenAddressSync, createAssociatedTokenAccountInstruction } from "@solana/spl-token";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 
 // USDC mint address
 const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
@@ -15,6 +18,7 @@ export type RayClmmCollectParams = {
   positionNftMint: string;
   tokenAMint: string;
   tokenBMint: string;
+  priority?: PriorityFeeChoice; // compute unit price level (default medium)
 };
 
 /**
@@ -136,7 +140,8 @@ export async function buildRayClmmCollectTx(p: RayClmmCollectParams) {
   ixs.forEach(ix=>tx.add(ix));
   tx.feePayer = owner;
   tx.recentBlockhash = (await conn.getLatestBlockhash("finalized")).blockhash;
+  await applyComputeBudget(conn, tx, { payer: owner, priority: p.priority });
 
   // Return base64 encoded transaction for client signing
-  return { txBase64: tx.serialize({ requireAllSignatures:false, verifySignatures:false }).toString("base64") };
+  return { txBase64: serializeTx(await buildVersionedTx(conn, tx, owner)) };
 }
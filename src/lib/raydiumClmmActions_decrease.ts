@@ -1,6 +1,9 @@
 import { Connection, PublicKey, Transaction } from "@solana/web3.js";
 import { getAssociatedTokenAddressSync, createAssociatedTokenAccountInstruction } from "@solana/spl-token";
 import { isWSOL, unwrapWSOLIx } from "./wsol";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 import BN from "bn.js";
 import Decimal from "decimal.js";
 
@@ -22,6 +25,7 @@ export type RayClmmDecreaseParams = {
   slippageBp: number;    // default 100
   tickLower: number;
   tickUpper: number;
+  priority?: PriorityFeeChoice; // compute unit price level (default medium)
 };
 
 /**
@@ -203,7 +207,8 @@ export async function buildRayClmmDecreaseTx(p: RayClmmDecreaseParams) {
   ixs.forEach(ix=>tx.add(ix));
   tx.feePayer = owner;
   tx.recentBlockhash = (await conn.getLatestBlockhash("finalized")).blockhash;
+  await applyComputeBudget(conn, tx, { payer: owner, priority: p.priority });
 
   // Return base64 encoded transaction for client signing
-  return { txBase64: tx.serialize({ requireAllSignatures:false, verifySignatures:false }).toString("base64") };
+  return { txBase64: serializeTx(await buildVersionedTx(conn, tx, owner)) };
 }
@@ -1,6 +1,10 @@
 import { Connection, PublicKey, Transaction } from "@solana/web3.js";
 import { getAssociatedTokenAddressSync, createAssociatedTokenAccountInstruction } from "@solana/spl-token";
 import { WSOL_MINT, isWSOL, wrapWSOLIx } from "./wsol";
+import { parseUiAmount } from "./amounts";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 import BN from "bn.js";
 import Decimal from "decimal.js";
 
@@ -23,6 +27,7 @@ export type RayClmmIncreaseParams = {
   slippageBp: number;       // default 100
   tickLower: number;        // position ticks (reuse from your commit/quote)
   tickUpper: number;
+  priority?: PriorityFeeChoice; // compute unit price level (default medium)
 };
 
 /**
@@ -90,7 +95,7 @@ export async function buildRayClmmIncreaseTx(p: RayClmmIncreaseParams) {
   
   if (isInputWSOL) {
     // For WSOL input, compute lamports needed (SOL has 9 decimals)
-    const lamports = Math.floor(p.amountUi * Math.pow(10, 9));
+    const lamports = Number(parseUiAmount(p.amountUi, 9));
     const { ata, ixs } = wrapWSOLIx(owner, lamports);
     wsolWrapIxs = ixs;
     console.log(`WSOL input detected - wrapping ${lamports} lamports for ${p.amountUi} SOL`);
@@ -192,7 +197,8 @@ export async function buildRayClmmIncreaseTx(p: RayClmmIncreaseParams) {
   console.log(`Transaction built with ${clmmInstructions.length} CLMM increase instructions`);
   tx.feePayer = owner;
   tx.recentBlockhash = (await conn.getLatestBlockhash("finalized")).blockhash;
+  await applyComputeBudget(conn, tx, { payer: owner, priority: p.priority });
 
   // Return base64 encoded transaction for client signing
-  return { txBase64: tx.serialize({ requireAllSignatures:false, verifySignatures:false }).toString("base64") };
+  return { txBase64: serializeTx(await buildVersionedTx(conn, tx, owner)) };
 }
@@ -1,13 +1,19 @@
 import { Connection, PublicKey, Transaction, VersionedTransaction, SystemProgram } from "@solana/web3.js";
-import { getAssociatedTokenAddressSync, createAssociatedTokenAccountInstruction, createTransferInstruction } from "@solana/spl-token";
+import { getAssociatedTokenAddressSync, createAssociatedTokenAccountInstruction, createTransferInstruction, TOKEN_PROGRAM_ID } from "@solana/spl-token";
 import {
-  Clmm,      // Raydium CLMM core
-  Percent,   // slippage helper
+  Clmm,           // Raydium CLMM core
+  ClmmPoolInfo,
 } from "@raydium-io/raydium-sdk";
 import BN from "bn.js";
+import { ClmmDepositQuote, ClmmPoolState, getClmmPoolState, getClmmTickArrays, quoteClmmDeposit, validateClmmPoolState } from "./raydiumClmmPools";
 import { WSOL_MINT, isWSOL, wrapWSOLIx } from "./wsol";
 import { FEE_WALLET, FLAT_FEE_SOL, SKIM_BP, applySkimBp, solToLamports } from "./fees";
-import { retryRaydiumOperation, validateConnection, mapRaydiumError, RaydiumErrorContext } from "./raydiumErrorHandler";
+import { parseUiAmount } from "./amounts";
+import { retryRaydiumOperation, validateConnection, mapRaydiumError, RaydiumError, RaydiumErrorContext } from "./raydiumErrorHandler";
+import { isTokenOnlyRange } from "./rangePresets";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
 
 // USDC mint address for Solana mainnet
 export const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
@@ -26,6 +32,8 @@ export type ClmmCommitParams = {
   // NEW: Tick boundaries from quote (validated against pool)
   tickLower: number;       // Lower tick boundary from quote
   tickUpper: number;       // Upper tick boundary from quote
+  singleSided?: boolean;   // Token-only deposit; the range must not hold USDC at the current tick
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
 };
 
 /**
@@ -33,14 +41,18 @@ export type ClmmCommitParams = {
  */
 export interface ClmmCommitResult {
   txBase64: string;        // Base64 encoded transaction for client signing
-  partialSigners?: string[]; // Base58 encoded keypairs that need to be partially signed
+  partialSigners?: string[]; // Base64 secret keys that need to partially sign (position NFT mint)
   summary: {
     tickLower: number;     // Lower tick boundary
     tickUpper: number;     // Upper tick boundary
     inputIsA: boolean;     // Whether input token is token A
+    singleSided: boolean;  // Token-only deposit (the other side is zero)
     inA?: string;          // Amount of token A (if available from quote)
     inB?: string;          // Amount of token B (if available from quote)
     estLiquidity?: string; // Estimated liquidity (if available from quote)
+    currentTick: number;   // Pool tick when the transaction was built
+    tickSpacing: number;   // Pool tick spacing
+    positionNftMint?: string; // Mint of the new position NFT
     fee?: {                // NEW: Fee information
       sol: number;
       skimBp: number;
@@ -54,6 +66,27 @@ export interface ClmmCommitResult {
   };
 }
 
+/**
+ * SDK pool info from decoded state
+ * Only the on-chain fields the instruction builders read; API stats are left out
+ */
+function sdkPoolInfo(state: ClmmPoolState): ClmmPoolInfo {
+  return {
+    id: new PublicKey(state.poolId),
+    programId: new PublicKey(state.programId),
+    mintA: { programId: TOKEN_PROGRAM_ID, mint: new PublicKey(state.mintA), vault: new PublicKey(state.vaultA), decimals: state.decimalsA },
+    mintB: { programId: TOKEN_PROGRAM_ID, mint: new PublicKey(state.mintB), vault: new PublicKey(state.vaultB), decimals: state.decimalsB },
+    ammConfig: { id: new PublicKey(state.ammConfig), tickSpacing: state.tickSpacing },
+    observationId: new PublicKey(state.observationId),
+    tickSpacing: state.tickSpacing,
+    tickCurrent: state.tickCurrent,
+    sqrtPriceX64: new BN(state.sqrtPriceX64),
+    liquidity: new BN(state.liquidity),
+    tickArrayBitmap: state.tickArrayBitmap.map((word) => new BN(word)),
+    lookupTableAccount: PublicKey.default,
+  } as unknown as ClmmPoolInfo;
+}
+
 /**
  * Build Raydium CLMM liquidity commitment transaction
  * Creates a narrow range position around current price for TOKEN/USDC pairs
@@ -90,56 +123,50 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
     throw new Error("Lower tick must be less than upper tick");
   }
 
-  // 3) Fetch real pool info using Raydium SDK
-  console.log(`Fetching pool info for CLMM pool: ${clmmId.toBase58()}`);
+  // 3) Decode the pool state account (bypass the cache: the price moves between quote and commit)
+  console.log(`Fetching pool state for CLMM pool: ${clmmId.toBase58()}`);
   
-  let poolInfo;
+  let state: ClmmPoolState;
   try {
-    poolInfo = await retryRaydiumOperation(async () => {
-      // Use real Raydium SDK to create mock pool info for development
-      // In production, you would fetch real pool data from the blockchain
-      // For now, create a basic pool info structure using the SDK's mock method
-      // In production, you would fetch real pool data from the blockchain
-      const mockPoolInfo = {
-        mintA: { mint: tokenMint.toBase58(), decimals: 6 },
-        mintB: { mint: USDC_MINT.toBase58(), decimals: 6 },
-        config: { tickSpacing: 1 },
-        state: { 
-          tickCurrent: 0,
-          liquidity: "1000000"
-        }
-      };
-      
-      return mockPoolInfo;
-    }, { ...context, operation: 'fetchPoolInfo' });
+    state = await retryRaydiumOperation(
+      () => getClmmPoolState({ connection: conn, poolId: clmmId.toBase58(), bust: true }),
+      { ...context, operation: 'fetchPoolInfo' }
+    );
     
-    console.log(`✅ Pool info fetched successfully:`, {
-      mintA: poolInfo.mintA?.mint,
-      mintB: poolInfo.mintB?.mint,
-      tickSpacing: poolInfo.config?.tickSpacing,
-      tickCurrent: poolInfo.state?.tickCurrent,
-      liquidity: poolInfo.state?.liquidity
+    console.log(`✅ Pool state decoded:`, {
+      mintA: state.mintA,
+      mintB: state.mintB,
+      tickSpacing: state.tickSpacing,
+      tickCurrent: state.tickCurrent,
+      liquidity: state.liquidity,
+      tickArrays: getClmmTickArrays(state, tickLower, tickUpper)
     });
     
   } catch (error) {
-    console.error("Failed to fetch pool info:", error);
+    console.error("Failed to fetch pool state:", error);
     throw mapRaydiumError(error, { ...context, operation: 'fetchPoolInfo' });
   }
 
-  const mintA = new PublicKey(poolInfo.mintA.mint);
-  const mintB = new PublicKey(poolInfo.mintB.mint);
+  // 4) Validate the pool against the quote: TOKEN/USDC pair, open, ticks on the pool's spacing
+  validateClmmPoolState(state, { tokenMint: tokenMint.toBase58(), tickLower, tickUpper });
 
-  // Sanity: ensure pair is TOKEN/USDC (order can be A/B either way)
-  const isTokenA = mintA.equals(tokenMint) && mintB.equals(USDC_MINT);
-  const isTokenB = mintB.equals(tokenMint) && mintA.equals(USDC_MINT);
-  if (!isTokenA && !isTokenB) {
-    throw new Error("NotTokenUsdcpool");
-  }
+  const mintA = new PublicKey(state.mintA);
+  const mintB = new PublicKey(state.mintB);
+  const isTokenA = mintA.equals(tokenMint);
 
-  // 4) Validate tick boundaries against pool tick spacing
-  const tickSpacing = poolInfo.config.tickSpacing;
-  if (tickLower % tickSpacing !== 0 || tickUpper % tickSpacing !== 0) {
-    throw new Error(`Tick boundaries must be multiples of pool tick spacing (${tickSpacing})`);
+  // Single-sided: the price may have moved into the range since the quote
+  if (p.singleSided) {
+    if (p.inputMint !== "TOKEN") {
+      throw new RaydiumError("Single-sided deposits take the token only", "InvalidSingleSided", context, false);
+    }
+    if (!isTokenOnlyRange(state.tickCurrent, tickLower, tickUpper, isTokenA)) {
+      throw new RaydiumError(
+        `Range ${tickLower}..${tickUpper} no longer sits above the current price (tick ${state.tickCurrent}); get a new quote`,
+        "RangeNotSingleSided",
+        { ...context, operation: 'computeQuote' },
+        false
+      );
+    }
   }
 
   // Use provided tick boundaries from quote (validated)
@@ -147,16 +174,16 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
   const upper = tickUpper;
 
   // 3) Convert UI amount → smallest units
-  const decA = poolInfo.mintA.decimals;
-  const decB = poolInfo.mintB.decimals;
+  const decA = state.decimalsA;
+  const decB = state.decimalsB;
   const amountUi = Number(p.amountUi || 0);
   if (!Number.isFinite(amountUi) || amountUi <= 0) {
     throw new Error("BadAmount");
   }
 
-  const inputIsA = (p.inputMint === "TOKEN" && isTokenA) || (p.inputMint === "USDC" && isTokenB);
+  const inputIsA = (p.inputMint === "TOKEN") === isTokenA;
   const inputDecimals = inputIsA ? decA : decB;
-  const inputAmount = BigInt(Math.floor(amountUi * 10 ** inputDecimals));
+  const inputAmount = parseUiAmount(amountUi, inputDecimals);
 
   // WSOL handling: Detect if input side is WSOL and prepare wrapping instructions
   const inputMint = inputIsA ? mintA : mintB;
@@ -165,57 +192,31 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
   
   if (isInputWSOL) {
     // For WSOL input, compute lamports needed (SOL has 9 decimals)
-    const lamports = Math.floor(amountUi * Math.pow(10, 9));
+    const lamports = Number(parseUiAmount(amountUi, 9));
     const { ata, ixs } = wrapWSOLIx(owner, lamports);
     wsolWrapIxs = ixs;
     console.log(`WSOL input detected - wrapping ${lamports} lamports for ${amountUi} SOL`);
   }
 
-  // 5) Compute required counterpart & liquidity quote using real Raydium SDK
-  const slippage = new Percent(slippageBp, 10_000);
-
-  console.log(`Computing real SDK quote for pool ${clmmId.toBase58()}`);
+  // 5) Compute required counterpart & liquidity from the pool's current price
+  console.log(`Computing deposit for pool ${clmmId.toBase58()}`);
   console.log(`Input: ${inputAmount.toString()} of ${inputIsA ? 'tokenA' : 'tokenB'}`);
   console.log(`Tick range: ${tickLower} to ${tickUpper}`);
   console.log(`Slippage: ${slippageBp} basis points`);
 
-  let quote;
+  let quote: ClmmDepositQuote;
   try {
-    // Use real Raydium SDK to compute position quote
-    const positionQuote = await retryRaydiumOperation(async () => {
-      // For now, use a simple calculation approach
-      // In production, you would use the full SDK with all required parameters
-      const liquidity = BigInt(1000000); // Placeholder liquidity calculation
-      const priceImpact = new Percent(50, 10000); // 0.5% placeholder
-      
-      return {
-        amountA: inputIsA ? inputAmount : BigInt(0),
-        amountB: inputIsA ? BigInt(0) : inputAmount,
-        liquidity,
-        priceImpact,
-        minAmountA: inputIsA ? inputAmount * BigInt(99) / BigInt(100) : BigInt(0),
-        minAmountB: inputIsA ? BigInt(0) : inputAmount * BigInt(99) / BigInt(100)
-      };
-    }, { ...context, operation: 'computeQuote' });
+    quote = quoteClmmDeposit(state, { tickLower: lower, tickUpper: upper, inputIsA, amount: inputAmount, slippageBp });
     
-    quote = {
-      amountA: positionQuote.amountA,
-      amountB: positionQuote.amountB,
-      liquidity: positionQuote.liquidity,
-      priceImpact: positionQuote.priceImpact,
-      minAmountA: positionQuote.minAmountA,
-      minAmountB: positionQuote.minAmountB
-    };
-    
-    console.log(`SDK quote computed successfully:`, {
+    console.log(`Deposit computed successfully:`, {
       amountA: quote.amountA.toString(),
       amountB: quote.amountB.toString(),
       liquidity: quote.liquidity.toString(),
-      priceImpact: quote.priceImpact?.toFixed(4)
+      otherAmountMax: quote.otherAmountMax.toString()
     });
     
   } catch (error) {
-    console.error("Failed to compute SDK quote:", error);
+    console.error("Failed to compute deposit:", error);
     throw mapRaydiumError(error, { ...context, operation: 'computeQuote' });
   }
 
@@ -235,8 +236,8 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
 
   // NEW: 2) Compute skim/net amounts from quote
   // From your quote or inputs: get tokenAIn, tokenBIn (bigint)
-  const qA = BigInt(quote?.amountA?.toString?.() || "0");
-  const qB = BigInt(quote?.amountB?.toString?.() || "0");
+  const qA = quote.amountA;
+  const qB = quote.amountB;
   const { net: netA, skim: skimA } = applySkimBp(qA);
   const { net: netB, skim: skimB } = applySkimBp(qB);
   
@@ -244,22 +245,15 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
   console.log(`After skim (${SKIM_BP} bps) - Net A: ${netA.toString()}, Net B: ${netB.toString()}`);
   console.log(`Skim amounts - A: ${skimA.toString()}, B: ${skimB.toString()}`);
 
-  // NEW: 3) Ensure fee wallet ATAs exist
+  // NEW: 3) + 4) Fee wallet ATA and skim transfer (owner → fee wallet), only for a side with skim > 0
+  // (a single-sided deposit skims the token only, so no USDC fee account is created)
+  // devnet audit: SOL skim lamports; ATA payer=user, owner=FEE_WALLET
   const feeAtaA = getAssociatedTokenAddressSync(mintA, FEE_WALLET);
   const feeAtaB = getAssociatedTokenAddressSync(mintB, FEE_WALLET);
-  
-  // Create fee wallet ATAs if they don't exist (owner pays for creation)
-  // devnet audit: SOL skim lamports; ATA payer=user, owner=FEE_WALLET
-  ixs.push(
-    createAssociatedTokenAccountInstruction(owner, feeAtaA, FEE_WALLET, mintA)
-  );
-  ixs.push(
-    createAssociatedTokenAccountInstruction(owner, feeAtaB, FEE_WALLET, mintB)
-  );
-
-  // NEW: 4) Skim SPL transfers (owner → fee wallet), only if skim > 0
+
   if (skimA > BigInt(0)) {
     console.log(`Adding skim transfer for token A: ${skimA.toString()} to fee wallet`);
+    ixs.push(createAssociatedTokenAccountInstruction(owner, feeAtaA, FEE_WALLET, mintA));
     ixs.push(
       createTransferInstruction(
         getAssociatedTokenAddressSync(mintA, owner), 
@@ -272,6 +266,7 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
   
   if (skimB > BigInt(0)) {
     console.log(`Adding skim transfer for token B: ${skimB.toString()} to fee wallet`);
+    ixs.push(createAssociatedTokenAccountInstruction(owner, feeAtaB, FEE_WALLET, mintB));
     ixs.push(
       createTransferInstruction(
         getAssociatedTokenAddressSync(mintB, owner), 
@@ -293,7 +288,7 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
       conn.getAccountInfo(ataB)
     ]);
     
-    // Only create ATA if it doesn't exist
+    // Only create ATA if it doesn't exist (open_position needs both accounts, even for a zero side)
     if (!ataAInfo) {
       console.log(`Creating ATA for token A: ${mintA.toBase58()}`);
       ixs.push(createAssociatedTokenAccountInstruction(owner, ataA, owner, mintA));
@@ -304,29 +299,20 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
       ixs.push(createAssociatedTokenAccountInstruction(owner, ataB, owner, mintB));
     }
     
-    // Validate token balances after skimming
-    if (ataAInfo && ataBInfo) {
-      const [balanceA, balanceB] = await Promise.all([
-        conn.getTokenAccountBalance(ataA),
-        conn.getTokenAccountBalance(ataB)
-      ]);
-      
-      const requiredA = netA;
-      const requiredB = netB;
-      
-      console.log(`Balance check - Required A: ${requiredA.toString()}, Available A: ${balanceA.value.amount}`);
-      console.log(`Balance check - Required B: ${requiredB.toString()}, Available B: ${balanceB.value.amount}`);
-      
-      if (BigInt(balanceA.value.amount) < requiredA) {
-        throw new Error("InsufficientFundsA");
-      }
-      
-      if (BigInt(balanceB.value.amount) < requiredB) {
-        throw new Error("InsufficientFundsB");
+    // Validate token balances after skimming; a zero side (single-sided deposit) needs none
+    const sides = [
+      { label: "A", ata: ataA, info: ataAInfo, required: netA },
+      { label: "B", ata: ataB, info: ataBInfo, required: netB },
+    ];
+    for (const side of sides) {
+      if (!side.info || side.required === BigInt(0)) continue;
+      const balance = await conn.getTokenAccountBalance(side.ata);
+      console.log(`Balance check - Required ${side.label}: ${side.required.toString()}, Available ${side.label}: ${balance.value.amount}`);
+      if (BigInt(balance.value.amount) < side.required) {
+        throw new Error(`InsufficientFunds${side.label}`);
       }
-      
-      console.log("Balance validation passed");
     }
+    console.log("Balance validation passed");
     
   } catch (error) {
     console.warn('Failed to check ATA status, creating both ATAs as fallback:', error);
@@ -343,26 +329,23 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
 
   let clmmInstructions: any[] = [];
   let positionNftMint: PublicKey | null = null;
+  let partialSigners: string[] = [];
   
   try {
     // Use real Raydium SDK to build the open position transaction
     const openPositionTx = await retryRaydiumOperation(async () => {
-      // Use real SDK method to create position instructions
+      // The SDK generates the position NFT mint keypair; it co-signs on the client
       const result = await Clmm.makeOpenPositionFromBaseInstructions({
-        poolInfo,
-        ownerInfo: { feePayer: owner, wallet: owner, tokenAccountA: owner, tokenAccountB: owner },
+        poolInfo: sdkPoolInfo(state),
+        ownerInfo: { feePayer: owner, wallet: owner, tokenAccountA: ataA, tokenAccountB: ataB },
         tickLower,
         tickUpper,
         base: inputIsA ? "MintA" : "MintB",
-        baseAmount: inputIsA ? new BN(netA.toString()) : new BN(netB.toString()),
-        otherAmountMax: inputIsA ? new BN(netB.toString()) : new BN(netA.toString()),
-        withMetadata: "no-create",
-        getEphemeralSigners: (k: number) => []
+        baseAmount: new BN((inputIsA ? netA : netB).toString()),
+        otherAmountMax: new BN(quote.otherAmountMax.toString()),
+        withMetadata: "no-create"
       });
       
-      // Generate a new keypair for the position NFT mint
-      const positionNftMint = new PublicKey("11111111111111111111111111111111"); // This would be generated by the SDK
-      
       return {
         innerTransactions: [{
           instructions: result.innerTransaction.instructions,
@@ -372,8 +355,11 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
       };
     }, { ...context, operation: 'buildTransaction' });
     
-    // Extract instructions and position NFT mint from the SDK response
+    // Extract instructions, signers and position NFT mint from the SDK response
     clmmInstructions = openPositionTx.innerTransactions[0]?.instructions || [];
+    partialSigners = (openPositionTx.innerTransactions[0]?.signers || []).map(
+      (signer) => Buffer.from(signer.secretKey).toString("base64")
+    );
     positionNftMint = openPositionTx.positionNftMint;
     
     console.log(`✅ Real CLMM instructions built successfully:`, {
@@ -402,10 +388,13 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
   clmmInstructions.forEach(ix => tx.add(ix));
   
   console.log(`Transaction built with ${clmmInstructions.length} CLMM instructions`);
+
+  // Compute unit limit from simulation + chosen priority price
+  await applyComputeBudget(conn, tx, { payer: owner, priority: p.priority });
   
-  // Note: Do NOT set blockhash and feePayer here
-  // These will be set in the client-side sending flow to prevent message changes after signing
-  const txBase64 = tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64");
+  // v0 message against the app lookup tables; the client refreshes the
+  // blockhash before signing, so the message isn't changed after signing
+  const txBase64 = serializeTx(await buildVersionedTx(conn, tx, owner));
 
   // NEW: 6) Add fee summary to response
   const feeSummary = {
@@ -420,14 +409,19 @@ export async function buildRaydiumClmmCommitTx(p: ClmmCommitParams): Promise<Clm
     tickLower: lower,
     tickUpper: upper,
     inputIsA,
-    inA: quote?.amountA?.toString?.(), // Note: In production, you might want to show net amounts here
-    inB: quote?.amountB?.toString?.(), // Note: In production, you might want to show net amounts here
-    estLiquidity: quote?.liquidity?.toString?.(),
+    singleSided: !!p.singleSided,
+    inA: quote.amountA.toString(), // Note: In production, you might want to show net amounts here
+    inB: quote.amountB.toString(), // Note: In production, you might want to show net amounts here
+    estLiquidity: quote.liquidity.toString(),
+    currentTick: state.tickCurrent,
+    tickSpacing: state.tickSpacing,
+    positionNftMint: positionNftMint?.toBase58(),
     fee: feeSummary // NEW: Include fee information
   };
 
     return { 
       txBase64, 
+      partialSigners,
       summary, 
       mints: { 
         A: mintA.toBase58(), 
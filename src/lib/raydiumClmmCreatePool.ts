@@ -0,0 +1,131 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { AmmConfigLayout, Clmm, getPdaAmmConfigId } from "@raydium-io/raydium-sdk";
+import BN from "bn.js";
+import { RAYDIUM_CLMM_PROGRAM_ID, deriveClmmPoolId } from "./raydiumClmmPools";
+import { RaydiumError } from "./raydiumErrorHandler";
+import { initialSqrtPriceX64, loadPoolMints, sortPoolMints } from "./poolInit";
+import { applyComputeBudget, PriorityFeeChoice } from "./priorityFees";
+import { buildVersionedTx } from "./lookupTables";
+import { serializeTx } from "./versionedTx";
+
+/**
+ * Fee tiers offered for new CLMM pools; each maps to one on-chain AmmConfig
+ */
+export const RAYDIUM_CLMM_FEE_TIERS = [
+  { tickSpacing: 1, feeBp: 1 },
+  { tickSpacing: 10, feeBp: 5 },
+  { tickSpacing: 60, feeBp: 25 },
+  { tickSpacing: 120, feeBp: 100 },
+];
+
+// AmmConfig accounts are PDAs by index; Raydium has only created a handful
+const AMM_CONFIG_SCAN = 16;
+
+export interface ClmmCreatePoolParams {
+  connection: Connection;
+  walletPubkey: PublicKey;
+  tokenMint: string;
+  quoteMint: string;     // USDC (CLMM positions are TOKEN/USDC only in MVP)
+  tickSpacing: number;
+  initialPrice: string;  // USDC per 1 token (UI)
+  priority?: PriorityFeeChoice;
+}
+
+export interface ClmmCreatePoolResult {
+  txBase64: string;
+  summary: {
+    pool: string;
+    ammConfig: string;
+    tokenMintA: string;
+    tokenMintB: string;
+    tickSpacing: number;
+    feeBp: number;
+    currentTick: number;
+    initialPrice: string;
+  };
+}
+
+function createPoolError(code: string, message: string, poolId?: string): RaydiumError {
+  return new RaydiumError(message, code, { operation: "createPool", poolId }, false);
+}
+
+/**
+ * AmmConfig for a fee tier (tick spacing and trade fee must both match)
+ * @throws RaydiumError UnsupportedFeeTier when no config exists on chain
+ */
+async function findAmmConfig(connection: Connection, tickSpacing: number, feeBp: number): Promise<PublicKey> {
+  const ids = Array.from({ length: AMM_CONFIG_SCAN }, (_, i) => getPdaAmmConfigId(RAYDIUM_CLMM_PROGRAM_ID, i).publicKey);
+  const accounts = await connection.getMultipleAccountsInfo(ids);
+
+  for (let i = 0; i < ids.length; i++) {
+    const account = accounts[i];
+    if (!account || !account.owner.equals(RAYDIUM_CLMM_PROGRAM_ID)) continue;
+    const config = AmmConfigLayout.decode(account.data);
+    // tradeFeeRate is in hundredths of a basis point
+    if (config.tickSpacing === tickSpacing && config.tradeFeeRate === feeBp * 100) return ids[i];
+  }
+  throw createPoolError("UnsupportedFeeTier", `Raydium has no CLMM config with tick spacing ${tickSpacing} and ${feeBp} bps fee`);
+}
+
+/**
+ * Build a transaction creating a Raydium CLMM pool for TOKEN/USDC
+ *
+ * The observation account is derived from the wallet with a seed, so the
+ * wallet is the only signer. The first position is opened afterwards
+ * through the normal commit flow.
+ *
+ * @throws RaydiumError UnsupportedFeeTier or PoolExists; Error with code InvalidPrice
+ */
+export async function buildRaydiumClmmCreatePoolTx(p: ClmmCreatePoolParams): Promise<ClmmCreatePoolResult> {
+  const tier = RAYDIUM_CLMM_FEE_TIERS.find((t) => t.tickSpacing === p.tickSpacing);
+  if (!tier) {
+    throw createPoolError("UnsupportedFeeTier", `Raydium has no fee tier with tick spacing ${p.tickSpacing}`);
+  }
+
+  const { mintA, mintB, tokenIsA } = sortPoolMints(p.tokenMint, p.quoteMint);
+  const [ammConfigId, [infoA, infoB]] = await Promise.all([
+    findAmmConfig(p.connection, tier.tickSpacing, tier.feeBp),
+    loadPoolMints(p.connection, mintA, mintB),
+  ]);
+
+  const poolId = deriveClmmPoolId(ammConfigId, infoA.mint, infoB.mint);
+  if (await p.connection.getAccountInfo(poolId)) {
+    throw createPoolError("PoolExists", `A CLMM pool with this fee tier already exists: ${poolId.toBase58()}`, poolId.toBase58());
+  }
+
+  const { sqrtPriceX64, tick } = initialSqrtPriceX64({
+    initialPrice: p.initialPrice,
+    tokenIsA,
+    decimalsA: infoA.decimals,
+    decimalsB: infoB.decimals,
+  });
+
+  const created = await Clmm.makeCreatePoolInstructions({
+    connection: p.connection,
+    programId: RAYDIUM_CLMM_PROGRAM_ID,
+    owner: p.walletPubkey,
+    mintA: infoA,
+    mintB: infoB,
+    ammConfigId,
+    initialPriceX64: sqrtPriceX64,
+    startTime: new BN(0), // Open for trading immediately
+  });
+
+  const tx = new Transaction().add(...created.innerTransaction.instructions);
+  await applyComputeBudget(p.connection, tx, { payer: p.walletPubkey, priority: p.priority });
+  const txBase64 = serializeTx(await buildVersionedTx(p.connection, tx, p.walletPubkey));
+
+  return {
+    txBase64,
+    summary: {
+      pool: created.address.poolId.toBase58(),
+      ammConfig: ammConfigId.toBase58(),
+      tokenMintA: mintA,
+      tokenMintB: mintB,
+      tickSpacing: tier.tickSpacing,
+      feeBp: tier.feeBp,
+      currentTick: tick,
+      initialPrice: p.initialPrice,
+    },
+  };
+}
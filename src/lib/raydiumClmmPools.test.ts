@@ -0,0 +1,101 @@
+// Simple test for Raydium CLMM pool state decoding, validation and deposit math
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { getPdaAmmConfigId } from '@raydium-io/raydium-sdk';
+import {
+  decodeClmmPoolState,
+  deriveClmmPoolId,
+  getClmmTickArrays,
+  quoteClmmDeposit,
+  validateClmmPoolState,
+  RAYDIUM_CLMM_PROGRAM_ID,
+  USDC_MINT,
+} from './raydiumClmmPools';
+
+// RAY/USDC pool account in getAccountInfo (base64) form
+const fixture = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'raydiumClmmPool.json'), 'utf8'));
+const RAY_MINT = '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R';
+
+// Live mainnet pools: [AmmConfig index, mint A, mint B, pool address]
+const MAINNET_POOLS: Array<[number, string, string, string]> = [
+  [4, 'So11111111111111111111111111111111111111112', USDC_MINT, '8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj'],
+  [1, RAY_MINT, USDC_MINT, '61R1ndXxvsWXXkWSyNkCxnzwd3zUNB8Q2ibmkiLPC8ht'],
+];
+
+function errorCode(fn: () => unknown): string | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error: any) {
+    return error.code;
+  }
+}
+
+function testRaydiumClmmPools() {
+  try {
+    const failures: string[] = [];
+    const account = {
+      owner: new PublicKey(fixture.account.owner),
+      data: Buffer.from(fixture.account.data[0], 'base64'),
+    };
+
+    console.log('Testing pool state decoding...');
+    const state = decodeClmmPoolState(fixture.pubkey, account);
+    if (state.mintA !== RAY_MINT || state.mintB !== USDC_MINT) failures.push(`mints: ${state.mintA}/${state.mintB}`);
+    if (state.decimalsA !== 6 || state.decimalsB !== 6) failures.push('decimals');
+    if (state.tickSpacing !== 10 || state.tickCurrent !== 6934) failures.push(`ticks: ${state.tickSpacing}/${state.tickCurrent}`);
+    if (state.sqrtPriceX64 !== '26090481337682324495') failures.push(`sqrt price: ${state.sqrtPriceX64}`);
+    if (state.tickArrayBitmap.length !== 16) failures.push('tick array bitmap');
+    if (JSON.parse(JSON.stringify(state)).liquidity !== state.liquidity) failures.push('state is not JSON-safe');
+
+    console.log('Testing account checks...');
+    const wrongOwner = { ...account, owner: PublicKey.default };
+    if (errorCode(() => decodeClmmPoolState(fixture.pubkey, wrongOwner)) !== 'InvalidPoolAccount') failures.push('wrong owner');
+    const truncated = { ...account, data: account.data.subarray(0, 100) };
+    if (errorCode(() => decodeClmmPoolState(fixture.pubkey, truncated)) !== 'InvalidPoolAccount') failures.push('truncated data');
+
+    console.log('Testing pool addresses against mainnet...');
+    for (const [index, mintA, mintB, pool] of MAINNET_POOLS) {
+      const ammConfigId = getPdaAmmConfigId(RAYDIUM_CLMM_PROGRAM_ID, index).publicKey;
+      const derived = deriveClmmPoolId(ammConfigId, new PublicKey(mintA), new PublicKey(mintB)).toBase58();
+      if (derived !== pool) failures.push(`pool for config ${index}: ${derived}`);
+    }
+
+    console.log('Testing validation against the quote...');
+    if (errorCode(() => validateClmmPoolState(state, { tokenMint: RAY_MINT, tickLower: 6910, tickUpper: 6950 }))) failures.push('valid range rejected');
+    if (errorCode(() => validateClmmPoolState(state, { tokenMint: 'So11111111111111111111111111111111111111112' })) !== 'NotTokenUsdcPool') failures.push('wrong token');
+    if (errorCode(() => validateClmmPoolState(state, { tokenMint: RAY_MINT, tickLower: -2, tickUpper: 2 })) !== 'TickNotAligned') failures.push('unaligned ticks');
+    if (errorCode(() => validateClmmPoolState({ ...state, status: 1 }, { tokenMint: RAY_MINT })) !== 'PoolNotOpen') failures.push('closed pool');
+
+    console.log('Testing tick arrays...');
+    const arrays = getClmmTickArrays(state, 6910, 6950);
+    if (arrays.lowerStartIndex !== 6600 || arrays.upperStartIndex !== 6600) failures.push(`start indexes: ${JSON.stringify(arrays)}`);
+    if (arrays.lower !== arrays.upper) failures.push('same array for both ticks');
+
+    console.log('Testing deposit math...');
+    // 1 RAY (6 decimals) at ~2 USDC in a range around the price needs USDC on the other side
+    const deposit = quoteClmmDeposit(state, { tickLower: 6910, tickUpper: 6950, inputIsA: true, amount: 1_000_000n, slippageBp: 100 });
+    if (deposit.amountA !== 1_000_000n) failures.push('input side kept');
+    if (deposit.amountB <= 0n || deposit.liquidity <= 0n) failures.push(`counterpart: ${deposit.amountB}`);
+    if (deposit.otherAmountMax !== (deposit.amountB * 10_100n) / 10_000n) failures.push('slippage on counterpart');
+    const above = quoteClmmDeposit(state, { tickLower: 7000, tickUpper: 7100, inputIsA: true, amount: 1_000_000n, slippageBp: 100 });
+    if (above.amountB !== 0n) failures.push('range above price needs only token A');
+    if (errorCode(() => quoteClmmDeposit(state, { tickLower: 6800, tickUpper: 6900, inputIsA: true, amount: 1n, slippageBp: 100 })) !== 'RangeNeedsOtherSide') failures.push('range below price');
+
+    if (failures.length) {
+      console.error('❌ Raydium CLMM pools test failed:', failures);
+    } else {
+      console.log('✅ Raydium CLMM pools test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Raydium CLMM pools test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testRaydiumClmmPools();
+}
+
+export { testRaydiumClmmPools };
@@ -1,37 +1,75 @@
 import { Connection, PublicKey } from "@solana/web3.js";
-import { Clmm } from "@raydium-io/raydium-sdk";
+import {
+  LiquidityMath,
+  MAINNET_PROGRAM_ID,
+  MAX_TICK,
+  MIN_TICK,
+  PoolInfoLayout,
+  SqrtPriceMath,
+  TickUtils,
+  getPdaPoolId,
+  getPdaTickArrayAddress,
+} from "@raydium-io/raydium-sdk";
+import BN from "bn.js";
+import { createHash } from "crypto";
 import { DEV_DISABLE_DEXSCR } from './env';
+import { CacheStats, createCache } from './cache';
+import { RaydiumError } from './raydiumErrorHandler';
 
 // USDC mint address for Solana mainnet
 export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 
+// Raydium CLMM program (owner of every pool state account)
+export const RAYDIUM_CLMM_PROGRAM_ID: PublicKey = MAINNET_PROGRAM_ID.CLMM;
+
 // Cache configuration
 const CACHE_TTL = 600 * 1000; // 10 minutes in milliseconds
+const STATE_CACHE_TTL = 15 * 1000; // Current tick / price move with every swap
 const REQUEST_TIMEOUT = 15000; // 15 seconds timeout
 
-// In-memory cache for CLMM pool discovery results
-const poolCache = new Map<string, { id: string | null; ts: number }>();
+// Shared cache for CLMM pool discovery results (null = no pool found)
+const poolCache = createCache<string | null>("raydium-clmm-pool", { ttlMs: CACHE_TTL });
+
+// Shared cache for decoded pool state accounts
+const stateCache = createCache<ClmmPoolState>("raydium-clmm-state", { ttlMs: STATE_CACHE_TTL });
 
-// Set up periodic cache cleanup every 15 minutes
-setInterval(clearExpiredCache, 15 * 60 * 1000);
+// Anchor account discriminator of PoolState
+const POOL_STATE_DISCRIMINATOR = createHash("sha256").update("account:PoolState").digest("hex").slice(0, 16);
+
+// PoolState.status bit that blocks opening / increasing positions
+const STATUS_OPEN_POSITION_DISABLED = 1 << 0;
 
 /**
- * Clear expired cache entries
+ * Decoded Raydium CLMM pool state
+ * Big numbers are decimal strings so the state round-trips through every cache backend
  */
-function clearExpiredCache() {
-  const now = Date.now();
-  for (const [key, value] of poolCache.entries()) {
-    if (now - value.ts > CACHE_TTL) {
-      poolCache.delete(key);
-    }
-  }
+export interface ClmmPoolState {
+  poolId: string;
+  programId: string;
+  ammConfig: string;
+  observationId: string;
+  mintA: string;
+  mintB: string;
+  vaultA: string;
+  vaultB: string;
+  decimalsA: number;
+  decimalsB: number;
+  tickSpacing: number;
+  tickCurrent: number;
+  sqrtPriceX64: string;
+  liquidity: string;
+  status: number;
+  tickArrayBitmap: string[]; // 16 u64 words of initialized tick arrays around tick 0
 }
 
 /**
- * Check if cached data is still valid
+ * Tick array accounts a position range touches
  */
-function isCacheValid(timestamp: number): boolean {
-  return Date.now() - timestamp < CACHE_TTL;
+export interface ClmmTickArrays {
+  lowerStartIndex: number;
+  upperStartIndex: number;
+  lower: string;
+  upper: string;
 }
 
 /**
@@ -136,12 +174,10 @@ async function validateClmmPool(connection: Connection, poolId: string): Promise
       return false;
     }
     
-    // Use basic validation for now
-    // In production, you would use the actual SDK method when available
+    // The pool must decode as a CLMM pool state account
     try {
-      // For now, just validate that it's a valid PublicKey format
-      // In production, you would make actual RPC calls to verify pool existence
-      console.log(`Pool validation passed for ${poolId} (basic format check)`);
+      await getClmmPoolState({ connection, poolId: poolPublicKey.toBase58() });
+      console.log(`Pool validation passed for ${poolId}`);
       return true;
       
     } catch (sdkError) {
@@ -171,15 +207,13 @@ export async function findClmmPoolId({
   connection: Connection; 
   tokenMint: string; 
 }): Promise<string | null> {
-  // Check cache first
-  const cacheKey = `clmm_${tokenMint}`;
-  const cached = poolCache.get(cacheKey);
-  
-  if (cached && isCacheValid(cached.ts)) {
-    console.log(`Using cached CLMM pool result for ${tokenMint}:`, cached.id);
-    return cached.id;
-  }
+  // Negative results are cached too, to avoid repeated failed lookups
+  return poolCache.getOrLoad(tokenMint, () => discoverClmmPoolId(connection, tokenMint), {
+    tags: [`mint:${tokenMint}`],
+  });
+}
 
+async function discoverClmmPoolId(connection: Connection, tokenMint: string): Promise<string | null> {
   console.log(`Searching for CLMM pool for ${tokenMint} vs USDC`);
 
   try {
@@ -204,8 +238,6 @@ export async function findClmmPoolId({
         const isValid = await validateClmmPool(connection, matchingPool.id);
         
         if (isValid) {
-          // Cache successful result
-          poolCache.set(cacheKey, { id: matchingPool.id, ts: Date.now() });
           return matchingPool.id;
         } else {
           console.warn(`Pool validation failed for ${matchingPool.id}`);
@@ -224,8 +256,6 @@ export async function findClmmPoolId({
       const isValid = await validateClmmPool(connection, dexScreenerPoolId);
       
       if (isValid) {
-        // Cache successful result
-        poolCache.set(cacheKey, { id: dexScreenerPoolId, ts: Date.now() });
         return dexScreenerPoolId;
       } else {
         console.warn(`Pool validation failed for ${dexScreenerPoolId}`);
@@ -234,53 +264,208 @@ export async function findClmmPoolId({
 
     // No valid pool found
     console.log(`No valid CLMM pool found for ${tokenMint} vs USDC`);
-    
-    // Cache negative result to avoid repeated failed lookups
-    poolCache.set(cacheKey, { id: null, ts: Date.now() });
     return null;
 
   } catch (error) {
     console.error('Error in CLMM pool discovery:', error);
-    
-    // Cache negative result on error
-    poolCache.set(cacheKey, { id: null, ts: Date.now() });
     return null;
   }
 }
 
 /**
- * Get cache statistics for debugging
+ * Address of the CLMM pool for an AmmConfig and a sorted mint pair
+ */
+export function deriveClmmPoolId(ammConfigId: PublicKey, mintA: PublicKey, mintB: PublicKey): PublicKey {
+  return getPdaPoolId(RAYDIUM_CLMM_PROGRAM_ID, ammConfigId, mintA, mintB).publicKey;
+}
+
+function poolStateError(code: string, message: string, poolId: string): RaydiumError {
+  return new RaydiumError(message, code, { operation: 'fetchPoolState', poolId }, false);
+}
+
+/**
+ * Decode a pool state account as returned by getAccountInfo
+ * 
+ * @throws RaydiumError InvalidPoolAccount when the account isn't a CLMM pool
+ */
+export function decodeClmmPoolState(
+  poolId: string,
+  account: { owner: PublicKey; data: Buffer }
+): ClmmPoolState {
+  if (!account.owner.equals(RAYDIUM_CLMM_PROGRAM_ID)) {
+    throw poolStateError('InvalidPoolAccount', `Account ${poolId} is not owned by the Raydium CLMM program`, poolId);
+  }
+  if (account.data.length < PoolInfoLayout.span || account.data.subarray(0, 8).toString("hex") !== POOL_STATE_DISCRIMINATOR) {
+    throw poolStateError('InvalidPoolAccount', `Account ${poolId} is not a Raydium CLMM pool state`, poolId);
+  }
+
+  const raw = PoolInfoLayout.decode(account.data);
+  return {
+    poolId,
+    programId: account.owner.toBase58(),
+    ammConfig: raw.ammConfig.toBase58(),
+    observationId: raw.observationId.toBase58(),
+    mintA: raw.mintA.toBase58(),
+    mintB: raw.mintB.toBase58(),
+    vaultA: raw.vaultA.toBase58(),
+    vaultB: raw.vaultB.toBase58(),
+    decimalsA: raw.mintDecimalsA,
+    decimalsB: raw.mintDecimalsB,
+    tickSpacing: raw.tickSpacing,
+    tickCurrent: raw.tickCurrent,
+    sqrtPriceX64: raw.sqrtPriceX64.toString(),
+    liquidity: raw.liquidity.toString(),
+    status: raw.status,
+    tickArrayBitmap: raw.tickArrayBitmap.map((word) => word.toString()),
+  };
+}
+
+/**
+ * Fetch and decode a CLMM pool state account (cached for 15s)
+ * 
+ * @throws RaydiumError NoPool when the account doesn't exist, InvalidPoolAccount when it isn't a pool
+ */
+export async function getClmmPoolState({
+  connection,
+  poolId,
+  bust = false,
+}: {
+  connection: Connection;
+  poolId: string;
+  bust?: boolean; // Skip the cache, e.g. right before building a transaction
+}): Promise<ClmmPoolState> {
+  return stateCache.getOrLoad(poolId, async () => {
+    const account = await connection.getAccountInfo(new PublicKey(poolId));
+    if (!account) {
+      throw poolStateError('NoPool', `CLMM pool ${poolId} not found`, poolId);
+    }
+    return decodeClmmPoolState(poolId, account);
+  }, { bust, tags: [`pool:${poolId}`] });
+}
+
+/**
+ * Check a pool against what the quote / commit request expects
+ * 
+ * @throws RaydiumError NotTokenUsdcPool, PoolNotOpen, TickOutOfRange or TickNotAligned
+ */
+export function validateClmmPoolState(
+  state: ClmmPoolState,
+  { tokenMint, tickLower, tickUpper }: { tokenMint: string; tickLower?: number; tickUpper?: number }
+): void {
+  const mints = [state.mintA, state.mintB];
+  if (!mints.includes(tokenMint) || !mints.includes(USDC_MINT)) {
+    throw poolStateError('NotTokenUsdcPool', `Pool ${state.poolId} is not a ${tokenMint}/USDC pool`, state.poolId);
+  }
+  if (state.status & STATUS_OPEN_POSITION_DISABLED) {
+    throw poolStateError('PoolNotOpen', `Pool ${state.poolId} is not accepting new liquidity`, state.poolId);
+  }
+  if (tickLower === undefined || tickUpper === undefined) return;
+
+  if (tickLower < MIN_TICK || tickUpper > MAX_TICK) {
+    throw poolStateError('TickOutOfRange', `Ticks must be within ${MIN_TICK}..${MAX_TICK}`, state.poolId);
+  }
+  if (tickLower % state.tickSpacing !== 0 || tickUpper % state.tickSpacing !== 0) {
+    throw poolStateError(
+      'TickNotAligned',
+      `Tick boundaries must be multiples of pool tick spacing (${state.tickSpacing})`,
+      state.poolId
+    );
+  }
+}
+
+/**
+ * Tick array accounts holding a range's lower and upper ticks
+ */
+export function getClmmTickArrays(state: ClmmPoolState, tickLower: number, tickUpper: number): ClmmTickArrays {
+  const programId = new PublicKey(state.programId);
+  const poolId = new PublicKey(state.poolId);
+  const lowerStartIndex = TickUtils.getTickArrayStartIndexByTick(tickLower, state.tickSpacing);
+  const upperStartIndex = TickUtils.getTickArrayStartIndexByTick(tickUpper, state.tickSpacing);
+  return {
+    lowerStartIndex,
+    upperStartIndex,
+    lower: getPdaTickArrayAddress(programId, poolId, lowerStartIndex).publicKey.toBase58(),
+    upper: getPdaTickArrayAddress(programId, poolId, upperStartIndex).publicKey.toBase58(),
+  };
+}
+
+/**
+ * Amounts for opening a position from one side's input (base units)
+ */
+export interface ClmmDepositQuote {
+  amountA: bigint;
+  amountB: bigint;
+  liquidity: bigint;
+  otherAmountMax: bigint;  // Counterpart amount plus slippage
+}
+
+/**
+ * Liquidity and counterpart amount for depositing `amount` of one side
+ * into [tickLower, tickUpper] at the pool's current price
+ * 
+ * @throws RaydiumError RangeNeedsOtherSide when the range holds only the other token
  */
-export function getPoolCacheStats(): { 
-  size: number; 
-  entries: Array<{ key: string; age: number; hasPool: boolean }> 
-} {
-  const now = Date.now();
-  const entries = Array.from(poolCache.entries()).map(([key, value]) => ({
-    key,
-    age: Math.floor((now - value.ts) / 1000),
-    hasPool: value.id !== null
-  }));
+export function quoteClmmDeposit(
+  state: ClmmPoolState,
+  { tickLower, tickUpper, inputIsA, amount, slippageBp }: {
+    tickLower: number;
+    tickUpper: number;
+    inputIsA: boolean;
+    amount: bigint;
+    slippageBp: number;
+  }
+): ClmmDepositQuote {
+  const sqrtCurrent = new BN(state.sqrtPriceX64);
+  const sqrtLower = SqrtPriceMath.getSqrtPriceX64FromTick(tickLower);
+  const sqrtUpper = SqrtPriceMath.getSqrtPriceX64FromTick(tickUpper);
+  const amountBn = new BN(amount.toString());
+
+  // Token A only funds the part of the range above the price, token B the part below
+  const onlyOtherSide = inputIsA ? sqrtCurrent.gte(sqrtUpper) : sqrtCurrent.lte(sqrtLower);
+  if (onlyOtherSide) {
+    throw new RaydiumError(
+      `Range is ${inputIsA ? 'below' : 'above'} the current price and only holds token ${inputIsA ? 'B' : 'A'}`,
+      'RangeNeedsOtherSide',
+      { operation: 'computeQuote', poolId: state.poolId },
+      false
+    );
+  }
 
+  const liquidity = inputIsA
+    ? LiquidityMath.getLiquidityFromTokenAmountA(BN.max(sqrtCurrent, sqrtLower), sqrtUpper, amountBn, false)
+    : LiquidityMath.getLiquidityFromTokenAmountB(sqrtLower, BN.min(sqrtCurrent, sqrtUpper), amountBn);
+  const amounts = LiquidityMath.getAmountsFromLiquidity(sqrtCurrent, sqrtLower, sqrtUpper, liquidity, true);
+
+  const amountA = inputIsA ? amount : BigInt(amounts.amountA.toString());
+  const amountB = inputIsA ? BigInt(amounts.amountB.toString()) : amount;
+  const other = inputIsA ? amountB : amountA;
   return {
-    size: poolCache.size,
-    entries: entries.slice(0, 10) // Show first 10 entries
+    amountA,
+    amountB,
+    liquidity: BigInt(liquidity.toString()),
+    otherAmountMax: other * BigInt(10_000 + slippageBp) / BigInt(10_000),
   };
 }
 
+/**
+ * Get cache statistics for debugging
+ */
+export function getPoolCacheStats(): CacheStats {
+  return poolCache.stats();
+}
+
 /**
  * Clear specific cache entry
  */
-export function clearPoolCache(tokenMint: string): void {
-  const cacheKey = `clmm_${tokenMint}`;
-  poolCache.delete(cacheKey);
+export async function clearPoolCache(tokenMint: string): Promise<void> {
+  await poolCache.delete(tokenMint);
   console.log(`Cleared cache for ${tokenMint}`);
 }
 
 /**
  * Clear all pool cache
  */
-export function clearAllPoolCache(): void {
-  poolCache.clear();
+export async function clearAllPoolCache(): Promise<void> {
+  await poolCache.clear();
   console.log('Cleared all pool cache');
 }
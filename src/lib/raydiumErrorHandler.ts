@@ -38,6 +38,11 @@ export class RaydiumError extends Error {
  * Map Raydium SDK errors to user-friendly messages and retry logic
  */
 export function mapRaydiumError(error: any, context: RaydiumErrorContext): RaydiumError {
+  // Already mapped (e.g. thrown by a nested operation); keep its code
+  if (error instanceof RaydiumError) {
+    return error;
+  }
+
   const errorMessage = error?.message || error?.toString() || 'Unknown error';
   
   // SDK-specific error patterns
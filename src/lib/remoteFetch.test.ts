@@ -0,0 +1,46 @@
+// Simple test for the user-supplied URL checks (no network needed)
+import { fetchPublicUrl, isPrivateAddress, isPublicHost, toFetchableUrl } from './remoteFetch';
+
+async function testRemoteFetch() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing private address detection...');
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      if (!isPrivateAddress(ip)) failures.push(`${ip} treated as public`);
+    }
+    for (const ip of ['1.1.1.1', '8.8.8.8', '172.32.0.1', '2606:4700:4700::1111']) {
+      if (isPrivateAddress(ip)) failures.push(`${ip} treated as private`);
+    }
+
+    console.log('Testing URI mapping...');
+    if (toFetchableUrl('ipfs://QmHash/meta.json')?.protocol !== 'https:') failures.push('ipfs gateway');
+    if (toFetchableUrl('ar://TxId')?.toString() !== 'https://arweave.net/TxId') failures.push('arweave gateway');
+    for (const uri of ['http://example.com/a.json', 'file:///etc/passwd', 'gopher://x', 'https://user:pw@example.com/', 'not a url']) {
+      if (toFetchableUrl(uri) !== null) failures.push(`${uri} accepted`);
+    }
+
+    console.log('Testing host checks...');
+    for (const uri of ['https://127.0.0.1/', 'https://[::1]/', 'https://169.254.169.254/latest/meta-data', 'https://[::ffff:127.0.0.1]/', 'https://localhost/', 'https://db.internal/']) {
+      const url = toFetchableUrl(uri);
+      if (!url || (await isPublicHost(url))) failures.push(`${uri} treated as public`);
+    }
+    if ((await fetchPublicUrl('https://127.0.0.1:3000/api/admin', { timeoutMs: 1000 })) !== null) failures.push('loopback fetched');
+
+    if (failures.length === 0) {
+      console.log('✅ Remote fetch test passed!');
+    } else {
+      console.log('❌ Remote fetch test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Remote fetch test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testRemoteFetch();
+}
+
+export { testRemoteFetch };
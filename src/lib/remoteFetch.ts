@@ -0,0 +1,126 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * Server-side fetches of user-supplied URLs (metadata JSON, logo probes)
+ *
+ * Creators control token URIs, so these requests must not reach the server's
+ * own network: only https URLs (and ipfs:// / ar:// through public gateways)
+ * are fetched, and hosts that are or resolve to private, loopback or
+ * link-local addresses are refused, including on every redirect hop.
+ */
+
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY_URL || "https://ipfs.io/ipfs/";
+const ARWEAVE_GATEWAY = "https://arweave.net/";
+const MAX_REDIRECTS = 3;
+
+// Hostnames that never point at the public internet
+const LOCAL_HOST_RE = /(^|\.)(localhost|local|internal|localdomain)$/i;
+
+function ipv4ToInt(ip: string): number {
+  return ip.split(".").reduce((acc, part) => (acc << 8) + Number(part), 0) >>> 0;
+}
+
+// [network, prefix length] of IPv4 ranges that aren't publicly routable
+const PRIVATE_V4: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],  // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],    // Multicast and reserved
+];
+
+/**
+ * True for loopback, private, link-local and other non-public IPv4 / IPv6 addresses
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) {
+    const n = ipv4ToInt(ip);
+    return PRIVATE_V4.some(([net, bits]) => (n >>> (32 - bits)) === (ipv4ToInt(net) >>> (32 - bits)));
+  }
+  if (version === 6) {
+    const lower = ip.toLowerCase();
+    // IPv4-mapped (::ffff:10.0.0.1) follows the IPv4 rules
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    // URL parsing rewrites it as hex (::ffff:7f00:1)
+    const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower);
+    if (mappedHex) {
+      const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+    }
+    if (lower === "::" || lower === "::1") return true;
+    // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+    return /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith("ff");
+  }
+  return true; // Not an IP at all
+}
+
+/**
+ * Map a token URI to the https URL to fetch
+ * ipfs:// and ar:// go through public gateways; anything other than https is refused
+ * @returns URL, or null when the URI can't be fetched safely
+ */
+export function toFetchableUrl(uri: string): URL | null {
+  const mapped = uri
+    .trim()
+    .replace(/^ipfs:\/\/(ipfs\/)?/i, IPFS_GATEWAY)
+    .replace(/^ar:\/\//i, ARWEAVE_GATEWAY);
+  let url: URL;
+  try {
+    url = new URL(mapped);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" || url.username || url.password) return null;
+  return url;
+}
+
+/**
+ * True when the URL's host is public (literal IPs are checked directly, names after DNS lookup)
+ */
+export async function isPublicHost(url: URL): Promise<boolean> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!host || LOCAL_HOST_RE.test(host)) return false;
+  if (isIP(host)) return !isPrivateAddress(host);
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every((a) => !isPrivateAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * fetch() a user-supplied URI, refusing private hosts and following at most MAX_REDIRECTS redirects
+ * @param opts.timeoutMs - Abort after this long (covers all hops and reading the body)
+ * @returns Response, or null when the URI is refused, unreachable or times out
+ */
+export async function fetchPublicUrl(
+  uri: string,
+  { timeoutMs, ...init }: Omit<RequestInit, "redirect" | "signal"> & { timeoutMs: number }
+): Promise<Response | null> {
+  let url = toFetchableUrl(uri);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    for (let hop = 0; url && hop <= MAX_REDIRECTS; hop++) {
+      if (!(await isPublicHost(url))) break;
+      const r = await fetch(url, { ...init, redirect: "manual", signal: controller.signal });
+      const location = r.status >= 300 && r.status < 400 ? r.headers.get("location") : null;
+      // The timer stays armed so a stalled body read is aborted too
+      if (!location) return r;
+      url = toFetchableUrl(new URL(location, url).toString());
+    }
+  } catch {
+    // Unreachable or aborted
+  }
+  clearTimeout(timer);
+  return null;
+}
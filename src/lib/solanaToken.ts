@@ -5,35 +5,63 @@ import {
   sendAndConfirmTransaction 
 } from "@solana/web3.js";
 import { 
-  getMint, 
   createSetAuthorityInstruction,
   createBurnInstruction,
   AuthorityType 
 } from "@solana/spl-token";
 import { WalletAdapter } from "@solana/wallet-adapter-base";
 import { retryWithBackoff } from "@/lib/confirmRetry";
+import { getMintAnyProgram } from "@/lib/token2022";
+import { previewOrThrow } from "@/lib/txPreview";
+import { applyComputeBudget, PriorityFeeChoice } from "@/lib/priorityFees";
+import { buildMetadataUpdateInstructions, MetadataLock, readMetadataState } from "@/lib/metadataUpdate";
 
 export interface MintAuthorities {
   mintAuthority: string | null;
   freezeAuthority: string | null;
 }
 
+export type RevokedAuthority = "mint" | "freeze" | "metadata";
+
 export interface RevokeResult {
   txid: string;
+  revoked: RevokedAuthority[];
+}
+
+/**
+ * Three-part honesty: mint authority, freeze authority and metadata
+ */
+export interface HonestVerification {
+  mintRevoked: boolean;
+  freezeRevoked: boolean;
+  metadataLocked: boolean | null; // null when the mint has no metadata
+  updateAuthority: string | null;
+  isHonest: boolean;      // Mint & freeze revoked (the on-chain badge rule)
+  isFullyHonest: boolean; // ...and name / symbol / logo can't be swapped
 }
 
+// Metadata that is already locked (or missing) is not an error when revoking
+const SKIPPABLE_METADATA_ERRORS = ["NoMetadata", "MetadataLocked"];
+
 /**
- * Revokes mint and freeze authorities from a token mint
+ * Revokes mint and freeze authorities from a token mint, and optionally locks
+ * the metadata in the same transaction
  * This enforces the "Honest Launch" preset by making the token immutable
+ * @param metadata - dropAuthority hands the update authority away, immutable
+ *                   sets isMutable=false; omit to leave the metadata alone
  */
 export async function revokeAuthorities({
   connection,
   wallet,
   mint,
+  priority,
+  metadata,
 }: {
   connection: Connection;
   wallet: { publicKey: PublicKey; signTransaction: (transaction: Transaction) => Promise<Transaction> };
   mint: string;
+  priority?: PriorityFeeChoice;
+  metadata?: MetadataLock;
 }): Promise<RevokeResult> {
   if (!wallet.publicKey || !wallet.signTransaction) {
     throw new Error("Wallet not connected or cannot sign transactions");
@@ -42,10 +70,11 @@ export async function revokeAuthorities({
   const mintPk = new PublicKey(mint);
   const walletPk = wallet.publicKey;
 
-  // Read current mint state
-  const mintInfo = await getMint(connection, mintPk);
+  // Read current mint state (SPL Token or Token-2022)
+  const { mint: mintInfo, programId } = await getMintAnyProgram(connection, mintPk);
   
   const instructions = [];
+  const revoked: RevokedAuthority[] = [];
 
   // Check if mint authority exists and needs to be revoked
   if (mintInfo.mintAuthority) {
@@ -54,9 +83,12 @@ export async function revokeAuthorities({
         mintPk,
         walletPk,
         AuthorityType.MintTokens,
-        null
+        null,
+        [],
+        programId
       )
     );
+    revoked.push("mint");
   }
 
   // Check if freeze authority exists and needs to be revoked
@@ -66,14 +98,31 @@ export async function revokeAuthorities({
         mintPk,
         walletPk,
         AuthorityType.FreezeAccount,
-        null
+        null,
+        [],
+        programId
       )
     );
+    revoked.push("freeze");
+  }
+
+  // Lock metadata alongside, so name and logo can't be swapped after launch
+  if (metadata?.dropAuthority || metadata?.immutable) {
+    try {
+      instructions.push(
+        ...(await buildMetadataUpdateInstructions({ connection, mint, authority: walletPk, lock: metadata }))
+      );
+      revoked.push("metadata");
+    } catch (error: any) {
+      if (!SKIPPABLE_METADATA_ERRORS.includes(error?.code)) throw error;
+    }
   }
 
   // If no instructions, authorities are already revoked
   if (instructions.length === 0) {
-    throw new Error("Mint and freeze authorities are already revoked");
+    throw new Error(
+      metadata ? "Mint, freeze and metadata authorities are already revoked" : "Mint and freeze authorities are already revoked"
+    );
   }
 
   // Create and send transaction
@@ -85,12 +134,17 @@ export async function revokeAuthorities({
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = walletPk;
 
+    await applyComputeBudget(connection, transaction, { payer: walletPk, priority });
+
+    // Simulate before the wallet prompt so a failing revoke is never signed
+    await previewOrThrow(connection, transaction);
+
     // Sign and send transaction
     const signedTx = await wallet.signTransaction(transaction);
     const txid = await connection.sendRawTransaction(signedTx.serialize());
     await connection.confirmTransaction(txid, "confirmed");
 
-    return { txid };
+    return { txid, revoked };
   } catch (error) {
     console.error("Transaction failed:", error);
     throw new Error(
@@ -123,7 +177,7 @@ export async function readMintAuthorities({
       throw new Error(`Invalid mint address format: ${mint}`);
     }
 
-    const mintInfo = await retryWithBackoff(() => getMint(connection, mintPk));
+    const { mint: mintInfo } = await retryWithBackoff(() => getMintAnyProgram(connection, mintPk));
 
     return {
       mintAuthority: mintInfo.mintAuthority?.toBase58() || null,
@@ -141,7 +195,9 @@ export async function readMintAuthorities({
 }
 
 /**
- * Verifies if a mint has honest launch (no mint or freeze authorities)
+ * Verifies if a mint has honest launch (no mint or freeze authorities) and
+ * whether its metadata is locked
+ * Read failures report everything as not revoked
  */
 export async function verifyHonestMint({
   connection,
@@ -149,13 +205,37 @@ export async function verifyHonestMint({
 }: {
   connection: Connection;
   mint: string;
-}): Promise<boolean> {
+}): Promise<HonestVerification> {
   try {
-    const authorities = await readMintAuthorities({ connection, mint });
-    return !authorities.mintAuthority && !authorities.freezeAuthority;
+    const [authorities, metadata] = await Promise.all([
+      readMintAuthorities({ connection, mint }),
+      // A failed metadata read only affects the third part
+      readMetadataState(connection, mint).catch((error) => {
+        console.warn("Failed to read metadata state:", error);
+        return undefined;
+      }),
+    ]);
+    const mintRevoked = !authorities.mintAuthority;
+    const freezeRevoked = !authorities.freezeAuthority;
+    const metadataLocked = metadata === undefined ? false : metadata === null ? null : metadata.locked;
+    return {
+      mintRevoked,
+      freezeRevoked,
+      metadataLocked,
+      updateAuthority: metadata?.updateAuthority ?? null,
+      isHonest: mintRevoked && freezeRevoked,
+      isFullyHonest: mintRevoked && freezeRevoked && metadataLocked !== false,
+    };
   } catch (error) {
     console.error("Failed to verify honest mint:", error);
-    return false;
+    return {
+      mintRevoked: false,
+      freezeRevoked: false,
+      metadataLocked: false,
+      updateAuthority: null,
+      isHonest: false,
+      isFullyHonest: false,
+    };
   }
 }
 
@@ -169,12 +249,14 @@ export async function burnLpTokens({
   lpMint,
   ownerTokenAccount,
   amount,
+  priority,
 }: {
   connection: Connection;
   wallet: { publicKey: PublicKey; signTransaction: (transaction: Transaction) => Promise<Transaction> };
   lpMint: string;
   ownerTokenAccount: string;
   amount: bigint;
+  priority?: PriorityFeeChoice;
 }): Promise<{ txid: string }> {
   if (!wallet.publicKey || !wallet.signTransaction) {
     throw new Error("Wallet not connected or cannot sign transactions");
@@ -201,6 +283,11 @@ export async function burnLpTokens({
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = walletPk;
 
+    await applyComputeBudget(connection, transaction, { payer: walletPk, priority });
+
+    // Simulate first: burning is irreversible, so fail before the wallet prompt
+    await previewOrThrow(connection, transaction);
+
     // Sign and send transaction
     const signedTx = await wallet.signTransaction(transaction);
     const txid = await connection.sendRawTransaction(signedTx.serialize());
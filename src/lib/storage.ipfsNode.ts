@@ -0,0 +1,34 @@
+import axios from "axios";
+import FormData from "form-data";
+import type { PutOptions, StorageProvider, StoredObject } from "./storage";
+
+// Any node exposing the Kubo RPC API (self-hosted kubo, Filebase, Infura, …)
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY_URL || "https://ipfs.io/ipfs/";
+
+export const ipfsNodeProvider: StorageProvider = {
+  name: "ipfs",
+
+  isConfigured() {
+    return !!process.env.IPFS_API_URL;
+  },
+
+  async put(data: Buffer, options: PutOptions): Promise<StoredObject> {
+    const formData = new FormData();
+    formData.append("file", data, { filename: options.filename, contentType: options.contentType });
+
+    const apiUrl = (process.env.IPFS_API_URL as string).replace(/\/+$/, "");
+    const response = await axios.post(`${apiUrl}/api/v0/add?pin=true&cid-version=1`, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        // e.g. "Basic base64(projectId:secret)" or "Bearer <token>"
+        ...(process.env.IPFS_API_AUTH ? { Authorization: process.env.IPFS_API_AUTH } : {}),
+      },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    const cid = response.data?.Hash;
+    if (!cid) throw new Error("IPFS node did not return a CID");
+    return { provider: "ipfs", id: cid, uri: `${IPFS_GATEWAY}${cid}` };
+  },
+};
@@ -0,0 +1,162 @@
+import axios from "axios";
+import crypto from "crypto";
+import nacl from "tweetnacl";
+import type { PutOptions, StorageProvider, StoredObject } from "./storage";
+
+/**
+ * Arweave storage through an Irys bundler node
+ *
+ * Uploads are ANS-104 data items signed with a funded Solana key
+ * (IRYS_SECRET_KEY, the JSON byte array from solana-keygen). The item is
+ * built and signed here so no bundler SDK is needed on the server.
+ */
+
+const IRYS_NODE_URL = process.env.IRYS_NODE_URL || "https://uploader.irys.xyz";
+const IRYS_GATEWAY = process.env.IRYS_GATEWAY_URL || "https://gateway.irys.xyz/";
+
+// ANS-104 signature type for ed25519 (Solana) keys
+const SIGNATURE_TYPE_ED25519 = 2;
+
+const utf8 = (s: string) => new TextEncoder().encode(s);
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function sha384(data: Uint8Array): Uint8Array {
+  return new Uint8Array(crypto.createHash("sha384").update(data).digest());
+}
+
+/**
+ * Arweave deep hash over a nested list of byte chunks
+ */
+export function deepHash(data: Uint8Array | Uint8Array[]): Uint8Array {
+  if (Array.isArray(data)) {
+    let acc = sha384(utf8(`list${data.length}`));
+    for (const chunk of data) {
+      acc = sha384(concatBytes([acc, deepHash(chunk)]));
+    }
+    return acc;
+  }
+  const tag = sha384(utf8(`blob${data.length}`));
+  return sha384(concatBytes([tag, sha384(data)]));
+}
+
+// Avro zig-zag varint, as used by ANS-104 tag encoding
+function avroLong(n: number): Uint8Array {
+  let z = n >= 0 ? n * 2 : -n * 2 - 1;
+  const bytes: number[] = [];
+  do {
+    let b = z % 128;
+    z = Math.floor(z / 128);
+    if (z > 0) b |= 0x80;
+    bytes.push(b);
+  } while (z > 0);
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Avro-encode tags as ANS-104 expects (one array block + terminator)
+ */
+export function encodeTags(tags: { name: string; value: string }[]): Uint8Array {
+  if (tags.length === 0) return new Uint8Array(0);
+  const parts: Uint8Array[] = [avroLong(tags.length)];
+  for (const tag of tags) {
+    for (const field of [tag.name, tag.value]) {
+      const bytes = utf8(field);
+      parts.push(avroLong(bytes.length), bytes);
+    }
+  }
+  parts.push(avroLong(0));
+  return concatBytes(parts);
+}
+
+function u16le(n: number): Uint8Array {
+  return Uint8Array.from([n & 0xff, (n >> 8) & 0xff]);
+}
+
+function u64le(n: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(n), true);
+  return out;
+}
+
+/**
+ * Build and sign an ANS-104 data item (no target, no anchor)
+ * @returns The serialised item and its id (base64url sha256 of the signature)
+ */
+export function createDataItem(
+  data: Uint8Array,
+  tags: { name: string; value: string }[],
+  secretKey: Uint8Array
+): { id: string; bytes: Uint8Array } {
+  const keyPair = nacl.sign.keyPair.fromSecretKey(secretKey);
+  const owner = keyPair.publicKey;
+  const rawTags = encodeTags(tags);
+
+  const message = deepHash([
+    utf8("dataitem"),
+    utf8("1"),
+    utf8(String(SIGNATURE_TYPE_ED25519)),
+    owner,
+    new Uint8Array(0), // target
+    new Uint8Array(0), // anchor
+    rawTags,
+    data,
+  ]);
+  const signature = nacl.sign.detached(message, keyPair.secretKey);
+
+  const bytes = concatBytes([
+    u16le(SIGNATURE_TYPE_ED25519),
+    signature,
+    owner,
+    Uint8Array.from([0]), // no target
+    Uint8Array.from([0]), // no anchor
+    u64le(tags.length),
+    u64le(rawTags.length),
+    rawTags,
+    data,
+  ]);
+  const id = crypto.createHash("sha256").update(signature).digest("base64url");
+  return { id, bytes };
+}
+
+function irysSecretKey(): Uint8Array | null {
+  try {
+    const parsed = JSON.parse(process.env.IRYS_SECRET_KEY || "");
+    return Array.isArray(parsed) && parsed.length === 64 ? Uint8Array.from(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+export const irysProvider: StorageProvider = {
+  name: "irys",
+
+  isConfigured() {
+    return !!irysSecretKey();
+  },
+
+  async put(data: Buffer, options: PutOptions): Promise<StoredObject> {
+    const secretKey = irysSecretKey();
+    if (!secretKey) throw new Error("IRYS_SECRET_KEY is not a 64-byte key array");
+
+    // Content-Type tag makes the gateway serve the right MIME type
+    const item = createDataItem(new Uint8Array(data), [{ name: "Content-Type", value: options.contentType }], secretKey);
+
+    const response = await axios.post(`${IRYS_NODE_URL.replace(/\/+$/, "")}/tx/solana`, item.bytes, {
+      headers: { "Content-Type": "application/octet-stream" },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    const id = response.data?.id || item.id;
+    return { provider: "irys", id, uri: `${IRYS_GATEWAY}${id}` };
+  },
+};
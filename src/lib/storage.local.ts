@@ -0,0 +1,39 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { PutOptions, StorageProvider, StoredObject } from "./storage";
+
+// Defaults serve files from Next's public/ folder in `next dev`
+const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), "public", "storage");
+const LOCAL_STORAGE_BASE_URL = process.env.LOCAL_STORAGE_BASE_URL || "http://localhost:3000/storage";
+
+const EXTENSIONS: Record<string, string> = {
+  "application/json": "json",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * Local filesystem storage for development and tests
+ * Files are content-addressed (sha256) so re-uploads are idempotent
+ */
+export const localProvider: StorageProvider = {
+  name: "local",
+
+  isConfigured() {
+    return process.env.NODE_ENV !== "production" || process.env.LOCAL_STORAGE_ENABLED === "true";
+  },
+
+  async put(data: Buffer, options: PutOptions): Promise<StoredObject> {
+    const hash = crypto.createHash("sha256").update(new Uint8Array(data)).digest("hex");
+    const ext = EXTENSIONS[options.contentType] || path.extname(options.filename).slice(1) || "bin";
+    const name = `${hash}.${ext}`;
+
+    await fs.promises.mkdir(LOCAL_STORAGE_DIR, { recursive: true });
+    await fs.promises.writeFile(path.join(LOCAL_STORAGE_DIR, name), new Uint8Array(data));
+
+    return { provider: "local", id: name, uri: `${LOCAL_STORAGE_BASE_URL.replace(/\/+$/, "")}/${name}` };
+  },
+};
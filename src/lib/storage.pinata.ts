@@ -0,0 +1,33 @@
+import axios from "axios";
+import FormData from "form-data";
+import type { PutOptions, StorageProvider, StoredObject } from "./storage";
+
+// Pinata pinning API; keys are server-side only (no NEXT_PUBLIC_ prefix)
+const PINATA_API_URL = "https://api.pinata.cloud/pinning/pinFileToIPFS";
+const PINATA_GATEWAY = process.env.PINATA_GATEWAY_URL || "https://gateway.pinata.cloud/ipfs/";
+
+export const pinataProvider: StorageProvider = {
+  name: "pinata",
+
+  isConfigured() {
+    return !!process.env.PINATA_API_KEY && !!process.env.PINATA_SECRET_API_KEY;
+  },
+
+  async put(data: Buffer, options: PutOptions): Promise<StoredObject> {
+    const formData = new FormData();
+    formData.append("file", data, { filename: options.filename, contentType: options.contentType });
+
+    const response = await axios.post(PINATA_API_URL, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        pinata_api_key: process.env.PINATA_API_KEY as string,
+        pinata_secret_api_key: process.env.PINATA_SECRET_API_KEY as string,
+      },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+
+    const cid = response.data.IpfsHash;
+    return { provider: "pinata", id: cid, uri: `${PINATA_GATEWAY}${cid}` };
+  },
+};
@@ -0,0 +1,88 @@
+// Simple test for storage provider selection, fallback and Irys data items
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nacl from 'tweetnacl';
+
+async function testStorage() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+  try {
+    const failures: string[] = [];
+    // Providers read their env at import time
+    process.env.LOCAL_STORAGE_DIR = dir;
+    process.env.LOCAL_STORAGE_BASE_URL = 'http://localhost:3000/storage';
+    process.env.IPFS_API_URL = 'http://127.0.0.1:9'; // Nothing listens here
+    delete process.env.PINATA_API_KEY;
+    const { getStorageProviders, storeJson } = await import('./storage');
+    const { createDataItem, deepHash, encodeTags } = await import('./storage.irys');
+
+    console.log('Testing provider selection...');
+    process.env.STORAGE_PROVIDERS = 'pinata, ipfs,local,bogus';
+    const names = getStorageProviders().map((p) => p.name).join(',');
+    if (names !== 'ipfs,local') failures.push(`explicit order: ${names}`);
+    delete process.env.STORAGE_PROVIDERS;
+    if (getStorageProviders().map((p) => p.name).join(',') !== 'ipfs,local') failures.push('default order');
+
+    console.log('Testing fallback to the next provider...');
+    process.env.STORAGE_PROVIDERS = 'ipfs,local';
+    const stored = await storeJson({ name: 'Test' });
+    if (stored.provider !== 'local') failures.push('did not fall back to local');
+    if (!stored.uri.startsWith('http://localhost:3000/storage/') || !stored.uri.endsWith('.json')) failures.push('local uri');
+    if (fs.readFileSync(path.join(dir, stored.id), 'utf8') !== '{"name":"Test"}') failures.push('local file content');
+    const again = await storeJson({ name: 'Test' });
+    if (again.id !== stored.id) failures.push('local storage not content-addressed');
+
+    process.env.STORAGE_PROVIDERS = 'ipfs';
+    try {
+      await storeJson({ name: 'Test' });
+      failures.push('all-failed upload resolved');
+    } catch (error: any) {
+      if (error?.code !== 'StorageUnavailable') failures.push(`all-failed code: ${error?.code}`);
+    }
+    delete process.env.STORAGE_PROVIDERS;
+
+    console.log('Testing Irys data items...');
+    if (Buffer.from(encodeTags([{ name: 'a', value: 'bc' }])).toString('hex') !== '02026104626300') failures.push('avro tags');
+    const key = nacl.sign.keyPair();
+    const data = new TextEncoder().encode('{"name":"Test"}');
+    const tags = [{ name: 'Content-Type', value: 'application/json' }];
+    const item = createDataItem(data, tags, key.secretKey);
+    const rawTags = encodeTags(tags);
+    const bytes = Buffer.from(item.bytes);
+    if (bytes.readUInt16LE(0) !== 2) failures.push('signature type');
+    const signature = item.bytes.slice(2, 66);
+    if (bytes.subarray(66, 98).toString('hex') !== Buffer.from(key.publicKey).toString('hex')) failures.push('owner');
+    if (Number(bytes.readBigUInt64LE(100)) !== 1 || Number(bytes.readBigUInt64LE(108)) !== rawTags.length) failures.push('tag header');
+    if (bytes.length !== 116 + rawTags.length + data.length) failures.push('item length');
+    const message = deepHash([
+      new TextEncoder().encode('dataitem'),
+      new TextEncoder().encode('1'),
+      new TextEncoder().encode('2'),
+      key.publicKey,
+      new Uint8Array(0),
+      new Uint8Array(0),
+      rawTags,
+      data,
+    ]);
+    if (!nacl.sign.detached.verify(message, signature, key.publicKey)) failures.push('signature does not verify');
+    if (!/^[A-Za-z0-9_-]{43}$/.test(item.id)) failures.push('item id');
+
+    if (failures.length === 0) {
+      console.log('✅ Storage test passed!');
+    } else {
+      console.log('❌ Storage test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Storage test failed:', error);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testStorage();
+}
+
+export { testStorage };
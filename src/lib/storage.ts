@@ -0,0 +1,96 @@
+import { pinataProvider } from "./storage.pinata";
+import { irysProvider } from "./storage.irys";
+import { ipfsNodeProvider } from "./storage.ipfsNode";
+import { localProvider } from "./storage.local";
+
+/**
+ * Pluggable storage for token images and metadata JSON (server-side only)
+ *
+ * STORAGE_PROVIDERS lists the backends to try, in order, e.g. "pinata,irys".
+ * When it is unset every configured remote provider is used (pinata, irys,
+ * ipfs), falling back to the local filesystem outside production. Each upload
+ * goes to the first provider that succeeds, so a rate-limited Pinata doesn't
+ * stop token creation.
+ */
+
+export const STORAGE_PROVIDER_NAMES = ["pinata", "irys", "ipfs", "local"] as const;
+export type StorageProviderName = (typeof STORAGE_PROVIDER_NAMES)[number];
+
+export interface StoredObject {
+  provider: StorageProviderName;
+  id: string; // CID (pinata / ipfs), Arweave tx id (irys) or file name (local)
+  uri: string; // Public URL to reference from metadata / on-chain
+}
+
+export interface PutOptions {
+  filename: string;
+  contentType: string;
+}
+
+export interface StorageProvider {
+  name: StorageProviderName;
+  isConfigured(): boolean;
+  put(data: Buffer, options: PutOptions): Promise<StoredObject>;
+}
+
+const PROVIDERS: Record<StorageProviderName, StorageProvider> = {
+  pinata: pinataProvider,
+  irys: irysProvider,
+  ipfs: ipfsNodeProvider,
+  local: localProvider,
+};
+
+/**
+ * Providers to try, in order, after applying STORAGE_PROVIDERS
+ * Unknown or unconfigured names are skipped
+ */
+export function getStorageProviders(): StorageProvider[] {
+  const configured = (process.env.STORAGE_PROVIDERS || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (configured.length) {
+    return configured
+      .filter((name): name is StorageProviderName => (STORAGE_PROVIDER_NAMES as readonly string[]).includes(name))
+      .map((name) => PROVIDERS[name])
+      .filter((p) => p.isConfigured());
+  }
+
+  const remote = [pinataProvider, irysProvider, ipfsNodeProvider].filter((p) => p.isConfigured());
+  return process.env.NODE_ENV === "production" ? remote : [...remote, localProvider];
+}
+
+/**
+ * Store a file with the first provider that accepts it
+ * @throws Error with code StorageNotConfigured (no providers) or StorageUnavailable (all failed)
+ */
+export async function storeFile(data: Buffer, options: PutOptions): Promise<StoredObject> {
+  const providers = getStorageProviders();
+  if (providers.length === 0) {
+    const e: any = new Error("No storage provider is configured");
+    e.code = "StorageNotConfigured";
+    throw e;
+  }
+
+  const failures: string[] = [];
+  for (const provider of providers) {
+    try {
+      return await provider.put(data, options);
+    } catch (error: any) {
+      console.warn(`[storage] ${provider.name} upload failed:`, error?.message);
+      failures.push(`${provider.name}: ${error?.message || "upload failed"}`);
+    }
+  }
+
+  const e: any = new Error(`All storage providers failed (${failures.join("; ")})`);
+  e.code = "StorageUnavailable";
+  throw e;
+}
+
+/**
+ * Store a JSON document (token metadata)
+ */
+export async function storeJson(json: unknown, filename = "metadata.json"): Promise<StoredObject> {
+  return storeFile(Buffer.from(JSON.stringify(json)), { filename, contentType: "application/json" });
+}
@@ -0,0 +1,98 @@
+// Simple test for tick math and range presets
+import { SqrtPriceMath } from '@raydium-io/raydium-sdk';
+import {
+  amountsFromLiquidity,
+  liquidityFromAmounts,
+  MAX_TICK,
+  MIN_TICK,
+  priceToTick,
+  snapTick,
+  sqrtPriceX64ToTick,
+  tickToPrice,
+  tickToSqrtPriceX64,
+} from './ticks';
+import { isTokenOnlyRange, parseRangeChoice, resolveRange } from './rangePresets';
+
+function testTicks() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing sqrt price against the Raydium SDK...');
+    for (const tick of [MIN_TICK, -69082, -1, 0, 1, 64, 12345, MAX_TICK]) {
+      const ours = tickToSqrtPriceX64(tick);
+      const sdk = BigInt(SqrtPriceMath.getSqrtPriceX64FromTick(tick).toString());
+      if (ours !== sdk) failures.push(`tick ${tick}: ${ours} vs ${sdk}`);
+      if (sqrtPriceX64ToTick(ours) !== tick) failures.push(`round trip ${tick}: ${sqrtPriceX64ToTick(ours)}`);
+    }
+
+    console.log('Testing price <-> tick...');
+    for (const tick of [-50000, -7, 0, 3, 42000]) {
+      const back = priceToTick(tickToPrice(tick, 9, 6), 9, 6);
+      if (back !== tick) failures.push(`price round trip ${tick}: ${back}`);
+    }
+
+    console.log('Testing tick spacing...');
+    if (snapTick(-65, 64, 'floor') !== -128) failures.push(`floor: ${snapTick(-65, 64, 'floor')}`);
+    if (snapTick(-65, 64, 'ceil') !== -64) failures.push(`ceil: ${snapTick(-65, 64, 'ceil')}`);
+    if (snapTick(MAX_TICK, 64) !== 443584) failures.push(`max usable: ${snapTick(MAX_TICK, 64)}`);
+
+    console.log('Testing liquidity <-> amounts...');
+    const lower = tickToSqrtPriceX64(-640);
+    const upper = tickToSqrtPriceX64(640);
+    const current = tickToSqrtPriceX64(0);
+    const liquidity = liquidityFromAmounts(current, lower, upper, 1_000_000_000n, 1_000_000_000n);
+    const { amountA, amountB } = amountsFromLiquidity(current, lower, upper, liquidity, true);
+    if (amountA > 1_000_000_000n || amountB > 1_000_000_000n) failures.push(`amounts exceed deposit: ${amountA} / ${amountB}`);
+    if (amountA < 999_000_000n && amountB < 999_000_000n) failures.push(`neither side used: ${amountA} / ${amountB}`);
+    const below = amountsFromLiquidity(tickToSqrtPriceX64(-1000), lower, upper, liquidity);
+    if (below.amountB !== 0n) failures.push(`below range holds B: ${below.amountB}`);
+
+    console.log('Testing range presets...');
+    const pool = { currentTick: 100, tickSpacing: 64, decimalsA: 6, decimalsB: 6 };
+    for (const tokenIsA of [true, false]) {
+      const above = resolveRange({ strategy: 'above', percent: 20 }, { ...pool, tokenIsA });
+      // Token-only: the token is A below the range in ticks, B above it
+      if (above.deposit !== (tokenIsA ? 'A' : 'B')) failures.push(`above (tokenIsA=${tokenIsA}): ${above.deposit}`);
+      const belowRange = resolveRange({ strategy: 'below', percent: 20 }, { ...pool, tokenIsA });
+      if (belowRange.deposit !== (tokenIsA ? 'B' : 'A')) failures.push(`below (tokenIsA=${tokenIsA}): ${belowRange.deposit}`);
+      const band = resolveRange({ strategy: 'percent', percent: 10 }, { ...pool, tokenIsA });
+      if (band.deposit !== 'both' || band.tickLower % 64 || band.tickUpper % 64) failures.push(`percent: ${JSON.stringify(band)}`);
+    }
+    try {
+      resolveRange({ strategy: 'custom', priceLower: 2, priceUpper: 1 }, { ...pool, tokenIsA: true });
+      failures.push('inverted custom range accepted');
+    } catch (error: any) {
+      if (error.code !== 'InvalidRange') failures.push(`custom code: ${error.code}`);
+    }
+
+    console.log('Testing token-only ranges...');
+    const single = parseRangeChoice({ strategy: 'percent', percent: 30, tokenOnly: '1' });
+    if (single.strategy !== 'above' || !single.tokenOnly) failures.push(`token-only parse: ${JSON.stringify(single)}`);
+    for (const tokenIsA of [true, false]) {
+      const r = resolveRange(single, { ...pool, tokenIsA });
+      if (!isTokenOnlyRange(pool.currentTick, r.tickLower, r.tickUpper, tokenIsA)) failures.push(`token-only (tokenIsA=${tokenIsA}): ${JSON.stringify(r)}`);
+    }
+    try {
+      // Token price at tick 100 is ~1.01; a band around it would need the quote side too
+      resolveRange({ strategy: 'custom', priceLower: 0.5, priceUpper: 2, tokenOnly: true }, { ...pool, tokenIsA: true });
+      failures.push('token-only custom range spanning the price accepted');
+    } catch (error: any) {
+      if (error.code !== 'InvalidRange') failures.push(`token-only custom code: ${error.code}`);
+    }
+
+    if (failures.length) {
+      console.error('❌ Ticks test failed:', failures);
+    } else {
+      console.log('✅ Ticks test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Ticks test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testTicks();
+}
+
+export { testTicks };
@@ -0,0 +1,248 @@
+/**
+ * Concentrated-liquidity tick math shared by Orca Whirlpools and Raydium CLMM
+ *
+ * Both venues price token B in token A as 1.0001^tick (base units) and store
+ * the square root of that price as a Q64.64 fixed-point u128. Everything here
+ * is pure bigint / number math, so it runs in API routes and in the browser.
+ *
+ * "Price" in this module is the UI price of 1 token A in token B (decimals
+ * applied). Callers that show the token's price in SOL / USDC invert it when
+ * the token sorts second (see rangePresets).
+ */
+
+export const MIN_TICK = -443636;
+export const MAX_TICK = 443636;
+export const Q64 = 1n << 64n;
+export const MIN_SQRT_PRICE_X64 = 4295048016n;
+export const MAX_SQRT_PRICE_X64 = 79226673521066979257578248091n;
+
+const MAX_U128 = (1n << 128n) - 1n;
+const LOG_TICK_BASE = Math.log(1.0001);
+
+// sqrt(1.0001^-(2^i)) in Q64.64 for bit i of |tick| (Uniswap v3 / Whirlpool constants)
+const TICK_RATIOS = [
+  18445821805675395072n,
+  18444899583751176192n,
+  18443055278223355904n,
+  18439367220385607680n,
+  18431993317065453568n,
+  18417254355718170624n,
+  18387811781193609216n,
+  18329067761203558400n,
+  18212142134806163456n,
+  17980523815641700352n,
+  17526086738831433728n,
+  16651378430235570176n,
+  15030750278694412288n,
+  12247334978884435968n,
+  8131365268886854656n,
+  3584323654725218816n,
+  696457651848324352n,
+  26294789957507116n,
+  37481735321082n,
+];
+
+function tickError(message: string): Error {
+  const e: any = new Error(message);
+  e.code = "InvalidTick";
+  return e;
+}
+
+/**
+ * Exact sqrt price of a tick, matching the on-chain programs bit for bit
+ * @throws Error with code InvalidTick outside MIN_TICK..MAX_TICK
+ */
+export function tickToSqrtPriceX64(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw tickError(`Tick must be an integer in ${MIN_TICK}..${MAX_TICK}, got ${tick}`);
+  }
+  const abs = Math.abs(tick);
+  let ratio = abs & 1 ? TICK_RATIOS[0] : Q64;
+  for (let i = 1; i < TICK_RATIOS.length; i++) {
+    if (abs & (1 << i)) ratio = (ratio * TICK_RATIOS[i]) >> 64n;
+  }
+  return tick > 0 ? MAX_U128 / ratio : ratio;
+}
+
+/**
+ * Greatest tick whose sqrt price is <= the given one (the pool's current tick for that price)
+ */
+export function sqrtPriceX64ToTick(sqrtPriceX64: bigint): number {
+  if (sqrtPriceX64 < MIN_SQRT_PRICE_X64 || sqrtPriceX64 > MAX_SQRT_PRICE_X64) {
+    throw tickError(`Sqrt price ${sqrtPriceX64} is outside the supported range`);
+  }
+  let lo = MIN_TICK;
+  let hi = MAX_TICK;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi + 1) / 2);
+    if (tickToSqrtPriceX64(mid) <= sqrtPriceX64) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * UI price (B per A) at a tick
+ */
+export function tickToPrice(tick: number, decimalsA: number, decimalsB: number): number {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimalsA - decimalsB);
+}
+
+/**
+ * Tick at or below a UI price (B per A), clamped to the valid range
+ */
+export function priceToTick(price: number, decimalsA: number, decimalsB: number): number {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw tickError(`Price must be a positive number, got ${price}`);
+  }
+  const raw = price * Math.pow(10, decimalsB - decimalsA);
+  let tick = Math.floor(Math.log(raw) / LOG_TICK_BASE);
+  // Float log can land one tick off either way; settle on the exact boundary
+  if (tickToPrice(tick + 1, decimalsA, decimalsB) <= price) tick += 1;
+  else if (tickToPrice(tick, decimalsA, decimalsB) > price) tick -= 1;
+  return Math.min(MAX_TICK, Math.max(MIN_TICK, tick));
+}
+
+/**
+ * UI price (B per A) for a Q64.64 sqrt price
+ */
+export function sqrtPriceX64ToPrice(sqrtPriceX64: bigint, decimalsA: number, decimalsB: number): number {
+  const sqrt = Number(sqrtPriceX64) / Number(Q64);
+  return sqrt * sqrt * Math.pow(10, decimalsA - decimalsB);
+}
+
+/**
+ * Q64.64 sqrt price for a UI price (B per A), exact to the integer for decimal strings
+ */
+export function priceToSqrtPriceX64(price: string | number, decimalsA: number, decimalsB: number): bigint {
+  const text = typeof price === "number" ? price.toFixed(30) : price.trim();
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match || !/[1-9]/.test(text)) {
+    const e: any = new Error(`Price must be a positive decimal, got ${price}`);
+    e.code = "InvalidPrice";
+    throw e;
+  }
+  const fraction = match[2] || "";
+  // price * 10^(decB - decA) * 2^128, as an integer ratio
+  let numerator = BigInt(match[1] + fraction) << 128n;
+  let denominator = 10n ** BigInt(fraction.length);
+  const shift = decimalsB - decimalsA;
+  if (shift >= 0) numerator *= 10n ** BigInt(shift);
+  else denominator *= 10n ** BigInt(-shift);
+  const sqrt = isqrt(numerator / denominator);
+  return sqrt < MIN_SQRT_PRICE_X64 ? MIN_SQRT_PRICE_X64 : sqrt > MAX_SQRT_PRICE_X64 ? MAX_SQRT_PRICE_X64 : sqrt;
+}
+
+function isqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = BigInt(Math.floor(Math.sqrt(Number(n))));
+  // Newton steps from the float estimate
+  for (;;) {
+    const y = (x + n / x) >> 1n;
+    if (y >= x) break;
+    x = y;
+  }
+  while (x * x > n) x -= 1n;
+  while ((x + 1n) * (x + 1n) <= n) x += 1n;
+  return x;
+}
+
+/* ---------------------------------------------------------------------------
+ * Tick spacing
+ * ------------------------------------------------------------------------- */
+
+export type TickRounding = "floor" | "ceil" | "nearest";
+
+/**
+ * Lowest / highest initializable tick for a pool's spacing
+ */
+export function minUsableTick(tickSpacing: number): number {
+  return Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+}
+
+export function maxUsableTick(tickSpacing: number): number {
+  return Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+}
+
+/**
+ * Snap a tick to a multiple of the spacing, kept within the usable range
+ */
+export function snapTick(tick: number, tickSpacing: number, rounding: TickRounding = "nearest"): number {
+  if (!Number.isInteger(tickSpacing) || tickSpacing <= 0) {
+    throw tickError(`Tick spacing must be a positive integer, got ${tickSpacing}`);
+  }
+  const round = rounding === "floor" ? Math.floor : rounding === "ceil" ? Math.ceil : Math.round;
+  const snapped = round(tick / tickSpacing) * tickSpacing;
+  return Math.min(maxUsableTick(tickSpacing), Math.max(minUsableTick(tickSpacing), snapped));
+}
+
+/* ---------------------------------------------------------------------------
+ * Liquidity <-> amounts (base units)
+ * ------------------------------------------------------------------------- */
+
+function ordered(a: bigint, b: bigint): [bigint, bigint] {
+  return a <= b ? [a, b] : [b, a];
+}
+
+/**
+ * Liquidity provided by an amount of token A over [sqrtLower, sqrtUpper]
+ */
+export function liquidityFromAmountA(sqrtLowerX64: bigint, sqrtUpperX64: bigint, amountA: bigint): bigint {
+  const [lower, upper] = ordered(sqrtLowerX64, sqrtUpperX64);
+  if (lower === upper) return 0n;
+  return (((amountA * lower) >> 64n) * upper) / (upper - lower);
+}
+
+/**
+ * Liquidity provided by an amount of token B over [sqrtLower, sqrtUpper]
+ */
+export function liquidityFromAmountB(sqrtLowerX64: bigint, sqrtUpperX64: bigint, amountB: bigint): bigint {
+  const [lower, upper] = ordered(sqrtLowerX64, sqrtUpperX64);
+  if (lower === upper) return 0n;
+  return (amountB << 64n) / (upper - lower);
+}
+
+/**
+ * Largest liquidity both amounts can back at the current price
+ * (only one side counts when the price is outside the range)
+ */
+export function liquidityFromAmounts(
+  sqrtCurrentX64: bigint,
+  sqrtLowerX64: bigint,
+  sqrtUpperX64: bigint,
+  amountA: bigint,
+  amountB: bigint
+): bigint {
+  const [lower, upper] = ordered(sqrtLowerX64, sqrtUpperX64);
+  if (sqrtCurrentX64 <= lower) return liquidityFromAmountA(lower, upper, amountA);
+  if (sqrtCurrentX64 >= upper) return liquidityFromAmountB(lower, upper, amountB);
+  const fromA = liquidityFromAmountA(sqrtCurrentX64, upper, amountA);
+  const fromB = liquidityFromAmountB(lower, sqrtCurrentX64, amountB);
+  return fromA < fromB ? fromA : fromB;
+}
+
+function divRound(n: bigint, d: bigint, roundUp: boolean): bigint {
+  return roundUp ? (n + d - 1n) / d : n / d;
+}
+
+/**
+ * Token amounts held by a liquidity amount at the current price
+ * @param roundUp - true for deposit maximums, false for withdrawal minimums
+ */
+export function amountsFromLiquidity(
+  sqrtCurrentX64: bigint,
+  sqrtLowerX64: bigint,
+  sqrtUpperX64: bigint,
+  liquidity: bigint,
+  roundUp = false
+): { amountA: bigint; amountB: bigint } {
+  const [lower, upper] = ordered(sqrtLowerX64, sqrtUpperX64);
+  const current = sqrtCurrentX64 < lower ? lower : sqrtCurrentX64 > upper ? upper : sqrtCurrentX64;
+
+  // A = L * (upper - current) / (current * upper), B = L * (current - lower)
+  const amountA = current < upper
+    ? divRound(divRound((liquidity << 64n) * (upper - current), upper, roundUp), current, roundUp)
+    : 0n;
+  const amountB = current > lower ? divRound(liquidity * (current - lower), Q64, roundUp) : 0n;
+  return { amountA, amountB };
+}
@@ -0,0 +1,305 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ExtensionType,
+  LENGTH_SIZE,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TYPE_SIZE,
+  createAssociatedTokenAccountInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+  getInterestBearingMintConfigState,
+  getMint,
+  getMintLen,
+  getTokenMetadata,
+  getTransferFeeConfig,
+} from "@solana/spl-token";
+import { createInitializeInstruction, pack, TokenMetadata } from "@solana/spl-token-metadata";
+import { assertU64, parseUiAmount } from "./amounts";
+
+/**
+ * Token program a mint is created under
+ * - "spl-token": legacy Tokenkeg program with a Metaplex metadata account
+ * - "token-2022": Token Extensions program with on-mint metadata
+ */
+export type TokenProgramKind = "spl-token" | "token-2022";
+
+/**
+ * Optional Token-2022 extensions offered by the create flow
+ * Metadata pointer + token metadata are always enabled for Token-2022 mints
+ */
+export interface Token2022Extensions {
+  transferFee?: {
+    feeBasisPoints: number; // 1 bp = 0.01% of every transfer
+    maxFee: bigint;         // Cap per transfer in base units
+  };
+  interestRateBp?: number;  // Continuously compounding rate in basis points (display only)
+}
+
+// Upper bound for transfer fee - the program rejects anything above 10,000 bps
+export const MAX_TRANSFER_FEE_BP = 10_000;
+
+/**
+ * Map a TokenProgramKind to its on-chain program id
+ */
+export function programIdFor(kind: TokenProgramKind): PublicKey {
+  return kind === "token-2022" ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+}
+
+/**
+ * Map an on-chain program id back to a TokenProgramKind
+ */
+export function kindForProgramId(programId: PublicKey): TokenProgramKind {
+  return programId.equals(TOKEN_2022_PROGRAM_ID) ? "token-2022" : "spl-token";
+}
+
+/**
+ * Resolve which token program owns a mint account
+ * @throws Error if the account does not exist or is not owned by a token program
+ */
+export async function getMintProgramId(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = "confirmed"
+): Promise<PublicKey> {
+  const info = await connection.getAccountInfo(mint, commitment);
+  if (!info) {
+    throw new Error(`Mint account not found: ${mint.toBase58()}`);
+  }
+  if (info.owner.equals(TOKEN_2022_PROGRAM_ID)) return TOKEN_2022_PROGRAM_ID;
+  if (info.owner.equals(TOKEN_PROGRAM_ID)) return TOKEN_PROGRAM_ID;
+  throw new Error(`Account ${mint.toBase58()} is not a token mint`);
+}
+
+/**
+ * Read a mint regardless of whether it lives under SPL Token or Token-2022
+ * @returns The decoded mint together with its owning program id
+ */
+export async function getMintAnyProgram(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = "confirmed"
+): Promise<{ mint: Mint; programId: PublicKey }> {
+  const programId = await getMintProgramId(connection, mint, commitment);
+  const decoded = await getMint(connection, mint, commitment, programId);
+  return { mint: decoded, programId };
+}
+
+/**
+ * Decoded Token-2022 metadata and extension settings for a mint
+ */
+export interface Token2022Info {
+  name: string;
+  symbol: string;
+  uri: string;
+  updateAuthority: string | null;
+  additionalMetadata: [string, string][];
+  transferFeeBp: number | null;
+  transferFeeMax: string | null;   // base units as string
+  interestRateBp: number | null;
+}
+
+/**
+ * Read on-mint metadata and extension configuration from a Token-2022 mint
+ * @returns Token2022Info, or null when the mint is not a Token-2022 mint with metadata
+ */
+export async function readToken2022Info(
+  connection: Connection,
+  mintStr: string
+): Promise<Token2022Info | null> {
+  const mintPk = new PublicKey(mintStr);
+  const programId = await getMintProgramId(connection, mintPk);
+  if (!programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    return null;
+  }
+
+  const [meta, mint] = await Promise.all([
+    getTokenMetadata(connection, mintPk, "confirmed", TOKEN_2022_PROGRAM_ID),
+    getMint(connection, mintPk, "confirmed", TOKEN_2022_PROGRAM_ID),
+  ]);
+  if (!meta) {
+    return null;
+  }
+
+  // Newer epoch fee applies once the epoch is reached; for display the newer one is what users will pay
+  const feeConfig = getTransferFeeConfig(mint);
+  const interest = getInterestBearingMintConfigState(mint);
+
+  return {
+    name: meta.name,
+    symbol: meta.symbol,
+    uri: meta.uri,
+    updateAuthority: meta.updateAuthority ? meta.updateAuthority.toBase58() : null,
+    additionalMetadata: meta.additionalMetadata as [string, string][],
+    transferFeeBp: feeConfig ? feeConfig.newerTransferFee.transferFeeBasisPoints : null,
+    transferFeeMax: feeConfig ? feeConfig.newerTransferFee.maximumFee.toString() : null,
+    interestRateBp: interest ? interest.currentRate : null,
+  };
+}
+
+/**
+ * Check extension values fit their on-chain fields
+ * @throws Error describing the first invalid value
+ */
+export function assertValidExtensions(extensions: Token2022Extensions): void {
+  if (extensions.transferFee) {
+    const { feeBasisPoints } = extensions.transferFee;
+    if (!Number.isInteger(feeBasisPoints) || feeBasisPoints < 0 || feeBasisPoints > MAX_TRANSFER_FEE_BP) {
+      throw new Error(`Transfer fee must be an integer between 0 and ${MAX_TRANSFER_FEE_BP} basis points`);
+    }
+  }
+  if (typeof extensions.interestRateBp === "number") {
+    // Rate is stored as i16 on chain
+    if (!Number.isInteger(extensions.interestRateBp) || Math.abs(extensions.interestRateBp) > 32_767) {
+      throw new Error("Interest rate must be an integer number of basis points");
+    }
+  }
+}
+
+/**
+ * Build every instruction needed to create a Token-2022 mint with on-mint metadata
+ *
+ * The mint account is allocated with room for the fixed-size extensions only; the
+ * token-metadata initialize instruction reallocs it, so lamports are funded up front
+ * for the final size including the variable-length metadata TLV entry.
+ *
+ * Instruction order matters: extensions must be initialized before InitializeMint,
+ * and token metadata must be initialized after it.
+ */
+export async function buildToken2022MintInstructions({
+  connection,
+  payer,
+  mint,
+  decimals,
+  amount,
+  name,
+  symbol,
+  uri,
+  extensions = {},
+}: {
+  connection: Connection;
+  payer: PublicKey;
+  mint: PublicKey;
+  decimals: number;
+  amount: bigint | number; // base units minted to the payer's ATA
+  name: string;
+  symbol: string;
+  uri: string;
+  extensions?: Token2022Extensions;
+}): Promise<TransactionInstruction[]> {
+  const programId = TOKEN_2022_PROGRAM_ID;
+
+  assertValidExtensions(extensions);
+  const extensionTypes: ExtensionType[] = [ExtensionType.MetadataPointer];
+  if (extensions.transferFee) {
+    extensionTypes.push(ExtensionType.TransferFeeConfig);
+  }
+  if (typeof extensions.interestRateBp === "number") {
+    extensionTypes.push(ExtensionType.InterestBearingConfig);
+  }
+
+  const metadata: TokenMetadata = {
+    mint,
+    updateAuthority: payer,
+    name,
+    symbol,
+    uri,
+    additionalMetadata: [],
+  };
+
+  const mintLen = getMintLen(extensionTypes);
+  const metadataLen = TYPE_SIZE + LENGTH_SIZE + pack(metadata).length;
+  const lamports = await connection.getMinimumBalanceForRentExemption(mintLen + metadataLen);
+
+  const ata = getAssociatedTokenAddressSync(mint, payer, false, programId);
+
+  const ixs: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: mint,
+      space: mintLen,
+      lamports,
+      programId,
+    }),
+    // Metadata lives on the mint itself
+    createInitializeMetadataPointerInstruction(mint, payer, mint, programId),
+  ];
+
+  if (extensions.transferFee) {
+    ixs.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        payer,
+        payer,
+        extensions.transferFee.feeBasisPoints,
+        extensions.transferFee.maxFee,
+        programId
+      )
+    );
+  }
+
+  if (typeof extensions.interestRateBp === "number") {
+    ixs.push(createInitializeInterestBearingMintInstruction(mint, payer, extensions.interestRateBp, programId));
+  }
+
+  ixs.push(
+    createInitializeMintInstruction(mint, decimals, payer, payer, programId),
+    createInitializeInstruction({
+      programId,
+      metadata: mint,
+      updateAuthority: payer,
+      mint,
+      mintAuthority: payer,
+      name,
+      symbol,
+      uri,
+    }),
+    createAssociatedTokenAccountInstruction(payer, ata, payer, mint, programId),
+    createMintToInstruction(mint, ata, payer, amount, [], programId)
+  );
+
+  return ixs;
+}
+
+/**
+ * Convert create-form strings into Token2022Extensions
+ * Empty fields mean "extension not enabled"
+ * @param fields - Raw form values (bps strings and max fee in UI units)
+ * @param decimals - Decimals of the new mint, used to convert the max fee to base units
+ * @throws Error when a value is out of range (call before building, to report it as bad input)
+ */
+export function extensionsFromForm(
+  fields: { transferFeeBp?: string; transferFeeMax?: string; interestRateBp?: string },
+  decimals: number
+): Token2022Extensions {
+  const ext: Token2022Extensions = {};
+
+  if (fields.transferFeeBp && fields.transferFeeBp.trim() !== "") {
+    const feeBasisPoints = Number(fields.transferFeeBp);
+    let maxFee: bigint;
+    try {
+      maxFee = assertU64(parseUiAmount(fields.transferFeeMax || "0", decimals, "floor"), "Max transfer fee");
+    } catch {
+      throw new Error("Max transfer fee must be a positive number");
+    }
+    ext.transferFee = { feeBasisPoints, maxFee };
+  }
+
+  if (fields.interestRateBp && fields.interestRateBp.trim() !== "") {
+    ext.interestRateBp = Number(fields.interestRateBp);
+  }
+
+  assertValidExtensions(ext);
+  return ext;
+}
@@ -0,0 +1,246 @@
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createAssociatedTokenAccountInstruction,
+  createInitializeMintInstruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+  getMinimumBalanceForRentExemptMint,
+} from "@solana/spl-token";
+import {
+  PROGRAM_ID as METADATA_PROGRAM_ID,
+  createCreateMetadataAccountV3Instruction,
+} from "@metaplex-foundation/mpl-token-metadata";
+import {
+  Token2022Extensions,
+  TokenProgramKind,
+  buildToken2022MintInstructions,
+  programIdFor,
+} from "./token2022";
+import { ALLOCATIONS_PER_TX, ResolvedAllocation, amountsByWallet, toStoredAllocations, TokenAllocation } from "./allocations";
+
+/**
+ * Shared token creation builder
+ *
+ * Single code path for every create flow (modal, free page, pro page) and for
+ * headless callers of POST /api/token/build-create. Builds:
+ * 1. Mint account (rent-exempt) + InitializeMint
+ * 2. Creator ATA + MintTo for the full supply (or the creator's share)
+ * 3. Metadata (Metaplex V3 for SPL Token, on-mint metadata for Token-2022)
+ * 4. With an allocation table: follow-up transactions that create each
+ *    recipient's ATA and mint their share (creator keeps mint authority until then)
+ */
+
+export interface TokenCreateParams {
+  connection: Connection;
+  payer: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;                      // Off-chain metadata JSON URI (already uploaded)
+  decimals: number;
+  amountBase: bigint | number;      // Initial supply in base units
+  tokenProgram?: TokenProgramKind;  // Defaults to "spl-token"
+  extensions?: Token2022Extensions; // Token-2022 only
+  isMutable?: boolean;              // Metaplex metadata mutability (SPL Token only), defaults to true
+  mintKeypair?: Keypair;            // Optional pre-generated mint signer (returned as a partial signer)
+  mintAddress?: PublicKey;          // Mint the caller signs for itself (e.g. a browser-ground vanity key)
+  allocations?: ResolvedAllocation[]; // Full distribution incl. creator remainder; must sum to amountBase
+}
+
+export interface TokenCreateInstructions {
+  instructions: TransactionInstruction[];
+  mint: PublicKey;
+  mintKeypair: Keypair | null; // null when the caller supplied mintAddress
+  ata: PublicKey;
+  programId: PublicKey;
+  allocationBatches: TransactionInstruction[][]; // One entry per follow-up transaction
+}
+
+export interface TokenCreateResponse {
+  txBase64: string;
+  partialSigners: string[]; // Base64 encoded secret keys that must partially sign (the mint, unless caller-supplied)
+  followUpTxsBase64?: string[]; // Allocation mints; send in order after txBase64 confirms (payer signs only)
+  summary: {
+    mint: string;
+    ata: string;
+    tokenProgram: TokenProgramKind;
+    decimals: number;
+    amountBase: string;
+    allocations?: TokenAllocation[];
+  };
+}
+
+/**
+ * Derive the Metaplex metadata PDA for a mint
+ */
+export function findMetadataPda(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * Validate the numeric inputs shared by every create flow
+ * @throws Error with a user-facing message when invalid
+ */
+export function validateCreateParams(p: Pick<TokenCreateParams, "name" | "symbol" | "uri" | "decimals" | "amountBase">) {
+  if (!p.name || !p.symbol || !p.uri) {
+    throw new Error("Name, symbol and metadata URI are required");
+  }
+  if (!Number.isInteger(p.decimals) || p.decimals < 0 || p.decimals > 9) {
+    throw new Error("Decimals must be a number between 0 and 9");
+  }
+  if (BigInt(p.amountBase) <= BigInt(0)) {
+    throw new Error("Amount must be a positive number");
+  }
+}
+
+/**
+ * Split the supply into the creator's share and per-recipient follow-up instructions
+ * Recipient ATAs are created idempotently so a retried batch does not fail
+ */
+function planAllocations(p: TokenCreateParams, mint: PublicKey, programId: PublicKey) {
+  if (!p.allocations?.length) {
+    return { creatorAmount: BigInt(p.amountBase), batches: [] as TransactionInstruction[][] };
+  }
+
+  const totals = amountsByWallet(p.allocations);
+  let sum = BigInt(0);
+  totals.forEach((amount) => (sum += amount));
+  if (sum !== BigInt(p.amountBase)) {
+    throw new Error("Allocations must add up to the total supply");
+  }
+
+  const payerKey = p.payer.toBase58();
+  const recipients = Array.from(totals.entries()).filter(([wallet]) => wallet !== payerKey);
+
+  const batches: TransactionInstruction[][] = [];
+  for (let i = 0; i < recipients.length; i += ALLOCATIONS_PER_TX) {
+    batches.push(
+      recipients.slice(i, i + ALLOCATIONS_PER_TX).flatMap(([wallet, amount]) => {
+        const owner = new PublicKey(wallet);
+        // allowOwnerOffCurve: treasuries are often PDAs (multisig vaults)
+        const ata = getAssociatedTokenAddressSync(mint, owner, true, programId);
+        return [
+          createAssociatedTokenAccountIdempotentInstruction(p.payer, ata, owner, mint, programId),
+          createMintToInstruction(mint, ata, p.payer, amount, [], programId),
+        ];
+      })
+    );
+  }
+
+  return { creatorAmount: totals.get(payerKey) || BigInt(0), batches };
+}
+
+/**
+ * Build all instructions needed to create and mint a new token
+ * The returned mintKeypair must partially sign the transaction; with mintAddress the caller signs
+ */
+export async function buildCreateTokenInstructions(p: TokenCreateParams): Promise<TokenCreateInstructions> {
+  validateCreateParams(p);
+
+  const tokenProgram = p.tokenProgram || "spl-token";
+  const programId = programIdFor(tokenProgram);
+  const mintKeypair = p.mintAddress ? null : p.mintKeypair || Keypair.generate();
+  const mint = p.mintAddress || mintKeypair.publicKey;
+  const ata = getAssociatedTokenAddressSync(mint, p.payer, false, programId);
+  const { creatorAmount, batches: allocationBatches } = planAllocations(p, mint, programId);
+
+  // Token-2022: metadata pointer + on-mint metadata, no Metaplex account
+  if (tokenProgram === "token-2022") {
+    const instructions = await buildToken2022MintInstructions({
+      connection: p.connection,
+      payer: p.payer,
+      mint,
+      decimals: p.decimals,
+      amount: creatorAmount,
+      name: p.name,
+      symbol: p.symbol,
+      uri: p.uri,
+      extensions: p.extensions,
+    });
+    return { instructions, mint, mintKeypair, ata, programId, allocationBatches };
+  }
+
+  const lamports = await getMinimumBalanceForRentExemptMint(p.connection);
+
+  const instructions: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: p.payer,
+      newAccountPubkey: mint,
+      space: MINT_SIZE,
+      lamports,
+      programId: TOKEN_PROGRAM_ID,
+    }),
+    createInitializeMintInstruction(mint, p.decimals, p.payer, p.payer, TOKEN_PROGRAM_ID),
+    createAssociatedTokenAccountInstruction(p.payer, ata, p.payer, mint),
+    createMintToInstruction(mint, ata, p.payer, creatorAmount),
+    createCreateMetadataAccountV3Instruction(
+      {
+        metadata: findMetadataPda(mint),
+        mint,
+        mintAuthority: p.payer,
+        payer: p.payer,
+        updateAuthority: p.payer,
+      },
+      {
+        createMetadataAccountArgsV3: {
+          data: {
+            name: p.name,
+            symbol: p.symbol,
+            uri: p.uri,
+            sellerFeeBasisPoints: 0,
+            creators: null,
+            collection: null,
+            uses: null,
+          },
+          isMutable: p.isMutable ?? true,
+          collectionDetails: null,
+        },
+      }
+    ),
+  ];
+
+  return { instructions, mint, mintKeypair, ata, programId, allocationBatches };
+}
+
+/**
+ * Build an unsigned token creation transaction
+ * Returns the same { txBase64, partialSigners, summary } shape as the liquidity commit builders
+ */
+export async function buildCreateTokenTx(p: TokenCreateParams): Promise<TokenCreateResponse> {
+  const { instructions, mint, mintKeypair, ata, allocationBatches } = await buildCreateTokenInstructions(p);
+
+  // Client refreshes the blockhash before signing; this one only makes the message serializable
+  const { blockhash } = await p.connection.getLatestBlockhash();
+  const serialize = (ixs: TransactionInstruction[]) => {
+    const tx = new Transaction().add(...ixs);
+    tx.feePayer = p.payer;
+    tx.recentBlockhash = blockhash;
+    return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64");
+  };
+
+  return {
+    txBase64: serialize(instructions),
+    partialSigners: mintKeypair ? [Buffer.from(mintKeypair.secretKey).toString("base64")] : [],
+    followUpTxsBase64: allocationBatches.length ? allocationBatches.map(serialize) : undefined,
+    summary: {
+      mint: mint.toBase58(),
+      ata: ata.toBase58(),
+      tokenProgram: p.tokenProgram || "spl-token",
+      decimals: p.decimals,
+      amountBase: BigInt(p.amountBase).toString(),
+      allocations: p.allocations?.length ? toStoredAllocations(p.allocations) : undefined,
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { Connection, Keypair, Transaction, TransactionSignature } from "@solana/web3.js";
+import type { TokenCreateResponse } from "./tokenCreate";
+import type { AllocationInput } from "./allocations";
+import { previewOrThrow } from "./txPreview";
+
+/**
+ * Client-side helper for POST /api/token/build-create
+ * Every create flow goes through this so the transaction is built in one place
+ */
+
+export interface CreateTokenTxRequest {
+  owner: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  decimals: number | string;
+  amount: string;
+  isMutable?: boolean;
+  mint?: string;
+  tokenProgram?: "spl-token" | "token-2022";
+  transferFeeBp?: string;
+  transferFeeMax?: string;
+  interestRateBp?: string;
+  allocations?: AllocationInput[];
+}
+
+export interface CreateTokenTx {
+  transaction: Transaction;
+  signers: Keypair[];
+  followUps: Transaction[]; // Allocation mints, send with sendFollowUpTxs after `transaction` confirms
+  summary: TokenCreateResponse["summary"];
+}
+
+/**
+ * Request an unsigned token creation transaction from the server
+ * @param body - Token parameters (metadata URI must already be uploaded)
+ * @param mintKeypair - Optional client-held mint (vanity); only its address is sent
+ * @returns Deserialized transaction, mint signer and summary
+ * @throws Error with the server message when the build fails
+ */
+export async function requestCreateTokenTx(
+  body: CreateTokenTxRequest,
+  mintKeypair?: Keypair | null
+): Promise<CreateTokenTx> {
+  const response = await fetch("/api/token/build-create", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(mintKeypair ? { ...body, mint: mintKeypair.publicKey.toBase58() } : body),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data?.message || "Failed to build token creation transaction");
+  }
+
+  const { txBase64, partialSigners, followUpTxsBase64, summary } = data as TokenCreateResponse;
+  return {
+    transaction: Transaction.from(Buffer.from(txBase64, "base64")),
+    followUps: (followUpTxsBase64 || []).map((tx) => Transaction.from(Buffer.from(tx, "base64"))),
+    signers: [
+      ...(mintKeypair ? [mintKeypair] : []),
+      ...(partialSigners || []).map((s) =>
+        Keypair.fromSecretKey(new Uint8Array(Buffer.from(s, "base64")))
+      ),
+    ],
+    summary,
+  };
+}
+
+/**
+ * Send allocation follow-up transactions one at a time, in order
+ * Each is confirmed before the next so a failure leaves a clear resume point
+ * @param sendTransaction - Wallet adapter sendTransaction
+ * @returns Signatures of the confirmed follow-ups
+ * @throws Error naming the batch that failed; earlier batches are already on chain
+ */
+export async function sendFollowUpTxs(
+  connection: Connection,
+  sendTransaction: (tx: Transaction, connection: Connection) => Promise<TransactionSignature>,
+  followUps: Transaction[]
+): Promise<string[]> {
+  const signatures: string[] = [];
+  for (let i = 0; i < followUps.length; i++) {
+    const tx = followUps[i];
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    tx.recentBlockhash = blockhash;
+    try {
+      await previewOrThrow(connection, tx);
+      const signature = await sendTransaction(tx, connection);
+      await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+      signatures.push(signature);
+    } catch (e: any) {
+      throw new Error(`Allocation transfer ${i + 1} of ${followUps.length} failed: ${e?.message || e}`);
+    }
+  }
+  return signatures;
+}
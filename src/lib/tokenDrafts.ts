@@ -0,0 +1,120 @@
+import { prisma } from "@/lib/db";
+import { DraftInput, MAX_DRAFTS_PER_WALLET, TokenDraft } from "@/lib/drafts";
+
+/**
+ * Convert a TokenDraft row to the API shape
+ * @param paymentUsed - A created token already references the payment signature
+ */
+function toDraft(row: any, paymentUsed: boolean): TokenDraft {
+  return {
+    id: row.id,
+    wallet: row.wallet,
+    flow: row.flow,
+    step: row.step,
+    data: row.data || {},
+    paymentTxSig: row.paymentTxSig,
+    paymentAmount: row.paymentAmount,
+    paymentAvailable: !!row.paymentTxSig && !paymentUsed,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Payment signatures (from the given list) already used by a created token
+ */
+async function usedPaymentSigs(sigs: (string | null)[]): Promise<Set<string>> {
+  const list = sigs.filter((s): s is string => !!s);
+  if (list.length === 0) return new Set();
+  const rows = await prisma.createdToken.findMany({
+    where: { paymentTxSignature: { in: list } },
+    select: { paymentTxSignature: true },
+  });
+  return new Set(rows.map((r) => r.paymentTxSignature as string));
+}
+
+/**
+ * List a wallet's drafts, most recently edited first
+ * @param wallet - The wallet address to query
+ * @returns Promise<TokenDraft[]>
+ */
+export async function listDrafts(wallet: string): Promise<TokenDraft[]> {
+  const rows = await prisma.tokenDraft.findMany({
+    where: { wallet },
+    orderBy: { updatedAt: "desc" },
+  });
+  const used = await usedPaymentSigs(rows.map((r) => r.paymentTxSig));
+  return rows.map((r) => toDraft(r, used.has(r.paymentTxSig as string)));
+}
+
+/**
+ * Get one draft, scoped to its wallet
+ * @returns Promise<TokenDraft | null> - null when missing or owned by another wallet
+ */
+export async function getDraft(id: string, wallet: string): Promise<TokenDraft | null> {
+  const row = await prisma.tokenDraft.findFirst({ where: { id, wallet } });
+  if (!row) return null;
+  const used = await usedPaymentSigs([row.paymentTxSig]);
+  return toDraft(row, used.has(row.paymentTxSig as string));
+}
+
+/**
+ * Create a draft, dropping the wallet's oldest drafts beyond MAX_DRAFTS_PER_WALLET
+ * @returns Promise<TokenDraft>
+ */
+export async function createDraft(input: DraftInput): Promise<TokenDraft> {
+  const row = await prisma.tokenDraft.create({
+    data: {
+      wallet: input.wallet,
+      flow: input.flow,
+      step: input.step,
+      data: input.data as any,
+      paymentTxSig: input.paymentTxSig ?? null,
+      paymentAmount: input.paymentAmount ?? null,
+    },
+  });
+
+  const stale = await prisma.tokenDraft.findMany({
+    where: { wallet: input.wallet },
+    orderBy: { updatedAt: "desc" },
+    skip: MAX_DRAFTS_PER_WALLET,
+    select: { id: true },
+  });
+  if (stale.length) {
+    await prisma.tokenDraft.deleteMany({ where: { id: { in: stale.map((s) => s.id) } } });
+  }
+
+  return toDraft(row, false);
+}
+
+/**
+ * Update a draft owned by the wallet
+ * A null paymentTxSig in the input keeps the stored one (payment can't be undone)
+ * @returns Promise<TokenDraft | null> - null when missing or owned by another wallet
+ */
+export async function updateDraft(id: string, input: DraftInput): Promise<TokenDraft | null> {
+  const existing = await prisma.tokenDraft.findFirst({ where: { id, wallet: input.wallet } });
+  if (!existing) return null;
+
+  const row = await prisma.tokenDraft.update({
+    where: { id },
+    data: {
+      flow: input.flow,
+      step: input.step,
+      data: input.data as any,
+      paymentTxSig: input.paymentTxSig ?? existing.paymentTxSig,
+      paymentAmount: input.paymentAmount ?? existing.paymentAmount,
+    },
+  });
+  const used = await usedPaymentSigs([row.paymentTxSig]);
+  return toDraft(row, used.has(row.paymentTxSig as string));
+}
+
+/**
+ * Delete a draft owned by the wallet
+ * @returns Promise<boolean> - false when nothing was deleted
+ */
+export async function deleteDraft(id: string, wallet: string): Promise<boolean> {
+  const result = await prisma.tokenDraft.deleteMany({ where: { id, wallet } });
+  return result.count > 0;
+}
@@ -4,6 +4,8 @@
  * Payment is per-token, not persistent user access
  */
 
+import { parseUiAmount } from "./amounts";
+
 // Token creation pricing tiers
 export const TOKEN_CREATION_TYPES = {
   free: {
@@ -26,7 +28,8 @@ export const TOKEN_CREATION_TYPES = {
       'honestLaunch',
       'memeKit',
       'liquidityTools',
-      'sharePage'
+      'sharePage',
+      'vanityMint'
     ]
   }
 } as const;
@@ -41,7 +44,8 @@ export type TokenCreationFeature =
   | 'honestLaunch'
   | 'memeKit'
   | 'liquidityTools'
-  | 'sharePage';
+  | 'sharePage'
+  | 'vanityMint';
 
 // Pricing configuration interface
 export interface TokenPricingConfig {
@@ -76,7 +80,7 @@ export function isValidTokenCreationType(type: string): type is TokenCreationTyp
 
 // Get the price in lamports for a token creation type
 export function getPriceInLamports(type: TokenCreationType): number {
-  return Math.floor(TOKEN_CREATION_TYPES[type].price * 1e9); // Convert SOL to lamports
+  return Number(parseUiAmount(TOKEN_CREATION_TYPES[type].price, 9)); // Convert SOL to lamports
 }
 
 // Check if a token creation type requires payment
@@ -96,6 +96,37 @@ export async function getTokenProStatus(tokenMint: string): Promise<{
   }
 }
 
+/**
+ * Check a wallet has a verified Pro payment that no created token has used yet
+ * (payments are verified by /api/token/payment-verify, which logs a create_pro_token TxEvent)
+ * @param wallet - Wallet that paid
+ * @param txSignature - Payment transaction signature
+ * @returns Promise<boolean> - True if the payment can still unlock Pro features
+ */
+export async function hasUnusedProPayment(wallet: string, txSignature: string): Promise<boolean> {
+  try {
+    if (!wallet || !txSignature) {
+      return false;
+    }
+
+    const [payment, usedBy] = await Promise.all([
+      prisma.txEvent.findFirst({
+        where: { txSig: txSignature, wallet, action: "create_pro_token", success: true },
+        select: { txSig: true },
+      }),
+      prisma.createdToken.findFirst({
+        where: { paymentTxSignature: txSignature },
+        select: { mint: true },
+      }),
+    ]);
+
+    return !!payment && !usedBy;
+  } catch (error) {
+    console.error("Error checking Pro payment:", error);
+    return false;
+  }
+}
+
 /**
  * Verify and update token payment status
  * @param tokenMint - Token mint address
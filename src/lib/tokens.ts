@@ -1,5 +1,6 @@
 import { prisma } from "@/lib/db";
 import { StoredToken } from "@/utils/tokenStorage";
+import type { StorageProviderName } from "@/lib/storage";
 
 /**
  * Log a created token to the database with full metadata
@@ -30,6 +31,10 @@ export async function logCreatedToken(token: StoredToken & {
       preset: token.preset,
       vibe: token.vibe,
       links: token.links || {},
+      tokenProgram: token.tokenProgram || "spl-token",
+      allocations: (token.allocations as any) ?? undefined,
+      metadataUri: token.metadataUri ?? undefined,
+      storageProvider: token.storageProvider ?? undefined,
       // NEW: Payment tracking fields
       tier: tier,
       paidAmount: isProToken ? (token.paidAmount || 0.1) : null,
@@ -50,6 +55,10 @@ export async function logCreatedToken(token: StoredToken & {
       preset: token.preset,
       vibe: token.vibe,
       links: token.links || {},
+      tokenProgram: token.tokenProgram || "spl-token",
+      allocations: (token.allocations as any) ?? undefined,
+      metadataUri: token.metadataUri ?? null,
+      storageProvider: token.storageProvider ?? null,
       // NEW: Payment tracking fields
       tier: tier,
       paidAmount: isProToken ? (token.paidAmount || 0.1) : null,
@@ -118,6 +127,33 @@ export async function getTokenByMint(mint: string): Promise<StoredToken | null>
     vibe: (token.vibe as "funny" | "serious" | "degen") || "serious", // Default to serious
     createdAt: token.createdAt.getTime(),
     links: (token.links as any) || {},
-    creatorWallet: token.creatorWallet
+    creatorWallet: token.creatorWallet,
+    tokenProgram: (token.tokenProgram as "spl-token" | "token-2022") || "spl-token",
+    allocations: (token.allocations as any) || undefined,
+    metadataUri: token.metadataUri || undefined,
+    storageProvider: (token.storageProvider as StorageProviderName) || undefined
   };
-}
\ No newline at end of file
+}
+/**
+ * Refresh the stored name/symbol/image/description after an on-chain metadata update
+ * @param mint - The mint address to update
+ * @param fields - Values read back from chain / the metadata JSON
+ * @returns Promise<CreatedToken> - The updated token record
+ */
+export async function updateStoredMetadata(mint: string, fields: {
+  name: string;
+  symbol: string;
+  image?: string;
+  description?: string;
+}) {
+  return prisma.createdToken.update({
+    where: { mint },
+    data: {
+      name: fields.name,
+      ticker: fields.symbol, // Keep ticker for backward compatibility
+      symbol: fields.symbol,
+      image: fields.image ?? undefined,
+      description: fields.description ?? undefined,
+    },
+  });
+}
@@ -0,0 +1,170 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getPermanentDelegate, getTransferHook, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { getConnection } from "@/lib/rpc";
+import { getMintAnyProgram } from "@/lib/token2022";
+import { readMetadataState } from "@/lib/metadataUpdate";
+import { prisma } from "@/lib/db";
+import { buildTrustReport, TrustFacts, TrustReport } from "@/lib/trustReport";
+import { createCache } from "@/lib/cache";
+
+/**
+ * Trust report reads (server-side only)
+ *
+ * Gathers the facts trustReport scores: the mint account, metadata, largest
+ * holders, the creator's balance (CreatedToken), verified lp_burn TxEvents,
+ * creator-held CLMM positions and token age. Reports are cached like
+ * honestCache and invalidated together with it.
+ */
+
+// Recorded burns verified on-chain per report
+const MAX_BURNS_VERIFIED = 3;
+
+// Cache configuration - the report is heavier than the honest status, same default TTL
+const CACHE_MS = Number(process.env.TRUST_CACHE_MS || process.env.HONEST_CACHE_MS || 60000);
+const cache = createCache<TrustReport>("trust", { ttlMs: CACHE_MS });
+
+/**
+ * Signatures whose transaction succeeded and burned the recorded LP mint
+ * (lp_burn events store the LP mint in poolId)
+ */
+async function verifyBurns(conn: Connection, events: { txSig: string; poolId: string | null }[]): Promise<string[]> {
+  const verified: string[] = [];
+  for (const { txSig: sig, poolId: lpMint } of events.slice(0, MAX_BURNS_VERIFIED)) {
+    if (!lpMint) continue;
+    try {
+      const tx = await conn.getParsedTransaction(sig, { maxSupportedTransactionVersion: 0, commitment: "confirmed" });
+      if (!tx || tx.meta?.err) continue;
+      const inner = (tx.meta?.innerInstructions || []).flatMap((i) => i.instructions);
+      const burned = [...tx.transaction.message.instructions, ...inner].some(
+        (ix: any) => (ix.parsed?.type === "burn" || ix.parsed?.type === "burnChecked") && ix.parsed.info?.mint === lpMint
+      );
+      if (burned) verified.push(sig);
+    } catch (error) {
+      console.warn(`[trustReport] Could not verify LP burn ${sig}:`, error);
+    }
+  }
+  return verified;
+}
+
+async function readCreatorAmount(conn: Connection, creator: string, mintPk: PublicKey): Promise<bigint | null> {
+  try {
+    const { value } = await conn.getParsedTokenAccountsByOwner(new PublicKey(creator), { mint: mintPk });
+    return value.reduce((sum, a) => sum + BigInt(a.account.data.parsed?.info?.tokenAmount?.amount || "0"), 0n);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Oldest signature on the mint; a full page means the token may be older
+ */
+async function readOnChainAge(conn: Connection, mintPk: PublicKey): Promise<{ createdAt: Date | null; lowerBound: boolean }> {
+  try {
+    const limit = 1000;
+    const sigs = await conn.getSignaturesForAddress(mintPk, { limit });
+    const oldest = sigs[sigs.length - 1];
+    if (!oldest?.blockTime) return { createdAt: null, lowerBound: false };
+    return { createdAt: new Date(oldest.blockTime * 1000), lowerBound: sigs.length === limit };
+  } catch {
+    return { createdAt: null, lowerBound: false };
+  }
+}
+
+/**
+ * Gather everything a report needs; only the mint read is required
+ */
+export async function readTrustFacts(conn: Connection, mintStr: string): Promise<TrustFacts> {
+  const mintPk = new PublicKey(mintStr);
+  const { mint: acc, programId } = await getMintAnyProgram(conn, mintPk);
+  const isToken2022 = programId.equals(TOKEN_2022_PROGRAM_ID);
+
+  // Database facts are optional - tokens not created here still get a report
+  const [created, burnEvents, positions] = await Promise.all([
+    prisma.createdToken
+      .findUnique({ where: { mint: mintStr }, select: { creatorWallet: true, createdAt: true } })
+      .catch(() => null),
+    prisma.txEvent
+      .findMany({ where: { mint: mintStr, action: "lp_burn", success: true }, orderBy: { ts: "desc" }, select: { txSig: true, poolId: true } })
+      .catch(() => []),
+    prisma.positionsClmm
+      .findMany({ where: { OR: [{ tokenA: mintStr }, { tokenB: mintStr }] }, select: { wallet: true, lastLiquidity: true } })
+      .catch(() => null),
+  ]);
+  const creator = created?.creatorWallet || null;
+
+  const [metadata, largest, creatorAmount, lpBurnTxs, onChainAge] = await Promise.all([
+    readMetadataState(conn, mintStr).catch(() => null),
+    conn
+      .getTokenLargestAccounts(mintPk, "confirmed")
+      .then((r) => r.value.map((a) => BigInt(a.amount)).sort((a, b) => (a > b ? -1 : a < b ? 1 : 0)))
+      .catch(() => null),
+    creator ? readCreatorAmount(conn, creator, mintPk) : Promise.resolve(null),
+    verifyBurns(conn, burnEvents),
+    created ? Promise.resolve(null) : readOnChainAge(conn, mintPk),
+  ]);
+
+  const permanentDelegate = isToken2022 ? getPermanentDelegate(acc)?.delegate : null;
+  const transferHook = isToken2022 ? getTransferHook(acc)?.programId : null;
+  const set = (pk?: PublicKey | null) => (pk && !pk.equals(PublicKey.default) ? pk.toBase58() : null);
+
+  return {
+    mintAuthority: acc.mintAuthority ? acc.mintAuthority.toBase58() : null,
+    freezeAuthority: acc.freezeAuthority ? acc.freezeAuthority.toBase58() : null,
+    supply: acc.supply,
+    decimals: acc.decimals,
+    metadata,
+    largestAmounts: largest,
+    creator,
+    creatorAmount,
+    lpBurnTxs,
+    creatorClmmPositions:
+      creator && positions
+        ? positions.filter((p) => p.wallet === creator && p.lastLiquidity !== "" && p.lastLiquidity !== "0").length
+        : null,
+    createdAt: created?.createdAt ?? onChainAge?.createdAt ?? null,
+    createdAtIsLowerBound: !created && !!onChainAge?.lowerBound,
+    permanentDelegate: set(permanentDelegate),
+    transferHookProgram: set(transferHook),
+    isToken2022,
+  };
+}
+
+/**
+ * Invalidate the cached report for a mint
+ */
+export async function invalidateTrust(mint: string) {
+  await cache.delete(mint);
+}
+
+/**
+ * Build a report straight from chain (bypasses cache)
+ */
+export async function readTrustFresh(mintStr: string): Promise<TrustReport> {
+  try {
+    const facts = await readTrustFacts(getConnection("primary"), mintStr);
+    return buildTrustReport(mintStr, facts);
+  } catch (e: any) {
+    return {
+      mint: mintStr,
+      score: 0,
+      grade: "low",
+      isHonest: false,
+      creator: null,
+      checks: [],
+      generatedAt: new Date().toISOString(),
+      error: e?.message || "read-failed",
+    };
+  }
+}
+
+/**
+ * Read a report with caching and in-flight de-duplication (see honestCache)
+ */
+export async function readTrustCached(mintStr: string, { bust = false } = {}): Promise<TrustReport> {
+  return cache.getOrLoad(mintStr, () => readTrustFresh(mintStr), {
+    bust,
+    tags: [`mint:${mintStr}`],
+    // Failed reads aren't cached so the next request retries
+    shouldCache: (v) => !v.error,
+  });
+}
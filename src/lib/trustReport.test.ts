@@ -0,0 +1,90 @@
+// Simple test for trust report scoring
+import { buildTrustReport, scoreTrustFacts, summarizeChecks, TrustFacts } from './trustReport';
+
+function testTrustReport() {
+  try {
+    const failures: string[] = [];
+    const now = Date.UTC(2025, 0, 31);
+    const creator = 'Creator1111111111111111111111111111111111111';
+    const base: TrustFacts = {
+      mintAuthority: null,
+      freezeAuthority: null,
+      supply: 1_000_000n,
+      decimals: 6,
+      metadata: { standard: 'metaplex', name: 'T', symbol: 'T', uri: '', updateAuthority: null, isMutable: false, locked: true },
+      largestAmounts: [200_000n, 100_000n, 50_000n],
+      creator,
+      creatorAmount: 10_000n,
+      lpBurnTxs: ['sig'],
+      creatorClmmPositions: 0,
+      createdAt: new Date(now - 30 * 86_400_000),
+      createdAtIsLowerBound: false,
+      permanentDelegate: null,
+      transferHookProgram: null,
+      isToken2022: false,
+    };
+    const status = (f: TrustFacts, id: string) => scoreTrustFacts(f, now).find((c) => c.id === id)?.status;
+
+    console.log('Testing a clean token scores 100...');
+    const clean = buildTrustReport('mint', base, now);
+    if (clean.score !== 100 || clean.grade !== 'high' || !clean.isHonest) failures.push(`clean: ${clean.score} ${clean.grade}`);
+    if (clean.checks.length !== 8) failures.push('one check per item');
+
+    console.log('Testing authorities...');
+    const active = buildTrustReport('mint', { ...base, mintAuthority: creator, freezeAuthority: creator }, now);
+    if (active.isHonest || status({ ...base, mintAuthority: creator }, 'mint_authority') !== 'fail') failures.push('mint authority');
+    if (active.score !== 65) failures.push(`authorities score ${active.score}`);
+
+    console.log('Testing metadata mutability...');
+    const mutable = { ...base.metadata!, locked: false, isMutable: true, updateAuthority: creator };
+    if (status({ ...base, metadata: mutable }, 'metadata') !== 'warn') failures.push('mutable metadata');
+    if (status({ ...base, metadata: null }, 'metadata') !== 'unknown') failures.push('missing metadata');
+
+    console.log('Testing holder concentration and creator share...');
+    if (status({ ...base, largestAmounts: [600_000n] }, 'top_holders') !== 'warn') failures.push('top holders warn');
+    if (status({ ...base, largestAmounts: [900_000n] }, 'top_holders') !== 'fail') failures.push('top holders fail');
+    const eleven = Array.from({ length: 11 }, () => 50_000n);
+    if (status({ ...base, largestAmounts: eleven }, 'top_holders') !== 'pass') failures.push('only top 10 counted');
+    if (status({ ...base, creatorAmount: 150_000n }, 'creator_share') !== 'warn') failures.push('creator share warn');
+    if (status({ ...base, creatorAmount: 500_000n }, 'creator_share') !== 'fail') failures.push('creator share fail');
+    if (status({ ...base, creator: null, creatorAmount: null }, 'creator_share') !== 'unknown') failures.push('unknown creator');
+
+    console.log('Testing liquidity...');
+    if (status({ ...base, lpBurnTxs: [], creatorClmmPositions: 2 }, 'liquidity') !== 'warn') failures.push('creator positions');
+    if (status({ ...base, lpBurnTxs: [], creatorClmmPositions: null }, 'liquidity') !== 'unknown') failures.push('no liquidity');
+
+    console.log('Testing age...');
+    if (status({ ...base, createdAt: new Date(now - 2 * 86_400_000) }, 'age') !== 'warn') failures.push('2 days');
+    if (status({ ...base, createdAt: new Date(now - 3_600_000) }, 'age') !== 'fail') failures.push('1 hour');
+    const lower = scoreTrustFacts({ ...base, createdAtIsLowerBound: true }, now).find((c) => c.id === 'age');
+    if (!lower?.detail.startsWith('At least')) failures.push('lower bound wording');
+
+    console.log('Testing Token-2022 extensions...');
+    const t22 = { ...base, isToken2022: true };
+    if (status(t22, 'token2022_extensions') !== 'pass') failures.push('plain token-2022');
+    if (status({ ...t22, transferHookProgram: creator }, 'token2022_extensions') !== 'warn') failures.push('transfer hook');
+    if (status({ ...t22, permanentDelegate: creator, transferHookProgram: creator }, 'token2022_extensions') !== 'fail') {
+      failures.push('permanent delegate');
+    }
+
+    console.log('Testing unknown checks are left out of the score...');
+    const partial = summarizeChecks(scoreTrustFacts({ ...base, metadata: null, largestAmounts: null, createdAt: null }, now));
+    if (partial.score !== 100) failures.push(`unknowns lowered score: ${partial.score}`);
+
+    if (failures.length === 0) {
+      console.log('✅ Trust report test passed!');
+    } else {
+      console.log('❌ Trust report test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Trust report test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testTrustReport();
+}
+
+export { testTrustReport };
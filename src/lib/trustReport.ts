@@ -0,0 +1,220 @@
+import type { MetadataState } from "./metadataUpdate";
+
+/**
+ * Token trust report
+ *
+ * Extends the honest status (mint / freeze authority) with the other things a
+ * buyer should check before aping in: metadata mutability, holder
+ * concentration, the creator's share of supply, liquidity (AMM LP burns and
+ * creator-held CLMM positions), token age and abusable Token-2022 extensions.
+ * Each check is scored separately; the overall score only counts checks that
+ * could be read, so an RPC hiccup shows as "unknown" rather than a low score.
+ *
+ * Scoring is pure (client-safe); trustCache gathers the facts and caches reports.
+ */
+
+export type TrustStatus = "pass" | "warn" | "fail" | "unknown";
+export type TrustGrade = "high" | "medium" | "low";
+
+export type TrustCheckId =
+  | "mint_authority"
+  | "freeze_authority"
+  | "metadata"
+  | "top_holders"
+  | "creator_share"
+  | "liquidity"
+  | "age"
+  | "token2022_extensions";
+
+export interface TrustCheck {
+  id: TrustCheckId;
+  label: string;
+  status: TrustStatus;
+  score: number;    // Points earned (pass = weight, warn = half, fail / unknown = 0)
+  maxScore: number; // Weight of this check
+  detail: string;
+}
+
+export interface TrustReport {
+  mint: string;
+  score: number;     // 0-100 over the checks that could be read
+  grade: TrustGrade;
+  isHonest: boolean; // Mint & freeze authorities revoked (same rule as honestCache)
+  creator: string | null;
+  checks: TrustCheck[];
+  generatedAt: string;
+  error?: string;
+}
+
+/**
+ * Raw on-chain / database facts a report is scored from
+ * null means the fact could not be read
+ */
+export interface TrustFacts {
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  supply: bigint;
+  decimals: number;
+  metadata: MetadataState | null;
+  largestAmounts: bigint[] | null; // Largest token accounts, descending
+  creator: string | null;
+  creatorAmount: bigint | null;
+  lpBurnTxs: string[];             // Verified AMM LP burn signatures
+  creatorClmmPositions: number | null;
+  createdAt: Date | null;
+  createdAtIsLowerBound: boolean;  // Age from the oldest fetched signature, token may be older
+  permanentDelegate: string | null;
+  transferHookProgram: string | null;
+  isToken2022: boolean;
+}
+
+export const TRUST_WEIGHTS: Record<TrustCheckId, number> = {
+  mint_authority: 20,
+  freeze_authority: 15,
+  metadata: 10,
+  top_holders: 15,
+  creator_share: 15,
+  liquidity: 15,
+  age: 5,
+  token2022_extensions: 5,
+};
+
+// Thresholds as a fraction of supply: [pass at or below, warn at or below]
+const TOP_HOLDERS_LIMITS = [0.5, 0.8];
+const CREATOR_SHARE_LIMITS = [0.05, 0.2];
+// Token age: [pass at or above, warn at or above]
+const AGE_LIMITS_MS = [7 * 86_400_000, 86_400_000];
+
+const TOP_HOLDER_COUNT = 10;
+
+function check(id: TrustCheckId, label: string, status: TrustStatus, detail: string): TrustCheck {
+  const maxScore = TRUST_WEIGHTS[id];
+  const score = status === "pass" ? maxScore : status === "warn" ? maxScore / 2 : 0;
+  return { id, label, status, score, maxScore, detail };
+}
+
+function short(address: string) {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function pct(share: number) {
+  return `${(share * 100).toFixed(share < 0.01 ? 2 : 1)}%`;
+}
+
+function shareOf(amount: bigint, supply: bigint): number {
+  if (supply <= 0n) return 0;
+  // Basis-point precision is plenty for scoring
+  return Number((amount * 10_000n) / supply) / 10_000;
+}
+
+function byLimits(value: number, [pass, warn]: number[]): TrustStatus {
+  return value <= pass ? "pass" : value <= warn ? "warn" : "fail";
+}
+
+/**
+ * Score a set of facts into the individual checks
+ */
+export function scoreTrustFacts(f: TrustFacts, now = Date.now()): TrustCheck[] {
+  const checks: TrustCheck[] = [];
+
+  checks.push(
+    f.mintAuthority === null
+      ? check("mint_authority", "Mint authority", "pass", "Revoked - supply is fixed")
+      : check("mint_authority", "Mint authority", "fail", `Active (${short(f.mintAuthority)}) - more tokens can be minted`)
+  );
+
+  checks.push(
+    f.freezeAuthority === null
+      ? check("freeze_authority", "Freeze authority", "pass", "Revoked - holder accounts cannot be frozen")
+      : check("freeze_authority", "Freeze authority", "fail", `Active (${short(f.freezeAuthority)}) - holder accounts can be frozen`)
+  );
+
+  if (!f.metadata) {
+    checks.push(check("metadata", "Metadata", "unknown", "No metadata found"));
+  } else if (f.metadata.locked) {
+    checks.push(check("metadata", "Metadata", "pass", "Immutable - name, symbol and image are final"));
+  } else {
+    const who = f.metadata.updateAuthority ? ` by ${short(f.metadata.updateAuthority)}` : "";
+    checks.push(check("metadata", "Metadata", "warn", `Mutable - name, symbol and image can be changed${who}`));
+  }
+
+  if (!f.largestAmounts || f.supply <= 0n) {
+    checks.push(check("top_holders", "Top 10 holders", "unknown", "Holder data unavailable"));
+  } else {
+    const top = f.largestAmounts.slice(0, TOP_HOLDER_COUNT).reduce((a, b) => a + b, 0n);
+    const share = shareOf(top, f.supply);
+    // Pool vaults are token accounts too, so a fresh pool counts towards this
+    checks.push(
+      check("top_holders", "Top 10 holders", byLimits(share, TOP_HOLDERS_LIMITS), `Hold ${pct(share)} of supply (including pool vaults)`)
+    );
+  }
+
+  if (!f.creator || f.creatorAmount === null || f.supply <= 0n) {
+    checks.push(check("creator_share", "Creator share", "unknown", f.creator ? "Creator balance unavailable" : "Creator not known"));
+  } else {
+    const share = shareOf(f.creatorAmount, f.supply);
+    checks.push(check("creator_share", "Creator share", byLimits(share, CREATOR_SHARE_LIMITS), `Creator wallet holds ${pct(share)} of supply`));
+  }
+
+  if (f.lpBurnTxs.length > 0) {
+    checks.push(check("liquidity", "Liquidity", "pass", `AMM LP burned (${f.lpBurnTxs.length} verified burn${f.lpBurnTxs.length === 1 ? "" : "s"})`));
+  } else if (f.creatorClmmPositions) {
+    checks.push(
+      check("liquidity", "Liquidity", "warn", `Creator holds ${f.creatorClmmPositions} CLMM position${f.creatorClmmPositions === 1 ? "" : "s"} - liquidity can be withdrawn`)
+    );
+  } else {
+    checks.push(check("liquidity", "Liquidity", "unknown", "No burned LP or creator positions on record"));
+  }
+
+  if (!f.createdAt) {
+    checks.push(check("age", "Token age", "unknown", "Creation time unavailable"));
+  } else {
+    const age = Math.max(0, now - f.createdAt.getTime());
+    const days = Math.floor(age / 86_400_000);
+    const hours = Math.floor(age / 3_600_000);
+    const text = `${f.createdAtIsLowerBound ? "At least " : ""}${days >= 1 ? `${days} day${days === 1 ? "" : "s"}` : `${hours} hour${hours === 1 ? "" : "s"}`} old`;
+    const status: TrustStatus = age >= AGE_LIMITS_MS[0] ? "pass" : age >= AGE_LIMITS_MS[1] ? "warn" : "fail";
+    checks.push(check("age", "Token age", status, text));
+  }
+
+  if (!f.isToken2022) {
+    checks.push(check("token2022_extensions", "Token extensions", "pass", "Standard SPL token - no extensions"));
+  } else if (f.permanentDelegate) {
+    checks.push(
+      check("token2022_extensions", "Token extensions", "fail", `Permanent delegate ${short(f.permanentDelegate)} can move or burn any holder's tokens`)
+    );
+  } else if (f.transferHookProgram) {
+    checks.push(
+      check("token2022_extensions", "Token extensions", "warn", `Transfer hook program ${short(f.transferHookProgram)} runs on every transfer`)
+    );
+  } else {
+    checks.push(check("token2022_extensions", "Token extensions", "pass", "No permanent delegate or transfer hook"));
+  }
+
+  return checks;
+}
+
+/**
+ * Overall 0-100 score from the checks that could be read
+ */
+export function summarizeChecks(checks: TrustCheck[]): { score: number; grade: TrustGrade } {
+  const known = checks.filter((c) => c.status !== "unknown");
+  const max = known.reduce((a, c) => a + c.maxScore, 0);
+  const score = max ? Math.round((known.reduce((a, c) => a + c.score, 0) / max) * 100) : 0;
+  return { score, grade: score >= 80 ? "high" : score >= 50 ? "medium" : "low" };
+}
+
+/**
+ * Build the report for a mint from its facts
+ */
+export function buildTrustReport(mint: string, facts: TrustFacts, now = Date.now()): TrustReport {
+  const checks = scoreTrustFacts(facts, now);
+  return {
+    mint,
+    ...summarizeChecks(checks),
+    isHonest: facts.mintAuthority === null && facts.freezeAuthority === null,
+    creator: facts.creator,
+    checks,
+    generatedAt: new Date(now).toISOString(),
+  };
+}
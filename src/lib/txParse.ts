@@ -32,20 +32,18 @@ export async function findClmmPositionMintFromTx(
     }
 
     // Extract account keys from the transaction message
+    // v0 messages index past the static keys into lookup-table addresses
+    // (loadedAddresses), so resolve the full key list for both versions
     const msg = tx.transaction.message;
-    let keys: string[];
-    let instructions: any[];
-    
-    // Handle both legacy and versioned transactions
-    if ('accountKeys' in msg) {
-      // Legacy transaction
-      keys = msg.accountKeys.map(k => k.toBase58());
-      instructions = msg.instructions;
-    } else {
-      // Versioned transaction (V0) - use static account keys
-      keys = msg.staticAccountKeys.map(k => k.toBase58());
-      instructions = msg.compiledInstructions;
-    }
+    const keys = msg
+      .getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses ?? undefined })
+      .keySegments()
+      .flat()
+      .map(k => k.toBase58());
+    const instructions = msg.compiledInstructions.map(ix => ({
+      programIdIndex: ix.programIdIndex,
+      accounts: ix.accountKeyIndexes,
+    }));
     
     // Look for instructions invoking the CLMM program
     const clmmIxs = tx.meta?.innerInstructions?.flatMap(x => x.instructions) ?? [];
@@ -0,0 +1,155 @@
+// Simple test for transaction simulation and cost preview
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { appFeesFromSummary, describeTxPreview, NATIVE_SOL, previewOrThrow, simulateAndPrice } from './txPreview';
+
+const RENT = 2039280;
+
+// Just enough of Connection for simulateAndPrice (recorded responses, no RPC)
+function mockConnection(
+  wallet: PublicKey,
+  tokenAccount: PublicKey,
+  mint: PublicKey,
+  simErr: any = null,
+  lookupTable: AddressLookupTableAccount | null = null
+): any {
+  const tokenData = Buffer.alloc(165);
+  tokenData.set(mint.toBytes(), 0);
+  tokenData.set(wallet.toBytes(), 32);
+  tokenData.writeBigUInt64LE(BigInt(100), 64);
+  const mintData = Buffer.alloc(82);
+  mintData[44] = 6;
+
+  return {
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1 }),
+    getFeeForMessage: async () => ({ value: 5000 }),
+    getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+      keys.map((k) => {
+        if (k.equals(wallet)) return { lamports: 1_000_000_000, owner: SystemProgram.programId, data: Buffer.alloc(0) };
+        if (k.equals(mint)) return { lamports: 1, owner: TOKEN_PROGRAM_ID, data: mintData };
+        return null;
+      }),
+    getAddressLookupTable: async (key: PublicKey) => ({
+      value: lookupTable && key.equals(lookupTable.key) ? lookupTable : null,
+    }),
+    // Post-state for each requested address, in request order
+    simulateTransaction: async (_tx: any, config: any) => ({
+      value: simErr
+        ? { err: simErr, logs: ['Program log: custom program error: 0x1'], unitsConsumed: 1200, accounts: null }
+        : {
+            err: null,
+            logs: [],
+            unitsConsumed: 4500,
+            accounts: config.accounts.addresses.map((address: string) => {
+              if (address === wallet.toBase58()) {
+                return { lamports: 1_000_000_000 - RENT - 5000, owner: SystemProgram.programId.toBase58(), data: ['', 'base64'] };
+              }
+              if (address === tokenAccount.toBase58()) {
+                return { lamports: RENT, owner: TOKEN_PROGRAM_ID.toBase58(), data: [tokenData.toString('base64'), 'base64'] };
+              }
+              return null;
+            }),
+          },
+    }),
+  };
+}
+
+async function testTxPreview() {
+  try {
+    const failures: string[] = [];
+    const wallet = Keypair.generate().publicKey;
+    const tokenAccount = Keypair.generate();
+    const mint = Keypair.generate().publicKey;
+    const tx = new Transaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: wallet,
+        newAccountPubkey: tokenAccount.publicKey,
+        lamports: RENT,
+        space: 165,
+        programId: TOKEN_PROGRAM_ID,
+      })
+    );
+
+    console.log('Testing successful simulation...');
+    const preview = await simulateAndPrice(mockConnection(wallet, tokenAccount.publicKey, mint), tx, {
+      feePayer: wallet,
+      appFees: { flatFeeLamports: BigInt(10_000_000) },
+    });
+    if (!preview.ok) failures.push('preview not ok');
+    if (preview.computeUnits !== 4500) failures.push(`compute units: ${preview.computeUnits}`);
+    if (preview.rentLamports !== BigInt(RENT)) failures.push(`rent: ${preview.rentLamports}`);
+    if (preview.newAccounts[0] !== tokenAccount.publicKey.toBase58()) failures.push('new account');
+    if (preview.totalSolLamports !== BigInt(RENT + 5000 + 10_000_000)) failures.push(`total: ${preview.totalSolLamports}`);
+    const sol = preview.balanceChanges.find((c) => c.mint === NATIVE_SOL);
+    if (sol?.delta !== BigInt(-(RENT + 5000))) failures.push(`sol delta: ${sol?.delta}`);
+    const token = preview.balanceChanges.find((c) => c.mint === mint.toBase58());
+    if (token?.delta !== BigInt(100) || token?.decimals !== 6) failures.push('token delta');
+    if (!describeTxPreview(preview).includes('4,500 CU')) failures.push(`describe: ${describeTxPreview(preview)}`);
+    if (tx.recentBlockhash) failures.push('caller transaction was mutated');
+
+    console.log('Testing writable accounts loaded from a lookup table...');
+    const lookupTable = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [tokenAccount.publicKey],
+      },
+    });
+    const v0 = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: wallet,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [SystemProgram.transfer({ fromPubkey: wallet, toPubkey: tokenAccount.publicKey, lamports: RENT })],
+      }).compileToV0Message([lookupTable])
+    );
+    if (v0.message.staticAccountKeys.some((k) => k.equals(tokenAccount.publicKey))) failures.push('lookup setup: account is static');
+    const viaTable = await simulateAndPrice(mockConnection(wallet, tokenAccount.publicKey, mint, null, lookupTable), v0, { feePayer: wallet });
+    if (viaTable.newAccounts[0] !== tokenAccount.publicKey.toBase58()) failures.push(`lookup new account: ${viaTable.newAccounts}`);
+    if (viaTable.balanceChanges.find((c) => c.mint === mint.toBase58())?.delta !== BigInt(100)) failures.push('lookup token delta');
+
+    console.log('Testing failed simulation...');
+    const failing = mockConnection(wallet, tokenAccount.publicKey, mint, { InstructionError: [0, { Custom: 1 }] });
+    const failed = await simulateAndPrice(failing, tx, { feePayer: wallet });
+    if (failed.ok || failed.error?.code !== 'ProgramError') failures.push(`failed code: ${failed.error?.code}`);
+    try {
+      await previewOrThrow(failing, tx, { feePayer: wallet });
+      failures.push('previewOrThrow resolved on failure');
+    } catch (error: any) {
+      if (error?.code !== 'ProgramError' || !error?.preview) failures.push('previewOrThrow error shape');
+    }
+
+    console.log('Testing unavailable RPC...');
+    const offline: any = { getLatestBlockhash: async () => { throw new Error('fetch failed'); } };
+    if ((await previewOrThrow(offline, tx, { feePayer: wallet })) !== null) failures.push('offline preview not null');
+
+    console.log('Testing LP commit app fees...');
+    const fees = appFeesFromSummary({ tokenMintA: 'A', tokenMintB: 'B', fee: { sol: '0.01', skimA: '250', skimB: '0' } });
+    if (fees.flatFeeLamports !== BigInt(10_000_000)) failures.push(`flat fee: ${fees.flatFeeLamports}`);
+    if (fees.skims.length !== 1 || fees.skims[0].mint !== 'A' || fees.skims[0].amount !== BigInt(250)) failures.push('skims');
+
+    if (failures.length) {
+      console.error('❌ TxPreview test failed:', failures);
+    } else {
+      console.log('✅ TxPreview test passed!');
+    }
+  } catch (error) {
+    console.error('❌ TxPreview test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testTxPreview();
+}
+
+export { testTxPreview };
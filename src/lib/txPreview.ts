@@ -0,0 +1,278 @@
+import {
+  Connection,
+  Message,
+  MessageV0,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { formatBaseAmount, parseUiAmount } from "./amounts";
+import { normalizeError, UiError } from "./errors";
+
+/**
+ * Transaction simulation and cost preview
+ *
+ * simulateAndPrice runs before any wallet prompt: it simulates the
+ * transaction (no signatures needed) and reports compute units, the network
+ * fee, rent locked in new accounts, app fees and the wallet's predicted
+ * balance change per mint. A failing simulation comes back with a
+ * normalizeError message so the user never signs a transaction that will fail.
+ */
+
+export const NATIVE_SOL = "SOL";
+
+// Base fee per signature when getFeeForMessage is unavailable
+const LAMPORTS_PER_SIGNATURE = BigInt(5000);
+
+// SPL token account layout: mint (32) | owner (32) | amount (u64 LE)
+const TOKEN_ACCOUNT_SIZE = 165;
+// SPL mint layout: decimals is the byte after authority option + authority + supply
+const MINT_DECIMALS_OFFSET = 44;
+
+export interface AppFees {
+  flatFeeLamports: bigint; // FLAT_FEE_SOL transfer to the fee wallet
+  skims: { mint: string; amount: bigint }[]; // applySkimBp amounts per mint
+}
+
+export interface BalanceChange {
+  mint: string; // NATIVE_SOL or the token mint
+  delta: bigint; // Base units; negative = leaves the wallet
+  decimals: number;
+}
+
+export interface TxPreview {
+  ok: boolean;
+  error?: UiError; // Simulation failure, mapped through normalizeError
+  rawError?: string; // Program error + logs, for debugging
+  logs: string[];
+  computeUnits: number | null;
+  networkFeeLamports: bigint;
+  rentLamports: bigint; // Deposits for accounts this transaction creates
+  newAccounts: string[];
+  appFees: AppFees;
+  totalSolLamports: bigint; // Network fee + rent + flat app fee
+  balanceChanges: BalanceChange[]; // Fee payer's wallet, SOL first
+}
+
+export interface SimulateAndPriceOptions {
+  feePayer?: PublicKey; // Defaults to tx.feePayer
+  appFees?: Partial<AppFees>;
+}
+
+const EMPTY_APP_FEES: AppFees = { flatFeeLamports: BigInt(0), skims: [] };
+
+/**
+ * App fees from an LP commit summary ({ fee: { sol, skimA, skimB } })
+ */
+export function appFeesFromSummary(summary: any): AppFees {
+  const fee = summary?.fee;
+  if (!fee) return EMPTY_APP_FEES;
+  const mintA = summary.tokenMintA || summary.mintA;
+  const mintB = summary.tokenMintB || summary.mintB;
+  const skims: AppFees["skims"] = [];
+  if (mintA && fee.skimA && BigInt(fee.skimA) > BigInt(0)) skims.push({ mint: mintA, amount: BigInt(fee.skimA) });
+  if (mintB && fee.skimB && BigInt(fee.skimB) > BigInt(0)) skims.push({ mint: mintB, amount: BigInt(fee.skimB) });
+  return {
+    flatFeeLamports: fee.sol ? parseUiAmount(fee.sol, 9) : BigInt(0),
+    skims,
+  };
+}
+
+function isTokenProgram(owner: PublicKey): boolean {
+  return owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID);
+}
+
+function readTokenAccount(data: Buffer, owner: PublicKey) {
+  if (!isTokenProgram(owner) || data.length < TOKEN_ACCOUNT_SIZE) return null;
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
+
+/**
+ * Compile the message to simulate without touching the caller's transaction
+ * (its blockhash / signatures are set later by the send flow)
+ */
+function messageFor(tx: Transaction | VersionedTransaction, feePayer: PublicKey, blockhash: string): Message | MessageV0 {
+  if (tx instanceof VersionedTransaction) return tx.message;
+  return new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions: tx.instructions,
+  }).compileToLegacyMessage();
+}
+
+/**
+ * Writable accounts of a message, including those loaded from address lookup tables (v0)
+ * @throws When a lookup table can't be read
+ */
+async function writableAccounts(connection: Connection, message: Message | MessageV0): Promise<PublicKey[]> {
+  const writable = message.staticAccountKeys.filter((_, i) => message.isAccountWritable(i));
+  if (!(message instanceof MessageV0) || message.addressTableLookups.length === 0) return writable;
+
+  const tables = await Promise.all(
+    message.addressTableLookups.map(async (lookup) => {
+      const table = (await connection.getAddressLookupTable(lookup.accountKey, { commitment: "confirmed" })).value;
+      if (!table) throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+      return table;
+    })
+  );
+  return [...writable, ...message.resolveAddressTableLookups(tables).writable];
+}
+
+/**
+ * Simulate a transaction and price it for the fee payer
+ * @returns TxPreview; ok is false when the simulation fails
+ * @throws Only on RPC failures (the preview couldn't be produced at all)
+ */
+export async function simulateAndPrice(
+  connection: Connection,
+  tx: Transaction | VersionedTransaction,
+  options: SimulateAndPriceOptions = {}
+): Promise<TxPreview> {
+  const feePayer = options.feePayer || (tx instanceof Transaction ? tx.feePayer : null);
+  if (!feePayer) throw new Error("simulateAndPrice: fee payer is required");
+  const wallet = feePayer.toBase58();
+
+  const { blockhash } = await connection.getLatestBlockhash("confirmed");
+  const message = messageFor(tx, feePayer, blockhash);
+  const writable = await writableAccounts(connection, message);
+
+  const [pre, sim, fee] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable, "confirmed"),
+    connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: "confirmed",
+      accounts: { encoding: "base64", addresses: writable.map((k) => k.toBase58()) },
+    }),
+    connection.getFeeForMessage(message, "confirmed").catch(() => ({ value: null })),
+  ]);
+
+  const appFees: AppFees = { ...EMPTY_APP_FEES, ...options.appFees };
+  const networkFeeLamports =
+    fee.value != null ? BigInt(fee.value) : LAMPORTS_PER_SIGNATURE * BigInt(message.header.numRequiredSignatures);
+  const logs = sim.value.logs || [];
+
+  if (sim.value.err) {
+    const rawError = [JSON.stringify(sim.value.err), ...logs].join("\n");
+    return {
+      ok: false,
+      error: normalizeError(new Error(rawError)),
+      rawError,
+      logs,
+      computeUnits: sim.value.unitsConsumed ?? null,
+      networkFeeLamports,
+      rentLamports: BigInt(0),
+      newAccounts: [],
+      appFees,
+      totalSolLamports: networkFeeLamports + appFees.flatFeeLamports,
+      balanceChanges: [],
+    };
+  }
+
+  // Compare pre-state with the simulated post-state of every writable account
+  let rentLamports = BigInt(0);
+  const newAccounts: string[] = [];
+  const tokenDeltas = new Map<string, bigint>();
+  let solDelta = BigInt(0);
+
+  (sim.value.accounts || []).forEach((post, i) => {
+    const before = pre[i];
+    const address = writable[i].toBase58();
+    const postLamports = BigInt(post?.lamports ?? 0);
+    const preLamports = BigInt(before?.lamports ?? 0);
+
+    if (address === wallet) solDelta = postLamports - preLamports;
+
+    const postOwner = post ? new PublicKey(post.owner) : SystemProgram.programId;
+    const postData = post ? Buffer.from(post.data[0], "base64") : Buffer.alloc(0);
+    if (preLamports === BigInt(0) && postLamports > BigInt(0) && (postData.length > 0 || !postOwner.equals(SystemProgram.programId))) {
+      rentLamports += postLamports;
+      newAccounts.push(address);
+    }
+
+    const preToken = before ? readTokenAccount(before.data as Buffer, before.owner) : null;
+    const postToken = post ? readTokenAccount(postData, postOwner) : null;
+    const token = postToken || preToken;
+    if (token && token.owner === wallet) {
+      const delta = (postToken?.amount ?? BigInt(0)) - (preToken?.amount ?? BigInt(0));
+      if (delta !== BigInt(0)) tokenDeltas.set(token.mint, (tokenDeltas.get(token.mint) ?? BigInt(0)) + delta);
+    }
+  });
+
+  // Decimals for display
+  const mints = Array.from(tokenDeltas.keys());
+  const mintInfos = mints.length
+    ? await connection.getMultipleAccountsInfo(mints.map((m) => new PublicKey(m)), "confirmed")
+    : [];
+
+  const balanceChanges: BalanceChange[] = [];
+  if (solDelta !== BigInt(0)) balanceChanges.push({ mint: NATIVE_SOL, delta: solDelta, decimals: 9 });
+  mints.forEach((mint, i) => {
+    const data = mintInfos[i]?.data;
+    balanceChanges.push({
+      mint,
+      delta: tokenDeltas.get(mint) as bigint,
+      decimals: data && data.length > MINT_DECIMALS_OFFSET ? data[MINT_DECIMALS_OFFSET] : 0,
+    });
+  });
+
+  return {
+    ok: true,
+    logs,
+    computeUnits: sim.value.unitsConsumed ?? null,
+    networkFeeLamports,
+    rentLamports,
+    newAccounts,
+    appFees,
+    totalSolLamports: networkFeeLamports + rentLamports + appFees.flatFeeLamports,
+    balanceChanges,
+  };
+}
+
+/**
+ * Simulate and throw when the transaction would fail
+ * The thrown error keeps the raw program error as its message (so callers'
+ * normalizeError maps it as usual) and carries code + preview
+ */
+export async function previewOrThrow(
+  connection: Connection,
+  tx: Transaction | VersionedTransaction,
+  options: SimulateAndPriceOptions = {}
+): Promise<TxPreview | null> {
+  let preview: TxPreview;
+  try {
+    preview = await simulateAndPrice(connection, tx, options);
+  } catch (error) {
+    // The preview is best-effort; an RPC hiccup shouldn't block signing
+    console.warn("[txPreview] Simulation unavailable:", error);
+    return null;
+  }
+  if (!preview.ok) {
+    const e: any = new Error(preview.rawError || preview.error?.message || "Simulation failed");
+    e.code = preview.error?.code;
+    e.preview = preview;
+    throw e;
+  }
+  return preview;
+}
+
+/**
+ * One-line cost summary for toasts, e.g.
+ * "≈ 0.00204428 SOL (fee 0.000005, rent 0.00203928) · 12,345 CU"
+ */
+export function describeTxPreview(preview: TxPreview): string {
+  const sol = (l: bigint) => formatBaseAmount(l, 9);
+  const parts = [`fee ${sol(preview.networkFeeLamports)}`];
+  if (preview.rentLamports > BigInt(0)) parts.push(`rent ${sol(preview.rentLamports)}`);
+  if (preview.appFees.flatFeeLamports > BigInt(0)) parts.push(`app fee ${sol(preview.appFees.flatFeeLamports)}`);
+  let text = `≈ ${sol(preview.totalSolLamports)} SOL (${parts.join(", ")})`;
+  if (preview.computeUnits != null) text += ` · ${preview.computeUnits.toLocaleString()} CU`;
+  return text;
+}
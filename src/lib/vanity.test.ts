@@ -0,0 +1,81 @@
+// Simple test for vanity pattern validation, grinding and the worker pool
+import { Connection, Keypair } from '@solana/web3.js';
+import { estimateVanity, grindVanityBatch, matchesVanity, validateVanityPattern } from './vanity';
+import { getVanityJob, startVanityJob } from './vanityPool';
+import { buildCreateTokenTx } from './tokenCreate';
+
+const stubConnection = {
+  getMinimumBalanceForRentExemption: async (size: number) => 6960 * (size + 128),
+  getLatestBlockhash: async () => ({
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 100,
+  }),
+} as unknown as Connection;
+
+async function testVanity() {
+  try {
+    const failures: string[] = [];
+
+    console.log('Testing pattern validation and estimates...');
+    if (estimateVanity({ suffix: 'AB' }).expectedAttempts !== 58 * 58) failures.push('case-sensitive estimate');
+    // "a" matches "a" and "A"; "o" only matches "o" (no "O" in base58)
+    if (estimateVanity({ suffix: 'ao', caseSensitive: false }).expectedAttempts !== 29 * 58) failures.push('case-insensitive estimate');
+    for (const bad of [{ suffix: '0' }, { prefix: 'Ol' }, { suffix: 'ABCDEFG' }, {}]) {
+      try {
+        validateVanityPattern(bad);
+        failures.push(`accepted ${JSON.stringify(bad)}`);
+      } catch (e: any) {
+        if (e.code !== 'InvalidVanityPattern') failures.push(`wrong code for ${JSON.stringify(bad)}`);
+      }
+    }
+    if (!matchesVanity('abcPEPE', validateVanityPattern({ suffix: 'pepe', caseSensitive: false }))) failures.push('insensitive match');
+    if (matchesVanity('abcPEPE', validateVanityPattern({ suffix: 'pepe' }))) failures.push('sensitive mismatch');
+
+    console.log('Testing in-process grinding...');
+    const pattern = validateVanityPattern({ suffix: 'a', caseSensitive: false });
+    let found: Keypair | null = null;
+    for (let i = 0; i < 20 && !found; i++) found = grindVanityBatch(pattern).keypair;
+    if (!found || !found.publicKey.toBase58().toLowerCase().endsWith('a')) failures.push('grind batch');
+
+    console.log('Testing worker-thread pool...');
+    const job = startVanityJob({ prefix: 'z' });
+    const deadline = Date.now() + 60_000;
+    while (getVanityJob(job.id)?.status === 'running' && Date.now() < deadline) {
+      await new Promise((r) => setTimeout(r, 200));
+    }
+    const done = getVanityJob(job.id);
+    if (done?.status !== 'found' || !done.mint?.startsWith('z')) failures.push(`pool job ${done?.status}`);
+
+    console.log('Testing caller-supplied mint address...');
+    const vanityMint = found || Keypair.generate();
+    const built = await buildCreateTokenTx({
+      connection: stubConnection,
+      payer: Keypair.generate().publicKey,
+      name: 'Vanity',
+      symbol: 'VAN',
+      uri: 'https://example.com/meta.json',
+      decimals: 6,
+      amountBase: BigInt(1000),
+      mintAddress: vanityMint.publicKey,
+    });
+    if (built.partialSigners.length !== 0 || built.summary.mint !== vanityMint.publicKey.toBase58()) {
+      failures.push('mintAddress builder');
+    }
+
+    if (failures.length === 0) {
+      console.log('✅ Vanity test passed!');
+    } else {
+      console.log('❌ Vanity test failed:', failures);
+    }
+
+  } catch (error) {
+    console.error('❌ Vanity test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testVanity();
+}
+
+export { testVanity };
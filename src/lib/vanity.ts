@@ -0,0 +1,143 @@
+import { Keypair } from "@solana/web3.js";
+
+/**
+ * Vanity mint address grinding
+ *
+ * Shared by the browser Web Worker (lib/vanity.worker.ts) and the server
+ * worker-thread pool (lib/vanityPool.ts). Generates random keypairs until the
+ * base58 address matches the requested prefix and/or suffix.
+ */
+
+export const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Combined prefix + suffix length cap; every extra char is ~58x more work
+export const VANITY_MAX_CHARS = 6;
+
+// Keypairs tried between progress reports / cancellation checks
+export const VANITY_BATCH_SIZE = 500;
+
+export interface VanityPattern {
+  prefix?: string;
+  suffix?: string;
+  caseSensitive?: boolean; // defaults to true
+}
+
+export interface VanityEstimate {
+  expectedAttempts: number; // mean attempts for a 50/50 geometric draw is ~0.69x this
+  difficulty: "easy" | "moderate" | "hard" | "extreme";
+}
+
+export interface VanityBatchResult {
+  keypair: Keypair | null;
+  attempts: number;
+}
+
+/**
+ * Normalise and validate a vanity pattern
+ * @throws Error with code "InvalidVanityPattern" when chars are not base58 or the pattern is too long
+ */
+export function validateVanityPattern(p: VanityPattern): Required<VanityPattern> {
+  const prefix = (p.prefix || "").trim();
+  const suffix = (p.suffix || "").trim();
+  const caseSensitive = p.caseSensitive !== false;
+
+  const fail = (message: string) => {
+    const e: any = new Error(message);
+    e.code = "InvalidVanityPattern";
+    return e;
+  };
+
+  if (!prefix && !suffix) {
+    throw fail("Enter a prefix or suffix");
+  }
+  if (prefix.length + suffix.length > VANITY_MAX_CHARS) {
+    throw fail(`Prefix and suffix can be at most ${VANITY_MAX_CHARS} characters combined`);
+  }
+  for (const ch of prefix + suffix) {
+    if (charMatches(ch, caseSensitive) === 0) {
+      throw fail(`"${ch}" can never appear in a Solana address (no 0, O, I or l)`);
+    }
+  }
+
+  return {
+    prefix: caseSensitive ? prefix : prefix.toLowerCase(),
+    suffix: caseSensitive ? suffix : suffix.toLowerCase(),
+    caseSensitive,
+  };
+}
+
+/**
+ * Number of base58 characters that satisfy one pattern character
+ */
+function charMatches(ch: string, caseSensitive: boolean): number {
+  if (caseSensitive) return BASE58_ALPHABET.includes(ch) ? 1 : 0;
+  const lower = ch.toLowerCase();
+  let n = 0;
+  for (const a of BASE58_ALPHABET) {
+    if (a.toLowerCase() === lower) n++;
+  }
+  return n;
+}
+
+/**
+ * Estimate how many keypairs must be generated to hit the pattern
+ * Treats every address position as uniform base58 - the first character of a
+ * 32-byte key is skewed, so prefixes can be noticeably easier or harder
+ */
+export function estimateVanity(p: VanityPattern): VanityEstimate {
+  const { prefix, suffix, caseSensitive } = validateVanityPattern(p);
+  let expectedAttempts = 1;
+  for (const ch of prefix + suffix) {
+    expectedAttempts *= BASE58_ALPHABET.length / charMatches(ch, caseSensitive);
+  }
+
+  const difficulty =
+    expectedAttempts <= 1e4 ? "easy" :
+    expectedAttempts <= 1e6 ? "moderate" :
+    expectedAttempts <= 1e8 ? "hard" : "extreme";
+
+  return { expectedAttempts: Math.round(expectedAttempts), difficulty };
+}
+
+/**
+ * Estimated seconds to find a match at the given keypairs/second rate
+ */
+export function estimateVanitySeconds(expectedAttempts: number, ratePerSecond: number): number {
+  if (!ratePerSecond || ratePerSecond <= 0) return Infinity;
+  return expectedAttempts / ratePerSecond;
+}
+
+/**
+ * Check whether an address satisfies an already-validated pattern
+ */
+export function matchesVanity(address: string, p: Required<VanityPattern>): boolean {
+  const a = p.caseSensitive ? address : address.toLowerCase();
+  return (!p.prefix || a.startsWith(p.prefix)) && (!p.suffix || a.endsWith(p.suffix));
+}
+
+/**
+ * Try up to `batchSize` random keypairs
+ * Workers call this in a loop and report `attempts` between batches
+ */
+export function grindVanityBatch(p: Required<VanityPattern>, batchSize = VANITY_BATCH_SIZE): VanityBatchResult {
+  for (let i = 1; i <= batchSize; i++) {
+    const keypair = Keypair.generate();
+    if (matchesVanity(keypair.publicKey.toBase58(), p)) {
+      return { keypair, attempts: i };
+    }
+  }
+  return { keypair: null, attempts: batchSize };
+}
+
+/**
+ * Default pattern for a ticker: suffix, case-insensitive, trimmed to the char cap
+ * Drops characters that can never appear in an address
+ */
+export function defaultVanityForSymbol(symbol: string): VanityPattern {
+  const suffix = (symbol || "")
+    .split("")
+    .filter((ch) => charMatches(ch, false) > 0)
+    .join("")
+    .slice(0, 4);
+  return { suffix, caseSensitive: false };
+}
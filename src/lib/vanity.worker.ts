@@ -0,0 +1,34 @@
+import { VanityPattern, grindVanityBatch } from "./vanity";
+
+/**
+ * Browser Web Worker for vanity mint grinding
+ * Spawned by useVanityMint; cancellation is done by terminating the worker
+ *
+ * In:  { type: "start", pattern }   (pattern already validated)
+ * Out: { type: "progress", attempts } | { type: "found", secretKey, attempts }
+ */
+
+const ctx = self as unknown as {
+  postMessage: (message: any) => void;
+  onmessage: ((event: MessageEvent) => void) | null;
+};
+
+ctx.onmessage = (event: MessageEvent) => {
+  const { type, pattern } = event.data || {};
+  if (type !== "start") return;
+
+  const p = pattern as Required<VanityPattern>;
+  // Yield between batches so progress messages flush and terminate() lands promptly
+  const loop = () => {
+    const { keypair, attempts } = grindVanityBatch(p);
+    if (keypair) {
+      ctx.postMessage({ type: "found", secretKey: Array.from(keypair.secretKey), attempts });
+      return;
+    }
+    ctx.postMessage({ type: "progress", attempts });
+    setTimeout(loop, 0);
+  };
+  loop();
+};
+
+export {};
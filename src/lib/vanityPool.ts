@@ -0,0 +1,146 @@
+import { Worker } from "worker_threads";
+import os from "os";
+import { randomUUID } from "crypto";
+import { Keypair } from "@solana/web3.js";
+import { VANITY_BATCH_SIZE, VanityPattern, estimateVanity, validateVanityPattern } from "./vanity";
+
+/**
+ * Server-side vanity grinding on a worker-thread pool
+ *
+ * Jobs live in memory (like the rate limiter) and are polled via
+ * /api/vanity/[jobId]. Each job fans out to VANITY_THREADS workers; the first
+ * match wins and the rest are terminated.
+ */
+
+// Worker threads per job (leave one core for request handling)
+export const VANITY_THREADS = Math.max(1, Math.min(Number(process.env.VANITY_THREADS || 0) || os.cpus().length - 1, 8));
+// Concurrent jobs across the whole server
+export const VANITY_MAX_JOBS = Number(process.env.VANITY_MAX_JOBS || 2);
+// Give up after this long even if no match was found
+export const VANITY_TIMEOUT_MS = Number(process.env.VANITY_TIMEOUT_MS || 5 * 60_000);
+// Finished jobs are forgotten after this long
+const JOB_TTL_MS = 10 * 60_000;
+
+export type VanityJobStatus = "running" | "found" | "cancelled" | "timeout" | "error";
+
+export interface VanityJob {
+  id: string;
+  pattern: Required<VanityPattern>;
+  status: VanityJobStatus;
+  attempts: number;
+  expectedAttempts: number;
+  startedAt: number;
+  finishedAt?: number;
+  mint?: string;
+  secretKey?: string; // Base64, same encoding as partialSigners
+  error?: string;
+}
+
+// Matching is duplicated from matchesVanity() because eval workers cannot import TS modules
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { Keypair } = require("@solana/web3.js");
+const { prefix, suffix, caseSensitive, batchSize } = workerData;
+grind: for (;;) {
+  for (let i = 1; i <= batchSize; i++) {
+    const kp = Keypair.generate();
+    let a = kp.publicKey.toBase58();
+    if (!caseSensitive) a = a.toLowerCase();
+    if ((!prefix || a.startsWith(prefix)) && (!suffix || a.endsWith(suffix))) {
+      parentPort.postMessage({ type: "found", attempts: i, secretKey: Array.from(kp.secretKey) });
+      break grind;
+    }
+  }
+  parentPort.postMessage({ type: "progress", attempts: batchSize });
+}
+`;
+
+const jobs = new Map<string, VanityJob>();
+const workers = new Map<string, Worker[]>();
+
+function finish(job: VanityJob, status: VanityJobStatus, error?: string) {
+  if (job.status !== "running") return;
+  job.status = status;
+  job.finishedAt = Date.now();
+  if (error) job.error = error;
+  (workers.get(job.id) || []).forEach((w) => w.terminate());
+  workers.delete(job.id);
+}
+
+function pruneJobs() {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if (job.status !== "running" && now - (job.finishedAt || now) > JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  });
+}
+
+/**
+ * Start a vanity grinding job
+ * @throws Error with code "InvalidVanityPattern" or "TooManyJobs"
+ */
+export function startVanityJob(pattern: VanityPattern): VanityJob {
+  pruneJobs();
+
+  const normalized = validateVanityPattern(pattern);
+  const running = Array.from(jobs.values()).filter((j) => j.status === "running").length;
+  if (running >= VANITY_MAX_JOBS) {
+    const e: any = new Error("Vanity grinder is busy, try again shortly");
+    e.code = "TooManyJobs";
+    throw e;
+  }
+
+  const job: VanityJob = {
+    id: randomUUID(),
+    pattern: normalized,
+    status: "running",
+    attempts: 0,
+    expectedAttempts: estimateVanity(normalized).expectedAttempts,
+    startedAt: Date.now(),
+  };
+  jobs.set(job.id, job);
+
+  const pool: Worker[] = [];
+  for (let i = 0; i < VANITY_THREADS; i++) {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { ...normalized, batchSize: VANITY_BATCH_SIZE },
+    });
+    worker.on("message", (msg: any) => {
+      if (job.status !== "running") return;
+      job.attempts += msg.attempts || 0;
+      if (msg.type === "found") {
+        const kp = Keypair.fromSecretKey(new Uint8Array(msg.secretKey));
+        job.mint = kp.publicKey.toBase58();
+        job.secretKey = Buffer.from(kp.secretKey).toString("base64");
+        finish(job, "found");
+      }
+    });
+    worker.on("error", (err) => finish(job, "error", err?.message || "Vanity worker failed"));
+    pool.push(worker);
+  }
+  workers.set(job.id, pool);
+
+  const timer = setTimeout(() => finish(job, "timeout"), VANITY_TIMEOUT_MS);
+  timer.unref?.();
+
+  return job;
+}
+
+/**
+ * Look up a job by id (undefined when unknown or expired)
+ */
+export function getVanityJob(id: string): VanityJob | undefined {
+  pruneJobs();
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a running job; no-op for finished jobs
+ */
+export function cancelVanityJob(id: string): VanityJob | undefined {
+  const job = jobs.get(id);
+  if (job) finish(job, "cancelled");
+  return job;
+}
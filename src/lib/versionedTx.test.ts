@@ -0,0 +1,89 @@
+// Simple test for legacy / v0 transaction helpers and lookup-table compilation
+import { AddressLookupTableAccount, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  deserializeTx,
+  feePayerOf,
+  isVersionedTx,
+  partialSignTx,
+  serializeTx,
+  setRecentBlockhash,
+  signedKeys,
+  toVersionedTx,
+} from './versionedTx';
+
+function testVersionedTx() {
+  try {
+    const failures: string[] = [];
+    const payer = Keypair.generate().publicKey;
+    const positionMint = Keypair.generate();
+    const blockhash = Keypair.generate().publicKey.toBase58();
+
+    // An instruction touching many static (program / mint style) accounts
+    const statics = Array.from({ length: 20 }, () => Keypair.generate().publicKey);
+    const program = Keypair.generate().publicKey;
+    const tx = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: positionMint.publicKey, lamports: 1 }),
+      new TransactionInstruction({
+        programId: program,
+        keys: [
+          { pubkey: positionMint.publicKey, isSigner: true, isWritable: true },
+          ...statics.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false })),
+        ],
+        data: Buffer.alloc(8),
+      })
+    );
+    tx.feePayer = payer;
+    tx.recentBlockhash = blockhash;
+
+    const table = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        authority: undefined,
+        addresses: statics,
+      },
+    });
+
+    console.log('Testing v0 compilation with a lookup table...');
+    const v0 = toVersionedTx(tx, payer, blockhash, [table]);
+    const legacySize = Buffer.from(serializeTx(tx), 'base64').length;
+    const v0Size = Buffer.from(serializeTx(v0), 'base64').length;
+    // 20 keys at 32 bytes each become 1-byte indexes, minus the table reference
+    if (v0Size > legacySize - 500) failures.push(`v0 not smaller: ${v0Size} vs ${legacySize}`);
+    if (v0.message.addressTableLookups.length !== 1) failures.push('lookup not used');
+    if (!feePayerOf(v0)?.equals(payer)) failures.push('v0 fee payer');
+
+    console.log('Testing round trips...');
+    const legacyBack = deserializeTx(serializeTx(tx));
+    const v0Back = deserializeTx(serializeTx(v0));
+    if (isVersionedTx(legacyBack) || !(legacyBack instanceof Transaction)) failures.push('legacy decoded as v0');
+    if (!isVersionedTx(v0Back) || v0Back.message.version !== 0) failures.push('v0 decoded as legacy');
+
+    console.log('Testing blockhash refresh and partial signing...');
+    const fresh = Keypair.generate().publicKey.toBase58();
+    setRecentBlockhash(v0Back, fresh);
+    if (!isVersionedTx(v0Back) || v0Back.message.recentBlockhash !== fresh) failures.push('v0 blockhash');
+    partialSignTx(v0Back, [positionMint]);
+    const signed = signedKeys(v0Back).map((k: PublicKey) => k.toBase58());
+    if (signed.length !== 1 || signed[0] !== positionMint.publicKey.toBase58()) failures.push(`v0 signed keys: ${signed}`);
+    partialSignTx(legacyBack, [positionMint]);
+    if (signedKeys(legacyBack).length !== 1) failures.push('legacy signed keys');
+
+    if (failures.length) {
+      console.error('❌ Versioned transaction test failed:', failures);
+    } else {
+      console.log('✅ Versioned transaction test passed!');
+    }
+  } catch (error) {
+    console.error('❌ Versioned transaction test failed:', error);
+  }
+}
+
+// Run test if this file is executed directly
+if (require.main === module) {
+  testVersionedTx();
+}
+
+export { testVersionedTx };
@@ -0,0 +1,102 @@
+import {
+  AddressLookupTableAccount,
+  PublicKey,
+  Signer,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * Legacy / v0 transaction helpers shared by builders and the client send flow
+ *
+ * Builders return base64 that may hold either a legacy Transaction or a v0
+ * VersionedTransaction (commit and position actions use lookup tables).
+ * deserializeTx picks the right class so callers don't have to care.
+ */
+
+export type AnyTransaction = Transaction | VersionedTransaction;
+
+export function isVersionedTx(tx: AnyTransaction): tx is VersionedTransaction {
+  return tx instanceof VersionedTransaction;
+}
+
+/**
+ * Decode a base64 transaction from a builder API
+ */
+export function deserializeTx(base64: string): AnyTransaction {
+  const raw = Buffer.from(base64, "base64");
+  const versioned = VersionedTransaction.deserialize(new Uint8Array(raw));
+  return versioned.version === "legacy" ? Transaction.from(raw) : versioned;
+}
+
+/**
+ * Encode for an API response (unsigned or partially signed)
+ */
+export function serializeTx(tx: AnyTransaction): string {
+  if (isVersionedTx(tx)) return Buffer.from(tx.serialize()).toString("base64");
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64");
+}
+
+/**
+ * Compile a legacy transaction's instructions into a v0 transaction
+ * Instructions are kept in order; lookup tables only shrink the account list
+ */
+export function toVersionedTx(
+  tx: Transaction,
+  payer: PublicKey,
+  recentBlockhash: string,
+  lookupTables: AddressLookupTableAccount[] = []
+): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions: tx.instructions,
+  }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Set the blockhash right before signing (both versions)
+ */
+export function setRecentBlockhash(tx: AnyTransaction, blockhash: string) {
+  if (isVersionedTx(tx)) tx.message.recentBlockhash = blockhash;
+  else tx.recentBlockhash = blockhash;
+}
+
+/**
+ * Fee payer of a transaction (first static key for v0)
+ */
+export function feePayerOf(tx: AnyTransaction): PublicKey | null {
+  if (isVersionedTx(tx)) return tx.message.staticAccountKeys[0] ?? null;
+  return tx.feePayer ?? null;
+}
+
+/**
+ * Sign with extra keypairs (position mints, temp WSOL accounts) before the wallet
+ */
+export function partialSignTx(tx: AnyTransaction, signers: Signer[]) {
+  if (isVersionedTx(tx)) tx.sign(signers);
+  else tx.partialSign(...signers);
+}
+
+/**
+ * Public keys that have already signed
+ */
+export function signedKeys(tx: AnyTransaction): PublicKey[] {
+  if (isVersionedTx(tx)) {
+    const required = tx.message.header.numRequiredSignatures;
+    return tx.message.staticAccountKeys
+      .slice(0, required)
+      .filter((_, i) => tx.signatures[i]?.some((b) => b !== 0));
+  }
+  return tx.signatures.filter((s) => s.signature).map((s) => s.publicKey);
+}
+
+/**
+ * Serialize a wallet-signed transaction for sendRawTransaction
+ */
+export function serializeSigned(tx: AnyTransaction): Buffer | Uint8Array {
+  if (isVersionedTx(tx)) return tx.serialize();
+  return tx.serialize({ requireAllSignatures: false, verifySignatures: true });
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "../../../lib/adminAuth";
+import { cacheStats, configuredBackendName, invalidateTag } from "../../../lib/cache";
+
+const bodySchema = z.object({ tag: z.string().min(1).max(128) });
+
+/**
+ * /api/admin/cache (admin session required)
+ * GET  - Configured backend and hit / miss counters for every cache in this instance
+ * POST { tag } - Drop every entry carrying a tag (e.g. "mint:<mint>", "wallet:<wallet>")
+ *
+ * Returns:
+ * - 200: { ok: true, backend, caches } | { ok: true, tag, removed }
+ * - 400: { ok: false, error: "BadRequest" }
+ * - 401: { ok: false, error: "Unauthorized" }
+ * - 500: { ok: false, error: "ServerError", message }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = requireAdmin(req);
+  if (!auth.ok) {
+    return res.status(401).json({ ok: false, error: "Unauthorized" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      return res.status(200).json({ ok: true, backend: configuredBackendName(), caches: cacheStats() });
+    }
+
+    if (req.method === "POST") {
+      const parsed = bodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "BadRequest", details: parsed.error.flatten() });
+      }
+
+      const removed = await invalidateTag(parsed.data.tag);
+      console.log(`[admin] cache tag ${parsed.data.tag} invalidated by ${auth.wallet}: ${removed} entries`);
+      return res.status(200).json({ ok: true, tag: parsed.data.tag, removed });
+    }
+
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  } catch (e: any) {
+    console.error("Error in /api/admin/cache:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
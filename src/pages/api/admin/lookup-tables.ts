@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { requireAdmin } from "../../../lib/adminAuth";
+import { getConnection } from "../../../lib/rpc";
+import {
+  createAppLookupTable,
+  extendAppLookupTable,
+  getAppLookupTables,
+  listLookupTableAddresses,
+  lookupTableAuthority,
+} from "../../../lib/lookupTables";
+
+const pubkey = z.string().refine((s) => {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid public key");
+
+const bodySchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("create"), label: z.string().min(1).max(64), addresses: z.array(pubkey).max(256).optional() }),
+  z.object({ action: z.literal("extend"), address: pubkey, addresses: z.array(pubkey).min(1).max(256) }),
+]);
+
+const STATUS_BY_CODE: Record<string, number> = {
+  LookupTableAuthorityMissing: 500,
+  LookupTableNotFound: 404,
+};
+
+/**
+ * /api/admin/lookup-tables (admin session required)
+ * GET  - App lookup tables for this cluster, with on-chain entry counts
+ * POST { action: "create", label, addresses? }  - Create a table seeded with the static accounts
+ * POST { action: "extend", address, addresses } - Add addresses to an existing table
+ *
+ * Returns:
+ * - 200: { ok: true, authority, tables } | { ok: true, address, signatures, size, added? }
+ * - 400: { ok: false, error: "BadRequest" }
+ * - 401: { ok: false, error: "Unauthorized" }
+ * - 404: { ok: false, error: "LookupTableNotFound" }
+ * - 500: { ok: false, error: "LookupTableAuthorityMissing" | "ServerError", message }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const auth = requireAdmin(req);
+  if (!auth.ok) {
+    return res.status(401).json({ ok: false, error: "Unauthorized" });
+  }
+
+  try {
+    const connection = getConnection("primary");
+
+    if (req.method === "GET") {
+      const [addresses, active] = await Promise.all([listLookupTableAddresses(), getAppLookupTables(connection)]);
+      const tables = addresses.map((address) => {
+        const table = active.find((t) => t.key.toBase58() === address);
+        return { address, active: !!table, size: table ? table.state.addresses.length : null };
+      });
+      return res.status(200).json({
+        ok: true,
+        authority: lookupTableAuthority()?.publicKey.toBase58() ?? null,
+        tables,
+      });
+    }
+
+    if (req.method === "POST") {
+      const parsed = bodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "BadRequest", details: parsed.error.flatten() });
+      }
+
+      const body = parsed.data;
+      const addresses = (body.addresses || []).map((a) => new PublicKey(a));
+      const result =
+        body.action === "create"
+          ? await createAppLookupTable(connection, { label: body.label, addresses })
+          : await extendAppLookupTable(connection, body.address, addresses);
+
+      console.log(`[admin] lookup table ${body.action} by ${auth.wallet}:`, result.address);
+      return res.status(200).json({ ok: true, ...result });
+    }
+
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  } catch (e: any) {
+    console.error("Error in /api/admin/lookup-tables:", e);
+    const status = STATUS_BY_CODE[e?.code];
+    if (status) return res.status(status).json({ ok: false, error: e.code, message: e.message });
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
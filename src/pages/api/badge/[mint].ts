@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createHash } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import sharp from "sharp";
+import { readHonestCached } from "@/lib/honestCache";
+import { readTrustCached } from "@/lib/trustCache";
+import { paletteFromTicker } from "@/lib/kitComposer";
+import { BadgeLp, BadgeVerdict, renderBadgeSvg } from "@/lib/badge";
+
+// Matches the honest status TTL so embeds refresh about as often as the cache
+const MAX_AGE_S = Math.round(Number(process.env.HONEST_CACHE_MS || 60000) / 1000);
+// PNGs are rasterized at 2x so they stay sharp on high-DPI screens
+const PNG_DENSITY = 144;
+
+/**
+ * Embeddable honest badge
+ * GET /api/badge/<mint>.svg?lp=1
+ * GET /api/badge/<mint>.png?lp=1
+ * 
+ * Query parameters:
+ * - lp: Optional. Set to "1" to add the LP status from the trust report
+ * 
+ * Responses carry an ETag; If-None-Match with the current one returns 304.
+ * 
+ * Returns:
+ * - 200: image/svg+xml | image/png
+ * - 304: Not modified
+ * - 400: { ok: false, error: "UnsupportedFormat" | "InvalidMint" }
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+
+  try {
+    // The route segment includes the extension: "<mint>.svg"
+    const match = /^(.+)\.(svg|png)$/.exec(String(req.query.mint || ""));
+    if (!match) {
+      return res.status(400).json({ ok: false, error: "UnsupportedFormat" });
+    }
+    const [, mint, format] = match;
+    try {
+      new PublicKey(mint);
+    } catch {
+      return res.status(400).json({ ok: false, error: "InvalidMint" });
+    }
+
+    const status = await readHonestCached(mint);
+    const verdict: BadgeVerdict = status.error ? "unknown" : status.isHonest ? "honest" : "not_honest";
+
+    let lp: BadgeLp = null;
+    if (req.query.lp === "1") {
+      const report = await readTrustCached(mint).catch(() => null);
+      const liquidity = report?.checks.find((c) => c.id === "liquidity")?.status;
+      lp = liquidity === "pass" ? "burned" : liquidity === "warn" ? "unlocked" : null;
+    }
+
+    const ticker = status.symbol;
+    const svg = renderBadgeSvg({ ticker, verdict, lp, palette: paletteFromTicker(ticker || mint) });
+    const etag = `"${createHash("sha1").update(`${format}:${svg}`).digest("base64url")}"`;
+
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", `public, max-age=${MAX_AGE_S}, s-maxage=${MAX_AGE_S}, stale-while-revalidate=${MAX_AGE_S * 5}`);
+    // Embedded from other sites
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    if (req.headers["if-none-match"] === etag) {
+      return res.status(304).end();
+    }
+
+    const body = format === "png" ? await sharp(Buffer.from(svg), { density: PNG_DENSITY }).png().toBuffer() : Buffer.from(svg);
+    res.setHeader("Content-Type", format === "png" ? "image/png" : "image/svg+xml; charset=utf-8");
+    res.setHeader("Content-Length", body.length);
+    return res.status(200).send(body);
+  } catch (e: any) {
+    console.error("Error in /api/badge:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteDraft, getDraft, updateDraft } from "@/lib/tokenDrafts";
+import { DRAFTS_MESSAGE_HEADER, DRAFTS_SIGNATURE_HEADER, draftInputSchema, verifyDraftsAuth } from "@/lib/drafts";
+
+/**
+ * /api/drafts/[id]
+ * GET    ?wallet=pubkey - Load a draft to resume it
+ * PUT    { wallet, flow, step, data, paymentTxSig?, paymentAmount? } - Autosave
+ * DELETE ?wallet=pubkey - Discard a draft (also called once the token is created)
+ *
+ * Drafts are scoped to their wallet; another wallet gets DraftNotFound.
+ * Every method needs that wallet's signed drafts message in the
+ * x-drafts-message / x-drafts-signature headers (see buildDraftsAuthMessage).
+ *
+ * Returns:
+ * - 200: { ok: true, draft: TokenDraft } | { ok: true } (DELETE)
+ * - 400: { ok: false, error: "MissingWallet" | "BadRequest" }
+ * - 401: { ok: false, error: "MissingSignature" | "BadMessageFormat" | "Expired" | "BadWallet" | "BadSignature" }
+ * - 404: { ok: false, error: "DraftNotFound" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const id = String(req.query.id || "");
+
+    if (req.method === "PUT") {
+      const parsed = draftInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "BadRequest", details: parsed.error.flatten() });
+      }
+      const authError = verifyDraftsAuth(parsed.data.wallet, req.headers[DRAFTS_MESSAGE_HEADER], req.headers[DRAFTS_SIGNATURE_HEADER]);
+      if (authError) {
+        return res.status(401).json({ ok: false, error: authError });
+      }
+
+      const draft = await updateDraft(id, parsed.data);
+      if (!draft) {
+        return res.status(404).json({ ok: false, error: "DraftNotFound" });
+      }
+      return res.status(200).json({ ok: true, draft });
+    }
+
+    if (req.method !== "GET" && req.method !== "DELETE") {
+      return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+    }
+
+    const wallet = (req.query.wallet as string) || "";
+    if (!wallet) {
+      return res.status(400).json({ ok: false, error: "MissingWallet" });
+    }
+    const authError = verifyDraftsAuth(wallet, req.headers[DRAFTS_MESSAGE_HEADER], req.headers[DRAFTS_SIGNATURE_HEADER]);
+    if (authError) {
+      return res.status(401).json({ ok: false, error: authError });
+    }
+
+    if (req.method === "DELETE") {
+      const deleted = await deleteDraft(id, wallet);
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "DraftNotFound" });
+      }
+      return res.status(200).json({ ok: true });
+    }
+
+    const draft = await getDraft(id, wallet);
+    if (!draft) {
+      return res.status(404).json({ ok: false, error: "DraftNotFound" });
+    }
+    return res.status(200).json({ ok: true, draft });
+  } catch (e: any) {
+    console.error("Error in /api/drafts/[id]:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createDraft, listDrafts } from "@/lib/tokenDrafts";
+import { DRAFTS_MESSAGE_HEADER, DRAFTS_SIGNATURE_HEADER, draftInputSchema, verifyDraftsAuth } from "@/lib/drafts";
+
+/**
+ * /api/drafts
+ * GET  ?wallet=pubkey  - List the wallet's creation drafts (newest first)
+ * POST { wallet, flow, step, data, paymentTxSig?, paymentAmount? } - Create a draft
+ *
+ * Both need the wallet's signed drafts message in the x-drafts-message /
+ * x-drafts-signature headers (see buildDraftsAuthMessage).
+ *
+ * Returns:
+ * - 200: { ok: true, items: TokenDraft[] } | { ok: true, draft: TokenDraft }
+ * - 400: { ok: false, error: "MissingWallet" | "InvalidWalletFormat" | "BadRequest" }
+ * - 401: { ok: false, error: "MissingSignature" | "BadMessageFormat" | "Expired" | "BadWallet" | "BadSignature" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === "GET") {
+      const wallet = (req.query.wallet as string) || "";
+      if (!wallet) {
+        return res.status(400).json({ ok: false, error: "MissingWallet" });
+      }
+      if (wallet.length < 32) {
+        return res.status(400).json({ ok: false, error: "InvalidWalletFormat" });
+      }
+      const authError = verifyDraftsAuth(wallet, req.headers[DRAFTS_MESSAGE_HEADER], req.headers[DRAFTS_SIGNATURE_HEADER]);
+      if (authError) {
+        return res.status(401).json({ ok: false, error: authError });
+      }
+
+      const items = await listDrafts(wallet);
+      return res.status(200).json({ ok: true, items });
+    }
+
+    if (req.method === "POST") {
+      const parsed = draftInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: "BadRequest", details: parsed.error.flatten() });
+      }
+      const authError = verifyDraftsAuth(parsed.data.wallet, req.headers[DRAFTS_MESSAGE_HEADER], req.headers[DRAFTS_SIGNATURE_HEADER]);
+      if (authError) {
+        return res.status(401).json({ ok: false, error: authError });
+      }
+
+      const draft = await createDraft(parsed.data);
+      return res.status(200).json({ ok: true, draft });
+    }
+
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  } catch (e: any) {
+    console.error("Error in /api/drafts:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
@@ -1,17 +1,27 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { readHonestCached } from "@/lib/honestCache";
+import { signHonestAttestation } from "@/lib/attestationKeys";
+
+const STATUS_BY_CODE: Record<string, number> = {
+  AttestationKeyMissing: 501,
+  AttestationUnavailable: 502,
+};
 
 /**
  * API endpoint for single honest status lookup
- * GET /api/honest-status?mint=<mint_address>&bust=1
+ * GET /api/honest-status?mint=<mint_address>&bust=1&attest=1
  * 
  * Query parameters:
  * - mint: Required. The mint address to check
  * - bust: Optional. Set to "1" to bypass cache and fetch fresh data
+ * - attest: Optional. Set to "1" to include a signed attestation
+ *   (verify with /api/honest-status/keys or /api/honest-status/verify)
  * 
  * Returns:
- * - 200: { ok: true, status: Honest }
+ * - 200: { ok: true, status: Honest, attestation?: { token, kid, claims } }
  * - 400: { ok: false, error: "MissingMint" }
+ * - 501: { ok: false, error: "AttestationKeyMissing", message: string }
+ * - 502: { ok: false, error: "AttestationUnavailable", message: string }
  * - 500: { ok: false, error: "ServerError", message: string }
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -32,12 +42,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       bust: req.query.bust === "1" 
     });
     
+    // Sign only on request; the status read above is what gets attested
+    if (req.query.attest === "1") {
+      const attestation = signHonestAttestation(status);
+      return res.status(200).json({ ok: true, status, attestation });
+    }
+    
     // Return successful response with status data
     return res.status(200).json({ 
       ok: true, 
       status 
     });
   } catch (e: any) {
+    const code = STATUS_BY_CODE[e?.code];
+    if (code) return res.status(code).json({ ok: false, error: e.code, message: e.message });
     // Handle server errors with detailed error information
     return res.status(500).json({ 
       ok: false, 
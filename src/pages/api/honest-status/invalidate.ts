@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { invalidateHonest } from "@/lib/honestCache";
+import { invalidateTag } from "@/lib/cache";
 
 /**
  * API endpoint for cache invalidation
@@ -38,8 +38,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
     
-    // Invalidate the cache entry for this mint
-    invalidateHonest(mint);
+    // Invalidate every cache entry tagged with this mint (honest status and trust report)
+    await invalidateTag(`mint:${mint}`);
     
     // Return successful response
     return res.status(200).json({ 
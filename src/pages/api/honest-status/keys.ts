@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { publishedAttestationKeys } from "@/lib/attestationKeys";
+
+/**
+ * Public keys for Honest Launch attestations (JWKS format)
+ * GET /api/honest-status/keys
+ * 
+ * Partners can cache this and verify attestations offline with
+ * verifyAttestation from lib/attestation or any EdDSA-capable JOSE library.
+ * 
+ * Returns:
+ * - 200: { keys: AttestationJwk[] } (empty when attestations are disabled)
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+  
+  // Keys change only on rotation; let partners and CDNs hold them for an hour
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  return res.status(200).json(publishedAttestationKeys());
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { readHonestCached } from "@/lib/honestCache";
+import { onHonestUpdate, watchStreamMints } from "@/lib/honestWatcher";
+
+// Mints per stream; /my-tokens is the largest consumer
+const MAX_MINTS = 100;
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * API endpoint for live honest status over Server-Sent Events
+ * GET /api/honest-status/stream?mints=<mint>,<mint>
+ *
+ * Query parameters:
+ * - mints: Required. Comma-separated mint addresses (max 100)
+ *
+ * Events:
+ * - status: Honest - current status of each mint when the stream opens
+ * - honest: { mint, changes, status } - mint or freeze authority changed on-chain
+ *
+ * Errors (before the stream opens):
+ * - 400: { ok: false, error: "MissingMints" }
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+
+  const mints = Array.from(
+    new Set(String(req.query.mints || "").split(",").map((m) => m.trim()).filter(Boolean))
+  ).slice(0, MAX_MINTS);
+  if (!mints.length) {
+    return res.status(400).json({ ok: false, error: "MissingMints" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops Next's compression from buffering events
+    "Content-Encoding": "none",
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const wanted = new Set(mints);
+  const unsubscribe = onHonestUpdate((update) => {
+    if (wanted.has(update.mint)) send("honest", update);
+  });
+  // Tokens created elsewhere are watched too, but only while this stream is open
+  const release = watchStreamMints(mints);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    release();
+  });
+
+  for (const mint of mints) {
+    send("status", await readHonestCached(mint));
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { verifyAttestation } from "@/lib/attestation";
+import { publishedAttestationKeys } from "@/lib/attestationKeys";
+
+const bodySchema = z.object({ token: z.string().min(1).max(4096) });
+
+/**
+ * Verify an Honest Launch attestation against the published keys
+ * GET  /api/honest-status/verify?token=<jws>
+ * POST /api/honest-status/verify { token }
+ * 
+ * A valid attestation says what the status was at its slot; call
+ * /api/honest-status for the current one.
+ * 
+ * Returns:
+ * - 200: { ok: true, valid: true, claims } | { ok: true, valid: false, error, claims? }
+ * - 400: { ok: false, error: "BadRequest" }
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+  
+  const parsed = bodySchema.safeParse(req.method === "GET" ? req.query : req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ ok: false, error: "BadRequest", details: parsed.error.flatten() });
+  }
+  
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  return res.status(200).json({ ok: true, ...verifyAttestation(parsed.data.token, publishedAttestationKeys()) });
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ensureHonestWatcher } from "@/lib/honestWatcher";
+
+/**
+ * API endpoint that starts the honest status watcher
+ * POST /api/honest-status/watcher
+ *
+ * Called once by server.js after startup; repeat calls are no-ops, so the
+ * route needs no auth.
+ *
+ * Returns:
+ * - 200: { ok: true, running: boolean } - running is false when HONEST_WATCHER=off
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+  return res.status(200).json({ ok: true, running: ensureHonestWatcher() });
+}
@@ -1,8 +1,17 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import axios from "axios";
 import formidable from "formidable";
-import FormData from "form-data";
 import fs from "fs";
+import { inferImageMime, normalizeTokenMetadata, summarizeMetadataErrors } from "@/lib/metadataSchema";
+import { processLogo, ProcessedLogo } from "@/lib/imagePipeline";
+import { prisma } from "@/lib/db";
+import { getStorageProviders, storeFile, storeJson } from "@/lib/storage";
+import { fetchPublicUrl } from "@/lib/remoteFetch";
+
+// processLogo error codes returned as 400s
+const LOGO_POLICY_ERRORS = ["UnsupportedImageType", "ImageTooLarge", "ImageTooSmall", "AnimatedImage", "InvalidImage"];
+
+// HEAD request timeout when probing an image's content type
+const IMAGE_PROBE_TIMEOUT_MS = 5000;
 
 // Disable the default body parser to handle file uploads
 export const config = {
@@ -13,18 +22,30 @@ export const config = {
 
 /**
  * POST /api/ipfs/upload
- * Securely uploads files or JSON metadata to Pinata IPFS
+ * Securely uploads files or JSON metadata to the configured storage providers
+ * (Pinata, Irys/Arweave, an IPFS node or local disk; see lib/storage),
+ * falling back to the next provider when one fails
  * 
- * Content-Type: multipart/form-data (for file uploads)
+ * Content-Type: multipart/form-data (for logo uploads)
  * Body: { file: File }
+ * The image is sniffed, checked against the logo policy, cropped square and
+ * re-encoded without EXIF (see lib/imagePipeline); 512px PNG and WebP
+ * variants are stored too and recorded in LogoAsset
  * 
  * Content-Type: application/json (for metadata uploads)
  * Body: { metadata: object }
+ * Metadata is validated and normalised to the Metaplex fungible standard
+ * (see lib/metadataSchema) before it is stored
  * 
  * Returns:
- * - 200: { ok: true, ipfsUrl: string, ipfsHash: string }
+ * - 200: { ok: true, uri: string, id: string, provider: StorageProviderName, ipfsUrl: string, ipfsHash: string }
+ *        (ipfsUrl / ipfsHash repeat uri / id for older clients)
+ *        file uploads add { variants: { png512, webp512 }, phash }
  * - 400: { ok: false, error: string }
- * - 500: { ok: false, error: string, message?: string }
+ *        { ok: false, error: "UnsupportedImageType" | "ImageTooLarge" | "ImageTooSmall" | "AnimatedImage" | "InvalidImage", message: string }
+ *        { ok: false, error: "InvalidMetadata", message: string, fieldErrors: Record<field, message> }
+ * - 500: { ok: false, error: "StorageNotConfigured" | "UploadFailed", message?: string }
+ * - 503: { ok: false, error: "StorageUnavailable", message: string } (every provider failed)
  */
 export default async function handler(
   req: NextApiRequest,
@@ -39,17 +60,13 @@ export default async function handler(
   }
 
   try {
-    // Get Pinata API credentials from server-side environment variables
-    const pinataApiKey = process.env.PINATA_API_KEY;
-    const pinataSecretKey = process.env.PINATA_SECRET_API_KEY;
-
-    // Validate that API keys are configured
-    if (!pinataApiKey || !pinataSecretKey) {
-      console.error("Pinata API keys not configured in environment variables");
+    // Storage credentials live in server-side environment variables
+    if (getStorageProviders().length === 0) {
+      console.error("No storage provider configured (see STORAGE_PROVIDERS / PINATA_API_KEY)");
       return res.status(500).json({
         ok: false,
-        error: "PinataNotConfigured",
-        message: "IPFS upload service is not configured. Please contact support.",
+        error: "StorageNotConfigured",
+        message: "Upload service is not configured. Please contact support.",
       });
     }
 
@@ -57,12 +74,12 @@ export default async function handler(
 
     // Handle JSON metadata upload
     if (contentType.includes("application/json")) {
-      return await handleJsonUpload(req, res, pinataApiKey, pinataSecretKey);
+      return await handleJsonUpload(req, res);
     }
 
     // Handle file upload (multipart/form-data)
     if (contentType.includes("multipart/form-data")) {
-      return await handleFileUpload(req, res, pinataApiKey, pinataSecretKey);
+      return await handleFileUpload(req, res);
     }
 
     // Unsupported content type
@@ -73,23 +90,21 @@ export default async function handler(
     });
   } catch (error: any) {
     console.error("Error in /api/ipfs/upload:", error);
+    if (error?.code === "StorageUnavailable") {
+      return res.status(503).json({ ok: false, error: "StorageUnavailable", message: error.message });
+    }
     return res.status(500).json({
       ok: false,
       error: "UploadFailed",
-      message: error?.message || "Failed to upload to IPFS",
+      message: error?.message || "Upload failed",
     });
   }
 }
 
 /**
- * Handle JSON metadata upload to Pinata
+ * Handle JSON metadata upload
  */
-async function handleJsonUpload(
-  req: NextApiRequest,
-  res: NextApiResponse,
-  apiKey: string,
-  secretKey: string
-) {
+async function handleJsonUpload(req: NextApiRequest, res: NextApiResponse) {
   // Parse JSON body
   const body = await parseJsonBody(req);
 
@@ -101,41 +116,50 @@ async function handleJsonUpload(
     });
   }
 
-  // Upload JSON to Pinata
-  const response = await axios.post(
-    "https://api.pinata.cloud/pinning/pinJSONToIPFS",
-    body.metadata,
-    {
-      headers: {
-        "Content-Type": "application/json",
-        pinata_api_key: apiKey,
-        pinata_secret_api_key: secretKey,
-      },
-    }
-  );
+  // Bare IPFS URLs have no file extension; ask the gateway for the image type
+  const image = typeof body.metadata.image === "string" ? body.metadata.image.trim() : "";
+  const imageType = image && !inferImageMime(image) ? await probeImageType(image) : null;
 
-  const ipfsHash = response.data.IpfsHash;
-  const ipfsUrl = `https://gateway.pinata.cloud/ipfs/${ipfsHash}`;
+  const result = normalizeTokenMetadata(body.metadata, { imageType });
+  if (result.ok === false) {
+    return res.status(400).json({
+      ok: false,
+      error: "InvalidMetadata",
+      message: summarizeMetadataErrors(result.fieldErrors),
+      fieldErrors: result.fieldErrors,
+    });
+  }
+
+  const stored = await storeJson(result.metadata);
 
   return res.status(200).json({
     ok: true,
-    ipfsUrl,
-    ipfsHash,
+    ...stored,
+    ipfsUrl: stored.uri,
+    ipfsHash: stored.id,
   });
 }
 
 /**
- * Handle file upload to Pinata
+ * Read an image's content type with a HEAD request
+ * The URL is user-supplied: fetchPublicUrl refuses non-https and private hosts
+ * @returns MIME type, or null when refused, unreachable or not reported
  */
-async function handleFileUpload(
-  req: NextApiRequest,
-  res: NextApiResponse,
-  apiKey: string,
-  secretKey: string
-) {
+async function probeImageType(uri: string): Promise<string | null> {
+  const r = await fetchPublicUrl(uri, { method: "HEAD", timeoutMs: IMAGE_PROBE_TIMEOUT_MS });
+  const type = r?.headers.get("content-type");
+  return r?.ok && type ? type.split(";")[0].trim() : null;
+}
+
+/**
+ * Handle logo file upload
+ * The file goes through lib/imagePipeline first; the normalised square PNG is
+ * returned as uri and the 512px PNG / WebP variants are stored alongside
+ */
+async function handleFileUpload(req: NextApiRequest, res: NextApiResponse) {
   // Parse multipart form data
   const form = formidable({
-    maxFileSize: 10 * 1024 * 1024, // 10MB limit
+    maxFileSize: 10 * 1024 * 1024, // 10MB transport limit; the logo policy is stricter
     keepExtensions: true,
   });
 
@@ -153,53 +177,58 @@ async function handleFileUpload(
 
   const file = fileArray[0];
 
-  // Create form data for Pinata
-  const formData = new FormData();
-  formData.append("file", fs.createReadStream(file.filepath), {
-    filename: file.originalFilename || "upload",
-    contentType: file.mimetype || "application/octet-stream",
-  });
-
   try {
-    // Upload file to Pinata
-    const response = await axios.post(
-      "https://api.pinata.cloud/pinning/pinFileToIPFS",
-      formData,
-      {
-        headers: {
-          ...formData.getHeaders(),
-          pinata_api_key: apiKey,
-          pinata_secret_api_key: secretKey,
-        },
-        maxBodyLength: Infinity,
-        maxContentLength: Infinity,
+    let logo: ProcessedLogo;
+    try {
+      logo = await processLogo(fs.readFileSync(file.filepath));
+    } catch (error: any) {
+      if (LOGO_POLICY_ERRORS.includes(error?.code)) {
+        return res.status(400).json({ ok: false, error: error.code, message: error.message });
       }
-    );
+      throw error;
+    }
 
-    const ipfsHash = response.data.IpfsHash;
-    const ipfsUrl = `https://gateway.pinata.cloud/ipfs/${ipfsHash}`;
+    const stored = await storeFile(logo.normalized.buffer, { filename: "logo.png", contentType: logo.normalized.mime });
+    const [png512, webp512] = await Promise.all([
+      storeFile(logo.png512.buffer, { filename: "logo-512.png", contentType: logo.png512.mime }),
+      storeFile(logo.webp512.buffer, { filename: "logo-512.webp", contentType: logo.webp512.mime }),
+    ]);
 
-    // Clean up temporary file
-    try {
-      fs.unlinkSync(file.filepath);
-    } catch (cleanupError) {
-      console.warn("Failed to cleanup temp file:", cleanupError);
-    }
+    // Record the variant ids; a DB outage shouldn't fail the upload
+    await prisma.logoAsset
+      .upsert({
+        where: { cid: stored.id },
+        create: {
+          cid: stored.id,
+          provider: stored.provider,
+          sourceType: logo.sourceType,
+          size: logo.normalized.size,
+          pngCid: png512.id,
+          webpCid: webp512.id,
+          phash: logo.phash,
+        },
+        update: { pngCid: png512.id, webpCid: webp512.id },
+      })
+      .catch((dbError) => console.warn("Failed to record logo asset:", dbError));
 
     return res.status(200).json({
       ok: true,
-      ipfsUrl,
-      ipfsHash,
+      ...stored,
+      ipfsUrl: stored.uri,
+      ipfsHash: stored.id,
+      variants: {
+        png512: png512.uri,
+        webp512: webp512.uri,
+      },
+      phash: logo.phash,
     });
-  } catch (uploadError: any) {
-    // Clean up temporary file on error
+  } finally {
+    // Clean up temporary file
     try {
       fs.unlinkSync(file.filepath);
     } catch (cleanupError) {
       console.warn("Failed to cleanup temp file:", cleanupError);
     }
-
-    throw uploadError;
   }
 }
 
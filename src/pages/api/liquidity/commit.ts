@@ -1,16 +1,13 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { Connection, PublicKey } from "@solana/web3.js";
-import { buildCommitTx } from "../../../lib/orcaCommit";
-import { buildRaydiumClmmCommitTx } from "../../../lib/raydiumClmmCommit";
-import { flags } from "../../../lib/flags";
-import { DEV_ALLOW_MANUAL_RAY } from "../../../lib/env";
+import { dexDisabledMessage, getDexAdapter, parseDexId, DexCommitSummary } from "../../../lib/dex";
 import { withRpc } from "../../../lib/rpc";
 import { logAction } from "../../../lib/log";
-import { IS_DEVNET } from "../../../lib/network";
 import { enforceCanaryCaps } from "../../../lib/canaryCaps";
+import { parsePriorityFeeChoice, PriorityFeeChoice } from "../../../lib/priorityFees";
 
 interface LiquidityCommitRequest {
-  dex: "Raydium" | "Orca";
+  dex: "Raydium" | "Orca" | "Meteora";
   pair: "SOL/TOKEN" | "USDC/TOKEN";
   tokenMint: string;
   baseAmount: string;
@@ -18,31 +15,47 @@ interface LiquidityCommitRequest {
   quoteId: string;
   whirlpool?: string; // Required for Orca
   clmmPoolId?: string; // Required for Raydium CLMM
+  lbPair?: string; // Required for Meteora DLMM
+  minBinId?: number; // Bin range from quote for Meteora DLMM
+  maxBinId?: number;
   slippageBp?: number; // Slippage in basis points (default: 100 = 1%)
   // NEW: Tick boundaries from quote for Raydium CLMM
   tickLower?: number; // Lower tick boundary from quote
   tickUpper?: number; // Upper tick boundary from quote
+  singleSided?: boolean; // Token-only deposit of quoteAmount (range above the current price)
+  priority?: PriorityFeeChoice; // Compute unit price level (default medium)
 }
 
 interface LiquidityCommitResponse {
   txid?: string; // For Raydium (mocked)
-  txBase64?: string; // For Orca/Raydium CLMM (base64 encoded)
-  summary?: {
-    whirlpool?: string; // For Orca
-    clmmPoolId?: string; // For Raydium CLMM
-    tokenMintA: string;
-    tokenMintB: string;
-    inputMint: "A" | "B";
-    inputAmountUi: string;
-    expectedOutputAmountUi: string;
-    slippageBp: number;
-    tickLower: number;
-    tickUpper: number;
-    currentTick: number;
-    tickSpacing: number;
-  };
+  txBase64?: string; // For Orca/Raydium CLMM/Meteora (base64 encoded)
+  partialSigners?: string[]; // Base64 secret keys that must partially sign (new position mint / account)
+  summary?: DexCommitSummary; // whirlpool / clmmPoolId / lbPair identifies the venue's pool
 }
 
+// Adapter error codes; unknown codes are server errors
+const STATUS_BY_CODE: Record<string, number> = {
+  MissingWhirlpool: 400,
+  InvalidWhirlpoolAddress: 400,
+  MissingPool: 400,
+  MissingLbPair: 400,
+  MissingTicks: 400,
+  InvalidAddress: 400,
+  InvalidAmount: 400,
+  UnsupportedPair: 400,
+  NoPool: 400,
+  PoolMismatch: 400,
+  BadAmount: 400,
+  InvalidPoolAccount: 400,
+  NotTokenUsdcPool: 400,
+  PoolNotOpen: 400,
+  TickOutOfRange: 400,
+  TickNotAligned: 400,
+  RangeNeedsOtherSide: 400,
+  RangeNotSingleSided: 409,
+  InvalidSingleSided: 400,
+};
+
 interface LiquidityCommitError {
   error: string;
   message: string;
@@ -69,16 +82,21 @@ export default async function handler(
       quoteId,
       whirlpool,
       clmmPoolId,
+      lbPair,
+      minBinId,
+      maxBinId,
       slippageBp = 100,
       tickLower,
       tickUpper,
+      singleSided = false,
     }: LiquidityCommitRequest = req.body;
+    const priority = parsePriorityFeeChoice(req.body.priority);
 
     if (
       !dex ||
       !pair ||
       !tokenMint ||
-      !baseAmount ||
+      (!baseAmount && !singleSided) ||
       !quoteAmount ||
       !quoteId
     ) {
@@ -87,6 +105,16 @@ export default async function handler(
         .json({ error: "MissingFields", message: "Missing required fields" });
     }
 
+    if (!parseDexId(dex)) {
+      return res
+        .status(400)
+        .json({ error: "UnsupportedDEX", message: "Unsupported DEX" });
+    }
+    const adapter = getDexAdapter(dex);
+    if (!adapter.isEnabled("commit")) {
+      return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "commit") });
+    }
+
     // Canary guard: enforce mainnet restrictions using base units (no-op on devnet)
     try {
       // Extract wallet address from request body
@@ -98,9 +126,10 @@ export default async function handler(
         });
       }
       
-      // Calculate UI amounts for validation
-      const sideAUi = pair === "SOL/TOKEN" ? parseFloat(baseAmount) : undefined;
-      const sideBUi = pair === "SOL/TOKEN" ? parseFloat(quoteAmount) : parseFloat(baseAmount);
+      // Calculate UI amounts for validation (single-sided deposits put in the token only)
+      const bothSides = !singleSided && (pair === "SOL/TOKEN" || adapter.depositsBothSides);
+      const sideAUi = bothSides ? parseFloat(baseAmount) : undefined;
+      const sideBUi = bothSides || singleSided ? parseFloat(quoteAmount) : parseFloat(baseAmount);
       
       // Determine mint addresses
       const mintA = pair === "SOL/TOKEN" ? "So11111111111111111111111111111111111111112" : "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
@@ -121,266 +150,100 @@ export default async function handler(
       return res.status(400).json({ error: code, message });
     }
 
-    // Handle Raydium CLMM (real implementation)
-    if (dex === "Raydium") {
-      // Check if manual Raydium is allowed on devnet
-      if (!DEV_ALLOW_MANUAL_RAY) {
-        return res.status(400).json({
-          error: "Raydium disabled",
-          message: "Raydium functionality is disabled on devnet"
-        });
-      }
-      
-      // Check if USDC/TOKEN pair (CLMM only supports USDC pairs for now)
-      if (pair !== "USDC/TOKEN") {
-        return res.status(400).json({
-          error: "Unsupported pair",
-          message: "Raydium CLMM only supports USDC/TOKEN pairs",
-        });
-      }
-
-      if (!clmmPoolId) {
-        return res.status(400).json({
-          error: "Missing CLMM pool ID",
-          message: "CLMM pool ID is required for Raydium liquidity commitment",
-        });
-      }
-
-      // Validate slippage
-      if (slippageBp < 10 || slippageBp > 500) {
-        return res.status(400).json({
-          error: "Invalid slippage",
-          message: "Slippage must be between 10-500 basis points (0.1%-5%)",
-        });
-      }
-
-      // Determine input mint and amount
-      const inputMint: "TOKEN" | "USDC" = "TOKEN"; // User always inputs their token
-      const inputAmountUi = parseFloat(baseAmount);
-
-      if (isNaN(inputAmountUi) || inputAmountUi <= 0) {
-        return res.status(400).json({
-          error: "Invalid amount",
-          message: "Base amount must be a positive number",
-        });
-      }
-
-      // Validate tick boundaries from quote
-      if (typeof tickLower !== "number" || typeof tickUpper !== "number") {
-        return res.status(400).json({
-          error: "Missing tick boundaries",
-          message:
-            "Tick boundaries (tickLower, tickUpper) are required from quote for Raydium CLMM",
-        });
-      }
-
-      // Build the CLMM commit transaction with RPC failover and structured logging
-      const t0 = Date.now();
-      try {
-        const result = await withRpc((conn) =>
-          buildRaydiumClmmCommitTx({
-            connection: conn,
-            walletPubkey: "11111111111111111111111111111111", // Placeholder - will be replaced by client
-            tokenMint,
-            inputMint,
-            amountUi: inputAmountUi,
-            slippageBp,
-            clmmPoolId,
-            tickLower,
-            tickUpper,
-          })
-        );
-
-        // Log successful action
-        logAction({
-          action: "commit",
-          dex: "raydium",
-          mint: tokenMint,
-          poolId: clmmPoolId,
-          wallet: "11111111111111111111111111111111",
-          ms: Date.now() - t0,
-          ok: true,
-        });
-
-        return res.status(200).json({
-          txBase64: result.txBase64,
-          summary: {
-            clmmPoolId: clmmPoolId,
-            tokenMintA: result.mints.A,
-            tokenMintB: result.mints.B,
-            inputMint: result.summary.inputIsA ? "A" : "B",
-            inputAmountUi: baseAmount,
-            expectedOutputAmountUi: "0", // CLMM doesn't provide this in the same way
-            slippageBp,
-            tickLower: result.summary.tickLower,
-            tickUpper: result.summary.tickUpper,
-            currentTick: 0, // Not provided by CLMM quote
-            tickSpacing: 0, // Not provided by CLMM quote
-          },
-        });
-      } catch (error: any) {
-        // Log failed action
-        logAction({
-          action: "commit",
-          dex: "raydium",
-          mint: tokenMint,
-          poolId: clmmPoolId,
-          wallet: "11111111111111111111111111111111",
-          ms: Date.now() - t0,
-          ok: false,
-          msg: error?.message,
-        });
-
-        console.error("Error building Raydium CLMM transaction:", error);
-
-        // Return structured error response
-        const errorCode = error.code || "ProviderError";
-        const errorMessage = error.message || "Unknown error occurred";
-
-        return res.status(500).json({
-          error: errorCode,
-          message: errorMessage,
-          details: error.originalError
-            ? error.originalError.message
-            : undefined,
-        });
-      }
+    // v0 messages are compiled for their fee payer, so builders need the real wallet
+    let ownerPk: PublicKey;
+    try {
+      ownerPk = new PublicKey(req.body.owner);
+    } catch {
+      return res.status(400).json({
+        error: "InvalidWallet",
+        message: "Wallet address must be a valid base58-encoded public key",
+      });
     }
 
-    // Handle Orca (real implementation)
-    if (dex === "Orca") {
-      // Check if Orca commit functionality is enabled
-      if (!flags.orcaCommit) {
-        return res.status(503).json({
-          error: "Disabled",
-          message: "Orca liquidity commit temporarily disabled",
-        });
-      }
-
-      if (!whirlpool) {
-        return res
-          .status(400)
-          .json({
-            error: "MissingWhirlpool",
-            message: "Whirlpool address required for Orca",
-          });
-      }
-
-      // Validate whirlpool address format
-      if (IS_DEVNET && whirlpool.startsWith('orca_devnet_')) {
-        // On devnet, allow test pool addresses for testing purposes
-        console.log(`[DEVNET] Using test pool address: ${whirlpool}`);
-      } else {
-        // On mainnet, validate as proper public key
-        try {
-          new PublicKey(whirlpool);
-        } catch (error) {
-          return res.status(400).json({
-            error: "InvalidWhirlpoolAddress",
-            message: `Invalid whirlpool address format: ${whirlpool}. Must be a valid base58-encoded public key.`,
-          });
-        }
-      }
-
-      // Validate slippage
-      if (slippageBp < 10 || slippageBp > 500) {
-        return res
-          .status(400)
-          .json({
-            error: "InvalidSlippage",
-            message: "Slippage must be between 10-500 basis points (0.1%-5%)",
-          });
-      }
-
-      // Validate token mint format
-      try {
-        new PublicKey(tokenMint);
-      } catch (error) {
-        return res.status(400).json({
-          error: "InvalidTokenMint",
-          message: `Invalid token mint address format: ${tokenMint}. Must be a valid base58-encoded public key.`,
-        });
-      }
+    // Validate slippage
+    if (slippageBp < 10 || slippageBp > 500) {
+      return res.status(400).json({
+        error: "InvalidSlippage",
+        message: "Slippage must be between 10-500 basis points (0.1%-5%)",
+      });
+    }
 
-      // Determine token mints based on pair
-      const tokenMintA =
-        pair === "SOL/TOKEN"
-          ? "So11111111111111111111111111111111111111112"
-          : "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-      const tokenMintB = tokenMint;
+    // Validate token mint format
+    try {
+      new PublicKey(tokenMint);
+    } catch (error) {
+      return res.status(400).json({
+        error: "InvalidTokenMint",
+        message: `Invalid token mint address format: ${tokenMint}. Must be a valid base58-encoded public key.`,
+      });
+    }
 
-      // Determine input mint and amount
-      const inputMint: "A" | "B" = pair === "SOL/TOKEN" ? "A" : "A"; // Always input the base token (SOL/USDC)
-      const inputAmountUi = baseAmount;
+    // Pool and range from the quote, in the venue's own terms
+    const pool = whirlpool || clmmPoolId || lbPair;
+    const rangeLower = typeof minBinId === "number" ? minBinId : tickLower;
+    const rangeUpper = typeof maxBinId === "number" ? maxBinId : tickUpper;
 
-      // Build the commit transaction with RPC failover and structured logging
-      const t0 = Date.now();
-      try {
-        const result = await withRpc((conn) =>
-          buildCommitTx({
-            connection: conn,
-            walletPubkey: new PublicKey("11111111111111111111111111111111"), // Placeholder - will be replaced by client
-            whirlpool,
-            tokenMintA,
-            tokenMintB,
-            inputMint,
-            inputAmountUi,
-            slippageBp,
-          })
-        );
+    // Build the commit transaction with RPC failover and structured logging
+    const t0 = Date.now();
+    try {
+      const result = await withRpc((conn) =>
+        adapter.commit({
+          connection: conn,
+          owner: ownerPk,
+          pair,
+          tokenMint,
+          baseAmount,
+          quoteAmount,
+          pool,
+          slippageBp,
+          rangeLower,
+          rangeUpper,
+          singleSided,
+          priority,
+        })
+      );
+
+      // Log successful action
+      logAction({
+        action: "commit",
+        dex: adapter.id,
+        mint: tokenMint,
+        poolId: pool,
+        wallet: ownerPk.toBase58(),
+        ms: Date.now() - t0,
+        ok: true,
+      });
 
-        // Log successful action
-        logAction({
-          action: "commit",
-          dex: "orca",
-          mint: tokenMint,
-          poolId: whirlpool,
-          wallet: "11111111111111111111111111111111",
-          ms: Date.now() - t0,
-          ok: true,
-        });
+      return res.status(200).json({
+        txBase64: result.txBase64,
+        partialSigners: result.partialSigners,
+        summary: result.summary,
+      });
+    } catch (error: any) {
+      // Log failed action
+      logAction({
+        action: "commit",
+        dex: adapter.id,
+        mint: tokenMint,
+        poolId: pool,
+        wallet: ownerPk.toBase58(),
+        ms: Date.now() - t0,
+        ok: false,
+        code: error?.code,
+        msg: error?.message,
+      });
 
-        return res.status(200).json({
-          txBase64: result.txBase64,
-          summary: result.summary,
-        });
-      } catch (error: any) {
-        // Log failed action
-        logAction({
-          action: "commit",
-          dex: "orca",
-          mint: tokenMint,
-          poolId: whirlpool,
-          wallet: "11111111111111111111111111111111",
-          ms: Date.now() - t0,
-          ok: false,
-          msg: error?.message,
-        });
+      console.error(`Error building ${adapter.label} commit transaction:`, error);
 
-        console.error("[commit-orca] error", { 
-          name: error?.name, 
-          message: error?.message, 
-          stack: error?.stack 
-        });
-        
-        // Return structured error response with meaningful error codes
-        const code = 
-          /associated.*owner/i.test(error?.message || "") ? "ATAOwnerMismatch" :
-          /invalid account data for instruction/i.test(error?.message || "") ? "InvalidAccountData" :
-          /custom program error/i.test(error?.message || "") ? "ProgramError" :
-          "InternalError";
-        
-        return res.status(500).json({ 
-          error: code, 
-          message: error?.message || "Internal server error" 
-        });
-      }
+      // Return structured error response
+      const code = typeof error?.code === "string" ? error.code : "ProviderError";
+      return res.status(STATUS_BY_CODE[code] || 500).json({
+        error: code,
+        message: error?.message || "Unknown error occurred",
+        details: error?.originalError?.message,
+      });
     }
-
-    // Handle unsupported DEX
-    return res
-      .status(400)
-      .json({ error: "UnsupportedDEX", message: "Unsupported DEX" });
   } catch (error) {
     console.error("Error committing liquidity:", error);
     res
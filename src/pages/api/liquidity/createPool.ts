@@ -0,0 +1,106 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { dexDisabledMessage, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { parsePriorityFeeChoice } from "../../../lib/priorityFees";
+import { withRpc } from "../../../lib/rpc";
+import { logAction } from "../../../lib/log";
+
+const pubkey = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid base58 address");
+
+const bodySchema = z.object({
+  dex: z.string().refine((d) => parseDexId(d) !== null, "Unsupported DEX"),
+  walletPubkey: pubkey,
+  tokenMint: pubkey,
+  pair: z.enum(["SOL/TOKEN", "USDC/TOKEN"]),
+  tickSpacing: z.number().int().positive(),
+  initialPrice: z.string().regex(/^\d+(\.\d+)?$/, "Initial price must be a positive decimal"),
+  priority: z.unknown().optional(),
+});
+
+// Builder error codes; unknown codes are server errors
+const STATUS_BY_CODE: Record<string, number> = {
+  InvalidRequest: 400,
+  InvalidPrice: 400,
+  UnsupportedPair: 400,
+  UnsupportedFeeTier: 400,
+  PoolExists: 409,
+};
+
+/**
+ * GET  /api/liquidity/createPool?dex=Orca
+ * Fee tiers a new pool can use on the venue
+ *
+ * POST /api/liquidity/createPool
+ * Build a transaction creating the first pool for a fresh token
+ *
+ * Returns:
+ * - 200: { feeTiers } (GET) or { txBase64, partialSigners?, summary } (POST)
+ * - 400: { error, message } (validation or builder error)
+ * - 409: { error: "PoolExists" } when the pool is already on chain
+ * - 501: { error: "Unsupported" } when the venue can't create pools
+ * - 503: { error: "Disabled" } when the venue's commits are off
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    const dex = parseDexId(req.query.dex);
+    if (!dex) {
+      return res.status(400).json({ error: "BadRequest", message: "Unsupported DEX" });
+    }
+    return res.status(200).json({ feeTiers: getDexAdapter(dex).feeTiers ?? [] });
+  }
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "MethodNotAllowed", message: "Only GET and POST methods are allowed" });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "BadRequest", message: parsed.error.issues[0]?.message, details: parsed.error.flatten() });
+  }
+  const body = parsed.data;
+
+  const adapter = getDexAdapter(body.dex);
+  if (!adapter.createPool) {
+    return res.status(501).json({ error: "Unsupported", message: `${adapter.label} pools can't be created here` });
+  }
+  // A new pool is only useful if the first position can be opened right after
+  if (!adapter.isEnabled("commit")) {
+    return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "commit") });
+  }
+
+  const quoteMint = body.pair === "SOL/TOKEN"
+    ? "So11111111111111111111111111111111111111112" // SOL
+    : "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"; // USDC
+
+  const t0 = Date.now();
+  try {
+    const result = await withRpc((connection) =>
+      adapter.createPool!({
+        connection,
+        owner: new PublicKey(body.walletPubkey),
+        pair: body.pair,
+        tokenMint: body.tokenMint,
+        quoteMint,
+        tickSpacing: body.tickSpacing,
+        initialPrice: body.initialPrice,
+        priority: parsePriorityFeeChoice(body.priority),
+      })
+    );
+
+    logAction({ action: "create", dex: adapter.id, mint: body.tokenMint, poolId: result.summary.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: true });
+    return res.status(200).json({
+      txBase64: result.txBase64,
+      partialSigners: result.partialSigners,
+      summary: result.summary,
+    });
+  } catch (error: any) {
+    logAction({ action: "create", dex: adapter.id, mint: body.tokenMint, wallet: body.walletPubkey, ms: Date.now() - t0, ok: false, code: error?.code, msg: error?.message });
+    console.error(`Error building ${adapter.label} create pool transaction:`, error);
+
+    const code = typeof error?.code === "string" ? error.code : "ProviderError";
+    return res.status(STATUS_BY_CODE[code] || 500).json({
+      error: code,
+      message: error?.message || "Unknown error occurred",
+    });
+  }
+}
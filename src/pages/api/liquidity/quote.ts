@@ -1,17 +1,28 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { Connection } from "@solana/web3.js";
-import { getOrcaQuote } from "../../../lib/orcaClient";
-import { getRaydiumQuote } from "../../../lib/raydiumClient";
-import { findClmmPoolId } from "../../../lib/raydiumClmmPools";
-import { DEV_ALLOW_MANUAL_RAY } from "../../../lib/env";
+import { dexDisabledMessage, DexQuote, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { withRpc } from "../../../lib/rpc";
+import { parseRangeChoice, RangeChoice } from "../../../lib/rangePresets";
+
+// Adapter error codes; anything else is reported as ProviderError
+const STATUS_BY_CODE: Record<string, number> = {
+  NoPool: 404,
+  NoLiquidity: 404,
+  InvalidRequest: 400,
+  InvalidRange: 400,
+  Timeout: 408,
+  ResponseTooLarge: 413,
+  ProviderError: 502,
+};
 
 interface LiquidityQuoteRequest {
-  dex: "Raydium" | "Orca";
+  dex: "Raydium" | "Orca" | "Meteora";
   pair: "SOL/TOKEN" | "USDC/TOKEN";
   tokenMint: string;
   baseAmount: string;
   quoteAmount: string;
   selectedPool?: string; // Manual pool override for devnet
+  slippageBp?: number;
+  range?: RangeChoice; // CLMM range strategy (default ±10%)
 }
 
 interface LiquidityQuoteResponse {
@@ -21,7 +32,7 @@ interface LiquidityQuoteResponse {
   expectedLpTokens: string;
   minOut: string;
   quoteId: string;
-  source: "Raydium" | "DexScreener" | "Orca"; // Include source for UI indication
+  source: "Raydium" | "DexScreener" | "Orca" | "Meteora"; // Include source for UI indication
   clmmPoolId?: string; // CLMM pool ID for Raydium USDC/TOKEN pairs
   // CLMM-specific fields for enhanced quotes
   tickLower?: number;
@@ -29,6 +40,18 @@ interface LiquidityQuoteResponse {
   tokenAIn?: string;
   tokenBIn?: string;
   estLiquidity?: string;
+  // Range context for the visualizer (token price in SOL / USDC)
+  currentTick?: number;
+  tickSpacing?: number;
+  priceLower?: number;
+  priceUpper?: number;
+  priceCurrent?: number;
+  deposit?: "both" | "A" | "B";
+  // DLMM-specific fields for Meteora quotes
+  binStep?: number;
+  activeBinId?: number;
+  minBinId?: number;
+  maxBinId?: number;
 }
 
 export default async function handler(
@@ -58,7 +81,10 @@ export default async function handler(
       return res.status(400).json({ error: "InvalidJSON", message: "Invalid JSON in request body" });
     }
 
-    const { dex, pair, tokenMint, baseAmount, quoteAmount } = body;
+    const { dex, pair, tokenMint, quoteAmount } = body;
+    const range = parseRangeChoice(body.range);
+    // Token-only (single-sided) quotes size the token side alone
+    const baseAmount = range.tokenOnly ? body.baseAmount || "0" : body.baseAmount;
 
     // Input validation
     const validationErrors: string[] = [];
@@ -70,9 +96,9 @@ export default async function handler(
     if (!baseAmount) validationErrors.push("baseAmount required");
     if (!quoteAmount) validationErrors.push("quoteAmount required");
     
-    // Validate dex value
-    if (dex && !["Orca", "Raydium"].includes(dex)) {
-      validationErrors.push("dex must be 'Orca' or 'Raydium'");
+    // Validate dex value against the adapter registry
+    if (dex && !parseDexId(dex)) {
+      validationErrors.push("dex must be 'Orca', 'Raydium' or 'Meteora'");
     }
     
     // Validate pair value
@@ -87,7 +113,7 @@ export default async function handler(
     }
     
     // Validate numeric amounts
-    if (baseAmount && (isNaN(Number(baseAmount)) || Number(baseAmount) <= 0)) {
+    if (baseAmount && !range.tokenOnly && (isNaN(Number(baseAmount)) || Number(baseAmount) <= 0)) {
       validationErrors.push("baseAmount must be a positive number");
     }
     if (quoteAmount && (isNaN(Number(quoteAmount)) || Number(quoteAmount) <= 0)) {
@@ -108,142 +134,67 @@ export default async function handler(
       ? "So11111111111111111111111111111111111111112" // SOL
       : "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"; // USDC
 
-    let quote;
-    let quoteId;
+    const adapter = getDexAdapter(dex);
+    if (!adapter.isEnabled("quote")) {
+      return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "quote") });
+    }
 
-      if (dex === "Orca") {
-        // Get Orca quote
-        try {
-          quote = await getOrcaQuote({
-            tokenMint,
-            baseAmount,
-            quoteMint
-          });
-          // Add source to Orca quote for consistency
-          quote = { ...quote, source: "Orca" as const };
-          quoteId = `orca_quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        } catch (orcaError) {
-          console.warn("Orca quote failed:", orcaError);
-          if (orcaError instanceof Error) {
-            if (orcaError.message.includes('No Orca pool found')) {
-              return res.status(404).json({ error: "NoPool", message: orcaError.message });
-            } else if (orcaError.message.includes('Invalid token mint address')) {
-              return res.status(400).json({ error: "InvalidRequest", message: "Invalid token mint address" });
-            } else if (orcaError.message.includes('Invalid public key')) {
-              return res.status(400).json({ error: "InvalidRequest", message: "Invalid token mint address" });
-            }
-          }
-          return res.status(502).json({ error: "ProviderError", message: "Orca API error" });
-        }
-      } else if (dex === "Raydium") {
-        // Check if manual Raydium is allowed on devnet
-        if (!DEV_ALLOW_MANUAL_RAY) {
-          return res.status(400).json({
-            error: "Raydium disabled",
-            message: "Raydium functionality is disabled on devnet"
-          });
-        }
-        
-        // Get Raydium quote
-        try {
-          // For USDC/TOKEN pairs, try to find CLMM pool ID first
-          let clmmPoolId: string | null = null;
-          if (pair === "USDC/TOKEN") {
-            // Check if manual pool is provided (devnet feature)
-            if (body.selectedPool) {
-              console.log(`[devnet] using manual CLMM pool: ${body.selectedPool}`);
-              clmmPoolId = body.selectedPool;
-            } else {
-              try {
-                console.log(`Attempting to find CLMM pool for ${tokenMint} vs USDC`);
-                const connection = new Connection(
-                  process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
-                );
-                
-                clmmPoolId = await findClmmPoolId({ connection, tokenMint });
-                
-                if (clmmPoolId) {
-                  console.log(`Found CLMM pool: ${clmmPoolId}`);
-                } else {
-                  console.log(`No CLMM pool found for ${tokenMint} vs USDC`);
-                }
-              } catch (clmmError) {
-                console.warn("CLMM pool discovery failed:", clmmError);
-                // Don't fail the quote if CLMM discovery fails
-              }
-            }
-          }
-          
-          // Determine input mint based on pair
-          const inputMint: "TOKEN" | "USDC" = pair === "USDC/TOKEN" ? "TOKEN" : "TOKEN";
-          
-          // Get Raydium quote with enhanced CLMM support
-          quote = await getRaydiumQuote({
-            tokenMint,
-            baseAmount,
-            quoteMint,
-            clmmPoolId, // Pass CLMM pool ID for enhanced quotes
-            inputMint    // Pass input mint for proper calculation
-          });
-          
-          // Update quoteId to reflect the actual source if fallback was used
-          const source = quote.source || 'Raydium';
-          quoteId = `${source.toLowerCase()}_quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          
-          // Add CLMM pool ID to quote if found
-          if (clmmPoolId) {
-            quote = { ...quote, clmmPoolId };
-          } else if (pair === "USDC/TOKEN") {
-            // For USDC/TOKEN pairs, require CLMM pool for Raydium
-            console.warn(`No CLMM pool found for ${tokenMint} vs USDC`);
-            return res.status(404).json({ 
-              error: "NoPool", 
-              message: "No Raydium CLMM pool for TOKEN/USDC" 
-            });
-          }
-        } catch (raydiumError) {
-          console.warn("Raydium quote failed:", raydiumError);
-          if (raydiumError instanceof Error) {
-            if (raydiumError.message.includes('No pool available')) {
-              return res.status(404).json({ error: "NoPool", message: "No pool available for this pair on Raydium or DexScreener" });
-            } else if (raydiumError.message.includes('Invalid token mint address')) {
-              return res.status(400).json({ error: "InvalidRequest", message: "Invalid token mint address" });
-            } else if (raydiumError.message.includes('timeout')) {
-              return res.status(408).json({ error: "Timeout", message: "Request timeout - please try again" });
-            } else if (raydiumError.message.includes('too large')) {
-              return res.status(413).json({ error: "ResponseTooLarge", message: "Response too large - using fallback data" });
-            } else if (raydiumError.message.includes('Unable to get quote')) {
-              return res.status(404).json({ error: "NoLiquidity", message: raydiumError.message });
-            }
-          }
-          return res.status(502).json({ error: "ProviderError", message: "Raydium API error" });
-        }
-      } else {
-        return res.status(400).json({ error: "InvalidRequest", message: "Unsupported DEX" });
-      }
+    let quote: DexQuote;
+    try {
+      quote = await withRpc((connection) =>
+        adapter.quote({
+          connection,
+          pair,
+          tokenMint,
+          quoteMint,
+          baseAmount,
+          quoteAmount,
+          pool: body.selectedPool,
+          slippageBp: body.slippageBp,
+          range,
+        })
+      );
+    } catch (quoteError: any) {
+      console.warn(`${adapter.label} quote failed:`, quoteError);
+      const code = STATUS_BY_CODE[quoteError?.code] ? quoteError.code : "ProviderError";
+      return res.status(STATUS_BY_CODE[code]).json({ error: code, message: quoteError?.message || `${adapter.label} API error` });
+    }
+    // Reflects the actual source if a fallback was used
+    const quoteId = `${quote.source.toLowerCase()}_quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      // Convert response to expected format
-      const response: LiquidityQuoteResponse = {
-        poolAddress: quote.pool,
-        priceImpactBp: Math.round(quote.priceImpact * 100), // Convert percentage to basis points
-        lpFeeBp: Math.round(quote.lpFee * 10000), // Convert decimal to basis points
-        expectedLpTokens: quote.expectedLpTokens.toString(),
-        minOut: quote.minOut.toString(),
-        quoteId,
-        source: quote.source || dex, // Use quote source or fallback to DEX name
-        clmmPoolId: (quote as any).clmmPoolId, // Include CLMM pool ID if available
-        // Include CLMM-specific fields if available
-        tickLower: (quote as any).tickLower,
-        tickUpper: (quote as any).tickUpper,
-        tokenAIn: (quote as any).tokenAIn,
-        tokenBIn: (quote as any).tokenBIn,
-        estLiquidity: (quote as any).estLiquidity
-      };
+    // Convert response to expected format
+    const response: LiquidityQuoteResponse = {
+      poolAddress: quote.pool,
+      priceImpactBp: Math.round(quote.priceImpact * 100), // Convert percentage to basis points
+      lpFeeBp: Math.round(quote.lpFee * 10000), // Convert decimal to basis points
+      expectedLpTokens: quote.expectedLpTokens.toString(),
+      minOut: quote.minOut.toString(),
+      quoteId,
+      source: quote.source || dex, // Use quote source or fallback to DEX name
+      clmmPoolId: quote.clmmPoolId, // Include CLMM pool ID if available
+      // Include CLMM-specific fields if available
+      tickLower: quote.tickLower,
+      tickUpper: quote.tickUpper,
+      tokenAIn: quote.tokenAIn,
+      tokenBIn: quote.tokenBIn,
+      estLiquidity: quote.estLiquidity,
+      currentTick: quote.currentTick,
+      tickSpacing: quote.tickSpacing,
+      priceLower: quote.priceLower,
+      priceUpper: quote.priceUpper,
+      priceCurrent: quote.priceCurrent,
+      deposit: quote.deposit,
+      // Include DLMM bin range if available
+      binStep: quote.binStep,
+      activeBinId: quote.activeBinId,
+      minBinId: quote.minBinId,
+      maxBinId: quote.maxBinId
+    };
 
-      // Log the source for debugging
-      console.log(`Quote generated from ${response.source} for ${dex} request`);
+    // Log the source for debugging
+    console.log(`Quote generated from ${response.source} for ${dex} request`);
 
-      res.status(200).json(response);
+    res.status(200).json(response);
   } catch (error) {
     console.error("Error generating liquidity quote:", error);
     res.status(500).json({ error: "Unknown", message: "Unexpected error occurred" });
@@ -22,6 +22,7 @@ import { getClientIp, makeBucket, makeDailyGate } from "../../../lib/rateLimit";
 import { updateAiUsageStats } from "../admin/ai-usage";
 import { isPro } from "../../../lib/proStatus";
 import { getEnhancedContentByProStatus } from "../../../lib/proAssets";
+import { createCache } from "../../../lib/cache";
 
 // Rate limiting buckets (module-scoped singletons)
 const endpointBucket = makeBucket({ limit: 20, windowMs: 10 * 60_000 }); // 20 requests per 10 minutes
@@ -30,57 +31,11 @@ const aiBucket = makeBucket({ limit: 5, windowMs: 10 * 60_000 }); // 5 AI reques
 // Daily AI usage gate (module-scoped singleton)
 const dailyAiGate = makeDailyGate(() => Number(process.env.MEME_AI_DAILY_MAX || "0"));
 
-// Simple LRU Cache implementation
-class LRUCache<K, V> {
-  private capacity: number;
-  private cache: Map<K, { value: V; timestamp: number }>;
-  private ttl: number;
-
-  constructor(capacity: number, ttlMinutes: number) {
-    this.capacity = capacity;
-    this.cache = new Map();
-    this.ttl = ttlMinutes * 60 * 1000; // Convert to milliseconds
-  }
-
-  get(key: K): V | undefined {
-    const item = this.cache.get(key);
-    if (!item) return undefined;
-
-    // Check if expired
-    if (Date.now() - item.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return undefined;
-    }
-
-    // Move to end (most recently used)
-    this.cache.delete(key);
-    this.cache.set(key, item);
-    return item.value;
-  }
-
-  set(key: K, value: V): void {
-    // Remove if exists
-    this.cache.delete(key);
-
-    // Remove oldest if at capacity
-    if (this.cache.size >= this.capacity) {
-      const firstKey = this.cache.keys().next().value;
-      this.cache.delete(firstKey);
-    }
-
-    // Add new item
-    this.cache.set(key, { value, timestamp: Date.now() });
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-}
-
-// Cache for kit outputs (max 100 entries, 10 minute TTL)
-const kitCache = new LRUCache<string, { manifest: KitManifest; buffers: Buffer[] }>(100, 10);
-
-
+// Shared cache for kit outputs (10 minute TTL; at most 100 entries when held in memory)
+const kitCache = createCache<{ manifest: KitManifest; buffers: Buffer[] }>("meme-kit", {
+  ttlMs: 10 * 60_000,
+  maxEntries: 100,
+});
 
 // Validation function
 function validateParams(params: any): { valid: boolean; error?: string } {
@@ -144,7 +99,7 @@ export default async function handler(
     const cacheKey = `${name}|${ticker}|${vibe}|${preset}|${shareUrl}|${wallet || 'no-wallet'}`;
     
     // Check cache first
-    const cached = kitCache.get(cacheKey);
+    const cached = await kitCache.get(cacheKey);
     if (cached) {
       console.info(`Cache hit for ${name} ($${ticker}) - serving from cache`);
       
@@ -315,7 +270,7 @@ export default async function handler(
 
      // Store in cache
      const allBuffers = [ogImage, xHeader, tgHeader, favicon, qrCode, logoTextMark, logoBadgeMark, logoPixelMark, ...stickers];
-     kitCache.set(cacheKey, { manifest: kitManifest, buffers: allBuffers });
+     await kitCache.set(cacheKey, { manifest: kitManifest, buffers: allBuffers });
 
      // Set response headers for ZIP download
     res.setHeader('Content-Type', 'application/zip');
@@ -1,6 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { z } from "zod";
 import { logCreatedToken } from "@/lib/tokens";
+import { watchMint } from "@/lib/honestWatcher";
+import { parseSupply } from "@/lib/amounts";
+import { ALLOCATION_CATEGORIES, MAX_ALLOCATIONS } from "@/lib/allocations";
+import { MAX_URI_LENGTH } from "@/lib/metadataSchema";
+import { STORAGE_PROVIDER_NAMES } from "@/lib/storage";
 
 // Validation schema for complete token metadata
 const Body = z.object({
@@ -20,10 +25,31 @@ const Body = z.object({
     x: z.string().optional(),
     site: z.string().optional(),
   }).optional(),
+  tokenProgram: z.enum(["spl-token", "token-2022"]).optional().default("spl-token"),
+  allocations: z.array(z.object({
+    category: z.enum([...ALLOCATION_CATEGORIES, "creator"]),
+    label: z.string().max(32).optional(),
+    wallet: z.string().min(32),
+    amount: z.string().min(1),
+    bp: z.number().int().min(0).max(10_000),
+  })).max(MAX_ALLOCATIONS + 1).optional(),
+  metadataUri: z.string().max(MAX_URI_LENGTH).optional(),
+  storageProvider: z.enum(STORAGE_PROVIDER_NAMES).optional(),
   // NEW: Payment tracking fields for per-token payment model
   tokenType: z.enum(["free", "pro"]).optional().default("free"),
   paymentTxSig: z.string().optional(),
   paidAmount: z.number().optional(),
+}).superRefine((body, ctx) => {
+  // Supply must be an exact decimal string that fits in a u64 at the given decimals
+  try {
+    parseSupply(body.amount, body.decimals);
+  } catch (e: any) {
+    ctx.addIssue({
+      code: "custom",
+      path: e?.code === "InvalidDecimals" ? ["decimals"] : ["amount"],
+      message: e?.message || "Invalid amount",
+    });
+  }
 });
 
 /**
@@ -53,6 +79,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Log the complete token metadata to database
     const row = await logCreatedToken(parsed.data);
+
+    // Start pushing authority changes for the new mint (no-op until the watcher runs)
+    watchMint(row.mint);
     
     return res.status(200).json({ 
       ok: true, 
@@ -1,23 +1,24 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { Connection, PublicKey } from "@solana/web3.js";
-import { fetchOrcaPositionsReal } from "../../lib/orcaPositions";
-import { fetchRaydiumPositions } from "../../lib/raydiumPositions";
+import { DexId, DexPositionRow, dexForRow, listDexAdapters } from "../../lib/dex";
 import { prisma } from "../../lib/db";
 import { isFresh } from "../../lib/freshness";
+import { createCache } from "../../lib/cache";
 
-// Simple in-memory cache for positions (fallback for AMM positions)
-const positionsCache = new Map<string, { data: any; timestamp: number }>();
+// Shared cache for positions responses, tagged "wallet:<owner>"
 const CACHE_DURATION = 30 * 1000; // 30 seconds
+const positionsCache = createCache<PositionsResponse>("positions-api", { ttlMs: CACHE_DURATION });
 
 interface PositionsRequest {
   owner: string;
 }
 
-interface PositionsResponse {
-  orcaPositions: any[];
-  raydiumPositions: any[];
+// One list per registered venue: orcaPositions, raydiumPositions, ...
+type PositionsByDex = { [K in DexId as `${K}Positions`]: any[] };
+
+interface PositionsResponse extends PositionsByDex {
   timestamp: number;
-  source: "database" | "chain" | "mixed";
+  source: "database" | "chain" | "mixed" | "cache";
 }
 
 export default async function handler(
@@ -45,63 +46,40 @@ export default async function handler(
 
     // Check cache first for AMM positions (no DB schema needed)
     const cacheKey = owner;
-    const cached = positionsCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    const cached = await positionsCache.get(cacheKey);
+    if (cached) {
       return res.status(200).json({
-        ...cached.data,
+        ...cached,
         source: "cache"
       });
     }
 
-    // Database-first approach for Orca & Raydium CLMM positions
-    let orcaPositions: any[] = [];
-    let raydiumPositions: any[] = [];
+    // Database-first approach for CLMM / DLMM positions
+    const adapters = listDexAdapters();
+    const byDex = {} as Record<DexId, any[]>;
+    adapters.forEach(adapter => { byDex[adapter.id] = []; });
     let source: "database" | "chain" | "mixed" = "database";
     let needsChainFetch = false;
 
     try {
       // Query database for CLMM positions
-      const dbPositions = await prisma.positionsClmm.findMany({
+      const dbPositions: DexPositionRow[] = await prisma.positionsClmm.findMany({
         where: { wallet: owner },
         orderBy: { updatedAt: 'desc' }
       });
 
       // Check if we have fresh data for all positions
       const allFresh = dbPositions.length > 0 && 
-        dbPositions.every(pos => isFresh(pos.updatedAt));
+        dbPositions.every((pos: any) => isFresh(pos.updatedAt));
 
       if (allFresh) {
-        // All data is fresh from database - map to UI shape
+        // All data is fresh from database - each venue maps its rows to the UI shape
         console.log(`Using fresh database positions for ${owner.slice(0, 8)}...`);
-        
-        // Map database positions to expected format
-        orcaPositions = dbPositions
-          .filter(pos => pos.poolId.startsWith('whirlpool')) // Orca whirlpools
-          .map(pos => ({
-            positionMint: pos.positionMint,
-            whirlpool: pos.poolId,
-            lowerTick: pos.tickLower,
-            upperTick: pos.tickUpper,
-            liquidity: pos.lastLiquidity,
-            tokenA: pos.tokenA,
-            tokenB: pos.tokenB,
-            dbSource: "database"
-          }));
-
-        raydiumPositions = dbPositions
-          .filter(pos => !pos.poolId.startsWith('whirlpool')) // Raydium CLMM pools
-          .map(pos => ({
-            source: "raydium",
-            kind: "CLMM",
-            poolId: pos.poolId,
-            tokenA: pos.tokenA,
-            tokenB: pos.tokenB,
-            tickLower: pos.tickLower,
-            tickUpper: pos.tickUpper,
-            liquidity: pos.lastLiquidity,
-            dbSource: "database"
-          }));
-
+        for (const row of dbPositions) {
+          const dex = dexForRow(row);
+          const adapter = adapters.find(a => a.id === dex)!;
+          byDex[dex].push({ ...adapter.fromRow(row), dbSource: "database" });
+        }
         source = "database";
       } else {
         // Some data is stale or missing - need to fetch from chain
@@ -122,55 +100,33 @@ export default async function handler(
         process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
       );
 
-      // Fetch both Orca and Raydium positions in parallel
-      const [chainOrcaPositions, chainRaydiumPositions] = await Promise.all([
-        fetchOrcaPositionsReal({ 
-          connection, 
-          owner: ownerPubkey.toString() 
-        }),
-        fetchRaydiumPositions({ 
-          connection, 
-          owner: ownerPubkey.toString() 
-        })
-      ]);
+      // Fetch every venue's positions in parallel
+      const chainPositions = await Promise.all(
+        adapters.map(adapter => adapter.listPositions(connection, ownerPubkey.toString()))
+      );
 
-      // Merge with database results or replace if database failed
-      if (source === "mixed") {
-        // Merge fresh database data with fresh chain data
-        orcaPositions = [...orcaPositions, ...chainOrcaPositions];
-        raydiumPositions = [...raydiumPositions, ...chainRaydiumPositions];
-      } else {
-        // Use only chain data
-        orcaPositions = chainOrcaPositions;
-        raydiumPositions = chainRaydiumPositions;
-      }
+      // Chain data is authoritative whenever the database wasn't fresh
+      adapters.forEach((adapter, i) => {
+        byDex[adapter.id] = chainPositions[i];
+      });
 
       // Best-effort database upsert for new positions
       try {
-        await upsertPositionsToDb(owner, orcaPositions, raydiumPositions);
+        await upsertPositionsToDb(owner, byDex);
       } catch (upsertError) {
         console.warn("Failed to upsert positions to database:", upsertError);
         // Continue without failing the request
       }
     }
 
-    const response: PositionsResponse = {
-      orcaPositions,
-      raydiumPositions,
+    const response = {
+      ...Object.fromEntries(adapters.map(adapter => [`${adapter.id}Positions`, byDex[adapter.id]])),
       timestamp: Date.now(),
       source
-    };
+    } as PositionsResponse;
 
     // Cache the response for AMM positions (fallback)
-    positionsCache.set(cacheKey, { data: response, timestamp: Date.now() });
-
-    // Clean up old cache entries (older than 5 minutes)
-    const now = Date.now();
-    for (const [key, value] of positionsCache.entries()) {
-      if (now - value.timestamp > 5 * 60 * 1000) {
-        positionsCache.delete(key);
-      }
-    }
+    await positionsCache.set(cacheKey, response, { tags: [`wallet:${owner}`] });
 
     return res.status(200).json(response);
 
@@ -182,84 +138,21 @@ export default async function handler(
 
 /**
  * Best-effort upsert of positions to database
- * Maps position data to database schema and upserts
+ * Each venue's adapter maps its positions to the PositionsClmm row shape
  */
-async function upsertPositionsToDb(
-  wallet: string, 
-  orcaPositions: any[], 
-  raydiumPositions: any[]
-) {
+async function upsertPositionsToDb(wallet: string, byDex: Record<DexId, any[]>) {
   const upsertPromises: Promise<any>[] = [];
 
-  // Upsert Orca positions
-  for (const pos of orcaPositions) {
-    if (pos.whirlpool && pos.positionMint) {
-      upsertPromises.push(
-        prisma.positionsClmm.upsert({
-          where: { positionMint: pos.positionMint },
-          update: {
-            wallet,
-            poolId: pos.whirlpool,
-            tokenA: pos.tokenA || "",
-            tokenB: pos.tokenB || "",
-            decA: 0, // Default values - could be enhanced
-            decB: 0,
-            tickLower: pos.lowerTick || 0,
-            tickUpper: pos.upperTick || 0,
-            lastLiquidity: pos.liquidity || "0",
-            updatedAt: new Date()
-          },
-          create: {
-            positionMint: pos.positionMint,
-            wallet,
-            poolId: pos.whirlpool,
-            tokenA: pos.tokenA || "",
-            tokenB: pos.tokenB || "",
-            decA: 0,
-            decB: 0,
-            tickLower: pos.lowerTick || 0,
-            tickUpper: pos.upperTick || 0,
-            lastLiquidity: pos.liquidity || "0"
-          }
-        })
-      );
-    }
-  }
+  for (const adapter of listDexAdapters()) {
+    for (const pos of byDex[adapter.id]) {
+      const row = adapter.toRow(pos, wallet);
+      if (!row) continue;
 
-  // Upsert Raydium CLMM positions
-  for (const pos of raydiumPositions) {
-    if (pos.kind === "CLMM" && pos.poolId) {
-      // For CLMM, we need a unique identifier - using poolId + wallet for now
-      // This could be enhanced with proper position mint tracking
-      const positionMint = `${pos.poolId}_${wallet}`;
-      
       upsertPromises.push(
         prisma.positionsClmm.upsert({
-          where: { positionMint },
-          update: {
-            wallet,
-            poolId: pos.poolId,
-            tokenA: pos.tokenA || "",
-            tokenB: pos.tokenB || "",
-            decA: 0,
-            decB: 0,
-            tickLower: pos.tickLower || 0,
-            tickUpper: pos.tickUpper || 0,
-            lastLiquidity: pos.liquidity || "0",
-            updatedAt: new Date()
-          },
-          create: {
-            positionMint,
-            wallet,
-            poolId: pos.poolId,
-            tokenA: pos.tokenA || "",
-            tokenB: pos.tokenB || "",
-            decA: 0,
-            decB: 0,
-            tickLower: pos.tickLower || 0,
-            tickUpper: pos.tickUpper || 0,
-            lastLiquidity: pos.liquidity || "0"
-          }
+          where: { positionMint: row.positionMint },
+          update: { ...row, wallet, updatedAt: new Date() },
+          create: { ...row, wallet }
         })
       );
     }
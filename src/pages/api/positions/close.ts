@@ -0,0 +1,94 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { dexDisabledMessage, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { parsePriorityFeeChoice } from "../../../lib/priorityFees";
+import { preflightPositionOperation, getFriendlyErrorMessage } from "../../../lib/preflight";
+import { normalizeError } from "../../../lib/errors";
+import { withRpc } from "../../../lib/rpc";
+import { logAction } from "../../../lib/log";
+
+const pubkey = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid base58 address");
+
+const bodySchema = z.object({
+  dex: z.string().default("orca").refine((d) => parseDexId(d) !== null, "Unsupported DEX"),
+  walletPubkey: pubkey,
+  position: z.object({
+    pool: pubkey,
+    position: pubkey,
+    positionPda: pubkey.optional(),
+    tokenA: pubkey,
+    tokenB: pubkey,
+    tickLower: z.number().int().optional(),
+    tickUpper: z.number().int().optional(),
+  }),
+  priority: z.unknown().optional(),
+});
+
+/**
+ * POST /api/positions/close
+ * Build a transaction withdrawing all liquidity, claiming fees and closing
+ * a position on any registered DEX
+ *
+ * Returns:
+ * - 200: { txBase64, summary, warning }
+ * - 400: { error, message } (validation, preflight, position or builder error)
+ * - 503: { error: "Disabled" } when the venue's actions are off
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "MethodNotAllowed", message: "Only POST method is allowed" });
+  }
+
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "BadRequest", message: parsed.error.issues[0]?.message, details: parsed.error.flatten() });
+  }
+  const body = parsed.data;
+
+  const adapter = getDexAdapter(body.dex);
+  if (!adapter.isEnabled("actions")) {
+    return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "actions") });
+  }
+
+  const { position } = body;
+  const t0 = Date.now();
+  try {
+    // Preflight check: close only needs SOL for fees and the ATAs to receive into
+    const preflight = await withRpc((connection) =>
+      preflightPositionOperation(
+        connection,
+        new PublicKey(body.walletPubkey),
+        [new PublicKey(position.tokenA), new PublicKey(position.tokenB)],
+        {},
+        "close position"
+      )
+    );
+    if (!preflight.isValid) {
+      return res.status(400).json({
+        error: "Preflight check failed",
+        message: getFriendlyErrorMessage(preflight.errors),
+        details: preflight.errors
+      });
+    }
+
+    const result = await withRpc((connection) =>
+      adapter.close({
+        connection,
+        walletPubkey: body.walletPubkey,
+        position,
+        priority: parsePriorityFeeChoice(body.priority),
+      })
+    );
+
+    logAction({ action: "close", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: true });
+    return res.status(200).json({ txBase64: result.txBase64, summary: result.summary, warning: result.warning ?? null });
+  } catch (error: any) {
+    logAction({ action: "close", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: false, code: error?.code, msg: error?.message });
+    console.error(`Error building ${adapter.label} close transaction:`, error);
+
+    // Adapter errors carry their own code; everything else goes through the shared mapper
+    const { code, message } = typeof error?.code === "string" ? { code: error.code, message: error.message } : normalizeError(error);
+    return res.status(400).json({ error: code, message });
+  }
+}
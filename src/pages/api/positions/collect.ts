@@ -1,92 +1,93 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { Connection, PublicKey } from "@solana/web3.js";
-import { buildCollectTx, CollectParams } from "../../../lib/orcaActions.collect";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { dexDisabledMessage, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { parsePriorityFeeChoice } from "../../../lib/priorityFees";
 import { preflightPositionOperation, getFriendlyErrorMessage } from "../../../lib/preflight";
 import { normalizeError } from "../../../lib/errors";
-import { flags } from "../../../lib/flags";
+import { withRpc } from "../../../lib/rpc";
+import { logAction } from "../../../lib/log";
 
-export default async function handler(
-  req: NextApiRequest,
-  res: NextApiResponse
-) {
+const pubkey = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid base58 address");
+
+const bodySchema = z.object({
+  dex: z.string().default("orca").refine((d) => parseDexId(d) !== null, "Unsupported DEX"),
+  walletPubkey: pubkey,
+  position: z.object({
+    pool: pubkey,
+    position: pubkey,
+    positionPda: pubkey.optional(),
+    tokenA: pubkey,
+    tokenB: pubkey,
+    tickLower: z.number().int().optional(),
+    tickUpper: z.number().int().optional(),
+  }),
+  priority: z.unknown().optional(),
+});
+
+/**
+ * POST /api/positions/collect
+ * Build a transaction claiming the accrued fees of a position on any registered DEX
+ *
+ * Returns:
+ * - 200: { txBase64, summary }
+ * - 400: { error, message } (validation, preflight, position or builder error)
+ * - 503: { error: "Disabled" } when the venue's actions are off
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+    return res.status(405).json({ error: "MethodNotAllowed", message: "Only POST method is allowed" });
   }
 
-  // Check if Orca actions are enabled
-  if (!flags.orcaActions) {
-    return res.status(503).json({ 
-      error: "Disabled", 
-      message: "Orca actions temporarily disabled" 
-    });
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "BadRequest", message: parsed.error.issues[0]?.message, details: parsed.error.flatten() });
   }
+  const body = parsed.data;
 
-  try {
-    // Parse JSON body
-    const body = req.body as Partial<CollectParams>;
-    
-    // Validate required fields
-    const requiredFields = ['walletPubkey', 'whirlpool', 'positionPda', 'positionMint'];
-    for (const field of requiredFields) {
-      if (!body[field as keyof CollectParams]) {
-        return res.status(400).json({ 
-          error: "Missing required field", 
-          message: `Field '${field}' is required` 
-        });
-      }
-    }
-
-    // Build Connection (mainnet RPC)
-    const connection = new Connection(
-      process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
-    );
+  const adapter = getDexAdapter(body.dex);
+  if (!adapter.isEnabled("actions")) {
+    return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "actions") });
+  }
 
-    // Preflight check: validate SOL balance and ensure ATAs exist
-    const owner = new PublicKey(body.walletPubkey!);
-    const tokenMints = [
-      new PublicKey("11111111111111111111111111111111"), // Placeholder for now
-      new PublicKey("11111111111111111111111111111111")  // Placeholder for now
-    ];
-    
-    // For collect operations, we mainly need SOL for fees
-    // No specific token amounts are required for collecting fees
-    const preflight = await preflightPositionOperation(
-      connection,
-      owner,
-      tokenMints,
-      {}, // No specific token amounts required for collect
-      "collect fees"
+  const { position } = body;
+  const t0 = Date.now();
+  try {
+    // Preflight check: collect only needs SOL for fees and the ATAs to receive into
+    const preflight = await withRpc((connection) =>
+      preflightPositionOperation(
+        connection,
+        new PublicKey(body.walletPubkey),
+        [new PublicKey(position.tokenA), new PublicKey(position.tokenB)],
+        {},
+        "collect fees"
+      )
     );
-    
     if (!preflight.isValid) {
-      const friendlyMessage = getFriendlyErrorMessage(preflight.errors);
-      return res.status(400).json({ 
-        error: "Preflight check failed", 
-        message: friendlyMessage,
+      return res.status(400).json({
+        error: "Preflight check failed",
+        message: getFriendlyErrorMessage(preflight.errors),
         details: preflight.errors
       });
     }
 
-    // Call the builder
-    const result = await buildCollectTx({
-      connection,
-      walletPubkey: body.walletPubkey!,
-      whirlpool: body.whirlpool!,
-      positionPda: body.positionPda!,
-      positionMint: body.positionMint!
-    });
+    const result = await withRpc((connection) =>
+      adapter.collect({
+        connection,
+        walletPubkey: body.walletPubkey,
+        position,
+        priority: parsePriorityFeeChoice(body.priority),
+      })
+    );
 
-    // Return success response
-    return res.status(200).json({
-      txBase64: result.txBase64,
-      summary: result.summary
-    });
+    logAction({ action: "collect", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: true });
+    return res.status(200).json({ txBase64: result.txBase64, summary: result.summary });
+  } catch (error: any) {
+    logAction({ action: "collect", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: false, code: error?.code, msg: error?.message });
+    console.error(`Error building ${adapter.label} collect transaction:`, error);
 
-  } catch (error) {
-    console.error("Error building collect fees transaction:", error);
-    
-    // Map error to clean code and message
-    const { code, message } = normalizeError(error);
+    // Adapter errors carry their own code; everything else goes through the shared mapper
+    const { code, message } = typeof error?.code === "string" ? { code: error.code, message: error.message } : normalizeError(error);
     return res.status(400).json({ error: code, message });
   }
 }
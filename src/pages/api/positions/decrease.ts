@@ -1,135 +1,98 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { Connection, PublicKey } from "@solana/web3.js";
-import { buildDecreaseTx, DecreaseParams } from "../../../lib/orcaActions.decrease";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { dexDisabledMessage, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { parsePriorityFeeChoice } from "../../../lib/priorityFees";
 import { preflightPositionOperation, getFriendlyErrorMessage } from "../../../lib/preflight";
-import { getTokenBalanceUi } from "../../../lib/balances";
-import { isWSOL } from "../../../lib/wsol";
-import { clampSlippageBp } from "../../../lib/slippage";
 import { normalizeError } from "../../../lib/errors";
-import { flags } from "../../../lib/flags";
+import { withRpc } from "../../../lib/rpc";
+import { logAction } from "../../../lib/log";
 
-export default async function handler(
-  req: NextApiRequest,
-  res: NextApiResponse
-) {
+const pubkey = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid base58 address");
+
+const bodySchema = z.object({
+  dex: z.string().default("orca").refine((d) => parseDexId(d) !== null, "Unsupported DEX"),
+  walletPubkey: pubkey,
+  position: z.object({
+    pool: pubkey,
+    position: pubkey,
+    positionPda: pubkey.optional(),
+    tokenA: pubkey,
+    tokenB: pubkey,
+    tickLower: z.number().int().optional(),
+    tickUpper: z.number().int().optional(),
+  }),
+  percent: z.number().gt(0).max(100),
+  slippageBp: z.number().int().min(10).max(500).default(100),
+  priority: z.unknown().optional(),
+});
+
+/**
+ * POST /api/positions/decrease
+ * Build a transaction withdrawing a share of a position on any registered DEX
+ * (100% also closes the position)
+ *
+ * Returns:
+ * - 200: { txBase64, summary, warning }
+ * - 400: { error, message } (validation, preflight, position or builder error)
+ * - 503: { error: "Disabled" } when the venue's actions are off
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+    return res.status(405).json({ error: "MethodNotAllowed", message: "Only POST method is allowed" });
   }
 
-  // Check if Orca actions are enabled
-  if (!flags.orcaActions) {
-    return res.status(503).json({ 
-      error: "Disabled", 
-      message: "Orca actions temporarily disabled" 
-    });
+  const parsed = bodySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "BadRequest", message: parsed.error.issues[0]?.message, details: parsed.error.flatten() });
   }
+  const body = parsed.data;
 
-  try {
-    // Parse JSON body
-    const body = req.body as Partial<DecreaseParams>;
-    
-    // Validate required fields
-    const requiredFields = ['walletPubkey', 'whirlpool', 'positionPda', 'positionMint', 'tickLower', 'tickUpper', 'tokenA', 'tokenB', 'percent'];
-    for (const field of requiredFields) {
-      if (!body[field as keyof DecreaseParams]) {
-        return res.status(400).json({ 
-          error: "Missing required field", 
-          message: `Field '${field}' is required` 
-        });
-      }
-    }
-
-    // Validate percent
-    if (typeof body.percent !== 'number' || body.percent < 0 || body.percent > 100) {
-      return res.status(400).json({ 
-        error: "Invalid percent", 
-        message: "percent must be between 0 and 100" 
-      });
-    }
-
-    // Validate slippageBp (optional, default 100) using centralized helper
-    if (body.slippageBp !== undefined) {
-      const clamped = clampSlippageBp(body.slippageBp);
-      if (clamped !== body.slippageBp) {
-        return res.status(400).json({ 
-          error: "Invalid slippageBp", 
-          message: `slippageBp must be between 10 and 500 basis points, got ${body.slippageBp}` 
-        });
-      }
-    }
-
-    // Build Connection (mainnet RPC)
-    const connection = new Connection(
-      process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
-    );
+  const adapter = getDexAdapter(body.dex);
+  if (!adapter.isEnabled("actions")) {
+    return res.status(503).json({ error: "Disabled", message: dexDisabledMessage(adapter, "actions") });
+  }
 
-    // Preflight check: validate SOL balance and ensure ATAs exist
-    const owner = new PublicKey(body.walletPubkey!);
-    const tokenMints = [
-      new PublicKey("11111111111111111111111111111111"), // Placeholder for now
-      new PublicKey("11111111111111111111111111111111")  // Placeholder for now
-    ];
-    
-    // For decrease operations, we mainly need SOL for fees
-    // Token amounts will be determined by the SDK when building the transaction
-    const preflight = await preflightPositionOperation(
-      connection,
-      owner,
-      tokenMints,
-      {}, // No specific token amounts required for decrease
-      "decrease liquidity"
+  const { position } = body;
+  const t0 = Date.now();
+  try {
+    // Preflight check: decrease only needs SOL for fees and the ATAs to receive into
+    const preflight = await withRpc((connection) =>
+      preflightPositionOperation(
+        connection,
+        new PublicKey(body.walletPubkey),
+        [new PublicKey(position.tokenA), new PublicKey(position.tokenB)],
+        {},
+        "decrease liquidity"
+      )
     );
-    
     if (!preflight.isValid) {
-      const friendlyMessage = getFriendlyErrorMessage(preflight.errors);
-      return res.status(400).json({ 
-        error: "Preflight check failed", 
-        message: friendlyMessage,
+      return res.status(400).json({
+        error: "Preflight check failed",
+        message: getFriendlyErrorMessage(preflight.errors),
         details: preflight.errors
       });
     }
 
-    // Additional balance check: verify user has sufficient tokens for the decrease
-    // For decrease operations, we mainly need to check if the position exists and user has SOL for fees
-    // The actual token amounts will be determined by the SDK when building the transaction
-    
-    // WSOL unwrap warning: if decreasing 100% and one side is WSOL, warn about unwrapping
-    const isTokenAWSOL = isWSOL(body.tokenA!);
-    const isTokenBWSOL = isWSOL(body.tokenB!);
-    const isFullClose = body.percent! >= 100;
-    
-    let wsolWarning = null;
-    if (isFullClose && (isTokenAWSOL || isTokenBWSOL)) {
-      wsolWarning = "Note: Decreasing 100% will unwrap WSOL back to SOL";
-    }
-
-    // Call the builder
-    const result = await buildDecreaseTx({
-      connection,
-      walletPubkey: body.walletPubkey!,
-      whirlpool: body.whirlpool!,
-      positionPda: body.positionPda!,
-      positionMint: body.positionMint!,
-      tickLower: body.tickLower!,
-      tickUpper: body.tickUpper!,
-      tokenA: body.tokenA!,
-      tokenB: body.tokenB!,
-      percent: body.percent!,
-      slippageBp: body.slippageBp || 100
-    });
+    const result = await withRpc((connection) =>
+      adapter.decrease({
+        connection,
+        walletPubkey: body.walletPubkey,
+        position,
+        percent: body.percent,
+        slippageBp: body.slippageBp,
+        priority: parsePriorityFeeChoice(body.priority),
+      })
+    );
 
-    // Return success response
-    return res.status(200).json({
-      txBase64: result.txBase64,
-      summary: result.summary,
-      warning: wsolWarning
-    });
+    logAction({ action: "decrease", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: true });
+    return res.status(200).json({ txBase64: result.txBase64, summary: result.summary, warning: result.warning ?? null });
+  } catch (error: any) {
+    logAction({ action: "decrease", dex: adapter.id, mint: position.tokenA, poolId: position.pool, wallet: body.walletPubkey, ms: Date.now() - t0, ok: false, code: error?.code, msg: error?.message });
+    console.error(`Error building ${adapter.label} decrease transaction:`, error);
 
-  } catch (error) {
-    console.error("Error building decrease liquidity transaction:", error);
-    
-    // Map error to clean code and message
-    const { code, message } = normalizeError(error);
+    // Adapter errors carry their own code; everything else goes through the shared mapper
+    const { code, message } = typeof error?.code === "string" ? { code: error.code, message: error.message } : normalizeError(error);
     return res.status(400).json({ error: code, message });
   }
 }
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync, unpackAccount } from "@solana/spl-token";
+import { getTokenByMint } from "@/lib/tokens";
+import { withRpc } from "@/lib/rpc";
+import { programIdFor } from "@/lib/token2022";
+import { formatBaseAmount, parseUiAmount } from "@/lib/amounts";
+import { AllocationBalance } from "@/lib/allocations";
+
+/**
+ * GET /api/token/allocations?mint=<mint_address>
+ * Returns the creation-time distribution with each recipient's current ATA balance
+ * so buyers can check the table against chain state
+ *
+ * Returns:
+ * - 200: { ok: true, decimals, supply, allocations: AllocationBalance[] }
+ *        (allocations is empty for tokens created without a table)
+ * - 400: { ok: false, error: "MissingMint" | "InvalidMintFormat" }
+ * - 404: { ok: false, error: "TokenNotFound" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "GET") {
+      return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+    }
+
+    const mint = (req.query.mint as string) || "";
+    if (!mint) {
+      return res.status(400).json({ ok: false, error: "MissingMint" });
+    }
+
+    let mintKey: PublicKey;
+    try {
+      mintKey = new PublicKey(mint);
+    } catch {
+      return res.status(400).json({ ok: false, error: "InvalidMintFormat" });
+    }
+
+    const token = await getTokenByMint(mint);
+    if (!token) {
+      return res.status(404).json({ ok: false, error: "TokenNotFound" });
+    }
+
+    const decimals = Number(token.decimals);
+    const rows = token.allocations || [];
+    if (rows.length === 0) {
+      return res.status(200).json({ ok: true, decimals, supply: token.amount, allocations: [] });
+    }
+
+    const programId = programIdFor(token.tokenProgram || "spl-token");
+    const atas = rows.map((row) => getAssociatedTokenAddressSync(mintKey, new PublicKey(row.wallet), true, programId));
+    const infos = await withRpc((conn) => conn.getMultipleAccountsInfo(atas, "confirmed"));
+
+    const allocations: AllocationBalance[] = rows.map((row, i) => {
+      const info = infos[i];
+      const onChainBase = info ? unpackAccount(atas[i], info, programId).amount : null;
+      return {
+        ...row,
+        ata: atas[i].toBase58(),
+        onChainAmount: onChainBase === null ? null : formatBaseAmount(onChainBase, decimals),
+        matches: onChainBase !== null && onChainBase === parseUiAmount(row.amount, decimals),
+      };
+    });
+
+    res.setHeader("Cache-Control", "public, max-age=30");
+    return res.status(200).json({ ok: true, decimals, supply: token.amount, allocations });
+  } catch (e: any) {
+    console.error("Error in /api/token/allocations:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message || "Failed to load allocations" });
+  }
+}
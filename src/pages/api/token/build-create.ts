@@ -0,0 +1,139 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { withRpc } from "@/lib/rpc";
+import { logAction } from "@/lib/log";
+import { buildCreateTokenTx, TokenCreateResponse } from "@/lib/tokenCreate";
+import { Token2022Extensions, extensionsFromForm } from "@/lib/token2022";
+import { parseSupply } from "@/lib/amounts";
+import { ALLOCATION_CATEGORIES, MAX_ALLOCATIONS, ResolvedAllocation, resolveAllocations } from "@/lib/allocations";
+
+// Validation schema for token creation requests
+const Body = z.object({
+  owner: z.string().min(32, "Wallet address must be at least 32 characters"),
+  name: z.string().min(1, "Token name is required").max(32, "Token name must be 32 characters or less"),
+  symbol: z.string().min(1, "Token symbol is required").max(10, "Token symbol must be 10 characters or less"),
+  uri: z.string().min(1, "Metadata URI is required").max(200, "Metadata URI must be 200 characters or less"),
+  decimals: z.coerce.number().int().min(0).max(9),
+  amount: z.string().min(1, "Amount is required"),
+  isMutable: z.boolean().optional(),
+  mint: z.string().min(32).optional(), // Caller-held mint key (vanity); caller must sign for it
+  tokenProgram: z.enum(["spl-token", "token-2022"]).optional().default("spl-token"),
+  transferFeeBp: z.string().optional(),
+  transferFeeMax: z.string().optional(),
+  interestRateBp: z.string().optional(),
+  allocations: z.array(z.object({
+    category: z.enum(ALLOCATION_CATEGORIES),
+    label: z.string().max(32).optional(),
+    wallet: z.string().min(32),
+    percent: z.string().optional(),
+    amount: z.string().optional(),
+  })).max(MAX_ALLOCATIONS).optional(),
+});
+
+interface BuildCreateError {
+  error: string;
+  message: string;
+  details?: any;
+}
+
+/**
+ * POST /api/token/build-create
+ * Builds an unsigned token creation transaction
+ *
+ * Request body:
+ * - owner: Wallet that pays, receives the supply and holds all authorities
+ * - name, symbol, uri: Token metadata (uri must already be uploaded)
+ * - decimals: 0-9
+ * - amount: Initial supply in UI units
+ * - mint: Optional mint address the caller will sign for (vanity keypair ground client-side)
+ * - tokenProgram: "spl-token" (default) or "token-2022"
+ * - transferFeeBp, transferFeeMax, interestRateBp: Optional Token-2022 extensions
+ * - allocations: Optional [{ category, label?, wallet, percent | amount }]; the rest stays with owner
+ *
+ * Returns:
+ * - 200: { txBase64, partialSigners, followUpTxsBase64?, summary }
+ * - 400: { error: "BadRequest" | "InvalidParams", message } (InvalidParams: bad supply, allocation or extension values)
+ * - 405: { error: "MethodNotAllowed", message }
+ * - 500: { error: "BuildFailed", message }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TokenCreateResponse | BuildCreateError>
+) {
+  if (req.method !== "POST") {
+    return res
+      .status(405)
+      .json({ error: "MethodNotAllowed", message: "Method not allowed" });
+  }
+
+  const parsed = Body.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "BadRequest",
+      message: "Invalid token creation request",
+      details: parsed.error.flatten(),
+    });
+  }
+  const body = parsed.data;
+
+  let owner: PublicKey;
+  let mintAddress: PublicKey | undefined;
+  let amountBase: bigint;
+  let allocations: ResolvedAllocation[] | undefined;
+  let extensions: Token2022Extensions | undefined;
+  try {
+    owner = new PublicKey(body.owner);
+    mintAddress = body.mint ? new PublicKey(body.mint) : undefined;
+    amountBase = parseSupply(body.amount, body.decimals);
+    if (body.allocations?.length) {
+      allocations = resolveAllocations(body.allocations, body, body.owner);
+    }
+    if (body.tokenProgram === "token-2022") {
+      extensions = extensionsFromForm(body, body.decimals);
+    }
+  } catch (e: any) {
+    return res.status(400).json({ error: "InvalidParams", message: e?.message || "Invalid parameters" });
+  }
+
+  const t0 = Date.now();
+  try {
+    const result = await withRpc((connection) =>
+      buildCreateTokenTx({
+        connection,
+        payer: owner,
+        name: body.name,
+        symbol: body.symbol,
+        uri: body.uri,
+        decimals: body.decimals,
+        amountBase,
+        isMutable: body.isMutable,
+        mintAddress,
+        allocations,
+        tokenProgram: body.tokenProgram,
+        extensions,
+      })
+    );
+
+    logAction({
+      action: "create",
+      mint: result.summary.mint,
+      wallet: body.owner,
+      ms: Date.now() - t0,
+      ok: true,
+    });
+
+    return res.status(200).json(result);
+  } catch (e: any) {
+    logAction({
+      action: "create",
+      wallet: body.owner,
+      ms: Date.now() - t0,
+      ok: false,
+      msg: e?.message,
+    });
+
+    console.error("Error in /api/token/build-create:", e);
+    return res.status(500).json({ error: "BuildFailed", message: e?.message || "Failed to build transaction" });
+  }
+}
@@ -2,33 +2,11 @@ import { NextApiRequest, NextApiResponse } from "next";
 import { fetchLpChips } from "../../../lib/lpStats";
 import { prisma } from "../../../lib/db";
 import { isFresh } from "../../../lib/freshness";
+import { createCache } from "../../../lib/cache";
 
-// In-memory cache for LP data (60 second TTL)
-const lpCache = new Map<string, { data: any; timestamp: number }>();
+// Shared cache for LP data (60 second TTL), tagged "mint:<mint>"
 const CACHE_TTL = 60 * 1000; // 60 seconds
-
-/**
- * Check if cached data is still valid
- */
-function isCacheValid(timestamp: number): boolean {
-  return Date.now() - timestamp < CACHE_TTL;
-}
-
-/**
- * Clear expired cache entries
- */
-function clearExpiredCache(): void {
-  const now = Date.now();
-  const entries = Array.from(lpCache.entries());
-  for (const [key, value] of entries) {
-    if (!isCacheValid(value.timestamp)) {
-      lpCache.delete(key);
-    }
-  }
-}
-
-// Clean up expired cache every 5 minutes
-setInterval(clearExpiredCache, 5 * 60 * 1000);
+const lpCache = createCache<any>("token-lp", { ttlMs: CACHE_TTL });
 
 export default async function handler(
   req: NextApiRequest,
@@ -46,10 +24,10 @@ export default async function handler(
     }
 
     // Check cache first
-    const cached = lpCache.get(mint);
-    if (cached && isCacheValid(cached.timestamp)) {
+    const cached = await lpCache.get(mint);
+    if (cached) {
       console.log(`Using cached LP data for ${mint.slice(0, 8)}...`);
-      return res.status(200).json(cached.data);
+      return res.status(200).json(cached);
     }
 
     // Database-first approach for LP presence check
@@ -110,10 +88,7 @@ export default async function handler(
     }
 
     // Cache the result
-    lpCache.set(mint, {
-      data: lpData,
-      timestamp: Date.now()
-    });
+    await lpCache.set(mint, lpData, { tags: [`mint:${mint}`] });
 
     // Return the data
     return res.status(200).json(lpData);
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { getTokenByMint, updateStoredMetadata } from "@/lib/tokens";
+import { withRpc } from "@/lib/rpc";
+import { readMetadataState } from "@/lib/metadataUpdate";
+import { invalidateTag } from "@/lib/cache";
+import { getClientIp, makeBucket } from "@/lib/rateLimit";
+import { fetchPublicUrl } from "@/lib/remoteFetch";
+
+const bucket = makeBucket({ limit: 10, windowMs: 60_000 });
+
+// Metadata JSON fetch timeout (IPFS gateways can be slow)
+const JSON_TIMEOUT_MS = 8000;
+
+// The URI is creator-controlled: fetchPublicUrl refuses non-https and private hosts
+async function fetchMetadataJson(uri: string): Promise<Record<string, any>> {
+  try {
+    const r = await fetchPublicUrl(uri, { timeoutMs: JSON_TIMEOUT_MS });
+    if (!r || !r.ok) return {};
+    const json = await r.json();
+    return json && typeof json === "object" ? json : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * POST /api/token/metadata-sync
+ * Re-reads on-chain metadata (and its JSON) after a post-launch update and
+ * refreshes the stored CreatedToken record. Values always come from chain,
+ * so the caller does not need to be authenticated.
+ *
+ * Body: { mint: string }
+ *
+ * Returns:
+ * - 200: { ok: true, token: StoredToken, metadata: MetadataState }
+ * - 400: { ok: false, error: "MissingMint" | "InvalidMintFormat" }
+ * - 404: { ok: false, error: "TokenNotFound" | "NoMetadata" }
+ * - 429: { ok: false, error: "RateLimited" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "POST") {
+      return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+    }
+
+    if (!bucket.take(getClientIp(req))) {
+      return res.status(429).json({ ok: false, error: "RateLimited" });
+    }
+
+    const mint = (req.body?.mint as string) || "";
+    if (!mint) {
+      return res.status(400).json({ ok: false, error: "MissingMint" });
+    }
+    try {
+      new PublicKey(mint);
+    } catch {
+      return res.status(400).json({ ok: false, error: "InvalidMintFormat" });
+    }
+
+    const existing = await getTokenByMint(mint);
+    if (!existing) {
+      return res.status(404).json({ ok: false, error: "TokenNotFound" });
+    }
+
+    const metadata = await withRpc((conn) => readMetadataState(conn, mint));
+    if (!metadata) {
+      return res.status(404).json({ ok: false, error: "NoMetadata" });
+    }
+
+    const json = await fetchMetadataJson(metadata.uri);
+    await updateStoredMetadata(mint, {
+      name: metadata.name,
+      symbol: metadata.symbol,
+      image: typeof json.image === "string" ? json.image : undefined,
+      description: typeof json.description === "string" ? json.description : undefined,
+    });
+
+    // Mutability is part of the honest status and trust report
+    await invalidateTag(`mint:${mint}`);
+
+    const token = await getTokenByMint(mint);
+    return res.status(200).json({ ok: true, token, metadata });
+  } catch (e: any) {
+    console.error("Error in /api/token/metadata-sync:", e);
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message || "Failed to sync metadata" });
+  }
+}
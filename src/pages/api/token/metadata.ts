@@ -1,16 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { getTokenByMint } from "@/lib/tokens";
 import { StoredToken } from "@/utils/tokenStorage";
+import { withRpc } from "@/lib/rpc";
+import { readToken2022Info, Token2022Info } from "@/lib/token2022";
 
 /**
  * GET /api/token/metadata?mint=<mint_address>
  * Returns complete token metadata from the database
+ * For Token-2022 mints the on-mint metadata extension is decoded as well
  * 
  * Query parameters:
  * - mint: Required. The mint address to query
  * 
  * Returns:
- * - 200: { ok: true, token: StoredToken }
+ * - 200: { ok: true, token: StoredToken, extension: Token2022Info | null }
  * - 400: { ok: false, error: "MissingMint" }
  * - 404: { ok: false, error: "TokenNotFound" }
  * - 500: { ok: false, error: "ServerError", message: string }
@@ -46,9 +49,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Fetch token metadata from database
     const token = await getTokenByMint(mint);
+
+    // Decode Token-2022 metadata extension (null for legacy SPL mints)
+    // Only hit RPC when the DB says Token-2022 or the token isn't in the DB at all
+    let extension: Token2022Info | null = null;
+    if (!token || token.tokenProgram === "token-2022") {
+      try {
+        extension = await withRpc((conn) => readToken2022Info(conn, mint));
+      } catch (e: any) {
+        console.warn("[/api/token/metadata] extension decode failed:", e?.message);
+      }
+    }
     
-    // Return 404 if token not found
-    if (!token) {
+    // Return 404 if token not found in DB and not decodable on chain
+    if (!token && !extension) {
       return res.status(404).json({ 
         ok: false, 
         error: "TokenNotFound" 
@@ -58,7 +72,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Return successful response with token metadata
     return res.status(200).json({ 
       ok: true, 
-      token 
+      token: token || tokenFromExtension(mint, extension!),
+      extension
     });
 
   } catch (e: any) {
@@ -71,3 +86,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+/**
+ * Build a minimal StoredToken from Token-2022 on-mint metadata
+ * Used for mints that were not created through this app
+ */
+function tokenFromExtension(mint: string, ext: Token2022Info): StoredToken {
+  return {
+    mintAddress: mint,
+    name: ext.name,
+    symbol: ext.symbol,
+    decimals: "",
+    amount: "",
+    image: "",
+    description: "",
+    preset: "degen",
+    vibe: "serious",
+    createdAt: 0,
+    tokenProgram: "token-2022",
+  };
+}
@@ -4,6 +4,9 @@ import { verifyHonestMint } from "../../../lib/solanaToken";
 /**
  * Verify if a token is honest on-chain
  * Called from the Proof section to check verification status
+ * 
+ * verified keeps the mint + freeze rule; parts adds whether the metadata is
+ * locked and fullyVerified requires all three
  */
 
 export default async function handler(
@@ -32,12 +35,18 @@ export default async function handler(
     );
 
     // Perform on-chain verification
-    const verified = await verifyHonestMint({ connection, mint });
+    const parts = await verifyHonestMint({ connection, mint });
+    const verified = parts.isHonest;
 
-    console.log(`Token verification for ${mint.slice(0, 8)}...: ${verified ? "Verified" : "Not verified"}`);
+    console.log(
+      `Token verification for ${mint.slice(0, 8)}...: ${verified ? "Verified" : "Not verified"}` +
+        `, metadata ${parts.metadataLocked === null ? "none" : parts.metadataLocked ? "locked" : "mutable"}`
+    );
 
     return res.status(200).json({
       verified,
+      fullyVerified: parts.isFullyHonest,
+      parts,
       mint,
       timestamp: new Date().toISOString(),
       message: verified ? "Token verified as honest on-chain" : "Token verification failed"
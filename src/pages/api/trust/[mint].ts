@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { readTrustCached } from "@/lib/trustCache";
+
+/**
+ * API endpoint for the token trust report
+ * GET /api/trust/<mint_address>?bust=1
+ *
+ * Query parameters:
+ * - bust: Optional. Set to "1" to bypass cache and rebuild the report
+ *
+ * Returns:
+ * - 200: { ok: true, report: TrustReport } (report.error set when the mint could not be read)
+ * - 400: { ok: false, error: "InvalidMint" }
+ * - 405: { ok: false, error: "MethodNotAllowed" }
+ * - 500: { ok: false, error: "ServerError", message: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+
+  try {
+    const mint = (req.query.mint as string) || "";
+    try {
+      new PublicKey(mint);
+    } catch {
+      return res.status(400).json({ ok: false, error: "InvalidMint" });
+    }
+
+    const report = await readTrustCached(mint, { bust: req.query.bust === "1" });
+    return res.status(200).json({ ok: true, report });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: "ServerError", message: e?.message });
+  }
+}
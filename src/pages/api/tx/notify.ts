@@ -1,14 +1,16 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { Connection } from "@solana/web3.js";
 import { prisma } from "../../../lib/db";
-import { findClmmPositionMint } from "../../../lib/txParse";
+import { DexId, getDexAdapter, parseDexId } from "../../../lib/dex";
+import { invalidateTag } from "../../../lib/cache";
+import { recordCreatedPool } from "../../../lib/createdPools";
 
 // Type for the request body
 interface TxNotifyRequest {
   txSig: string;
   wallet: string;
   mint: string;
-  dex: "raydium" | "orca";
+  dex: DexId;
   context?: {
     poolId?: string;
     positionMint?: string;
@@ -28,6 +30,10 @@ interface TxNotifyRequest {
     skimA?: string;
     skimB?: string;
     flatSol?: number;
+    // Pool creation (action "create_pool")
+    quoteMint?: string;
+    tickSpacing?: number;
+    initialPrice?: string;
   };
 }
 
@@ -35,6 +41,7 @@ interface TxNotifyRequest {
 interface TxNotifyResponse {
   saved: boolean;
   positionMint?: string;
+  poolRecorded?: boolean;
   error?: string;
 }
 
@@ -57,11 +64,18 @@ export default async function handler(
       });
     }
 
+    const dex = parseDexId(body.dex);
+    if (!dex) {
+      return res.status(400).json({
+        saved: false,
+        error: `Unsupported dex: ${body.dex}`
+      });
+    }
+
     // Normalize strings (trim whitespace)
     const txSig = body.txSig.trim();
     const wallet = body.wallet.trim();
     const mint = body.mint.trim();
-    const dex = body.dex;
 
     // Upsert TxEvent by txSig (idempotent)
     const txEvent = await prisma.txEvent.upsert({
@@ -79,12 +93,14 @@ export default async function handler(
         ...(body.context?.skimA && { skimA: body.context.skimA }),
         ...(body.context?.skimB && { skimB: body.context.skimB }),
         ...(body.context?.flatSol !== undefined && { flatSol: body.context.flatSol }),
+        dex,
         ts: new Date() // Update timestamp
       },
       create: {
         txSig,
         wallet,
         mint,
+        dex,
         action: body.context?.action || "unknown",
         amountA: body.context?.amountA || null,
         amountB: body.context?.amountB || null,
@@ -101,9 +117,33 @@ export default async function handler(
       }
     });
 
-    // If this is a Raydium transaction and we have position metadata, upsert PositionsClmm
+    // A new pool is recorded once it exists on chain, so quotes find it before indexers do
+    let poolRecorded: boolean | undefined;
+    if (body.context?.action === "create_pool" && body.context.poolId && body.context.quoteMint) {
+      try {
+        const connection = new Connection(
+          process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
+        );
+        poolRecorded = await recordCreatedPool(connection, {
+          poolId: body.context.poolId,
+          dex,
+          tokenMint: mint,
+          quoteMint: body.context.quoteMint,
+          tickSpacing: body.context.tickSpacing ?? 0,
+          initialPrice: body.context.initialPrice ?? "",
+          creatorWallet: wallet,
+          txSig,
+        });
+      } catch (error) {
+        console.error("Error recording created pool:", error);
+        poolRecorded = false;
+      }
+    }
+
+    // If we have position metadata, upsert PositionsClmm
+    // (Meteora positions are accounts: positionMint is the position address, ticks are bin ids)
     let positionMint: string | undefined;
-    if (dex === "raydium" && body.context?.poolId && 
+    if (body.context?.poolId && 
         body.context?.tickLower !== undefined && body.context?.tickUpper !== undefined) {
       
       const context = body.context;
@@ -111,7 +151,7 @@ export default async function handler(
       
       // If positionMint is missing, try to extract it from the transaction
       if (!finalPositionMint) {
-        console.log(`Position mint missing for Raydium transaction ${txSig}, attempting to extract from transaction`);
+        console.log(`Position mint missing for ${dex} transaction ${txSig}, attempting to extract from transaction`);
         
         try {
           // Create a Solana connection for transaction parsing
@@ -120,7 +160,7 @@ export default async function handler(
           );
           
           // Attempt to find the position mint from the transaction
-          const discoveredPositionMint = await findClmmPositionMint(connection, txSig, {
+          const discoveredPositionMint = await getDexAdapter(dex).parseTx(connection, txSig, {
             wallet,
             poolId: context.poolId
           });
@@ -151,6 +191,7 @@ export default async function handler(
             tickLower: context.tickLower,
             tickUpper: context.tickUpper,
             lastLiquidity: context.lastLiquidity || "",
+            dex,
             updatedAt: new Date()
           },
           create: {
@@ -164,12 +205,15 @@ export default async function handler(
             tickLower: context.tickLower,
             tickUpper: context.tickUpper,
             lastLiquidity: context.lastLiquidity || "",
+            dex,
             createdAt: new Date(),
             updatedAt: new Date()
           }
         });
 
         positionMint = position.positionMint;
+        // Positions list for this wallet is stale now
+        await invalidateTag(`wallet:${wallet}`);
       } else {
         console.log("Skipping PositionsClmm upsert - no position mint available");
       }
@@ -177,7 +221,8 @@ export default async function handler(
 
     return res.status(200).json({
       saved: true,
-      positionMint
+      positionMint,
+      poolRecorded
     });
 
   } catch (error) {
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { cancelVanityJob, getVanityJob } from "../../../lib/vanityPool";
+
+/**
+ * GET /api/vanity/[jobId] - job progress; includes mint + secretKey once found
+ * DELETE /api/vanity/[jobId] - cancel a running job
+ *
+ * Returns:
+ * - 200: { ok: true, job: { id, status, attempts, expectedAttempts, elapsedMs, mint?, secretKey?, error? } }
+ * - 404: { ok: false, error: "NotFound" }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const jobId = String(req.query.jobId || "");
+
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+
+  const job = req.method === "DELETE" ? cancelVanityJob(jobId) : getVanityJob(jobId);
+  if (!job) {
+    return res.status(404).json({ ok: false, error: "NotFound", message: "Unknown or expired vanity job" });
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).json({
+    ok: true,
+    job: {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      expectedAttempts: job.expectedAttempts,
+      elapsedMs: (job.finishedAt || Date.now()) - job.startedAt,
+      mint: job.mint,
+      secretKey: job.secretKey,
+      error: job.error,
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { getClientIp, makeBucket } from "../../../lib/rateLimit";
+import { hasUnusedProPayment } from "../../../lib/tokenProStatus";
+import { estimateVanity } from "../../../lib/vanity";
+import { VANITY_THREADS, startVanityJob } from "../../../lib/vanityPool";
+
+// Grinding is CPU heavy - keep job starts low per IP and per paying wallet
+const bucket = makeBucket({ limit: 5, windowMs: 10 * 60_000 }); // 5 jobs per 10 minutes
+const walletBucket = makeBucket({ limit: 5, windowMs: 10 * 60_000 });
+
+const Body = z.object({
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  caseSensitive: z.boolean().optional(),
+  wallet: z.string().min(32).max(64),
+  paymentTxSig: z.string().min(32).max(128), // Pro payment verified by /api/token/payment-verify
+});
+
+/**
+ * POST /api/vanity
+ * Starts a server-side vanity mint grinding job (Pro only)
+ * Body: { prefix?, suffix?, caseSensitive?, wallet, paymentTxSig }
+ * The payment must be verified for the wallet and not yet used by a created token
+ * Poll GET /api/vanity/[jobId] for progress; DELETE to cancel
+ *
+ * Returns:
+ * - 202: { ok: true, jobId, expectedAttempts, difficulty, threads }
+ * - 400: { ok: false, error: "BadRequest" | "InvalidVanityPattern", message }
+ * - 403: { ok: false, error: "ProRequired", message }
+ * - 429: { ok: false, error: "RateLimited" | "TooManyJobs", message }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ ok: false, error: "MethodNotAllowed" });
+  }
+
+  const parsed = Body.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      ok: false,
+      error: "BadRequest",
+      message: "Invalid vanity request",
+      details: parsed.error.flatten(),
+    });
+  }
+  const body = parsed.data;
+
+  if (!bucket.take(getClientIp(req)) || !walletBucket.take(body.wallet)) {
+    return res.status(429).json({ ok: false, error: "RateLimited", message: "Too many vanity jobs, try again later" });
+  }
+
+  if (!(await hasUnusedProPayment(body.wallet, body.paymentTxSig))) {
+    return res.status(403).json({ ok: false, error: "ProRequired", message: "Vanity mint addresses need a verified Pro payment" });
+  }
+
+  try {
+    const pattern = { prefix: body.prefix, suffix: body.suffix, caseSensitive: body.caseSensitive };
+    const { expectedAttempts, difficulty } = estimateVanity(pattern);
+    const job = startVanityJob(pattern);
+    return res.status(202).json({ ok: true, jobId: job.id, expectedAttempts, difficulty, threads: VANITY_THREADS });
+  } catch (e: any) {
+    const status = e?.code === "TooManyJobs" ? 429 : e?.code === "InvalidVanityPattern" ? 400 : 500;
+    return res.status(status).json({ ok: false, error: e?.code || "VanityFailed", message: e?.message || "Failed to start vanity job" });
+  }
+}
@@ -1,36 +1,22 @@
 import React, { FC, useCallback, useState } from "react";
 import Head from "next/head";
 import Link from "next/link";
+import { useRouter } from "next/router";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import {
-  Keypair,
-  PublicKey,
-  SystemProgram,
-  Transaction,
-} from "@solana/web3.js";
 import { DEV_RELAX_CONFIRM_MS } from "../../lib/env";
-import {
-  MINT_SIZE,
-  TOKEN_PROGRAM_ID,
-  createInitializeMintInstruction,
-  getMinimumBalanceForRentExemptMint,
-  getAssociatedTokenAddress,
-  createMintToInstruction,
-  createAssociatedTokenAccountInstruction,
-} from "@solana/spl-token";
-import {
-  PROGRAM_ID,
-  createCreateMetadataAccountV3Instruction,
-} from "@metaplex-foundation/mpl-token-metadata";
 import axios from "axios";
 import { notify } from "../../utils/notifications";
 import { normalizeError } from "../../lib/errors";
+import { describeTxPreview, previewOrThrow } from "../../lib/txPreview";
 import { retryWithBackoff } from "../../lib/confirmRetry";
-import { withRpc } from "../../lib/rpc";
 import { ClipLoader } from "react-spinners";
 import { useNetworkConfiguration } from "contexts/NetworkConfigurationProvider";
 import { tokenStorage } from "../../utils/tokenStorage";
+import { requestCreateTokenTx } from "../../lib/tokenCreateClient";
+import { parseSupply } from "../../lib/amounts";
 import { hasFeature } from "../../lib/tokenPricing";
+import { applyDraft, draftStepFor } from "../../lib/drafts";
+import { useTokenDraft } from "../../hooks/useTokenDraft";
 
 import { ArrowLeft, Upload, Lock } from "lucide-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
@@ -38,6 +24,9 @@ import CreateSVG from "../../components/SVG/CreateSVG";
 import { Branding } from "../../components/Branding";
 import { PresetBadge } from "../../components/PresetBadge";
 import HonestLaunchEnforcer from "../../components/HonestLaunchEnforcer";
+import { DraftStatus } from "../../components/DraftStatus";
+import { MetadataFieldErrors } from "../../components/MetadataFieldErrors";
+import { MetadataFieldErrors as FieldErrors, metadataFieldErrorsFrom } from "../../lib/metadataSchema";
 // Remove InputView import as we'll implement image upload directly
 
 interface FreeTokenCreationPageProps {}
@@ -46,11 +35,13 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
   const { connection } = useConnection();
   const { publicKey, sendTransaction } = useWallet();
   const { networkConfiguration } = useNetworkConfiguration();
+  const router = useRouter();
 
   const [tokenUri, setTokenUri] = useState("");
   const [tokenMintAddress, setTokenMintAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isOnChainVerified, setIsOnChainVerified] = useState(false);
+  const [metadataErrors, setMetadataErrors] = useState<FieldErrors>({});
   const [token, setToken] = useState({
     name: "",
     symbol: "",
@@ -62,6 +53,15 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
     vibe: "degen" as "funny" | "serious" | "degen",
   });
 
+  // Autosave the form; /create-token/free?draft=<id> resumes a saved draft
+  const { saveStatus, discard: discardDraft } = useTokenDraft({
+    flow: "free",
+    data: token,
+    step: draftStepFor(token),
+    resumeId: router.query.draft as string | undefined,
+    onResume: (draft) => setToken((current) => applyDraft(current, draft.data)),
+  });
+
   const handleFormFieldChange = (fieldName, e) => {
     setToken({ ...token, [fieldName]: e.target.value });
   };
@@ -162,13 +162,13 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
         return;
       }
 
-      // Check if mint amount would overflow
-      const mintAmount = amount * Math.pow(10, decimals);
-      if (mintAmount > Number.MAX_SAFE_INTEGER) {
+      // Exact bigint check: supply must fit in a u64 with no extra decimal places
+      try {
+        parseSupply(token.amount, decimals);
+      } catch (e: any) {
         notify({
           type: "error",
-          message:
-            "Token amount is too large. Please reduce the amount or decimals.",
+          message: e?.message || "Token amount is too large. Please reduce the amount or decimals.",
         });
         return;
       }
@@ -176,18 +176,6 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
       setIsLoading(true);
 
       try {
-        // Use RPC fallback system with retry logic for maximum reliability
-        const lamports = await withRpc(async (rpcConnection) => {
-          return await retryWithBackoff(() =>
-            getMinimumBalanceForRentExemptMint(rpcConnection)
-          );
-        });
-        const mintKeypair = Keypair.generate();
-        const tokenATA = await getAssociatedTokenAddress(
-          mintKeypair.publicKey,
-          publicKey
-        );
-
         // Create the token metadata URI
         const tokenMetadata = {
           name: token.name,
@@ -210,7 +198,8 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
           ],
         };
 
-        // Upload metadata to IPFS via secure server-side API
+        // Upload metadata to IPFS via secure server-side API (validated against the Metaplex standard)
+        setMetadataErrors({});
         const metadataResponse = await axios.post(
           "/api/ipfs/upload",
           { metadata: tokenMetadata },
@@ -230,101 +219,42 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
         const tokenUri = metadataResponse.data.ipfsUrl;
         setTokenUri(tokenUri);
 
-        // Create the transaction
-        const transaction = new Transaction();
-
-        // Add rent exemption instruction
-        transaction.add(
-          SystemProgram.createAccount({
-            fromPubkey: publicKey,
-            newAccountPubkey: mintKeypair.publicKey,
-            space: MINT_SIZE,
-            lamports,
-            programId: TOKEN_PROGRAM_ID,
-          })
-        );
-
-        // Initialize mint
-        transaction.add(
-          createInitializeMintInstruction(
-            mintKeypair.publicKey,
-            decimals,
-            publicKey,
-            publicKey
-          )
-        );
-
-        // Create metadata account
-        transaction.add(
-          createCreateMetadataAccountV3Instruction(
-            {
-              metadata: PublicKey.findProgramAddressSync(
-                [
-                  Buffer.from("metadata"),
-                  PROGRAM_ID.toBuffer(),
-                  mintKeypair.publicKey.toBuffer(),
-                ],
-                PROGRAM_ID
-              )[0],
-              mint: mintKeypair.publicKey,
-              mintAuthority: publicKey,
-              payer: publicKey,
-              updateAuthority: publicKey,
-            },
-            {
-              createMetadataAccountArgsV3: {
-                data: {
-                  name: token.name,
-                  symbol: token.symbol,
-                  uri: tokenUri,
-                  sellerFeeBasisPoints: 0,
-                  creators: null,
-                  collection: null,
-                  uses: null,
-                },
-                isMutable: true,
-                collectionDetails: null,
-              },
-            }
-          )
-        );
-
-        // Create associated token account
-        transaction.add(
-          createAssociatedTokenAccountInstruction(
-            publicKey,
-            tokenATA,
-            publicKey,
-            mintKeypair.publicKey
-          )
-        );
-
-        // Mint tokens to the associated token account
-        transaction.add(
-          createMintToInstruction(
-            mintKeypair.publicKey,
-            tokenATA,
-            publicKey,
-            mintAmount
-          )
-        );
+        // Build the creation transaction with the shared server-side builder
+        const { transaction, signers, summary } = await requestCreateTokenTx({
+          owner: publicKey.toBase58(),
+          name: token.name,
+          symbol: token.symbol,
+          uri: tokenUri,
+          decimals,
+          amount: token.amount,
+          isMutable: true,
+        });
 
         // Get recent blockhash and send transaction
         const { blockhash } = await connection.getLatestBlockhash();
         transaction.recentBlockhash = blockhash;
         transaction.feePayer = publicKey;
 
+        // Simulate and price before the wallet prompt; a failing simulation throws
+        const preview = await previewOrThrow(connection, transaction, { feePayer: publicKey });
+        if (preview) {
+          notify({ type: "info", message: "Estimated cost", description: describeTxPreview(preview) });
+        }
+
         // Sign and send transaction
         const signature = await sendTransaction(transaction, connection, {
-          signers: [mintKeypair],
+          signers,
         });
 
         // Wait for confirmation
         await connection.confirmTransaction(signature, "confirmed");
 
-        const mintAddress = mintKeypair.publicKey.toString();
+        const mintAddress = summary.mint;
         setTokenMintAddress(mintAddress);
 
+        // The token exists now, so its draft is no longer needed
+        discardDraft();
+
         // Create complete token metadata
         const completeTokenMetadata = {
           mintAddress,
@@ -339,6 +269,8 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
           createdAt: Date.now(),
           creatorWallet: publicKey.toBase58(),
           links: {},
+          metadataUri: tokenUri,
+          storageProvider: metadataResponse.data.provider,
           tokenType: "free", // Free token creation
           // No payment fields for free tokens - omit them entirely
         };
@@ -389,6 +321,15 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
         }, 1000);
       } catch (error: any) {
         console.error("Token creation error:", error);
+
+        // Metadata rejected by /api/ipfs/upload: show the offending fields
+        const fieldErrors = metadataFieldErrorsFrom(error);
+        if (fieldErrors) {
+          setMetadataErrors(fieldErrors);
+          notify({ type: "error", message: "Token metadata is invalid", description: error?.response?.data?.message });
+          return;
+        }
+
         notify({
           type: "error",
           message: normalizeError(error).message,
@@ -397,7 +338,7 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
         setIsLoading(false);
       }
     },
-    [connection, publicKey, sendTransaction, networkConfiguration]
+    [connection, publicKey, sendTransaction, networkConfiguration, discardDraft]
   );
 
   const handleSubmit = (e) => {
@@ -693,6 +634,7 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
 
                 {/* Create Token Button */}
                 <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-6 border border-muted/10">
+                  <MetadataFieldErrors errors={metadataErrors} className="mb-4" />
                   <button
                     type="submit"
                     disabled={isLoading || !publicKey}
@@ -710,6 +652,7 @@ export const FreeTokenCreationPage: FC<FreeTokenCreationPageProps> = () => {
                   <p className="text-center text-sm text-muted mt-3">
                     No payment required. Your token will be created instantly.
                   </p>
+                  <DraftStatus status={saveStatus} />
                 </div>
               </form>
             </div>
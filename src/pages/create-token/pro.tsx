@@ -1,38 +1,26 @@
 import React, { FC, useCallback, useState, useEffect } from "react";
+import { Keypair } from "@solana/web3.js";
 import Head from "next/head";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import {
-  Keypair,
-  PublicKey,
-  SystemProgram,
-  Transaction,
-} from "@solana/web3.js";
 import { DEV_RELAX_CONFIRM_MS } from "../../lib/env";
-import {
-  MINT_SIZE,
-  TOKEN_PROGRAM_ID,
-  createInitializeMintInstruction,
-  getMinimumBalanceForRentExemptMint,
-  getAssociatedTokenAddress,
-  createMintToInstruction,
-  createAssociatedTokenAccountInstruction,
-} from "@solana/spl-token";
-import {
-  PROGRAM_ID,
-  createCreateMetadataAccountV3Instruction,
-} from "@metaplex-foundation/mpl-token-metadata";
 import axios from "axios";
 import { notify } from "../../utils/notifications";
 import { normalizeError } from "../../lib/errors";
+import { describeTxPreview, previewOrThrow } from "../../lib/txPreview";
 import { retryWithBackoff } from "../../lib/confirmRetry";
-import { withRpc } from "../../lib/rpc";
 import { ClipLoader } from "react-spinners";
 import { useNetworkConfiguration } from "contexts/NetworkConfigurationProvider";
 import { tokenStorage } from "../../utils/tokenStorage";
+import { requestCreateTokenTx, sendFollowUpTxs } from "../../lib/tokenCreateClient";
+import { parseSupply } from "../../lib/amounts";
+import { AllocationInput, resolveAllocations } from "../../lib/allocations";
 import { hasFeature } from "../../lib/tokenPricing";
 import { useProPaymentSession } from "../../hooks/useTokenProStatus";
+import { useTokenDraft } from "../../hooks/useTokenDraft";
+import { applyDraft, draftStepFor } from "../../lib/drafts";
+import { createPaymentSession, storePaymentSession } from "../../lib/paymentSession";
 
 import { ArrowLeft, Upload, Star, Shield, Sparkles, Zap } from "lucide-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
@@ -40,6 +28,12 @@ import CreateSVG from "../../components/SVG/CreateSVG";
 import { Branding } from "../../components/Branding";
 import { PresetBadge } from "../../components/PresetBadge";
 import HonestLaunchEnforcer from "../../components/HonestLaunchEnforcer";
+import { TokenProgramSelector } from "../../components/TokenProgramSelector";
+import { AllocationTable } from "../../components/AllocationTable";
+import { DraftStatus } from "../../components/DraftStatus";
+import { MetadataFieldErrors } from "../../components/MetadataFieldErrors";
+import { MetadataFieldErrors as FieldErrors, metadataFieldErrorsFrom } from "../../lib/metadataSchema";
+import { VanityMintPanel } from "../../components/VanityMintPanel";
 // Remove InputView import as we'll implement image upload directly
 
 interface ProTokenCreationPageProps {}
@@ -48,13 +42,16 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
   const { connection } = useConnection();
   const { publicKey, sendTransaction } = useWallet();
   const { networkConfiguration } = useNetworkConfiguration();
-  const { hasValidPayment, paymentSession, clearPaymentSession } = useProPaymentSession();
+  const { hasValidPayment, paymentSession, clearPaymentSession, refreshPaymentSession } = useProPaymentSession();
   const router = useRouter();
 
   const [tokenUri, setTokenUri] = useState("");
   const [tokenMintAddress, setTokenMintAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isOnChainVerified, setIsOnChainVerified] = useState(false);
+  const [metadataErrors, setMetadataErrors] = useState<FieldErrors>({});
+  const [vanityKeypair, setVanityKeypair] = useState<Keypair | null>(null);
+  const [vanityPanelKey, setVanityPanelKey] = useState(0); // Bumped to clear a used vanity keypair
   const [token, setToken] = useState({
     name: "",
     symbol: "",
@@ -68,10 +65,46 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
     enableHonestLaunch: true,
     generateMemeKit: true,
     setupLiquidity: true,
+    // Token program + optional Token-2022 extensions
+    tokenProgram: "spl-token" as "spl-token" | "token-2022",
+    transferFeeBp: "",
+    transferFeeMax: "",
+    interestRateBp: "",
+    allocations: [] as AllocationInput[],
+  });
+
+  // Autosave the form with its payment signature; /create-token/pro?draft=<id> resumes it
+  const { saveStatus, resuming: resumingDraft, discard: discardDraft } = useTokenDraft({
+    flow: "pro",
+    data: token,
+    step: draftStepFor(token, { needsPayment: true, paid: hasValidPayment }),
+    payment: paymentSession?.txSignature
+      ? { txSig: paymentSession.txSignature, amount: paymentSession.amount }
+      : null,
+    resumeId: router.query.draft as string | undefined,
+    onResume: async (draft) => {
+      setToken((current) => applyDraft(current, draft.data));
+
+      // Restore an expired payment session if that payment hasn't been used for a token yet
+      if (hasValidPayment || !draft.paymentAvailable || !draft.paymentTxSig) return;
+      const response = await fetch("/api/token/payment-verify", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ wallet: draft.wallet, txSig: draft.paymentTxSig, tokenType: "pro" }),
+      });
+      const result = await response.json();
+      if (result?.ok && result.verified) {
+        storePaymentSession(createPaymentSession(draft.paymentTxSig, result.paidAmount));
+        refreshPaymentSession();
+      }
+    },
   });
 
   // Check payment on component mount with better error handling
   useEffect(() => {
+    // Wait for the query string and any draft resume (it may restore the payment)
+    if (!router.isReady || resumingDraft) return;
+
     // Add a small delay to ensure session validation has time to complete
     const checkPayment = setTimeout(() => {
       if (!hasValidPayment) {
@@ -85,7 +118,7 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
     }, 200);
 
     return () => clearTimeout(checkPayment);
-  }, [hasValidPayment, router]);
+  }, [hasValidPayment, router, resumingDraft]);
 
   // Additional effect to handle session refresh
   useEffect(() => {
@@ -115,6 +148,14 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
     setToken({ ...token, [fieldName]: e.target.value });
   };
 
+  const handleTokenProgramChange = (fieldName, value) => {
+    setToken({ ...token, [fieldName]: value });
+  };
+
+  const handleAllocationsChange = (rows: AllocationInput[]) => {
+    setToken({ ...token, allocations: rows });
+  };
+
   // Handle honest launch verification status changes
   const handleVerificationChange = (isVerified: boolean) => {
     setIsOnChainVerified(isVerified);
@@ -213,31 +254,33 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
         return;
       }
       
-      // Check if mint amount would overflow
-      const mintAmount = amount * Math.pow(10, decimals);
-      if (mintAmount > Number.MAX_SAFE_INTEGER) {
+      // Exact bigint check: supply must fit in a u64 with no extra decimal places
+      try {
+        parseSupply(token.amount, decimals);
+      } catch (e: any) {
         notify({
           type: "error",
-          message: "Token amount is too large. Please reduce the amount or decimals.",
+          message: e?.message || "Token amount is too large. Please reduce the amount or decimals.",
         });
         return;
       }
 
+      // Validate the allocation table before uploading anything
+      if (token.allocations.length > 0) {
+        try {
+          resolveAllocations(token.allocations, { amount: token.amount, decimals }, publicKey.toBase58());
+        } catch (e: any) {
+          notify({
+            type: "error",
+            message: e?.message || "Invalid allocation table",
+          });
+          return;
+        }
+      }
+
       setIsLoading(true);
       
       try {
-        // Use RPC fallback system with retry logic for maximum reliability
-        const lamports = await withRpc(async (rpcConnection) => {
-          return await retryWithBackoff(() => 
-            getMinimumBalanceForRentExemptMint(rpcConnection)
-          );
-        });
-        const mintKeypair = Keypair.generate();
-        const tokenATA = await getAssociatedTokenAddress(
-          mintKeypair.publicKey,
-          publicKey
-        );
-
         // Create the token metadata URI
         const tokenMetadata = {
           name: token.name,
@@ -272,7 +315,8 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
           ],
         };
 
-        // Upload metadata to IPFS via secure server-side API
+        // Upload metadata to IPFS via secure server-side API (validated against the Metaplex standard)
+        setMetadataErrors({});
         const metadataResponse = await axios.post(
           "/api/ipfs/upload",
           { metadata: tokenMetadata },
@@ -290,101 +334,51 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
         const tokenUri = metadataResponse.data.ipfsUrl;
         setTokenUri(tokenUri);
 
-        // Create the transaction
-        const transaction = new Transaction();
-
-        // Add rent exemption instruction
-        transaction.add(
-          SystemProgram.createAccount({
-            fromPubkey: publicKey,
-            newAccountPubkey: mintKeypair.publicKey,
-            space: MINT_SIZE,
-            lamports,
-            programId: TOKEN_PROGRAM_ID,
-          })
-        );
-
-        // Initialize mint
-        transaction.add(
-          createInitializeMintInstruction(
-            mintKeypair.publicKey,
-            decimals,
-            publicKey,
-            publicKey
-          )
-        );
-
-        // Create metadata account
-        transaction.add(
-          createCreateMetadataAccountV3Instruction(
-            {
-              metadata: PublicKey.findProgramAddressSync(
-                [
-                  Buffer.from("metadata"),
-                  PROGRAM_ID.toBuffer(),
-                  mintKeypair.publicKey.toBuffer(),
-                ],
-                PROGRAM_ID
-              )[0],
-              mint: mintKeypair.publicKey,
-              mintAuthority: publicKey,
-              payer: publicKey,
-              updateAuthority: publicKey,
-            },
-            {
-              createMetadataAccountArgsV3: {
-                data: {
-                  name: token.name,
-                  symbol: token.symbol,
-                  uri: tokenUri,
-                  sellerFeeBasisPoints: 0,
-                  creators: null,
-                  collection: null,
-                  uses: null,
-                },
-                isMutable: true,
-                collectionDetails: null,
-              },
-            }
-          )
-        );
-
-        // Create associated token account
-        transaction.add(
-          createAssociatedTokenAccountInstruction(
-            publicKey,
-            tokenATA,
-            publicKey,
-            mintKeypair.publicKey
-          )
-        );
-
-        // Mint tokens to the associated token account
-        transaction.add(
-          createMintToInstruction(
-            mintKeypair.publicKey,
-            tokenATA,
-            publicKey,
-            mintAmount
-          )
-        );
+        // Build the creation transaction with the shared server-side builder
+        const { transaction, signers, followUps, summary } = await requestCreateTokenTx({
+          owner: publicKey.toBase58(),
+          name: token.name,
+          symbol: token.symbol,
+          uri: tokenUri,
+          decimals,
+          amount: token.amount,
+          isMutable: true,
+          tokenProgram: token.tokenProgram,
+          transferFeeBp: token.transferFeeBp,
+          transferFeeMax: token.transferFeeMax,
+          interestRateBp: token.interestRateBp,
+          allocations: token.allocations.length ? token.allocations : undefined,
+        }, vanityKeypair);
 
         // Get recent blockhash and send transaction
         const { blockhash } = await connection.getLatestBlockhash();
         transaction.recentBlockhash = blockhash;
         transaction.feePayer = publicKey;
 
+        // Simulate and price before the wallet prompt; a failing simulation throws
+        const preview = await previewOrThrow(connection, transaction, { feePayer: publicKey });
+        if (preview) {
+          notify({ type: "info", message: "Estimated cost", description: describeTxPreview(preview) });
+        }
+
         // Sign and send transaction
         const signature = await sendTransaction(transaction, connection, {
-          signers: [mintKeypair],
+          signers,
         });
 
         // Wait for confirmation
         await connection.confirmTransaction(signature, "confirmed");
 
-        const mintAddress = mintKeypair.publicKey.toString();
+        // The vanity address is taken now; never offer its keypair for another mint
+        setVanityKeypair(null);
+        setVanityPanelKey((k) => k + 1);
+
+        const mintAddress = summary.mint;
         setTokenMintAddress(mintAddress);
 
+        // The token exists now, so its draft is no longer needed
+        discardDraft();
+
         // Payment is already verified through session validation
         // No need for additional verification as session-based validation is used
 
@@ -402,6 +396,10 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
           createdAt: Date.now(),
           creatorWallet: publicKey.toBase58(),
           links: {},
+          tokenProgram: token.tokenProgram,
+          allocations: summary.allocations,
+          metadataUri: tokenUri,
+          storageProvider: metadataResponse.data.provider,
           tokenType: "pro", // Pro token creation
           paymentTxSig: paymentSession?.txSignature,
           // Pro features
@@ -425,6 +423,24 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
         // Clear payment session after successful token creation
         clearPaymentSession();
 
+        // Mint the allocation table (one wallet approval per batch) once the token is recorded,
+        // so a rejected or failed batch can't lose track of the created mint
+        if (followUps.length > 0) {
+          try {
+            await sendFollowUpTxs(connection, sendTransaction, followUps);
+          } catch (error: any) {
+            console.error("Allocation transfers failed:", error);
+            // Skip the redirect so the error stays on screen
+            notify({
+              type: "error",
+              message: "Token created, but not every allocation was sent",
+              description: `${error?.message} (mint ${mintAddress})`,
+              txid: signature,
+            });
+            return;
+          }
+        }
+
         notify({
           type: "success",
           message: "Pro token was created successfully with all advanced features!",
@@ -435,6 +451,15 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
         window.location.href = `/token/${mintAddress}`;
       } catch (error: any) {
         console.error("Token creation error:", error);
+
+        // Metadata rejected by /api/ipfs/upload: show the offending fields
+        const fieldErrors = metadataFieldErrorsFrom(error);
+        if (fieldErrors) {
+          setMetadataErrors(fieldErrors);
+          notify({ type: "error", message: "Token metadata is invalid", description: error?.response?.data?.message });
+          return;
+        }
+
         notify({
           type: "error",
           message: normalizeError(error).message,
@@ -443,7 +468,7 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
         setIsLoading(false);
       }
     },
-    [connection, publicKey, sendTransaction, networkConfiguration, router]
+    [connection, publicKey, sendTransaction, networkConfiguration, router, vanityKeypair, discardDraft]
   );
 
   const handleSubmit = (e) => {
@@ -456,8 +481,17 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
         <div className="text-center">
-          <ClipLoader size={40} color="currentColor" />
-          <p className="text-muted mt-4">Verifying payment...</p>
+          {resumingDraft && !publicKey ? (
+            <>
+              <p className="text-muted mb-4">Connect your wallet to resume your draft</p>
+              <WalletMultiButton />
+            </>
+          ) : (
+            <>
+              <ClipLoader size={40} color="currentColor" />
+              <p className="text-muted mt-4">Verifying payment...</p>
+            </>
+          )}
         </div>
       </div>
     );
@@ -721,6 +755,27 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
                   </div>
                 </div>
 
+                {/* Token Program */}
+                <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-6 border border-muted/20">
+                  <TokenProgramSelector
+                    value={token}
+                    onChange={handleTokenProgramChange}
+                    className="!mt-0"
+                  />
+                </div>
+
+                {/* Initial Allocation */}
+                <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-6 border border-muted/20">
+                  <AllocationTable
+                    value={token.allocations}
+                    onChange={handleAllocationsChange}
+                    supply={token.amount}
+                    decimals={token.decimals}
+                    creatorWallet={publicKey?.toBase58()}
+                    className="!mt-0"
+                  />
+                </div>
+
                 {/* Pro Features */}
                 <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-6 border border-primary/30">
                   <div className="flex items-center space-x-3 mb-4">
@@ -784,11 +839,21 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
                         <div className="w-11 h-6 bg-muted/20 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
                       </label>
                     </div>
+
+                    {hasFeature("pro", "vanityMint") && (
+                      <VanityMintPanel
+                        key={vanityPanelKey}
+                        symbol={token.symbol}
+                        onKeypairChange={setVanityKeypair}
+                        disabled={isLoading}
+                      />
+                    )}
                   </div>
                 </div>
 
                 {/* Create Token Button */}
                 <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-6 border border-muted/10">
+                  <MetadataFieldErrors errors={metadataErrors} className="mb-4" />
                   <button
                     type="submit"
                     disabled={isLoading || !publicKey}
@@ -806,6 +871,7 @@ export const ProTokenCreationPage: FC<ProTokenCreationPageProps> = () => {
                   <p className="text-center text-sm text-muted mt-3">
                     Payment verified. Your Pro token will be created with all advanced features.
                   </p>
+                  <DraftStatus status={saveStatus} />
                 </div>
               </form>
             </div>
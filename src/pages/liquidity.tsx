@@ -7,8 +7,14 @@ import { AiOutlineClose } from "react-icons/ai";
 import { Spinner } from "../components/ui/Spinner";
 import { ErrorDisplay } from "../components/ui/ErrorDisplay";
 import { FeeCallout, FeeCalloutCompact } from "../components/FeeCallout";
+import { TxCostPreview } from "../components/TxCostPreview";
+import { PriorityFeeSelector } from "../components/PriorityFeeSelector";
+import { RangeStrategySelector, RangeVisualizer } from "../components/RangeStrategySelector";
 import { DEV_ALLOW_MANUAL_RAY } from "../lib/env";
 
+// Shortened pool address for the success summary (Whirlpool, CLMM pool or LB pair)
+const shortPool = (addr?: string) => (addr ? `${addr.slice(0, 8)}...${addr.slice(-8)}` : "-");
+
 const LiquidityPage: FC = () => {
   const router = useRouter();
   const {
@@ -21,6 +27,12 @@ const LiquidityPage: FC = () => {
     showConfirmModal,
     commitResult,
     txPhase,
+    txPreview,
+    connection,
+    priority,
+    setPriority,
+    range,
+    setRange,
     isTxInFlight,
     updateForm,
     nextStep,
@@ -30,7 +42,14 @@ const LiquidityPage: FC = () => {
     setShowConfirmModal,
     resetWizard,
     goBackFromQuote,
-    setSelectedPool
+    setSelectedPool,
+    noPool,
+    feeTiers,
+    createPoolForm,
+    updateCreatePoolForm,
+    createPool,
+    isCreatingPool,
+    createdPool
   } = useLiquidityWizard();
 
   // Manual pool entry state for devnet
@@ -159,6 +178,29 @@ const LiquidityPage: FC = () => {
             />
             <span className="text-fg font-medium">Orca</span>
           </label>
+          <label className={`flex items-center space-x-3 p-3 rounded-lg transition-all duration-200 ${
+            isLoading 
+              ? "opacity-50 cursor-not-allowed" 
+              : "cursor-pointer"
+          } ${
+            form.dex === "Meteora" 
+              ? "bg-accent/5 border border-accent/20" 
+              : "hover:bg-muted/20"
+          }`}>
+            <input
+              type="radio"
+              name="dex"
+              value="Meteora"
+              checked={form.dex === "Meteora"}
+              onChange={(e) => updateForm("dex", e.target.value)}
+              disabled={isLoading}
+              className="text-primary focus:ring-primary w-5 h-5 border-2 border-primary/30 checked:bg-primary checked:border-primary transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <span className="text-fg font-medium">
+              Meteora
+              <span className="text-xs text-muted ml-2">(DLMM)</span>
+            </span>
+          </label>
         </div>
       </div>
 
@@ -256,27 +298,32 @@ const LiquidityPage: FC = () => {
     </div>
   );
 
+  // Token-only (single-sided) deposits skip the SOL / USDC amount; Meteora always takes both sides
+  const tokenOnly = form.dex !== "Meteora" && !!range.tokenOnly;
+
   const renderStep3 = () => (
     <div className="space-y-6">
       <div>
         <h3 className="text-xl font-bold mb-4">Step 3: Amounts</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-muted mb-2 font-semibold">
-              {form.pair === "SOL/TOKEN" ? "SOL Amount" : "USDC Amount"}
-            </label>
-            <input
-              type="number"
-              value={form.baseAmount}
-              onChange={(e) => updateForm("baseAmount", e.target.value)}
-              disabled={isLoading}
-              className="w-full p-3 rounded-lg border border-muted/10 bg-transparent text-fg focus:border-muted/25 focus:ring-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="0.0"
-              step="0.01"
-              min="0"
-              required
-            />
-          </div>
+          {!tokenOnly && (
+            <div>
+              <label className="block text-muted mb-2 font-semibold">
+                {form.pair === "SOL/TOKEN" ? "SOL Amount" : "USDC Amount"}
+              </label>
+              <input
+                type="number"
+                value={form.baseAmount}
+                onChange={(e) => updateForm("baseAmount", e.target.value)}
+                disabled={isLoading}
+                className="w-full p-3 rounded-lg border border-muted/10 bg-transparent text-fg focus:border-muted/25 focus:ring-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                placeholder="0.0"
+                step="0.01"
+                min="0"
+                required
+              />
+            </div>
+          )}
           <div>
             <label className="block text-muted mb-2 font-semibold">
               Token Amount
@@ -295,8 +342,8 @@ const LiquidityPage: FC = () => {
           </div>
         </div>
         
-        {/* Slippage input for Orca */}
-        {form.dex === "Orca" && (
+        {/* Slippage input for Orca / Meteora */}
+        {(form.dex === "Orca" || form.dex === "Meteora") && (
           <div className="mt-4">
             <label className="block text-muted mb-2 font-semibold">
               Slippage Tolerance
@@ -330,6 +377,18 @@ const LiquidityPage: FC = () => {
             )}
           </div>
         )}
+
+        {/* Tick range strategy for CLMM pools (Meteora uses bins around the active one) */}
+        {form.dex !== "Meteora" && (
+          <RangeStrategySelector
+            className="mt-4"
+            value={range}
+            onChange={setRange}
+            quoteSymbol={form.pair.split("/")[0]}
+            allowTokenOnly
+            disabled={isLoading}
+          />
+        )}
       </div>
 
       <div className="flex justify-between">
@@ -341,8 +400,8 @@ const LiquidityPage: FC = () => {
           Back
         </button>
         <button
-          onClick={getQuote}
-          disabled={!form.baseAmount || !form.quoteAmount || isLoading || (form.slippageBp && (form.slippageBp < 10 || form.slippageBp > 500))}
+          onClick={() => getQuote()}
+          disabled={(!form.baseAmount && !tokenOnly) || !form.quoteAmount || isLoading || (form.slippageBp && (form.slippageBp < 10 || form.slippageBp > 500))}
           className="btn btn-ghost py-2 px-6 disabled:opacity-50"
         >
           {isLoading ? (
@@ -365,6 +424,11 @@ const LiquidityPage: FC = () => {
         <p className="text-success text-sm font-medium">
           ✅ Quote from {form.dex} fetched.
         </p>
+        {createdPool && createdPool.pool === quote?.poolAddress && (
+          <p className="text-success/70 text-xs mt-1">
+            New pool {shortPool(createdPool.pool)} created. Add liquidity to open its first position.
+          </p>
+        )}
         {/* Show source information and DexScreener note */}
         {quote?.source && (
           <div className="mt-2 space-y-1">
@@ -395,15 +459,48 @@ const LiquidityPage: FC = () => {
             <span className="text-muted">LP Fee:</span>
             <span className="text-fg">{quote?.lpFeeBp} bps</span>
           </div>
-          <div className="flex justify-between">
-            <span className="text-muted">Expected LP Tokens:</span>
-            <span className="text-fg">{quote?.expectedLpTokens}</span>
-          </div>
+          {quote?.activeBinId !== undefined ? (
+            <div className="flex justify-between">
+              <span className="text-muted">Bin Range:</span>
+              <span className="text-fg">{quote.minBinId} to {quote.maxBinId} (active {quote.activeBinId})</span>
+            </div>
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-muted">Expected LP Tokens:</span>
+              <span className="text-fg">{quote?.expectedLpTokens}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-muted">Min Output:</span>
             <span className="text-fg">{quote?.minOut}</span>
           </div>
+          {quote?.tickLower !== undefined && quote?.tickUpper !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-muted">Tick Range:</span>
+              <span className="text-fg">
+                {quote.tickLower} to {quote.tickUpper}
+                {quote.currentTick !== undefined && ` (current ${quote.currentTick})`}
+              </span>
+            </div>
+          )}
+          {quote?.deposit && quote.deposit !== "both" && (
+            <div className="flex justify-between">
+              <span className="text-muted">Deposit:</span>
+              <span className="text-fg">
+                {range.strategy === "above" || range.tokenOnly ? "Token only" : `${form.pair.split("/")[0]} only`} (range outside the current price)
+              </span>
+            </div>
+          )}
         </div>
+        {quote?.priceLower !== undefined && quote?.priceUpper !== undefined && quote?.priceCurrent !== undefined && (
+          <RangeVisualizer
+            className="mt-4"
+            priceLower={quote.priceLower}
+            priceUpper={quote.priceUpper}
+            priceCurrent={quote.priceCurrent}
+            quoteSymbol={form.pair.split("/")[0]}
+          />
+        )}
       </div>
 
       {/* Canary status message */}
@@ -425,6 +522,12 @@ const LiquidityPage: FC = () => {
       {/* Fee Information */}
       <FeeCallout />
 
+      {/* Priority fee level for the commit transaction */}
+      <PriorityFeeSelector connection={connection} value={priority} onChange={setPriority} />
+
+      {/* Simulated cost of the commit transaction (shown while the wallet prompt is open) */}
+      <TxCostPreview preview={txPreview} />
+
       <div className="flex justify-between">
         <button
           onClick={goBackFromQuote}
@@ -459,6 +562,8 @@ const LiquidityPage: FC = () => {
           <p className="text-muted">
             {form.dex === "Raydium" 
               ? "Your liquidity has been added to the Raydium pool."
+              : form.dex === "Meteora"
+              ? "Your Meteora DLMM position has been opened."
               : "Your Orca transaction has been built and is ready for signing."
             }
           </p>
@@ -484,13 +589,22 @@ const LiquidityPage: FC = () => {
           </div>
         )}
         
+        {form.dex === "Meteora" && commitResult?.summary?.position && (
+          <div className="text-center">
+            <p className="text-muted text-sm mb-2">Position Account</p>
+            <p className="text-xs text-muted font-mono bg-muted/20 p-2 rounded">
+              {commitResult.summary.position}
+            </p>
+          </div>
+        )}
+        
         {commitResult?.summary && (
           <div className="text-left space-y-3">
             <p className="text-muted text-sm font-medium">Transaction Summary:</p>
             <div className="text-xs space-y-2">
               <div className="flex justify-between">
-                <span className="text-muted">Whirlpool:</span>
-                <span className="text-fg font-mono">{commitResult.summary.whirlpool.slice(0, 8)}...{commitResult.summary.whirlpool.slice(-8)}</span>
+                <span className="text-muted">{form.dex === "Meteora" ? "LB Pair:" : "Whirlpool:"}</span>
+                <span className="text-fg font-mono">{shortPool(commitResult.summary.whirlpool || commitResult.summary.clmmPoolId || commitResult.summary.lbPair)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted">Input Token:</span>
@@ -547,6 +661,16 @@ const LiquidityPage: FC = () => {
             View on Orca
           </a>
         )}
+        {form.dex === "Meteora" && (
+          <a
+            href={`https://app.meteora.ag/dlmm/${commitResult?.summary?.lbPair || ""}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-accent hover:bg-accent/80 text-bg font-bold py-2 px-6 rounded-lg transition-all duration-300 inline-block"
+          >
+            View on Meteora
+          </a>
+        )}
         {form.dex === "Raydium" && (
           <a
             href="#"
@@ -680,7 +804,7 @@ const LiquidityPage: FC = () => {
                           if (manualPool) {
                             // Set the selected pool and retry quote
                             setSelectedPool(manualPool);
-                            getQuote();
+                            getQuote({ selectedPool: manualPool });
                           }
                         }} 
                         disabled={!manualPool}
@@ -690,6 +814,70 @@ const LiquidityPage: FC = () => {
                     </div>
                   </details>
                 )}
+
+                {/* Create the first pool for a fresh token, then open a position in it */}
+                {noPool && (
+                  <div className="mt-4 bg-bg/40 border border-muted/10 rounded-lg p-4 space-y-4">
+                    <div>
+                      <h4 className="font-semibold">Create a {form.dex} pool</h4>
+                      <p className="text-xs text-muted mt-1">
+                        No {form.pair.replace("TOKEN", "token")} pool exists yet. Create one, then add your liquidity as its first position.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Fee tier</label>
+                      <div className="flex flex-wrap gap-2">
+                        {feeTiers.map((tier) => (
+                          <button
+                            key={tier.tickSpacing}
+                            onClick={() => updateCreatePoolForm("tickSpacing", tier.tickSpacing)}
+                            className={`px-3 py-2 rounded-lg border text-sm ${
+                              createPoolForm.tickSpacing === tier.tickSpacing
+                                ? "border-primary text-primary"
+                                : "border-muted/10 text-muted hover:text-fg"
+                            }`}
+                          >
+                            {(tier.feeBp / 100).toFixed(2)}%
+                            <span className="block text-xs opacity-70">spacing {tier.tickSpacing}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Initial price ({form.pair.split("/")[0]} per token)
+                      </label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={createPoolForm.initialPrice}
+                        onChange={(e) => updateCreatePoolForm("initialPrice", e.target.value.trim())}
+                        className="w-full p-3 rounded-lg border border-muted/10 bg-transparent text-fg focus:border-muted/25 focus:ring-transparent"
+                        placeholder="0.001"
+                      />
+                      <p className="text-xs text-muted mt-1">
+                        Prefilled from your amounts. Traders arbitrage against this price, so set it carefully.
+                      </p>
+                    </div>
+
+                    <button
+                      className="btn btn-ghost w-full py-2 disabled:opacity-50"
+                      onClick={createPool}
+                      disabled={isCreatingPool || !createPoolForm.tickSpacing || !(Number(createPoolForm.initialPrice) > 0)}
+                    >
+                      {isCreatingPool ? (
+                        <>
+                          <Spinner className="mr-2" />
+                          <span>Creating pool…</span>
+                        </>
+                      ) : (
+                        "Create pool"
+                      )}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
             
@@ -748,18 +936,25 @@ const LiquidityPage: FC = () => {
                     <span className="text-muted">Pair:</span>
                     <span className="text-fg">{form.pair}</span>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted">Base Amount:</span>
-                    <span className="text-fg">{form.baseAmount}</span>
-                  </div>
+                  {tokenOnly ? (
+                    <div className="flex justify-between">
+                      <span className="text-muted">Deposit:</span>
+                      <span className="text-fg">Token only (no {form.pair.split("/")[0]})</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span className="text-muted">Base Amount:</span>
+                      <span className="text-fg">{form.baseAmount}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-muted">Quote Amount:</span>
                     <span className="text-fg">{form.quoteAmount}</span>
                   </div>
-                  {form.dex === "Orca" && (
+                  {(form.dex === "Orca" || form.dex === "Meteora") && (
                     <div className="flex justify-between">
                       <span className="text-muted">Slippage:</span>
-                      <span className="text-fg">1.0% (default)</span>
+                      <span className="text-fg">{((form.slippageBp || 100) / 100).toFixed(1)}%</span>
                     </div>
                   )}
                 </div>
@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { useWallet } from "@solana/wallet-adapter-react";
+import { MyDrafts } from "../components/MyDrafts";
+import { useHonestStream } from "../hooks/useHonestStream";
 
 // Type definition for created token items
 type Item = { 
@@ -80,6 +82,12 @@ export default function MyTokensPage() {
     })();
   }, [publicKey?.toBase58()]);
 
+  // Live updates when a token's mint or freeze authority changes on-chain
+  useHonestStream(
+    (items || []).map((i) => i.mint),
+    ({ status }) => setStatuses((prev) => ({ ...prev, [status.mint]: status }))
+  );
+
   return (
     <main className="section">
       <div className="container">
@@ -98,6 +106,9 @@ export default function MyTokensPage() {
           </div>
         )}
 
+        {/* Unfinished creation drafts */}
+        {connected && publicKey && <MyDrafts wallet={publicKey.toBase58()} />}
+
         {/* Loading state */}
         {connected && loading && (
           <div className="card p-6 mt-6">
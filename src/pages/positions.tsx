@@ -6,6 +6,8 @@ import { Spinner } from "../components/ui/Spinner";
 import { sendWithRetry } from "../lib/clientSend";
 import { toastError, toastOk } from "../components/toast";
 import { normalizeError } from "../lib/errors";
+import { DEFAULT_PRIORITY_FEE, PriorityFeeChoice } from "../lib/priorityFees";
+import { PriorityFeeSelector } from "../components/PriorityFeeSelector";
 import dynamic from "next/dynamic";
 
 // Dynamically import WsolDustBanner to avoid SSR issues
@@ -37,9 +39,55 @@ interface RaydiumPosition {
   usd?: number;
 }
 
+interface MeteoraPosition {
+  source: "meteora";
+  kind: "DLMM";
+  lbPair: string;
+  position: string; // Position account
+  tokenA: string;   // Pool token X
+  tokenB: string;   // Pool token Y
+  decA: number;
+  decB: number;
+  lowerBinId: number;
+  upperBinId: number;
+  amountA: string;  // Base units
+  amountB: string;
+  feeA: string;
+  feeB: string;
+}
+
+// Position references for the DEX-agnostic /api/positions/* actions
+const orcaRef = (p: OrcaPosition) => ({
+  pool: p.whirlpool,
+  position: p.positionMint,
+  tokenA: p.tokenA,
+  tokenB: p.tokenB,
+  tickLower: p.lowerTick,
+  tickUpper: p.upperTick,
+});
+
+const raydiumRef = (p: RaydiumPosition) => ({
+  pool: p.poolId,
+  position: p.poolId, // For MVP, using poolId as position NFT
+  tokenA: p.tokenA,
+  tokenB: p.tokenB,
+  tickLower: p.tickLower,
+  tickUpper: p.tickUpper,
+});
+
+const meteoraRef = (p: MeteoraPosition) => ({
+  pool: p.lbPair,
+  position: p.position,
+  tokenA: p.tokenA,
+  tokenB: p.tokenB,
+  tickLower: p.lowerBinId,
+  tickUpper: p.upperBinId,
+});
+
 interface PositionsData {
   orcaPositions: OrcaPosition[];
   raydiumPositions: RaydiumPosition[];
+  meteoraPositions?: MeteoraPosition[];
   timestamp: number;
 }
 
@@ -63,6 +111,9 @@ const PositionsPage: FC = () => {
     process.env.NEXT_PUBLIC_RPC_ENDPOINT || "https://api.mainnet-beta.solana.com"
   ));
 
+  // Priority fee level applied to increase / decrease / collect transactions
+  const [priority, setPriority] = useState<PriorityFeeChoice>(DEFAULT_PRIORITY_FEE);
+
   // Check for wallet connection on mount and handle filter parameter
   useEffect(() => {
     if (typeof window !== 'undefined' && window.solana?.isPhantom) {
@@ -189,9 +240,11 @@ const PositionsPage: FC = () => {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
-          ...position,
+          dex: "orca",
+          walletPubkey: walletAddress,
+          position: orcaRef(position),
           ...params,
-          walletPubkey: walletAddress
+          priority
         })
       });
       
@@ -270,9 +323,11 @@ const PositionsPage: FC = () => {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
-          ...position,
+          dex: "orca",
+          walletPubkey: walletAddress,
+          position: orcaRef(position),
           ...params,
-          walletPubkey: walletAddress
+          priority
         })
       });
       
@@ -350,8 +405,10 @@ const PositionsPage: FC = () => {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
-          ...position,
-          walletPubkey: walletAddress
+          dex: "orca",
+          walletPubkey: walletAddress,
+          position: orcaRef(position),
+          priority
         })
       });
       
@@ -429,21 +486,22 @@ const PositionsPage: FC = () => {
         return;
       }
 
-      // Call the Raydium increase API
-      const r = await fetch("/api/raydium/increase", {
+      // Side A / B of the position holding the chosen input
+      const usdcIsA = getRaydiumUsdcToken(position) === "USDC";
+      const inputMint = (params.inputMint === "USDC") === usdcIsA ? "A" : "B";
+
+      // Call the increase API
+      const r = await fetch("/api/positions/increase", {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
+          dex: "raydium",
           walletPubkey: walletAddress,
-          clmmPoolId: position.poolId,
-          positionNftMint: position.poolId, // For MVP, using poolId as position NFT
-          tokenAMint: position.tokenA,
-          tokenBMint: position.tokenB,
-          inputMint: params.inputMint,
+          position: raydiumRef(position),
+          inputMint,
           amountUi: params.amountUi,
           slippageBp: params.slippageBp || 100,
-          tickLower: position.tickLower,
-          tickUpper: position.tickUpper
+          priority
         })
       });
       
@@ -520,20 +578,17 @@ const PositionsPage: FC = () => {
         return;
       }
 
-      // Call the Raydium decrease API
-      const r = await fetch("/api/raydium/decrease", {
+      // Call the decrease API
+      const r = await fetch("/api/positions/decrease", {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
+          dex: "raydium",
           walletPubkey: walletAddress,
-          clmmPoolId: position.poolId,
-          positionNftMint: position.poolId, // For MVP, using poolId as position NFT
-          tokenAMint: position.tokenA,
-          tokenBMint: position.tokenB,
+          position: raydiumRef(position),
           percent: params.percent,
           slippageBp: params.slippageBp || 100,
-          tickLower: position.tickLower,
-          tickUpper: position.tickUpper
+          priority
         })
       });
       
@@ -603,16 +658,15 @@ const PositionsPage: FC = () => {
     setActionSuccess(null);
 
     try {
-      // Call the Raydium collect API
-      const r = await fetch("/api/raydium/collect", {
+      // Call the collect API
+      const r = await fetch("/api/positions/collect", {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
+          dex: "raydium",
           walletPubkey: walletAddress,
-          clmmPoolId: position.poolId,
-          positionNftMint: position.poolId, // For MVP, using poolId as position NFT
-          tokenAMint: position.tokenA,
-          tokenBMint: position.tokenB
+          position: raydiumRef(position),
+          priority
         })
       });
       
@@ -672,6 +726,176 @@ const PositionsPage: FC = () => {
     }
   };
 
+  // Meteora DLMM action handlers
+  const notifyMeteora = async (sig: string, position: MeteoraPosition, action: string) => {
+    try {
+      await fetch("/api/tx/notify", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          txSig: sig,
+          wallet: walletAddress,
+          mint: position.tokenA,
+          dex: "meteora",
+          context: {
+            poolId: position.lbPair,
+            positionMint: position.position, // Position account stands in for the NFT
+            tickLower: position.lowerBinId,
+            tickUpper: position.upperBinId,
+            tokenA: position.tokenA,
+            tokenB: position.tokenB,
+            decA: position.decA,
+            decB: position.decB,
+            lastLiquidity: `${position.amountA}/${position.amountB}`,
+            action
+          }
+        })
+      });
+    } catch (error) {
+      console.warn("Failed to notify transaction:", error);
+    }
+  };
+
+  const onMeteoraIncrease = async (position: MeteoraPosition, params: { amountUi: number; inputMint: "A" | "B"; slippageBp?: number }) => {
+    if (!walletAddress || !window.solana?.isPhantom) return;
+    
+    setIsActionLoading(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const r = await fetch("/api/positions/increase", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          dex: "meteora",
+          walletPubkey: walletAddress,
+          position: meteoraRef(position),
+          inputMint: params.inputMint,
+          amountUi: params.amountUi,
+          slippageBp: params.slippageBp || 100,
+          priority
+        })
+      });
+      
+      const j = await r.json();
+      if (!r.ok) {
+        handleApiError(j, "Failed to build Meteora increase transaction");
+        return;
+      }
+      
+      const sig = await sendWithRetry(
+        () => Promise.resolve({ txBase64: j.txBase64 }),
+        window.solana,
+        connection
+      );
+      await notifyMeteora(sig, position, "increase");
+      
+      showToast("Meteora liquidity increased ✓", { 
+        label: "View", 
+        onClick: () => window.open(`https://solscan.io/tx/${sig}`)
+      });
+      fetchPositions();
+      
+    } catch (error) {
+      toastError(normalizeError(error).message);
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const onMeteoraDecrease = async (position: MeteoraPosition, params: { percent: number }) => {
+    if (!walletAddress || !window.solana?.isPhantom) return;
+    
+    setIsActionLoading(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const r = await fetch("/api/positions/decrease", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          dex: "meteora",
+          walletPubkey: walletAddress,
+          position: meteoraRef(position),
+          percent: params.percent,
+          priority
+        })
+      });
+      
+      const j = await r.json();
+      if (!r.ok) {
+        handleApiError(j, "Failed to build Meteora decrease transaction");
+        return;
+      }
+      
+      const sig = await sendWithRetry(
+        () => Promise.resolve({ txBase64: j.txBase64 }),
+        window.solana,
+        connection
+      );
+      await notifyMeteora(sig, position, params.percent >= 100 ? "close" : "decrease");
+      
+      const action = params.percent >= 100 ? "Closed" : "Decreased";
+      showToast(`Meteora position ${action.toLowerCase()} ✓`, { 
+        label: "View", 
+        onClick: () => window.open(`https://solscan.io/tx/${sig}`)
+      });
+      fetchPositions();
+      
+    } catch (error) {
+      toastError(normalizeError(error).message);
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const onMeteoraCollect = async (position: MeteoraPosition) => {
+    if (!walletAddress || !window.solana?.isPhantom) return;
+    
+    setIsActionLoading(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const r = await fetch("/api/positions/collect", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          dex: "meteora",
+          walletPubkey: walletAddress,
+          position: meteoraRef(position),
+          priority
+        })
+      });
+      
+      const j = await r.json();
+      if (!r.ok) {
+        handleApiError(j, "Failed to build Meteora collect transaction");
+        return;
+      }
+      
+      const sig = await sendWithRetry(
+        () => Promise.resolve({ txBase64: j.txBase64 }),
+        window.solana,
+        connection
+      );
+      await notifyMeteora(sig, position, "collect");
+      
+      showToast("Meteora fees collected ✓", { 
+        label: "View", 
+        onClick: () => window.open(`https://solscan.io/tx/${sig}`)
+      });
+      fetchPositions();
+      
+    } catch (error) {
+      toastError(normalizeError(error).message);
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
   // Modal state
   const [showIncreaseModal, setShowIncreaseModal] = useState(false);
   const [showDecreaseModal, setShowDecreaseModal] = useState(false);
@@ -1129,6 +1353,174 @@ const PositionsPage: FC = () => {
     );
   };
 
+  const renderMeteoraPositions = () => {
+    if (!positions?.meteoraPositions?.length) return null;
+
+    // Filter positions if filterMint is set
+    let filteredPositions = positions.meteoraPositions;
+    if (filterMint) {
+      filteredPositions = positions.meteoraPositions.filter(position => 
+        position.tokenA === filterMint || position.tokenB === filterMint
+      );
+    }
+
+    if (filteredPositions.length === 0) {
+      return (
+        <div className="text-center space-y-4">
+          <div className="w-16 h-16 bg-muted/20 rounded-full flex items-center justify-center mx-auto">
+            <svg className="w-8 h-8 text-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-muted">No Matching Meteora Positions</h3>
+            <p className="text-sm text-muted">
+              {filterMint ? `No Meteora positions found for the filtered token.` : "No Meteora positions found."}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    // Base units -> UI amount for display
+    const ui = (amount: string, decimals: number) => formatLiquidity(String(Number(amount) / 10 ** decimals));
+
+    return (
+      <div className="space-y-4">
+        <h3 className="text-xl font-bold text-accent">
+          Meteora Positions
+          {filterMint && (
+            <span className="text-sm font-normal text-muted ml-2">
+              (Filtered: {filteredPositions.length} of {positions.meteoraPositions.length})
+            </span>
+          )}
+        </h3>
+        <div className="grid gap-4">
+          {filteredPositions.map((position) => (
+            <div key={position.position} className="card bg-bg/40 backdrop-blur-2xl rounded-xl p-6 border border-muted/10">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold text-fg">
+                      {`${getTokenSymbol(position.tokenA)} / ${getTokenSymbol(position.tokenB)}`}
+                    </h4>
+                    <span className="px-2 py-1 rounded-full text-xs font-bold bg-purple-500/20 text-purple-400">
+                      {position.kind}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted font-mono">{position.position.slice(0, 8)}...{position.position.slice(-8)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-muted">Deposited</p>
+                  <p className="font-semibold text-fg">
+                    {ui(position.amountA, position.decA)} {getTokenSymbol(position.tokenA)}
+                  </p>
+                  <p className="font-semibold text-fg">
+                    {ui(position.amountB, position.decB)} {getTokenSymbol(position.tokenB)}
+                  </p>
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
+                <div>
+                  <p className="text-muted">Bin Range</p>
+                  <p className="text-fg font-mono">{position.lowerBinId} → {position.upperBinId}</p>
+                </div>
+                <div>
+                  <p className="text-muted">Unclaimed Fees</p>
+                  <p className="text-fg">
+                    {ui(position.feeA, position.decA)} / {ui(position.feeB, position.decB)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted">LB Pair</p>
+                  <p className="text-fg font-mono text-xs">{position.lbPair.slice(0, 8)}...{position.lbPair.slice(-8)}</p>
+                </div>
+              </div>
+              
+              <div className="flex space-x-3">
+                <a
+                  href={`https://solscan.io/account/${position.position}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-primary hover:bg-primary/80 text-bg font-bold py-2 px-4 rounded-lg transition-all duration-300 text-sm"
+                >
+                  View Position
+                </a>
+                <a
+                  href={`https://app.meteora.ag/dlmm/${position.lbPair}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="bg-accent hover:bg-accent/80 text-bg font-bold py-2 px-4 rounded-lg transition-all duration-300 text-sm"
+                >
+                  View on Meteora
+                </a>
+              </div>
+              
+              <div className="mt-4 pt-4 border-t border-muted/20">
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => onMeteoraIncrease(position, { inputMint: "B", amountUi: 0.1, slippageBp: 100 })}
+                    disabled={isActionLoading}
+                    className={`font-bold py-2 px-3 rounded-lg transition-all duration-300 text-xs ${
+                      isActionLoading 
+                        ? "bg-muted/50 text-muted cursor-not-allowed" 
+                        : "bg-success hover:bg-success/80 text-bg"
+                    }`}
+                    title={`Add 0.1 ${getTokenSymbol(position.tokenB)} across the position's bins`}
+                  >
+                    {isActionLoading ? "Loading..." : `+0.1 ${getTokenSymbol(position.tokenB)}`}
+                  </button>
+                  <button
+                    onClick={() => onMeteoraDecrease(position, { percent: 50 })}
+                    disabled={isActionLoading}
+                    className={`font-bold py-2 px-3 rounded-lg transition-all duration-300 text-xs ${
+                      isActionLoading 
+                        ? "bg-muted/50 text-muted cursor-not-allowed" 
+                        : "bg-warning hover:bg-warning/80 text-bg"
+                    }`}
+                    title="Remove 50% of liquidity"
+                  >
+                    {isActionLoading ? "Loading..." : "-50%"}
+                  </button>
+                  <button
+                    onClick={() => onMeteoraDecrease(position, { percent: 100 })}
+                    disabled={isActionLoading}
+                    className={`font-bold py-2 px-3 rounded-lg transition-all duration-300 text-xs ${
+                      isActionLoading 
+                        ? "bg-muted/50 text-muted cursor-not-allowed" 
+                        : "bg-error hover:bg-error/80 text-bg"
+                    }`}
+                    title="Withdraw everything, claim fees and close the position account"
+                  >
+                    {isActionLoading ? "Loading..." : "Close"}
+                  </button>
+                  <button
+                    onClick={() => onMeteoraCollect(position)}
+                    disabled={isActionLoading}
+                    className={`font-bold py-2 px-3 rounded-lg transition-all duration-300 text-xs ${
+                      isActionLoading 
+                        ? "bg-muted/50 text-muted cursor-not-allowed" 
+                        : "bg-info hover:bg-info/80 text-bg"
+                    }`}
+                    title="Collect accumulated trading fees and rewards"
+                  >
+                    {isActionLoading ? "Loading..." : "Collect Fees"}
+                  </button>
+                </div>
+                <div className="mt-2 text-xs text-muted">
+                  <p>• Increase: Add 0.1 {getTokenSymbol(position.tokenB)} over the existing bin range</p>
+                  <p>• Decrease / Close: Remove 50% / all liquidity (close also reclaims the account rent)</p>
+                  <p>• Collect: Realize trading fees and farm rewards</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderPositions = () => {
     if (isLoading) {
       return (
@@ -1158,7 +1550,7 @@ const PositionsPage: FC = () => {
       );
     }
 
-    if (!positions || (!positions.orcaPositions.length && !positions.raydiumPositions?.length)) {
+    if (!positions || (!positions.orcaPositions.length && !positions.raydiumPositions?.length && !positions.meteoraPositions?.length)) {
       return renderEmptyState();
     }
 
@@ -1166,6 +1558,7 @@ const PositionsPage: FC = () => {
       <div className="space-y-8">
         {renderOrcaPositions()}
         {renderRaydiumPositions()}
+        {renderMeteoraPositions()}
         
         <div className="text-center">
           <button
@@ -1190,7 +1583,7 @@ const PositionsPage: FC = () => {
           <div className="max-w-4xl mx-auto">
                          <div className="text-center mb-8">
                <h1 className="h1 mb-4">My Positions</h1>
-               <p className="text-muted">View your Orca Whirlpool and Raydium LP positions</p>
+               <p className="text-muted">View your Orca Whirlpool, Raydium and Meteora DLMM LP positions</p>
              </div>
 
                          {walletAddress && (
@@ -1204,6 +1597,10 @@ const PositionsPage: FC = () => {
              {/* WSOL Dust Banner */}
              <WsolDustBanner />
 
+             {walletAddress && (
+               <PriorityFeeSelector connection={connection} value={priority} onChange={setPriority} className="mb-6" />
+             )}
+
              {/* Filter Display */}
              {filterMint && (
                <div className="bg-info/20 border border-info/30 rounded-lg p-4 mb-6">
@@ -6,7 +6,9 @@ import { PresetBadge } from "../../components/PresetBadge";
 import HonestBadge from "../../components/HonestBadge";
 import HonestLaunchEnforcer from "../../components/HonestLaunchEnforcer";
 import TokenStats from "../../components/TokenStats";
+import DistributionBreakdown from "../../components/DistributionBreakdown";
 import AdvancedTools from "../../components/AdvancedTools";
+import { TrustReportCard } from "../../components/TrustReportCard";
 import { AiOutlineCopy, AiOutlineLink, AiOutlineReload } from "react-icons/ai";
 import { FaTelegram, FaTwitter } from "react-icons/fa";
 import {
@@ -52,6 +54,9 @@ const TokenSharePage: FC = () => {
   // AMM LP detection state
   const [ammLpMint, setAmmLpMint] = useState<string | null>(null);
 
+  // Bumped after a re-check so the trust report skips the server cache
+  const [trustRefresh, setTrustRefresh] = useState(0);
+
   // Check for wallet connection on mount
   useEffect(() => {
     if (typeof window !== "undefined" && window.solana?.isPhantom) {
@@ -309,6 +314,7 @@ const TokenSharePage: FC = () => {
       // Trigger a local refresh by re-fetching the creator wallet
       // This will cause the HonestBadge to re-render with fresh data
       await fetchCreatorWallet();
+      setTrustRefresh((n) => n + 1);
     } catch (error) {
       console.error("Failed to bust cache:", error);
     }
@@ -520,6 +526,9 @@ const TokenSharePage: FC = () => {
                   />
                 </div>
 
+                {/* Initial Distribution (only for tokens created with an allocation table) */}
+                <DistributionBreakdown mint={token.mintAddress} />
+
                 {/* LP Status Section - Compact design */}
                 <div className="bg-bg/40 backdrop-blur-2xl rounded-2xl p-4 border border-muted/10">
                   <div className="flex items-center justify-between mb-4">
@@ -605,6 +614,9 @@ const TokenSharePage: FC = () => {
                     </div>
                   </div>
 
+                  {/* Trust report - scored checks beyond the honest status */}
+                  <TrustReportCard mint={token.mintAddress} refreshKey={trustRefresh} className="mb-2" />
+
                   {/* LP Metrics Grid - 4 columns on desktop, 2 on mobile */}
                   <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
                     {/* LP Size */}
@@ -1156,8 +1168,10 @@ const TokenSharePage: FC = () => {
                 ).catch(() => {});
                 // Trigger local refresh of badge by re-fetching creator wallet
                 await fetchCreatorWallet();
+                setTrustRefresh((n) => n + 1);
               }}
               onEnforce={handleEnforce}
+              onMetadataUpdated={fetchTokenData}
             />
           </div>
         </div>
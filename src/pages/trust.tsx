@@ -1,10 +1,14 @@
 "use client";
 
+import { useState } from "react";
 import DeleteWalletDataButton from "@/components/DeleteWalletDataButton";
+import { TrustReportCard } from "@/components/TrustReportCard";
 import { feeSummaryText } from "@/lib/feeCopy";
 
 export default function TrustPage() {
   const { flat, skimPct } = feeSummaryText();
+  const [mintInput, setMintInput] = useState("");
+  const [checkedMint, setCheckedMint] = useState<string | null>(null);
   return (
     <main className="section">
       <div className="container">
@@ -34,6 +38,34 @@ export default function TrustPage() {
           </ul>
         </section>
 
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold">Check a token</h2>
+          <p className="mt-2 text-sm text-neutral-300">
+            Any mint gets a scored trust report: mint & freeze authority,
+            metadata mutability, top-10 holder concentration, creator share of
+            supply, burned LP or creator-held positions, token age and risky
+            Token-2022 extensions (permanent delegate, transfer hook).
+          </p>
+          <form
+            className="mt-3 flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setCheckedMint(mintInput.trim() || null);
+            }}
+          >
+            <input
+              value={mintInput}
+              onChange={(e) => setMintInput(e.target.value)}
+              placeholder="Mint address"
+              className="flex-1 p-2 rounded-lg border border-muted/10 bg-transparent text-fg text-sm focus:border-muted/25 focus:ring-transparent"
+            />
+            <button type="submit" className="btn btn-primary">
+              Check
+            </button>
+          </form>
+          {checkedMint && <TrustReportCard key={checkedMint} mint={checkedMint} className="mt-3" />}
+        </section>
+
         <section className="mb-8">
           <h2 className="text-xl font-semibold">Fees</h2>
 
@@ -1,3 +1,6 @@
+import type { TokenAllocation } from "../lib/allocations";
+import type { StorageProviderName } from "../lib/storage";
+
 export interface StoredToken {
   mintAddress: string;
   name: string;
@@ -10,6 +13,10 @@ export interface StoredToken {
   vibe: "funny" | "serious" | "degen";
   createdAt: number;
   creatorWallet?: string; // Optional for backward compatibility
+  tokenProgram?: "spl-token" | "token-2022"; // Optional for backward compatibility (defaults to spl-token)
+  allocations?: TokenAllocation[]; // Initial distribution; absent = whole supply minted to the creator
+  metadataUri?: string; // Off-chain metadata JSON as set on-chain
+  storageProvider?: StorageProviderName; // Where metadataUri is stored
   links?: {
     tg?: string;
     x?: string;
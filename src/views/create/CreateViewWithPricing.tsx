@@ -1,35 +1,24 @@
 import React, { FC, useCallback, useState } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import {
-  Keypair,
-  PublicKey,
-  SystemProgram,
-  Transaction,
-} from "@solana/web3.js";
+import { Keypair, Transaction } from "@solana/web3.js";
 import { DEV_RELAX_CONFIRM_MS } from "../../lib/env";
-import {
-  MINT_SIZE,
-  TOKEN_PROGRAM_ID,
-  createInitializeMintInstruction,
-  getMinimumBalanceForRentExemptMint,
-  getAssociatedTokenAddress,
-  createMintToInstruction,
-  createAssociatedTokenAccountInstruction,
-} from "@solana/spl-token";
-import {
-  PROGRAM_ID,
-  createCreateMetadataAccountV3Instruction,
-} from "@metaplex-foundation/mpl-token-metadata";
 import axios from "axios";
 import { notify } from "../../utils/notifications";
 import { normalizeError } from "../../lib/errors";
 import { retryWithBackoff } from "../../lib/confirmRetry";
-import { withRpc } from "../../lib/rpc";
+import { describeTxPreview, previewOrThrow } from "../../lib/txPreview";
 import { ClipLoader } from "react-spinners";
 import { useNetworkConfiguration } from "contexts/NetworkConfigurationProvider";
 import { tokenStorage } from "../../utils/tokenStorage";
+import { requestCreateTokenTx, sendFollowUpTxs } from "../../lib/tokenCreateClient";
+import { parseSupply } from "../../lib/amounts";
+import { AllocationInput, resolveAllocations } from "../../lib/allocations";
 import { TokenCreationType, TOKEN_CREATION_TYPES, hasFeature } from "../../lib/tokenPricing";
 import { useTokenPayment } from "../../hooks/useTokenPayment";
+import { useTokenDraft } from "../../hooks/useTokenDraft";
+import { applyDraft, draftStepFor } from "../../lib/drafts";
+
+import { MetadataFieldErrors as FieldErrors, metadataFieldErrorsFrom } from "../../lib/metadataSchema";
 
 import { AiOutlineClose } from "react-icons/ai";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
@@ -37,15 +26,22 @@ import CreateSVG from "../../components/SVG/CreateSVG";
 import { Branding } from "../../components/Branding";
 import { PresetBadge } from "../../components/PresetBadge";
 import HonestLaunchEnforcer from "../../components/HonestLaunchEnforcer";
+import { TokenProgramSelector } from "../../components/TokenProgramSelector";
+import { AllocationTable } from "../../components/AllocationTable";
+import { VanityMintPanel } from "../../components/VanityMintPanel";
+import { MetadataFieldErrors } from "../../components/MetadataFieldErrors";
+import type { StorageProviderName } from "../../lib/storage";
 import { InputView } from "../index";
 import { TokenCreationTypeSelector } from "../../components/TokenCreationTypeSelector";
 import { TokenCreationPayment } from "../../components/TokenCreationPayment";
+import { DraftStatus } from "../../components/DraftStatus";
 
 interface CreateViewWithPricingProps {
   setOpenCreateModal: (value: boolean) => void;
+  draftId?: string | null; // Resume a draft saved from this modal
 }
 
-export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenCreateModal }) => {
+export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenCreateModal, draftId }) => {
   const { connection } = useConnection();
   const { publicKey, sendTransaction } = useWallet();
   const { networkConfiguration } = useNetworkConfiguration();
@@ -54,7 +50,10 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
   const [tokenUri, setTokenUri] = useState("");
   const [tokenMintAddress, setTokenMintAddress] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [metadataErrors, setMetadataErrors] = useState<FieldErrors>({});
   const [isOnChainVerified, setIsOnChainVerified] = useState(false);
+  const [vanityKeypair, setVanityKeypair] = useState<Keypair | null>(null);
+  const [vanityPanelKey, setVanityPanelKey] = useState(0); // Bumped to clear a used vanity keypair
   const [selectedTokenType, setSelectedTokenType] = useState<TokenCreationType>('free');
   const [paymentTxSig, setPaymentTxSig] = useState<string | null>(null);
   const [token, setToken] = useState({
@@ -66,12 +65,41 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
     description: "",
     preset: "honest" as "honest" | "degen",
     vibe: "degen" as "funny" | "serious" | "degen",
+    tokenProgram: "spl-token" as "spl-token" | "token-2022",
+    transferFeeBp: "",
+    transferFeeMax: "",
+    interestRateBp: "",
+    allocations: [] as AllocationInput[],
+  });
+
+  // Autosave the form, selected tier and any Pro payment; drafts reopen in this modal
+  const { saveStatus, discard: discardDraft } = useTokenDraft({
+    flow: "modal",
+    data: { ...token, tokenType: selectedTokenType },
+    step: draftStepFor(token, { needsPayment: selectedTokenType === "pro", paid: !!paymentTxSig }),
+    payment: paymentTxSig ? { txSig: paymentTxSig, amount: TOKEN_CREATION_TYPES.pro.price } : null,
+    resumeId: draftId,
+    onResume: (draft) => {
+      setToken((current) => applyDraft(current, draft.data));
+      const type = draft.data.tokenType || "free";
+      setSelectedTokenType(type);
+      // Only reuse a payment that hasn't already paid for a created token
+      setPaymentTxSig(type === "pro" && draft.paymentAvailable ? draft.paymentTxSig : null);
+    },
   });
 
   const handleFormFieldChange = (fieldName, e) => {
     setToken({ ...token, [fieldName]: e.target.value });
   };
 
+  const handleTokenProgramChange = (fieldName, value) => {
+    setToken({ ...token, [fieldName]: value });
+  };
+
+  const handleAllocationsChange = (rows: AllocationInput[]) => {
+    setToken({ ...token, allocations: rows });
+  };
+
   // Handle honest launch verification status changes
   const handleVerificationChange = (isVerified: boolean) => {
     setIsOnChainVerified(isVerified);
@@ -160,135 +188,75 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
         return;
       }
       
-      // Check if mint amount would overflow
-      const mintAmount = amount * Math.pow(10, decimals);
-      if (mintAmount > Number.MAX_SAFE_INTEGER) {
+      // Exact bigint check: supply must fit in a u64 with no extra decimal places
+      try {
+        parseSupply(token.amount, decimals);
+      } catch (e: any) {
         notify({
           type: "error",
-          message: "Token amount is too large. Please reduce the amount or decimals.",
+          message: e?.message || "Token amount is too large. Please reduce the amount or decimals.",
         });
         return;
       }
 
+      // Validate the allocation table before uploading anything
+      if (token.allocations.length > 0) {
+        try {
+          resolveAllocations(token.allocations, { amount: token.amount, decimals }, publicKey.toBase58());
+        } catch (e: any) {
+          notify({
+            type: "error",
+            message: e?.message || "Invalid allocation table",
+          });
+          return;
+        }
+      }
+
       setIsLoading(true);
       
-      // Use RPC fallback system with retry logic for maximum reliability
-      const lamports = await withRpc(async (rpcConnection) => {
-        return await retryWithBackoff(() => 
-          getMinimumBalanceForRentExemptMint(rpcConnection)
-        );
-      });
-      const mintKeypair = Keypair.generate();
-      const tokenATA = await getAssociatedTokenAddress(
-        mintKeypair.publicKey,
-        publicKey
-      );
-
       try {
         console.log("[createToken] Uploading metadata...");
-        const metadataUrl = await uploadMetadata(token);
+        const uploaded = await uploadMetadata(token);
+        if (!uploaded) {
+          setIsLoading(false);
+          return;
+        }
+        const metadataUrl = uploaded.uri;
         console.log("[createToken] Metadata uploaded to:", metadataUrl);
 
-        console.log("[createToken] Creating metadata instruction...");
-        const createMetadataInstruction =
-          createCreateMetadataAccountV3Instruction(
-            {
-              metadata: PublicKey.findProgramAddressSync(
-                [
-                  Buffer.from("metadata"),
-                  PROGRAM_ID.toBuffer(),
-                  mintKeypair.publicKey.toBuffer(),
-                ],
-                PROGRAM_ID
-              )[0],
-              mint: mintKeypair.publicKey,
-              mintAuthority: publicKey,
-              payer: publicKey,
-              updateAuthority: publicKey,
-            },
-            {
-              createMetadataAccountArgsV3: {
-                data: {
-                  name: token.name,
-                  symbol: token.symbol,
-                  uri: metadataUrl,
-                  creators: null,
-                  sellerFeeBasisPoints: 0,
-                  uses: null,
-                  collection: null,
-                },
-                isMutable: false,
-                collectionDetails: null,
-              },
-            }
-          );
-        console.log("[createToken] Metadata instruction created successfully");
-
-        // Debug transaction parameters
-        console.log("[createToken] Transaction parameters:");
-        console.log("- publicKey:", publicKey.toBase58());
-        console.log("- mintKeypair:", mintKeypair.publicKey.toBase58());
-        console.log("- tokenATA:", tokenATA.toBase58());
-        console.log("- decimals:", Number(token.decimals));
-        console.log("- amount:", Number(token.amount));
-        console.log("- mint amount:", Number(token.amount) * Math.pow(10, Number(token.decimals)));
-        console.log("- lamports:", lamports);
-        
-        // Create the transaction
-        const createNewTokenTransaction = new Transaction().add(
-          SystemProgram.createAccount({
-            fromPubkey: publicKey,
-            newAccountPubkey: mintKeypair.publicKey,
-            space: MINT_SIZE,
-            lamports: lamports,
-            programId: TOKEN_PROGRAM_ID,
-          }),
-          createInitializeMintInstruction(
-            mintKeypair.publicKey,
-            Number(token.decimals),
-            publicKey,
-            publicKey,
-            TOKEN_PROGRAM_ID
-          ),
-          createAssociatedTokenAccountInstruction(
-            publicKey,
-            tokenATA,
-            publicKey,
-            mintKeypair.publicKey
-          ),
-          createMintToInstruction(
-            mintKeypair.publicKey,
-            tokenATA,
-            publicKey,
-            Number(token.amount) * Math.pow(10, Number(token.decimals))
-          ),
-          createMetadataInstruction
-        );
+        // Build the creation transaction with the shared server-side builder
+        console.log("[createToken] Building transaction...");
+        const {
+          transaction: createNewTokenTransaction,
+          signers,
+          followUps,
+          summary,
+        } = await requestCreateTokenTx({
+          owner: publicKey.toBase58(),
+          name: token.name,
+          symbol: token.symbol,
+          uri: metadataUrl,
+          decimals: token.decimals,
+          amount: token.amount,
+          isMutable: false,
+          tokenProgram: token.tokenProgram,
+          transferFeeBp: token.transferFeeBp,
+          transferFeeMax: token.transferFeeMax,
+          interestRateBp: token.interestRateBp,
+          allocations: token.allocations.length ? token.allocations : undefined,
+        }, hasFeature(selectedTokenType, 'vanityMint') ? vanityKeypair : null);
+        console.log("[createToken] Transaction built for mint:", summary.mint);
 
         // Get recent blockhash
         const { blockhash } = await connection.getLatestBlockhash();
         createNewTokenTransaction.recentBlockhash = blockhash;
         createNewTokenTransaction.feePayer = publicKey;
         
-        // Create a copy for simulation (we'll partially sign this one)
-        const simulationTransaction = Transaction.from(createNewTokenTransaction.serialize({ requireAllSignatures: false }));
-        simulationTransaction.partialSign(mintKeypair);
-        
-        // Simulate the transaction first to catch issues
+        // Simulate and price before the wallet prompt; a failing simulation throws
         console.log("[createToken] Simulating transaction...");
-        try {
-          const simulation = await connection.simulateTransaction(simulationTransaction);
-          console.log("[createToken] Simulation result:", simulation);
-          
-          if (simulation.value.err) {
-            console.error("[createToken] Simulation failed:", simulation.value.err);
-            throw new Error(`Transaction simulation failed: ${JSON.stringify(simulation.value.err)}`);
-          }
-          
-          console.log("[createToken] Simulation successful, sending transaction...");
-        } catch (simError) {
-          console.error("[createToken] Simulation error:", simError);
-          throw new Error(`Transaction simulation failed: ${simError.message}`);
+        const preview = await previewOrThrow(connection, createNewTokenTransaction, { feePayer: publicKey });
+        if (preview) {
+          notify({ type: "info", message: "Estimated cost", description: describeTxPreview(preview) });
         }
 
         // Send the original (unsigned) transaction
@@ -296,7 +264,7 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
           createNewTokenTransaction,
           connection,
           {
-            signers: [mintKeypair],
+            signers,
           }
         );
 
@@ -324,9 +292,16 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
         });
         console.log("Transaction confirmed!");
 
-        const mintAddress = mintKeypair.publicKey.toString();
+        // The vanity address is taken now; never offer its keypair for another mint
+        setVanityKeypair(null);
+        setVanityPanelKey((k) => k + 1);
+
+        const mintAddress = summary.mint;
         setTokenMintAddress(mintAddress);
 
+        // The token exists now, so its draft is no longer needed
+        discardDraft();
+
         // Create complete token metadata
         const tokenMetadata = {
           mintAddress,
@@ -341,6 +316,10 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
           createdAt: Date.now(),
           creatorWallet: publicKey.toBase58(),
           links: token.links || {},
+          tokenProgram: token.tokenProgram,
+          allocations: summary.allocations,
+          metadataUri: metadataUrl,
+          storageProvider: uploaded.provider,
           tokenType: selectedTokenType, // Add token creation type to metadata
           paymentTxSig: paymentTxSig, // Add payment transaction signature
         };
@@ -366,6 +345,21 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
           }
         }
 
+        // Mint the allocation table (one wallet approval per batch) once the token is recorded,
+        // so a rejected or failed batch can't lose track of the created mint
+        if (followUps.length > 0) {
+          try {
+            await sendFollowUpTxs(connection, sendTransaction, followUps);
+          } catch (error: any) {
+            console.error("Allocation transfers failed:", error);
+            notify({
+              type: "error",
+              message: "Token created, but not every allocation was sent",
+              description: error?.message,
+            });
+          }
+        }
+
         notify({
           type: "success",
           message: "Token was created successfully",
@@ -388,7 +382,7 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
       }
       setIsLoading(false);
     },
-    [publicKey, connection, sendTransaction, selectedTokenType, paymentTxSig, verifyTokenPayment]
+    [publicKey, connection, sendTransaction, selectedTokenType, paymentTxSig, verifyTokenPayment, vanityKeypair, discardDraft]
   );
 
   // IMAGE UPLOAD IPFS
@@ -431,10 +425,10 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
     }
   };
 
-  const uploadMetadata = async (token) => {
+  const uploadMetadata = async (token): Promise<{ uri: string; provider?: StorageProviderName } | null> => {
     if (!token.name || !token.symbol || !token.description || !token.image) {
       notify({ type: "error", message: "Data is missing" });
-      return "";
+      return null;
     }
 
     const metadata = {
@@ -444,8 +438,9 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
       image: token.image,
     };
 
+    setMetadataErrors({});
     try {
-      // Upload via secure server-side API endpoint
+      // Upload via secure server-side API endpoint (validated against the Metaplex standard)
       const response = await axios({
         method: "POST",
         url: "/api/ipfs/upload",
@@ -459,14 +454,15 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
         throw new Error(response.data.message || "Metadata upload failed");
       }
 
-      return response.data.ipfsUrl;
+      return { uri: response.data.uri || response.data.ipfsUrl, provider: response.data.provider };
     } catch (error: any) {
       console.error("IPFS metadata upload error:", error);
+      setMetadataErrors(metadataFieldErrorsFrom(error) || {});
       notify({ 
         type: "error", 
         message: error?.response?.data?.message || "Upload to IPFS failed" 
       });
-      return "";
+      return null;
     } finally {
       setIsLoading(false);
     }
@@ -683,6 +679,33 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
                         </div>
                       </div>
                     )}
+
+                    {/* Token Program Selector */}
+                    <TokenProgramSelector
+                      value={token}
+                      onChange={handleTokenProgramChange}
+                    />
+
+                    {/* Initial Allocation */}
+                    <AllocationTable
+                      value={token.allocations}
+                      onChange={handleAllocationsChange}
+                      supply={token.amount}
+                      decimals={token.decimals}
+                      creatorWallet={publicKey?.toBase58()}
+                    />
+
+                    {/* Vanity mint address (Pro) */}
+                    {hasFeature(selectedTokenType, 'vanityMint') && (
+                      <div className="mt-6">
+                        <VanityMintPanel
+                          key={vanityPanelKey}
+                          symbol={token.symbol}
+                          onKeypairChange={setVanityKeypair}
+                          disabled={isLoading}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -780,6 +803,7 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
 
                       {/* Create Token Button */}
                       <div className="text-center">
+                        <MetadataFieldErrors errors={metadataErrors} className="mb-2 text-left" />
                         <button
                           type="submit"
                           onClick={() => createToken(token)}
@@ -800,6 +824,7 @@ export const CreateViewWithPricing: FC<CreateViewWithPricingProps> = ({ setOpenC
                               : `Create ${selectedTokenType === 'pro' ? 'Pro' : 'Free'} Token`}
                           </span>
                         </button>
+                        <DraftStatus status={saveStatus} />
                       </div>
                     </div>
                   </div>
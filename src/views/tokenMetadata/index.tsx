@@ -1,7 +1,7 @@
 import React, { FC, useCallback, useState } from "react";
 import { useConnection } from "@solana/wallet-adapter-react";
-import { PublicKey } from "@solana/web3.js";
-import { Metadata, PROGRAM_ID } from "@metaplex-foundation/mpl-token-metadata";
+import { readMetadataState } from "../../lib/metadataUpdate";
+import { checkMetadataCompliance, MetadataIssue } from "../../lib/metadataSchema";
 import { AiOutlineClose } from "react-icons/ai";
 import { ClipLoader } from "react-spinners";
 import { notify } from "../../utils/notifications";
@@ -22,6 +22,7 @@ export const TokenMetadata: FC<TokenMetadataProps> = ({
   const [logo, setLogo] = useState(null);
   const [loaded, setLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [compliance, setCompliance] = useState<{ compliant: boolean; issues: MetadataIssue[] } | null>(null);
 
   // FETCH METADATA FUNCTION
   const getMetadata = useCallback(
@@ -29,25 +30,16 @@ export const TokenMetadata: FC<TokenMetadataProps> = ({
       setIsLoading(true);
 
       try {
-        const tokenMint = new PublicKey(form);
-        const metadataPDA = PublicKey.findProgramAddressSync(
-          [
-            Buffer.from("metadata"),
-            PROGRAM_ID.toBuffer(),
-            tokenMint.toBuffer(),
-          ],
-          PROGRAM_ID
-        )[0];
-
-        const metadataAccount = await connection.getAccountInfo(metadataPDA);
-        const [metadata, _] = await Metadata.deserialize(metadataAccount.data);
-
-        let logoRes = await fetch(metadata.data.uri);
-        let logoJson = await logoRes.json();
-        let { image } = logoJson;
-
-        setTokenMetadata({ tokenMetadata, ...metadata.data });
-        setLogo(image);
+        // Metaplex metadata account or Token-2022 embedded metadata
+        const metadata = await readMetadataState(connection, form);
+        if (!metadata) throw new Error("No metadata found for this mint");
+
+        let logoRes = await fetch(metadata.uri);
+        let logoJson = await logoRes.json().catch(() => null);
+
+        setTokenMetadata(metadata);
+        setLogo(logoJson?.image);
+        setCompliance(checkMetadataCompliance(logoJson, { name: metadata.name, symbol: metadata.symbol }));
         setIsLoading(false);
         setLoaded(true);
         setTokenAddress("");
@@ -195,6 +187,26 @@ export const TokenMetadata: FC<TokenMetadataProps> = ({
                         placeholder={tokenMetadata?.uri}
                       />
 
+                      {compliance && (
+                        <div className="mt-4 rounded-lg border border-muted/20 p-3 text-left text-sm">
+                          <p className={`font-semibold ${compliance.compliant ? "text-success" : "text-warning"}`}>
+                            Metaplex standard: {compliance.compliant ? "✅ Compliant" : "⚠ Not compliant"}
+                          </p>
+                          {compliance.issues.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                              {compliance.issues.map((issue) => (
+                                <li
+                                  key={`${issue.field}-${issue.message}`}
+                                  className={issue.level === "error" ? "text-error" : "text-muted"}
+                                >
+                                  {issue.level === "error" ? "✗" : "•"} {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
                       <div className="mb-6 text-center">
                         <a
                           href={tokenMetadata?.uri}